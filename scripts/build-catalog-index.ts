@@ -0,0 +1,77 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { CatalogCourseListingsFile, CatalogIndexFile, CatalogListing } from '../src/types/catalog';
+import type { CourseAliasMapFile } from '../src/types/trends';
+import { normalizeCourseCode } from '../src/constants/courseAliases';
+import { parsePrerequisites } from '../src/services/prerequisiteParser';
+import { COURSE_LISTINGS_DIR, listListingFiles } from './catalog-listing-files';
+
+const COURSE_ALIAS_MAP_PATH = path.join(process.cwd(), 'data/catalog/mappings/course-aliases.json');
+const OUTPUT_PATH = path.join(process.cwd(), 'src/data/catalog/course-index.json');
+
+async function main() {
+  // Editions are processed oldest first, so the newest listing of a course wins
+  const editions = (await readdir(COURSE_LISTINGS_DIR, { withFileTypes: true }))
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  const listings = new Map<string, CatalogListing>();
+  for (const edition of editions) {
+    for (const file of await listListingFiles(path.join(COURSE_LISTINGS_DIR, edition))) {
+      const listing = JSON.parse(await readFile(file, 'utf8')) as CatalogCourseListingsFile;
+      for (const course of listing.catalog?.courses ?? []) {
+        const code = normalizeCourseCode(course.code);
+        if (!code) continue;
+        listings.set(code, {
+          code,
+          title: course.title,
+          credits: course.credits,
+          description: course.description ?? course.description_summary,
+          prerequisites: course.prerequisites,
+          prerequisiteTree: parsePrerequisites(course.prerequisites),
+          corequisites: course.corequisites,
+          notes: course.notes,
+          url: course.links?.search ?? listing.catalog.source.listing_url,
+          edition,
+        });
+      }
+    }
+  }
+
+  // Codes in an alias group without a listing of their own point at the
+  // group's listing, preferring the canonical code's
+  const aliasMap = JSON.parse(await readFile(COURSE_ALIAS_MAP_PATH, 'utf8')) as CourseAliasMapFile;
+  const aliases = new Map<string, string>();
+  for (const entry of aliasMap.entries) {
+    const group = [entry.canonicalCourseCode, ...(entry.aliases ?? [])].map(normalizeCourseCode).filter(Boolean);
+    const target = group.find((code) => listings.has(code));
+    if (!target) continue;
+    for (const code of group) {
+      if (!listings.has(code)) aliases.set(code, target);
+    }
+  }
+
+  const sortedEntries = <T>(map: Map<string, T>) =>
+    Object.fromEntries([...map.entries()].sort(([a], [b]) => a.localeCompare(b)));
+
+  const index: CatalogIndexFile = {
+    schemaVersion: 2,
+    generatedAt: new Date().toISOString(),
+    editions,
+    listings: sortedEntries(listings),
+    aliases: sortedEntries(aliases),
+  };
+
+  await mkdir(path.dirname(OUTPUT_PATH), { recursive: true });
+  await writeFile(OUTPUT_PATH, JSON.stringify(index, null, 2) + '\n', 'utf8');
+
+  console.log(`Indexed ${listings.size} catalog listings and ${aliases.size} aliases from ${editions.join(', ')}`);
+  console.log(`  Wrote: ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,133 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { BannerDataResponse, BannerMeetingTime } from '../src/types/schedule';
+import type { RoomFeature, RoomInventoryFile, RoomRecord } from '../src/types/rooms';
+import {
+  LAB_FEATURE_BY_SUBJECT,
+  LECTURE_HALL_MIN_CAPACITY,
+  isLabMeetingType,
+} from '../src/constants/roomFeatures';
+
+const PUBLIC_TERMS_DIR = path.join(process.cwd(), 'public/data/terms');
+const OUTPUT_PATH = path.join(process.cwd(), 'src/data/rooms/room-inventory.json');
+
+// A room needs this many LAB meetings of a subject before it is treated as that kind of lab
+const MIN_LAB_MEETINGS_FOR_FEATURE = 3;
+
+type RoomAccumulator = {
+  building: string;
+  room: string;
+  capacity: number;
+  sectionCount: number;
+  lastSeenTerm: string;
+  labMeetings: Map<RoomFeature, number>;
+};
+
+function safeNumber(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return 0;
+}
+
+function meetingDays(meeting: BannerMeetingTime): string {
+  return [
+    meeting.monday ? 'M' : '',
+    meeting.tuesday ? 'T' : '',
+    meeting.wednesday ? 'W' : '',
+    meeting.thursday ? 'R' : '',
+    meeting.friday ? 'F' : '',
+  ].join('');
+}
+
+async function main() {
+  const files = (await readdir(PUBLIC_TERMS_DIR))
+    .filter((name) => /^\d{6}\.json$/.test(name))
+    .sort();
+
+  const rooms = new Map<string, RoomAccumulator>();
+  const sourceTerms: string[] = [];
+
+  for (const file of files) {
+    const termCode = file.replace(/\.json$/, '');
+    const payload = JSON.parse(await readFile(path.join(PUBLIC_TERMS_DIR, file), 'utf8')) as BannerDataResponse;
+    if (!Array.isArray(payload.data)) continue;
+    sourceTerms.push(termCode);
+
+    // Stacked and cross-listed sections share one room at one time, so seats
+    // are summed per meeting slot before taking the historical max.
+    const slotSeats = new Map<string, number>();
+
+    for (const course of payload.data) {
+      for (const meetingFaculty of course.meetingsFaculty ?? []) {
+        const meeting = meetingFaculty.meetingTime;
+        if (!meeting?.building || !meeting.room) continue;
+        if (meeting.building === 'ARR' || meeting.room === 'WEB') continue;
+
+        const location = `${meeting.building} ${meeting.room}`;
+        let entry = rooms.get(location);
+        if (!entry) {
+          entry = {
+            building: meeting.building,
+            room: meeting.room,
+            capacity: 0,
+            sectionCount: 0,
+            lastSeenTerm: termCode,
+            labMeetings: new Map(),
+          };
+          rooms.set(location, entry);
+        }
+        entry.sectionCount++;
+        entry.lastSeenTerm = termCode;
+
+        const labFeature = LAB_FEATURE_BY_SUBJECT[course.subject];
+        if (labFeature && isLabMeetingType(meeting.meetingScheduleType ?? '')) {
+          entry.labMeetings.set(labFeature, (entry.labMeetings.get(labFeature) ?? 0) + 1);
+        }
+
+        const slotKey = `${location}|${meetingDays(meeting)}|${meeting.beginTime ?? ''}`;
+        slotSeats.set(slotKey, (slotSeats.get(slotKey) ?? 0) + safeNumber(course.maximumEnrollment));
+      }
+    }
+
+    for (const [slotKey, seats] of slotSeats) {
+      const entry = rooms.get(slotKey.split('|')[0])!;
+      entry.capacity = Math.max(entry.capacity, seats);
+    }
+  }
+
+  const records: RoomRecord[] = Array.from(rooms.entries())
+    .map(([location, entry]) => {
+      const features: RoomFeature[] = Array.from(entry.labMeetings.entries())
+        .filter(([, count]) => count >= MIN_LAB_MEETINGS_FOR_FEATURE)
+        .map(([feature]) => feature);
+      if (entry.capacity >= LECTURE_HALL_MIN_CAPACITY) features.push('lecture-hall');
+
+      return {
+        location,
+        building: entry.building,
+        room: entry.room,
+        capacity: entry.capacity,
+        features: features.sort(),
+        sectionCount: entry.sectionCount,
+        lastSeenTerm: entry.lastSeenTerm,
+      };
+    })
+    .sort((a, b) => a.location.localeCompare(b.location));
+
+  const output: RoomInventoryFile = {
+    schemaVersion: 1,
+    generatedAt: new Date().toISOString(),
+    sourceTerms,
+    rooms: records,
+  };
+
+  await mkdir(path.dirname(OUTPUT_PATH), { recursive: true });
+  await writeFile(OUTPUT_PATH, JSON.stringify(output, null, 2) + '\n', 'utf8');
+  console.log(`Built room inventory: ${records.length} rooms from ${sourceTerms.length} terms.`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
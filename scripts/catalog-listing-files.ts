@@ -0,0 +1,19 @@
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+
+export const COURSE_LISTINGS_DIR = path.join(process.cwd(), 'data/catalog/course-listings');
+
+/**
+ * Every course listing snapshot under `dir` (<edition>/<SUBJ>/<level>.json), sorted
+ */
+export async function listListingFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listListingFiles(entryPath);
+      return entry.name.endsWith('.json') ? [entryPath] : [];
+    })
+  );
+  return files.flat().sort();
+}
@@ -0,0 +1,39 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { CatalogCourseListingsFile } from '../src/types/catalog';
+import { describePrerequisites, parsePrerequisites } from '../src/services/prerequisiteParser';
+import { COURSE_LISTINGS_DIR, listListingFiles } from './catalog-listing-files';
+
+async function main() {
+  const verbose = process.argv.includes('--verbose');
+  const files = await listListingFiles(COURSE_LISTINGS_DIR);
+
+  let checked = 0;
+  let flagged = 0;
+  for (const file of files) {
+    const listing = JSON.parse(await readFile(file, 'utf8')) as CatalogCourseListingsFile;
+    for (const course of listing.catalog.courses) {
+      if (!course.prerequisites) continue;
+      checked += 1;
+
+      const { expression, unparsed } = parsePrerequisites(course.prerequisites);
+      if (verbose && expression) {
+        console.log(`${course.code}: ${describePrerequisites(expression)}`);
+      }
+      if (unparsed.length > 0) {
+        flagged += 1;
+        const where = path.relative(process.cwd(), file);
+        console.log(`${course.code} (${where}): "${course.prerequisites}"`);
+        console.log(`  not understood: ${unparsed.map((text) => `"${text}"`).join(', ')}`);
+      }
+    }
+  }
+
+  console.log(`Checked ${checked} prerequisite statements; ${flagged} need manual review.`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
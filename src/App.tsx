@@ -5,12 +5,14 @@ import { FilterProvider } from './contexts/FilterContext';
 import { StudentProvider } from './contexts/StudentContext';
 import { AcademicCalendarProvider } from './contexts/AcademicCalendarContext';
 import { AppSettingsProvider } from './contexts/AppSettingsContext';
+import { FacultyProfileProvider } from './contexts/FacultyProfileContext';
 import Layout from './components/common/Layout';
 import Dashboard from './pages/Dashboard';
 import Conflicts from './pages/Conflicts';
 import Notes from './pages/Notes';
 import Analytics from './pages/Analytics';
 import Trends from './pages/Trends';
+import TermCompare from './pages/TermCompare';
 import Optimizer from './pages/Optimizer';
 import Documentation from './pages/Documentation';
 import Settings from './pages/Settings';
@@ -23,28 +25,31 @@ function App() {
     <BrowserRouter basename={basePath}>
       <AcademicCalendarProvider>
         <AppSettingsProvider>
-          <ScheduleProvider>
-            <DraftScheduleProvider>
-              <FilterProvider>
-                <StudentProvider>
-                  <Routes>
-                    <Route path="/" element={<Layout />}>
-                      <Route index element={<Dashboard />} />
-                      <Route path="conflicts" element={<Conflicts />} />
-                      <Route path="notes" element={<Notes />} />
-                      <Route path="analytics" element={<Analytics />} />
-                      <Route path="trends" element={<Trends />} />
-                      <Route path="optimizer" element={<Optimizer />} />
-                      <Route path="students" element={<Students />} />
-                      <Route path="docs" element={<Documentation />} />
-                      <Route path="docs/:section" element={<Documentation />} />
-                      <Route path="settings" element={<Settings />} />
-                    </Route>
-                  </Routes>
-                </StudentProvider>
-              </FilterProvider>
-            </DraftScheduleProvider>
-          </ScheduleProvider>
+          <FacultyProfileProvider>
+            <ScheduleProvider>
+              <DraftScheduleProvider>
+                <FilterProvider>
+                  <StudentProvider>
+                    <Routes>
+                      <Route path="/" element={<Layout />}>
+                        <Route index element={<Dashboard />} />
+                        <Route path="conflicts" element={<Conflicts />} />
+                        <Route path="notes" element={<Notes />} />
+                        <Route path="analytics" element={<Analytics />} />
+                        <Route path="trends" element={<Trends />} />
+                        <Route path="compare" element={<TermCompare />} />
+                        <Route path="optimizer" element={<Optimizer />} />
+                        <Route path="students" element={<Students />} />
+                        <Route path="docs" element={<Documentation />} />
+                        <Route path="docs/:section" element={<Documentation />} />
+                        <Route path="settings" element={<Settings />} />
+                      </Route>
+                    </Routes>
+                  </StudentProvider>
+                </FilterProvider>
+              </DraftScheduleProvider>
+            </ScheduleProvider>
+          </FacultyProfileProvider>
         </AppSettingsProvider>
       </AcademicCalendarProvider>
     </BrowserRouter>
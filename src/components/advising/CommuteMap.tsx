@@ -0,0 +1,186 @@
+/**
+ * =============================================================================
+ * COMPONENT: CommuteMap
+ * =============================================================================
+ *
+ * PURPOSE: Draw one day of a student's commute on the campus map. Buildings
+ * sit at their CampusBuilding.mapPosition; the day's path runs from class to
+ * class, with tight and impossible moves highlighted.
+ * =============================================================================
+ */
+
+import { useMemo, useState } from 'react';
+import type { CommuteAnalysis, CampusBuilding } from '../../types/advising';
+import { getBuilding, getBuildingsByCampus } from '../../constants/buildings';
+import { DAYS_OF_WEEK } from '../../constants/timeSlots';
+import { getTransitionSeverity } from '../../services/commuteAnalysis';
+
+const MAP_PADDING = 60;
+
+const SEVERITY_STYLES: Record<CommuteAnalysis['severity'], { stroke: string; badge: string; label: string }> = {
+  ok: { stroke: '#2563EB', badge: 'bg-green-100 text-green-700', label: 'OK' },
+  warning: { stroke: '#D97706', badge: 'bg-amber-100 text-amber-800', label: 'Tight' },
+  error: { stroke: '#DC2626', badge: 'bg-red-100 text-red-700', label: 'Not feasible' },
+};
+
+interface CommuteMapProps {
+  analyses: CommuteAnalysis[];
+}
+
+function dayLabel(day: string): string {
+  return DAYS_OF_WEEK.find((d) => d.key === day)?.display ?? day;
+}
+
+/**
+ * Buildings on every campus the day visits, and the box around them
+ */
+function layoutMap(analysis: CommuteAnalysis) {
+  const visited = analysis.buildings.map((code) => getBuilding(code)).filter((b): b is CampusBuilding => !!b);
+  const campuses = new Set(visited.map((b) => b.campus));
+  const shown = [...campuses].flatMap((campus) => getBuildingsByCampus(campus));
+  const xs = shown.map((b) => b.mapPosition.x);
+  const ys = shown.map((b) => b.mapPosition.y);
+  const minX = Math.min(...xs) - MAP_PADDING;
+  const minY = Math.min(...ys) - MAP_PADDING;
+
+  return {
+    shown,
+    viewBox: `${minX} ${minY} ${Math.max(...xs) - minX + MAP_PADDING} ${Math.max(...ys) - minY + MAP_PADDING}`,
+    unmapped: [...new Set(analysis.buildings.filter((code) => !getBuilding(code)))],
+  };
+}
+
+export default function CommuteMap({ analyses }: CommuteMapProps) {
+  const [selectedDay, setSelectedDay] = useState(analyses[0]?.day ?? null);
+  const analysis = analyses.find((a) => a.day === selectedDay) ?? analyses[0];
+  const layout = useMemo(() => (analysis ? layoutMap(analysis) : null), [analysis]);
+
+  if (!analysis || !layout) {
+    return <p className="text-xs text-gray-500">No in-person classes to walk between.</p>;
+  }
+
+  const visited = new Set(analysis.buildings);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {analyses.map((a) => (
+          <button
+            key={a.day}
+            className={`px-2 py-1 rounded-lg text-xs border ${
+              a.day === analysis.day ? 'border-gray-900 text-gray-900' : 'border-gray-200 text-gray-600'
+            }`}
+            onClick={() => setSelectedDay(a.day)}
+          >
+            {dayLabel(a.day)}
+            {a.severity !== 'ok' && (
+              <span className={`ml-1 px-1 rounded ${SEVERITY_STYLES[a.severity].badge}`}>{SEVERITY_STYLES[a.severity].label}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {layout.shown.length > 0 && (
+        <svg
+          className="w-full max-h-72 border border-gray-200 rounded-xl bg-white"
+          viewBox={layout.viewBox}
+          role="img"
+          aria-label={`${dayLabel(analysis.day)} commute map`}
+        >
+          <defs>
+            {(Object.keys(SEVERITY_STYLES) as CommuteAnalysis['severity'][]).map((severity) => (
+              <marker
+                key={severity}
+                id={`commute-arrow-${severity}`}
+                viewBox="0 0 10 10"
+                refX="18"
+                refY="5"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={SEVERITY_STYLES[severity].stroke} />
+              </marker>
+            ))}
+          </defs>
+
+          {analysis.transitions.map((transition, i) => {
+            const from = getBuilding(transition.from);
+            const to = getBuilding(transition.to);
+            if (!from || !to || from.code === to.code) return null;
+            const severity = getTransitionSeverity(transition);
+            return (
+              <line
+                key={i}
+                x1={from.mapPosition.x}
+                y1={from.mapPosition.y}
+                x2={to.mapPosition.x}
+                y2={to.mapPosition.y}
+                stroke={SEVERITY_STYLES[severity].stroke}
+                strokeWidth={severity === 'ok' ? 3 : 5}
+                strokeDasharray={transition.walkingMinutes === -1 ? '12 8' : undefined}
+                markerEnd={`url(#commute-arrow-${severity})`}
+              />
+            );
+          })}
+
+          {layout.shown.map((building) => {
+            const order = analysis.buildings.indexOf(building.code);
+            const isVisited = visited.has(building.code);
+            return (
+              <g key={building.code}>
+                <title>{building.name}</title>
+                <circle
+                  cx={building.mapPosition.x}
+                  cy={building.mapPosition.y}
+                  r={isVisited ? 14 : 8}
+                  fill={isVisited ? '#111827' : '#E5E7EB'}
+                />
+                {isVisited && (
+                  <text
+                    x={building.mapPosition.x}
+                    y={building.mapPosition.y + 5}
+                    textAnchor="middle"
+                    fontSize="14"
+                    fill="#FFFFFF"
+                  >
+                    {order + 1}
+                  </text>
+                )}
+                <text
+                  x={building.mapPosition.x}
+                  y={building.mapPosition.y - 20}
+                  textAnchor="middle"
+                  fontSize="16"
+                  fill={isVisited ? '#111827' : '#9CA3AF'}
+                >
+                  {building.code}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      <ul className="space-y-0.5 text-xs text-gray-700">
+        {analysis.transitions.map((transition, i) => {
+          const severity = getTransitionSeverity(transition);
+          return (
+            <li key={i} className={severity === 'ok' ? '' : severity === 'error' ? 'text-red-700' : 'text-amber-800'}>
+              {transition.fromCourse} ({transition.from}) → {transition.toCourse} ({transition.to}) ·{' '}
+              {transition.walkingMinutes === -1 ? 'cross-campus drive' : `${transition.walkingMinutes} min walk`} ·{' '}
+              {transition.gapMinutes} min between classes
+            </li>
+          );
+        })}
+        {analysis.transitions.length > 0 && (
+          <li className="text-gray-500">
+            {analysis.totalWalkingMinutes} min walking
+            {analysis.crossCampusTransitions > 0 && ` · ${analysis.crossCampusTransitions} cross-campus`}
+          </li>
+        )}
+        {layout.unmapped.length > 0 && <li className="text-gray-500">Not on the map: {layout.unmapped.join(', ')}</li>}
+      </ul>
+    </div>
+  );
+}
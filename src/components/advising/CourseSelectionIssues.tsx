@@ -0,0 +1,39 @@
+/**
+ * =============================================================================
+ * COMPONENT: CourseSelectionIssues
+ * =============================================================================
+ *
+ * PURPOSE: List prerequisite and corequisite problems with a persona's
+ * course selection, each with its suggested fix.
+ * =============================================================================
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import type { StudentScheduleConflict } from '../../types/advising';
+
+interface CourseSelectionIssuesProps {
+  conflicts: StudentScheduleConflict[];
+}
+
+export default function CourseSelectionIssues({ conflicts }: CourseSelectionIssuesProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {conflicts.map((conflict) => (
+        <li
+          key={conflict.id}
+          className={`flex items-start gap-2 p-2 rounded-lg text-sm ${
+            conflict.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+          }`}
+        >
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            {conflict.description}
+            {conflict.suggestion && <span className="opacity-80"> — {conflict.suggestion}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * =============================================================================
+ * COMPONENT: DegreeAuditCard
+ * =============================================================================
+ *
+ * PURPOSE: Show the degree audit for a persona: each core, support and
+ * elective requirement as satisfied, in progress or missing, plus the GPA
+ * and credit checks. When offering patterns are loaded, each course shows
+ * when it actually runs and where that disagrees with the catalog.
+ * =============================================================================
+ */
+
+import { useMemo } from 'react';
+import { ClipboardCheck, CheckCircle2, Clock, XCircle, AlertTriangle } from 'lucide-react';
+import type { DegreeProgram, StudentPersona } from '../../types/advising';
+import { formatTerm } from '../../constants/academicTerms';
+import { auditDegree, type AuditCourseItem, type AuditStatus, type GPACheck } from '../../services/degreeAudit';
+import {
+  compareWithCatalog,
+  describeOfferingPattern,
+  getOfferingPattern,
+  type OfferingPatternIndex,
+} from '../../services/offeringPatterns';
+
+const STATUS_STYLES: Record<AuditStatus, { label: string; className: string; Icon: typeof CheckCircle2 }> = {
+  satisfied: { label: 'Satisfied', className: 'text-green-700', Icon: CheckCircle2 },
+  'in-progress': { label: 'In progress', className: 'text-blue-700', Icon: Clock },
+  missing: { label: 'Missing', className: 'text-gray-400', Icon: XCircle },
+};
+
+interface DegreeAuditCardProps {
+  persona: StudentPersona;
+  program: DegreeProgram;
+  offeringPatterns?: OfferingPatternIndex | null;
+}
+
+function StatusIcon({ status }: { status: AuditStatus }) {
+  const { label, className, Icon } = STATUS_STYLES[status];
+  return <Icon className={`w-4 h-4 flex-shrink-0 ${className}`} aria-label={label} />;
+}
+
+function CourseRow({ item, offeringPatterns }: { item: AuditCourseItem; offeringPatterns: OfferingPatternIndex | null }) {
+  const notes: string[] = [];
+  if (item.isTransfer) notes.push('Transfer');
+  if (item.attempts > 1) notes.push(`${item.attempts} attempts, best counts`);
+  if (item.belowMinimum) notes.push(`Below ${item.requirement.minimumGrade} minimum`);
+  if (item.countedToward) notes.push(`Counted toward ${item.countedToward}`);
+  else if (item.alsoListedIn.length > 0) notes.push(`Also listed in ${item.alsoListedIn.join(', ')}`);
+
+  const pattern = offeringPatterns ? getOfferingPattern(offeringPatterns, item.requirement.courseCode) : undefined;
+  const discrepancies = offeringPatterns ? compareWithCatalog(item.requirement, offeringPatterns) : [];
+
+  return (
+    <li className="flex items-start gap-2 py-1.5 text-sm">
+      <StatusIcon status={item.status} />
+      <div className="flex-1 min-w-0">
+        <span className="font-medium text-gray-900">{item.requirement.courseCode}</span>{' '}
+        <span className="text-gray-600">{item.requirement.title}</span>
+        {notes.length > 0 && (
+          <div className={`text-xs ${item.belowMinimum ? 'text-red-600' : 'text-gray-500'}`}>{notes.join(' · ')}</div>
+        )}
+        {pattern && item.status !== 'satisfied' && (
+          <div className="text-xs text-gray-500">Runs {describeOfferingPattern(pattern)}</div>
+        )}
+        {discrepancies.length > 0 && (
+          <div className="flex items-start gap-1 text-xs text-amber-700">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+            <span>{discrepancies.map((d) => d.message).join('; ')}</span>
+          </div>
+        )}
+      </div>
+      {item.grade && (
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {item.grade}
+          {item.term && ` · ${formatTerm(item.term)}`}
+        </span>
+      )}
+    </li>
+  );
+}
+
+function GpaTile({ label, gpa }: { label: string; gpa: GPACheck }) {
+  return (
+    <div className="text-center p-3 bg-gray-50 rounded-xl">
+      <div className={`text-lg font-bold ${gpa.met === false ? 'text-red-600' : 'text-gray-900'}`}>
+        {gpa.value !== null ? gpa.value.toFixed(2) : 'N/A'}
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {label} (min {gpa.required.toFixed(2)})
+      </div>
+    </div>
+  );
+}
+
+export default function DegreeAuditCard({ persona, program, offeringPatterns = null }: DegreeAuditCardProps) {
+  const audit = useMemo(() => auditDegree(persona, program), [persona, program]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Degree Audit</h3>
+        </div>
+        <span className="text-sm text-gray-500">
+          {audit.summary.satisfied} satisfied · {audit.summary['in-progress']} in progress · {audit.summary.missing} missing
+        </span>
+      </div>
+
+      {/* Checks */}
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <GpaTile label="GPA" gpa={audit.gpa.overall} />
+        {audit.gpa.major ? (
+          <GpaTile label="Major GPA" gpa={audit.gpa.major} />
+        ) : (
+          <div className="text-center p-3 bg-gray-50 rounded-xl">
+            <div className="text-lg font-bold text-gray-900">—</div>
+            <div className="text-xs text-gray-500 mt-1">No major GPA minimum</div>
+          </div>
+        )}
+        <div className="text-center p-3 bg-gray-50 rounded-xl">
+          <div className="text-lg font-bold text-gray-900">
+            {audit.creditsEarned} / {audit.creditsRequired}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Credits earned</div>
+        </div>
+      </div>
+
+      {audit.complete && (
+        <div className="flex items-center gap-2 p-3 mb-4 rounded-xl text-sm bg-green-50 text-green-800">
+          <CheckCircle2 className="w-4 h-4" />
+          All program requirements are met
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Core Courses</h4>
+          <ul className="divide-y divide-gray-100">
+            {audit.core.map((item) => (
+              <CourseRow key={item.requirement.courseCode} item={item} offeringPatterns={offeringPatterns} />
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Support Courses</h4>
+          <ul className="divide-y divide-gray-100">
+            {audit.support.map((item) => (
+              <CourseRow key={item.requirement.courseCode} item={item} offeringPatterns={offeringPatterns} />
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {audit.electiveGroups.map(({ group, status, options, countSatisfied, creditsSatisfied }) => (
+        <div key={group.id} className="mt-6">
+          <div className="flex items-center gap-2 mb-1">
+            <StatusIcon status={status} />
+            <h4 className="text-sm font-semibold text-gray-700">{group.name}</h4>
+            <span className="text-xs text-gray-500">
+              {countSatisfied}/{group.requiredCount} courses · {creditsSatisfied}/{group.requiredCredits} credits
+            </span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {options.map((item) => (
+              <CourseRow key={item.requirement.courseCode} item={item} offeringPatterns={offeringPatterns} />
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
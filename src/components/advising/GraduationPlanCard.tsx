@@ -0,0 +1,152 @@
+/**
+ * =============================================================================
+ * COMPONENT: GraduationPlanCard
+ * =============================================================================
+ *
+ * PURPOSE: Show the generated quarter-by-quarter graduation plan for a
+ * persona, with the courses that could delay graduation and anything that
+ * keeps the plan from finishing.
+ * =============================================================================
+ */
+
+import { useMemo, useState } from 'react';
+import { CalendarRange, AlertTriangle, CheckCircle2, Clock } from 'lucide-react';
+import type { DegreeProgram, StudentPersona } from '../../types/advising';
+import type { CatalogIndexFile } from '../../types/catalog';
+import { formatTerm } from '../../constants/academicTerms';
+import { generateGraduationPlan } from '../../services/graduationPlanner';
+import type { OfferingPatternIndex } from '../../services/offeringPatterns';
+
+interface GraduationPlanCardProps {
+  persona: StudentPersona;
+  program: DegreeProgram;
+  /** Plan with the quarters courses actually run in, when loaded */
+  offeringPatterns?: OfferingPatternIndex | null;
+  /** Catalog index, for its listings' prerequisite trees */
+  catalog?: CatalogIndexFile | null;
+}
+
+export default function GraduationPlanCard({
+  persona,
+  program,
+  offeringPatterns = null,
+  catalog = null,
+}: GraduationPlanCardProps) {
+  const [includeSummer, setIncludeSummer] = useState(false);
+
+  const plan = useMemo(
+    () => generateGraduationPlan(persona, program, { includeSummer, offeringPatterns, catalog }),
+    [persona, program, includeSummer, offeringPatterns, catalog]
+  );
+  const bottlenecks = new Set(plan.summary.bottleneckCourses);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Graduation Plan</h3>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={includeSummer} onChange={(e) => setIncludeSummer(e.target.checked)} />
+          Use summer quarters
+        </label>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="text-center p-3 bg-gray-50 rounded-xl">
+          <div className="text-lg font-bold text-gray-900">
+            {plan.quarterPlans.length > 0 ? formatTerm(plan.summary.estimatedGraduation) : 'Done'}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Estimated finish</div>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded-xl">
+          <div className="text-lg font-bold text-gray-900">{plan.quartersRemaining}</div>
+          <div className="text-xs text-gray-500 mt-1">Quarters</div>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded-xl">
+          <div className="text-lg font-bold text-gray-900">{plan.summary.totalCreditsRemaining}</div>
+          <div className="text-xs text-gray-500 mt-1">Major credits left</div>
+        </div>
+      </div>
+
+      <div
+        className={`flex items-center gap-2 p-3 rounded-xl text-sm mb-4 ${
+          plan.summary.onTrack ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'
+        }`}
+      >
+        {plan.summary.onTrack ? <CheckCircle2 className="w-4 h-4" /> : <Clock className="w-4 h-4" />}
+        {plan.summary.onTrack
+          ? `On track for ${formatTerm(persona.expectedGraduation)}`
+          : `Expected ${formatTerm(persona.expectedGraduation)} is at risk`}
+      </div>
+
+      {plan.blockers.length > 0 && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            Blockers
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {plan.blockers.map((blocker) => (
+              <li key={blocker}>{blocker}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {bottlenecks.size > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          <span className="font-medium text-gray-900">Bottlenecks:</span>{' '}
+          {plan.summary.bottleneckCourses.join(', ')}
+          <span className="text-gray-500"> (on the longest prerequisite chain or offered once a year)</span>
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500 mb-2">
+        {offeringPatterns
+          ? `Quarters offered are taken from the ${formatTerm(offeringPatterns.from)}–${formatTerm(offeringPatterns.to)} schedules`
+          : 'Quarters offered are taken from the catalog'}
+      </p>
+
+      {/* Quarters */}
+      {plan.quarterPlans.length === 0 ? (
+        <p className="text-sm text-gray-500">All major requirements are complete or in progress.</p>
+      ) : (
+        <div className="space-y-2">
+          {plan.quarterPlans.map((quarter) => (
+            <div key={quarter.term} className="p-3 bg-gray-50 rounded-xl">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-900">{quarter.termLabel}</span>
+                <span className="text-sm text-gray-500">{quarter.totalCredits} cr</span>
+              </div>
+              {quarter.courses.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {quarter.courses.map(({ requirement }) => (
+                    <span
+                      key={requirement.courseCode}
+                      className={`px-2 py-1 rounded-lg text-xs font-medium border ${
+                        bottlenecks.has(requirement.courseCode)
+                          ? 'bg-red-50 border-red-200 text-red-800'
+                          : 'bg-white border-gray-200 text-gray-800'
+                      }`}
+                      title={`${requirement.title} · ${requirement.credits} cr`}
+                    >
+                      {requirement.courseCode}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {[...quarter.warnings, ...quarter.conflicts.map((c) => c.description)].map((warning) => (
+                <p key={warning} className="text-xs text-amber-700 mt-1">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,13 +12,37 @@
  * - Uses Tailwind CSS for responsive, utility-first styling
  * - Implements touch-friendly design (44px minimum touch targets)
  * - Shows key persona info at a glance
+ * - Projects the finish term from the graduation plan, using the quarters
+ *   courses actually run in once the schedules are loaded
+ * - Links current courses to their catalog listings, flagging any whose
+ *   scheduled credits differ from the catalog
  * =============================================================================
  */
 
-import { GraduationCap, Calendar, MoreVertical } from 'lucide-react';
-import type { StudentPersona } from '../../types/advising';
+import { useEffect, useMemo, useState } from 'react';
+import { GraduationCap, Calendar, MoreVertical, CalendarRange, AlertTriangle } from 'lucide-react';
+import type { DegreeProgram, StudentPersona } from '../../types/advising';
+import type { CatalogListing } from '../../types/catalog';
 import { formatTerm, getQuartersBetween, getCurrentTerm } from '../../constants/academicTerms';
-import { getAvailablePrograms } from '../../services/catalogParser';
+import { getAvailablePrograms, loadProgram } from '../../services/catalogParser';
+import { findCatalogListing, getCreditDisagreement } from '../../services/catalogListings';
+import { generateGraduationPlan } from '../../services/graduationPlanner';
+import { normalizeCourseCode } from '../../constants/courseAliases';
+import { useCourses } from '../../contexts/ScheduleContext';
+import { useOfferingPatterns } from '../../hooks/useOfferingPatterns';
+import { useCatalogIndex } from '../../hooks/useCatalogIndex';
+
+// Hover text for a current course: catalog title, description and prerequisites
+function describeListing(listing: CatalogListing, creditDisagreement: string | null): string {
+  return [
+    `${listing.title} (${listing.credits} cr)`,
+    listing.description,
+    listing.prerequisites && `Prerequisites: ${listing.prerequisites}`,
+    creditDisagreement,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
 
 interface PersonaCardProps {
   persona: StudentPersona;
@@ -40,13 +64,46 @@ export default function PersonaCard({
   const program = programs.find((p) => p.slug === persona.primaryMajor);
   const programName = program?.name || persona.primaryMajor;
 
+  const [degreeProgram, setDegreeProgram] = useState<DegreeProgram | null>(null);
+  const offeringPatterns = useOfferingPatterns();
+  const catalogIndex = useCatalogIndex();
+  const scheduledCourses = useCourses();
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProgram(persona.primaryMajor).then((loaded) => {
+      if (!cancelled) setDegreeProgram(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [persona.primaryMajor]);
+
+  const plan = useMemo(
+    () => (degreeProgram ? generateGraduationPlan(persona, degreeProgram, { offeringPatterns, catalog: catalogIndex }) : null),
+    [persona, degreeProgram, offeringPatterns, catalogIndex]
+  );
+
+  const currentCourses = useMemo(
+    () =>
+      persona.currentCourses.map((code) => {
+        const listing = catalogIndex ? findCatalogListing(catalogIndex, code) : null;
+        const bannerCredits = scheduledCourses
+          .filter((c) => normalizeCourseCode(c.displayCode) === normalizeCourseCode(code))
+          .map((c) => c.credits);
+        return { code, listing, creditDisagreement: listing ? getCreditDisagreement(listing, bannerCredits) : null };
+      }),
+    [persona.currentCourses, catalogIndex, scheduledCourses]
+  );
+
   // Calculate progress
   const completedCredits = persona.completedCourses.reduce((sum, c) => sum + c.credits, 0);
   const quartersRemaining = getQuartersBetween(getCurrentTerm(), persona.expectedGraduation);
 
-  // Determine if on track (simple heuristic)
+  // Determine if on track: from the plan when the program is loaded,
+  // otherwise a simple credits-per-quarter heuristic
   const expectedProgress = ((12 - Math.max(0, quartersRemaining)) / 12) * 120;
-  const isOnTrack = completedCredits >= expectedProgress * 0.8;
+  const isOnTrack = plan ? plan.summary.onTrack : completedCredits >= expectedProgress * 0.8;
 
   return (
     <div
@@ -142,6 +199,35 @@ export default function PersonaCard({
           </div>
         </div>
 
+        {/* Current courses, linked to the catalog */}
+        {currentCourses.length > 0 && (
+          <div className="mt-3 flex flex-wrap items-center gap-1.5 text-xs">
+            <span className="text-gray-500">Taking</span>
+            {currentCourses.map(({ code, listing, creditDisagreement }) =>
+              listing ? (
+                <a
+                  key={code}
+                  href={listing.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={(e) => e.stopPropagation()}
+                  title={describeListing(listing, creditDisagreement)}
+                  className={`px-2 py-0.5 rounded flex items-center gap-1 hover:underline ${
+                    creditDisagreement ? 'bg-amber-50 text-amber-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {creditDisagreement && <AlertTriangle className="w-3 h-3" />}
+                  {code}
+                </a>
+              ) : (
+                <span key={code} className="px-2 py-0.5 rounded bg-gray-100 text-gray-500" title="Not in the catalog listings">
+                  {code}
+                </span>
+              )
+            )}
+          </div>
+        )}
+
         {/* Meta info */}
         <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
           <div className="flex items-center gap-1 whitespace-nowrap">
@@ -152,6 +238,15 @@ export default function PersonaCard({
             <GraduationCap className="w-3.5 h-3.5 flex-shrink-0" />
             <span>Expected {formatTerm(persona.expectedGraduation)}</span>
           </div>
+          {plan && plan.quarterPlans.length > 0 && (
+            <div
+              className={`flex items-center gap-1 whitespace-nowrap ${isOnTrack ? '' : 'text-yellow-600'}`}
+              title={offeringPatterns ? 'Planned with the quarters courses actually run in' : 'Planned with catalog quarters'}
+            >
+              <CalendarRange className="w-3.5 h-3.5 flex-shrink-0" />
+              <span>Projected {formatTerm(plan.summary.estimatedGraduation)}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -13,16 +13,21 @@
  * - Uses controlled form inputs for React state management
  * - Implements form validation before submission
  * - Shows privacy reminder for first-time users
+ * - Checks current courses against the major's prerequisites as you type
  * =============================================================================
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { X, AlertTriangle, Info } from 'lucide-react';
-import type { StudentPersona, PersonaEmoji } from '../../types/advising';
-import { getAvailablePrograms } from '../../services/catalogParser';
+import type { DegreeProgram, StudentPersona, PersonaEmoji } from '../../types/advising';
+import { getAvailablePrograms, loadProgram } from '../../services/catalogParser';
+import { validateCourseSelection } from '../../services/courseSelectionValidator';
+import { normalizeCourseCode } from '../../constants/courseAliases';
 import { getCurrentTerm, addQuarters, formatTerm } from '../../constants/academicTerms';
 import EmojiPicker, { DEFAULT_EMOJI } from './EmojiPicker';
+import CourseSelectionIssues from './CourseSelectionIssues';
 import { hasShownPrivacyReminder, markPrivacyReminderShown } from '../../contexts/StudentContext';
+import { useCatalogIndex } from '../../hooks/useCatalogIndex';
 
 interface PersonaFormModalProps {
   isOpen: boolean;
@@ -51,6 +56,9 @@ export default function PersonaFormModal({
   const [preferredCampus, setPreferredCampus] = useState<'Cheney' | 'Spokane U-District' | undefined>();
   const [maxCredits, setMaxCredits] = useState(15);
   const [notes, setNotes] = useState('');
+  const [currentCourses, setCurrentCourses] = useState('');
+  const [program, setProgram] = useState<DegreeProgram | null>(null);
+  const catalogIndex = useCatalogIndex();
 
   // Privacy reminder state
   const [showPrivacyReminder, setShowPrivacyReminder] = useState(false);
@@ -65,6 +73,7 @@ export default function PersonaFormModal({
         setPreferredCampus(existingPersona.preferredCampus);
         setMaxCredits(existingPersona.maxCreditsPerQuarter || 15);
         setNotes(existingPersona.notes || '');
+        setCurrentCourses(existingPersona.currentCourses.join(', '));
       } else {
         // New persona - reset to defaults
         setEmoji(DEFAULT_EMOJI);
@@ -74,6 +83,7 @@ export default function PersonaFormModal({
         setPreferredCampus(undefined);
         setMaxCredits(15);
         setNotes('');
+        setCurrentCourses('');
 
         // Show privacy reminder for first-time users
         if (!hasShownPrivacyReminder()) {
@@ -83,6 +93,36 @@ export default function PersonaFormModal({
     }
   }, [isOpen, existingPersona]);
 
+  // Load the selected major for prerequisite checks
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setProgram(null);
+    loadProgram(primaryMajor).then((loaded) => {
+      if (!cancelled) setProgram(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, primaryMajor]);
+
+  const currentCourseCodes = useMemo(
+    () => [...new Set(currentCourses.split(',').map(normalizeCourseCode).filter(Boolean))],
+    [currentCourses]
+  );
+  const selectionConflicts = useMemo(
+    () =>
+      program
+        ? validateCourseSelection(
+            { completedCourses: existingPersona?.completedCourses ?? [] },
+            currentCourseCodes,
+            program,
+            catalogIndex
+          )
+        : [],
+    [program, catalogIndex, existingPersona, currentCourseCodes]
+  );
+
   // Calculate expected graduation based on start term and years
   const expectedGraduation = addQuarters(startTerm, yearsToGraduate * 4 - 1);
 
@@ -103,7 +143,7 @@ export default function PersonaFormModal({
       startTerm,
       expectedGraduation,
       completedCourses: existingPersona?.completedCourses || [],
-      currentCourses: existingPersona?.currentCourses || [],
+      currentCourses: currentCourseCodes,
       preferredCampus,
       maxCreditsPerQuarter: maxCredits,
       notes: notes.trim() || undefined,
@@ -292,6 +332,25 @@ export default function PersonaFormModal({
               </p>
             </div>
 
+            {/* Current Courses */}
+            <div>
+              <label htmlFor="currentCourses" className="block text-sm font-medium text-gray-700 mb-1">
+                Current Courses (optional)
+              </label>
+              <input
+                id="currentCourses"
+                type="text"
+                value={currentCourses}
+                onChange={(e) => setCurrentCourses(e.target.value)}
+                placeholder="e.g., CSCD 210, MATH 161"
+                className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-ewu-red focus:border-ewu-red"
+              />
+              <p className="mt-1 mb-2 text-xs text-gray-500">
+                Comma-separated; checked against the major's prerequisites
+              </p>
+              <CourseSelectionIssues conflicts={selectionConflicts} />
+            </div>
+
             {/* Notes */}
             <div>
               <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,243 @@
+/**
+ * =============================================================================
+ * COMPONENT: PrerequisiteMap
+ * =============================================================================
+ *
+ * PURPOSE: Draw a program's prerequisite graph as layered columns (one per
+ * depth) and color every course by where the persona stands on it.
+ *
+ * INTERACTION:
+ * - Hover or click a course to trace everything it needs and unlocks
+ * - The critical path (longest chain) can be outlined to show which
+ *   courses delay graduation if taken late
+ * =============================================================================
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, GitBranch } from 'lucide-react';
+import type { PrerequisiteGraph, PrerequisiteNode } from '../../types/advising';
+import {
+  getAllDependentsOf,
+  getAllPrerequisitesOf,
+  getCriticalPathCourses,
+  type PrerequisiteCourseState,
+  type PrerequisiteMapStatus,
+} from '../../services/prerequisiteGraph';
+
+const NODE_WIDTH = 104;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 56;
+const ROW_GAP = 14;
+const PADDING = 12;
+
+const STATUS_STYLES: Record<PrerequisiteMapStatus, { label: string; fill: string; stroke: string; text: string }> = {
+  completed: { label: 'Completed', fill: '#DCFCE7', stroke: '#16A34A', text: '#14532D' },
+  'in-progress': { label: 'In progress', fill: '#DBEAFE', stroke: '#2563EB', text: '#1E3A8A' },
+  available: { label: 'Available next', fill: '#FEF3C7', stroke: '#D97706', text: '#78350F' },
+  blocked: { label: 'Blocked', fill: '#F3F4F6', stroke: '#9CA3AF', text: '#4B5563' },
+};
+
+interface PrerequisiteMapProps {
+  graph: PrerequisiteGraph;
+  states: Map<string, PrerequisiteCourseState>;
+}
+
+interface PositionedNode {
+  node: PrerequisiteNode;
+  x: number;
+  y: number;
+}
+
+function layoutGraph(graph: PrerequisiteGraph): { positions: Map<string, PositionedNode>; width: number; height: number } {
+  const columns: PrerequisiteNode[][] = Array.from({ length: graph.maxDepth + 1 }, () => []);
+  for (const node of graph.nodes.values()) columns[node.depth].push(node);
+
+  const positions = new Map<string, PositionedNode>();
+  let tallest = 0;
+  columns.forEach((column, depth) => {
+    column.sort((a, b) => a.courseCode.localeCompare(b.courseCode));
+    column.forEach((node, row) => {
+      positions.set(node.courseCode, {
+        node,
+        x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+    tallest = Math.max(tallest, column.length);
+  });
+
+  return {
+    positions,
+    width: PADDING * 2 + columns.length * NODE_WIDTH + (columns.length - 1) * COLUMN_GAP,
+    height: PADDING * 2 + tallest * NODE_HEIGHT + Math.max(0, tallest - 1) * ROW_GAP,
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+export default function PrerequisiteMap({ graph, states }: PrerequisiteMapProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+
+  const layout = useMemo(() => layoutGraph(graph), [graph]);
+  const criticalPath = useMemo(() => getCriticalPathCourses(graph), [graph]);
+
+  const focus = hovered ?? selected;
+  const related = useMemo(() => {
+    if (!focus) return null;
+    return {
+      before: getAllPrerequisitesOf(graph, focus),
+      after: getAllDependentsOf(graph, focus),
+    };
+  }, [focus, graph]);
+
+  const isRelated = (code: string) => !related || code === focus || related.before.has(code) || related.after.has(code);
+
+  const counts = useMemo(() => {
+    const result: Record<PrerequisiteMapStatus, number> = { completed: 0, 'in-progress': 0, available: 0, blocked: 0 };
+    for (const state of states.values()) result[state.status] += 1;
+    return result;
+  }, [states]);
+
+  const selectedNode = selected ? graph.nodes.get(selected) ?? null : null;
+  const selectedState = selected ? states.get(selected) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          {(Object.keys(STATUS_STYLES) as PrerequisiteMapStatus[]).map((status) => (
+            <span key={status} className="flex items-center gap-1.5 text-gray-600">
+              <span
+                className="w-3 h-3 rounded border"
+                style={{ backgroundColor: STATUS_STYLES[status].fill, borderColor: STATUS_STYLES[status].stroke }}
+              />
+              {STATUS_STYLES[status].label} ({counts[status]})
+            </span>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input type="checkbox" checked={showCriticalPath} onChange={(e) => setShowCriticalPath(e.target.checked)} />
+          Outline critical path
+        </label>
+      </div>
+
+      {graph.cycles.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Circular prerequisites in the catalog data:{' '}
+            {graph.cycles.map((cycle) => [...cycle, cycle[0]].join(' → ')).join('; ')}
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white">
+        <svg
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          role="img"
+          aria-label="Prerequisite map"
+        >
+          {Array.from(layout.positions.values()).flatMap(({ node, x, y }) =>
+            node.prerequisites.map((prereq) => {
+              const from = layout.positions.get(prereq);
+              if (!from) return null;
+              const active = focus !== null && isRelated(prereq) && isRelated(node.courseCode);
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = x;
+              const y2 = y + NODE_HEIGHT / 2;
+              const mid = (x1 + x2) / 2;
+              return (
+                <path
+                  key={`${prereq}->${node.courseCode}`}
+                  d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={active ? '#A4232E' : '#D1D5DB'}
+                  strokeWidth={active ? 2 : 1}
+                  opacity={focus && !active ? 0.3 : 1}
+                />
+              );
+            })
+          )}
+
+          {Array.from(layout.positions.values()).map(({ node, x, y }) => {
+            const status = states.get(node.courseCode)?.status ?? 'blocked';
+            const style = STATUS_STYLES[status];
+            const critical = showCriticalPath && criticalPath.has(node.courseCode);
+            const dimmed = !isRelated(node.courseCode);
+            return (
+              <g
+                key={node.courseCode}
+                transform={`translate(${x}, ${y})`}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.35 : 1}
+                onMouseEnter={() => setHovered(node.courseCode)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => setSelected(selected === node.courseCode ? null : node.courseCode)}
+              >
+                <title>{`${node.courseCode}: ${node.title}`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  fill={style.fill}
+                  stroke={critical ? '#A4232E' : style.stroke}
+                  strokeWidth={critical || selected === node.courseCode ? 2.5 : 1}
+                  strokeDasharray={critical ? undefined : status === 'blocked' ? '4 3' : undefined}
+                />
+                <text x={NODE_WIDTH / 2} y={17} textAnchor="middle" fontSize={12} fontWeight={600} fill={style.text}>
+                  {node.courseCode}
+                </text>
+                <text x={NODE_WIDTH / 2} y={31} textAnchor="middle" fontSize={9} fill={style.text}>
+                  {truncate(node.title, 20)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {selectedNode ? (
+        <div className="p-3 bg-gray-50 rounded-xl text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4 text-gray-500" />
+            <span className="font-semibold text-gray-900">{selectedNode.courseCode}</span>
+            <span className="text-gray-600">{selectedNode.title}</span>
+            {selectedState && (
+              <span
+                className="ml-auto px-2 py-0.5 rounded text-xs font-medium"
+                style={{ backgroundColor: STATUS_STYLES[selectedState.status].fill, color: STATUS_STYLES[selectedState.status].text }}
+              >
+                {STATUS_STYLES[selectedState.status].label}
+              </span>
+            )}
+          </div>
+          <div className="text-gray-600">
+            Requires: {selectedNode.prerequisites.length > 0 ? selectedNode.prerequisites.join(', ') : 'nothing'}
+            {selectedState && selectedState.missing.length > 0 && (
+              <span className="text-red-600"> (missing {selectedState.missing.join(', ')})</span>
+            )}
+          </div>
+          <div className="text-gray-600">
+            Unlocks: {selectedNode.dependents.length > 0 ? selectedNode.dependents.join(', ') : 'nothing'}
+          </div>
+          <div className="text-xs text-gray-500">
+            Depth {selectedNode.depth} · {selectedNode.criticalPathLength} course
+            {selectedNode.criticalPathLength === 1 ? '' : 's'} in the longest chain after it
+            {criticalPath.has(selectedNode.courseCode) && ' · on the critical path'}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Hover a course to trace its chain; click to see what it requires and unlocks.
+        </p>
+      )}
+    </div>
+  );
+}
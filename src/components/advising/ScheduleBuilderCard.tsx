@@ -0,0 +1,231 @@
+/**
+ * =============================================================================
+ * COMPONENT: ScheduleBuilderCard
+ * =============================================================================
+ *
+ * PURPOSE: Build registration schedules for a persona from the loaded term:
+ * every section combination that fits, ranked by the advisor's chosen
+ * preferences, with the reasons when nothing fits. Each option can open a
+ * campus map of its daily commute.
+ * =============================================================================
+ */
+
+import { useMemo, useState } from 'react';
+import { CalendarClock, AlertTriangle, Info, Map as MapIcon } from 'lucide-react';
+import type { StudentPersona } from '../../types/advising';
+import type { Course } from '../../types/schedule';
+import { formatTerm } from '../../constants/academicTerms';
+import { formatDays, formatTimeRange, minutesToDisplayTime } from '../../constants/timeSlots';
+import {
+  buildStudentSchedules,
+  DEFAULT_SCHEDULE_PREFERENCES,
+  type SchedulePreferences,
+} from '../../services/scheduleBuilder';
+import { analyzeCommute, getWeekSeverity } from '../../services/commuteAnalysis';
+import CalendarExportButton from '../common/CalendarExportButton';
+import CommuteMap from './CommuteMap';
+
+// Schedules shown before "Show all"
+const INITIAL_VISIBLE = 5;
+
+interface ScheduleBuilderCardProps {
+  persona: StudentPersona;
+  /** Sections of the loaded term */
+  courses: Course[];
+  termCode: string;
+  /** Courses to start with, e.g. the plan's next quarter */
+  suggestedCodes: string[];
+}
+
+function parseCodes(input: string): string[] {
+  return input
+    .split(/[,;\n]/)
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+function describeMeetings(section: Course): string {
+  const scheduled = section.meetings.filter((m) => m.days.length > 0);
+  if (scheduled.length === 0) return section.delivery === 'Online' ? 'Online' : 'Arranged';
+  return scheduled.map((m) => `${formatDays(m.days)} ${formatTimeRange(m.startMinutes, m.endMinutes)} · ${m.location}`).join('; ');
+}
+
+export default function ScheduleBuilderCard({ persona, courses, termCode, suggestedCodes }: ScheduleBuilderCardProps) {
+  const [input, setInput] = useState(suggestedCodes.join(', '));
+  const [requested, setRequested] = useState<string[]>(suggestedCodes);
+  const [preferences, setPreferences] = useState<SchedulePreferences>(DEFAULT_SCHEDULE_PREFERENCES);
+  const [showAll, setShowAll] = useState(false);
+  const [commuteFor, setCommuteFor] = useState<string | null>(null);
+
+  const result = useMemo(
+    () => (requested.length > 0 ? buildStudentSchedules(persona, courses, requested, preferences) : null),
+    [persona, courses, requested, preferences]
+  );
+
+  const togglePreference = (key: 'avoidEarlyMornings' | 'compactDays' | 'fewestCampusDays') =>
+    setPreferences((prev) => ({ ...prev, [key]: !prev[key] }));
+
+  const visible = result ? (showAll ? result.schedules : result.schedules.slice(0, INITIAL_VISIBLE)) : [];
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-gray-500" />
+        <h3 className="font-semibold text-gray-900">Schedule Builder</h3>
+        <span className="text-sm text-gray-500">{formatTerm(termCode)}</span>
+      </div>
+
+      <form
+        className="flex flex-col sm:flex-row gap-2 mb-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setRequested(parseCodes(input));
+          setShowAll(false);
+        }}
+      >
+        <input
+          className="input flex-1"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Courses, e.g. CSCD 300, MATH 161"
+          aria-label="Courses to schedule"
+        />
+        <button type="submit" className="btn btn-primary">
+          Build schedules
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.avoidEarlyMornings}
+            onChange={() => togglePreference('avoidEarlyMornings')}
+          />
+          No classes before {minutesToDisplayTime(preferences.earlyMorningCutoff)}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={preferences.compactDays} onChange={() => togglePreference('compactDays')} />
+          Compact days
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.fewestCampusDays}
+            onChange={() => togglePreference('fewestCampusDays')}
+          />
+          Fewest days on campus
+        </label>
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-500">Enter the courses this persona wants to take.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {result.schedules.length}
+            {result.truncated || result.partial ? '+' : ''} schedule{result.schedules.length === 1 ? '' : 's'} ·{' '}
+            {result.credits}/{result.creditLimit} credits
+          </p>
+
+          {result.partial && (
+            <div className="flex items-start gap-2 text-xs text-amber-700">
+              <Info className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {result.schedules.length > 0
+                  ? 'Too many section combinations to check them all; a better schedule may exist.'
+                  : 'Too many section combinations to check them all before finding one that fits; one may still exist.'}
+              </span>
+            </div>
+          )}
+
+          {(result.addedCorequisites.length > 0 || result.notOffered.length > 0) && (
+            <div className="flex items-start gap-2 text-xs text-gray-600">
+              <Info className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {result.addedCorequisites.length > 0 && `Added corequisite ${result.addedCorequisites.join(', ')}. `}
+                {result.notOffered.length > 0 && `Not offered in ${formatTerm(termCode)}: ${result.notOffered.join(', ')}.`}
+              </span>
+            </div>
+          )}
+
+          {result.conflicts.length > 0 && (
+            <ul className="space-y-1">
+              {result.conflicts.map((conflict) => (
+                <li
+                  key={conflict.id}
+                  className={`flex items-start gap-2 p-2 rounded-lg text-sm ${
+                    conflict.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+                  }`}
+                >
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {conflict.description}
+                    {conflict.suggestion && <span className="opacity-80"> — {conflict.suggestion}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {visible.map((option, index) => {
+            const commute = analyzeCommute(option.sections);
+            const commuteSeverity = getWeekSeverity(commute);
+            return (
+              <div key={option.id} className="p-3 bg-gray-50 rounded-xl">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">Option {index + 1}</span>
+                    <span className="text-gray-500">
+                      {' '}
+                      · {option.campusDays.length} day{option.campusDays.length === 1 ? '' : 's'} on campus ·{' '}
+                      {option.gapMinutes} min between classes
+                      {option.earlyDays > 0 && ` · ${option.earlyDays} early start${option.earlyDays === 1 ? '' : 's'}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {commute.length > 0 && (
+                      <button
+                        className={`btn btn-ghost btn-sm ${commuteSeverity === 'ok' ? '' : 'text-amber-700'}`}
+                        onClick={() => setCommuteFor(commuteFor === option.id ? null : option.id)}
+                      >
+                        <MapIcon className="w-4 h-4" />
+                        {commuteSeverity === 'ok' ? 'Commute' : 'Tight commute'}
+                      </button>
+                    )}
+                    <CalendarExportButton
+                      courses={option.sections}
+                      calendarName={`${persona.nickname} ${formatTerm(termCode)} option ${index + 1}`}
+                    />
+                  </div>
+                </div>
+                <ul className="space-y-0.5 text-xs text-gray-700">
+                  {option.sections.map((section) => (
+                    <li key={section.crn}>
+                      <span className="font-medium">
+                        {section.displayCode}-{section.section}
+                      </span>{' '}
+                      · CRN {section.crn} · {describeMeetings(section)}
+                      {!section.isOpen && <span className="text-amber-700"> · full</span>}
+                    </li>
+                  ))}
+                </ul>
+                {commuteFor === option.id && (
+                  <div className="mt-3">
+                    <CommuteMap analyses={commute} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {result.schedules.length > INITIAL_VISIBLE && (
+            <button className="btn btn-ghost btn-sm" onClick={() => setShowAll(!showAll)}>
+              {showAll ? 'Show fewer' : `Show all ${result.schedules.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
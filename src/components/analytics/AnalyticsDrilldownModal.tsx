@@ -4,6 +4,7 @@ import type { Course, DeliveryMethod, SubjectCode } from '../../types/schedule';
 import { formatTimeRange, formatDays } from '../../constants/timeSlots';
 import { DELIVERY_COLORS, SUBJECT_COLORS } from '../../constants/colors';
 import type { EnrollmentDataStatus } from '../../services/scheduleAnalytics';
+import { isFullWithWaitlist } from '../../services/waitlistDemand';
 import DrilldownModal from '../common/DrilldownModal';
 
 export type TimeBucketConfig = { name: string; startHour: number; endHour: number };
@@ -12,9 +13,10 @@ export type AnalyticsDrilldown =
   | { kind: 'subject'; subject: SubjectCode }
   | { kind: 'delivery'; method: DeliveryMethod }
   | { kind: 'faculty'; email: string; fullName: string }
-  | { kind: 'timeBucket'; bucket: TimeBucketConfig };
+  | { kind: 'timeBucket'; bucket: TimeBucketConfig }
+  | { kind: 'waitlist'; courseCode: string | null };
 
-type CourseSort = 'course' | 'title' | 'capacity' | 'fillRate';
+type CourseSort = 'course' | 'title' | 'capacity' | 'fillRate' | 'waitlist';
 type TimeBucketView = 'meeting-blocks' | 'courses';
 
 type MeetingBlock = {
@@ -74,12 +76,14 @@ export default function AnalyticsDrilldownModal({
         return `faculty:${drilldown.email}`;
       case 'timeBucket':
         return `timeBucket:${drilldown.bucket.name}`;
+      case 'waitlist':
+        return `waitlist:${drilldown.courseCode ?? 'all'}`;
     }
   }, [drilldown]);
 
   useEffect(() => {
     setQuery('');
-    setCourseSort('course');
+    setCourseSort(resetKey.startsWith('waitlist:') ? 'waitlist' : 'course');
     setTimeBucketView('meeting-blocks');
     setShowRawEnrollment(false);
   }, [resetKey]);
@@ -99,6 +103,10 @@ export default function AnalyticsDrilldownModal({
         return courses.filter((course) => course.instructor?.email === drilldown.email);
       case 'timeBucket':
         return courses;
+      case 'waitlist':
+        return drilldown.courseCode
+          ? courses.filter((course) => course.displayCode === drilldown.courseCode)
+          : courses.filter((course) => course.enrollment.waitlist > 0);
     }
   }, [courses, drilldown]);
 
@@ -167,6 +175,9 @@ export default function AnalyticsDrilldownModal({
       case 'fillRate':
         list.sort((a, b) => getFillRate(b) - getFillRate(a));
         break;
+      case 'waitlist':
+        list.sort((a, b) => b.enrollment.waitlist - a.enrollment.waitlist || getFillRate(a) - getFillRate(b));
+        break;
       case 'course':
       default:
         list.sort((a, b) => a.displayCode.localeCompare(b.displayCode) || a.section.localeCompare(b.section));
@@ -226,6 +237,8 @@ export default function AnalyticsDrilldownModal({
         return `Instructor Drilldown: ${drilldown.fullName}`;
       case 'timeBucket':
         return `Time Bucket Drilldown: ${drilldown.bucket.name}`;
+      case 'waitlist':
+        return drilldown.courseCode ? `Waitlist Drilldown: ${drilldown.courseCode}` : 'Waitlist Drilldown: All Sections';
     }
   }, [drilldown]);
 
@@ -242,6 +255,16 @@ export default function AnalyticsDrilldownModal({
         </>
       );
     }
+    if (drilldown.kind === 'waitlist') {
+      return (
+        <>
+          {drilldown.courseCode
+            ? 'Shows every section of this course, so full sections with a waitlist can be compared with siblings that still have seats.'
+            : 'Shows every section with students on the waitlist.'}{' '}
+          Click a course to open full section details.
+        </>
+      );
+    }
     if (drilldown.kind === 'faculty') {
       return <>Shows each section taught by this instructor with all meeting times. Click a course to open full section details.</>;
     }
@@ -359,6 +382,7 @@ export default function AnalyticsDrilldownModal({
               <option value="title">Sort: title</option>
               <option value="capacity">Sort: seats offered</option>
               <option value="fillRate">Sort: fill rate</option>
+              <option value="waitlist">Sort: waitlist</option>
             </select>
           )}
 
@@ -452,6 +476,9 @@ export default function AnalyticsDrilldownModal({
                 <th className="px-4 py-3 text-right font-medium text-gray-600">Seats Offered</th>
                 <th className="px-4 py-3 text-right font-medium text-gray-600">Seats Filled</th>
                 <th className="px-4 py-3 text-right font-medium text-gray-600">Fill Rate</th>
+                {drilldown.kind === 'waitlist' && (
+                  <th className="px-4 py-3 text-right font-medium text-gray-600">Waitlist</th>
+                )}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
@@ -544,13 +571,27 @@ export default function AnalyticsDrilldownModal({
                         <span className="text-gray-400">—</span>
                       )}
                     </td>
+                    {drilldown.kind === 'waitlist' && (
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {course.enrollment.waitlist > 0 ? (
+                          <span className={isFullWithWaitlist(course) ? 'font-medium text-red-600' : 'text-gray-900'}>
+                            {numberFormatter.format(course.enrollment.waitlist)}
+                            {course.enrollment.waitlistMax > 0 && (
+                              <span className="text-gray-500">/{numberFormatter.format(course.enrollment.waitlistMax)}</span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 );
               })}
 
               {sortedCourses.length === 0 && (
                 <tr>
-                  <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  <td colSpan={drilldown.kind === 'waitlist' ? 9 : 8} className="px-4 py-8 text-center text-gray-500">
                     No sections match that search.
                   </td>
                 </tr>
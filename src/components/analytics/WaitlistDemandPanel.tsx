@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { ListOrdered, ArrowRightLeft } from 'lucide-react';
+import type { WaitlistDemandReport } from '../../services/waitlistDemand';
+
+const COLLAPSED_ROWS = 10;
+
+interface WaitlistDemandPanelProps {
+  report: WaitlistDemandReport;
+  onDrilldown: (courseCode: string | null) => void;
+}
+
+/**
+ * Courses ranked by waitlist-to-capacity ratio, sections whose waitlist
+ * could move to a sibling with open seats, and the new sections needed
+ */
+export default function WaitlistDemandPanel({ report, onDrilldown }: WaitlistDemandPanelProps) {
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(), []);
+  const [showAll, setShowAll] = useState(false);
+
+  const visible = showAll ? report.courses : report.courses.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <div className="card mt-6">
+      <div className="card-header">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <ListOrdered className="w-5 h-5 text-gray-600" />
+            <h3 className="font-semibold text-gray-900">Waitlist Pressure &amp; Unmet Demand</h3>
+          </div>
+          {report.courses.length > 0 && (
+            <button type="button" onClick={() => onDrilldown(null)} className="btn btn-ghost btn-sm">
+              All waitlisted sections
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Students waiting per seat offered. Open seats in other sections of the same course are counted
+          before estimating new sections.
+        </p>
+      </div>
+      <div className="card-body space-y-4">
+        {report.courses.length === 0 ? (
+          <p className="text-sm text-gray-500">No section has students on its waitlist.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900">{numberFormatter.format(report.totalWaitlist)}</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">Students Waiting</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900">
+                  {numberFormatter.format(report.sectionsWithWaitlist)}
+                </div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">Sections with Waitlist</div>
+              </div>
+              <div className="text-center p-3 bg-amber-50 rounded-lg">
+                <div className="text-2xl font-bold text-amber-800">{numberFormatter.format(report.imbalances.length)}</div>
+                <div className="text-xs text-amber-700 uppercase tracking-wider">Rebalance Candidates</div>
+              </div>
+              <div className="text-center p-3 bg-red-50 rounded-lg">
+                <div className="text-2xl font-bold text-red-700">{numberFormatter.format(report.additionalSections)}</div>
+                <div className="text-xs text-red-600 uppercase tracking-wider">Sections to Add</div>
+              </div>
+            </div>
+
+            {report.imbalances.length > 0 && (
+              <div className="p-3 border border-amber-200 bg-amber-50 rounded-lg">
+                <h4 className="flex items-center gap-2 text-sm font-semibold text-amber-800 mb-2">
+                  <ArrowRightLeft className="w-4 h-4" />
+                  Full with a waitlist while another section has seats
+                </h4>
+                <ul className="space-y-1 text-sm text-amber-900">
+                  {report.imbalances.map(({ section, openSiblings, openSeats }) => (
+                    <li key={section.id}>
+                      <button
+                        type="button"
+                        onClick={() => onDrilldown(section.displayCode)}
+                        className="font-medium hover:underline"
+                      >
+                        {section.displayCode}-{section.section}
+                      </button>{' '}
+                      has {section.enrollment.waitlist} waiting;{' '}
+                      {openSiblings.map((s) => `${s.section} (${s.campus})`).join(', ')} ha
+                      {openSiblings.length === 1 ? 's' : 've'} {openSeats} open seat{openSeats === 1 ? '' : 's'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="px-4 py-2 text-left">Course</th>
+                    <th className="px-4 py-2 text-right">Sections</th>
+                    <th className="px-4 py-2 text-right">Seats Offered</th>
+                    <th className="px-4 py-2 text-right">Waitlist</th>
+                    <th className="px-4 py-2 text-right">Waitlist / Seats</th>
+                    <th className="px-4 py-2 text-right">Open Seats</th>
+                    <th className="px-4 py-2 text-right">Unmet</th>
+                    <th className="px-4 py-2 text-right">Add Sections</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visible.map((course) => (
+                    <tr
+                      key={course.courseCode}
+                      onClick={() => onDrilldown(course.courseCode)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-blue-700">{course.courseCode}</div>
+                        <div className="text-xs text-gray-500 line-clamp-1">{course.title}</div>
+                      </td>
+                      <td className="px-4 py-2 text-right">{course.sections.length}</td>
+                      <td className="px-4 py-2 text-right">{numberFormatter.format(course.capacity)}</td>
+                      <td className="px-4 py-2 text-right">{numberFormatter.format(course.waitlist)}</td>
+                      <td className="px-4 py-2 text-right font-medium">{Math.round(course.waitlistRatio * 100)}%</td>
+                      <td className="px-4 py-2 text-right">
+                        {course.openSeats || <span className="text-gray-400">—</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {course.unmetDemand || <span className="text-gray-400">—</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {course.additionalSections > 0 ? (
+                          <span
+                            className="px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700"
+                            title={`At ~${course.typicalCap} seats per section`}
+                          >
+                            +{course.additionalSections}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {report.courses.length > COLLAPSED_ROWS && (
+              <button type="button" onClick={() => setShowAll(!showAll)} className="btn btn-ghost btn-sm">
+                {showAll ? 'Show fewer' : `Show all ${report.courses.length} courses`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Scale, RotateCcw } from 'lucide-react';
+import type { Course } from '../../types/schedule';
+import { STORAGE_KEYS } from '../../constants/storageKeys';
+import { formatTerm, getAcademicYear, getAcademicYearTerms } from '../../constants/academicTerms';
+import { useFacultyProfileIndex } from '../../contexts/FacultyProfileContext';
+import { loadTermsFromPublic } from '../../services/termSchedules';
+import {
+  computeAnnualWorkload,
+  DEFAULT_WORKLOAD_POLICY,
+  isValidPolicyValue,
+  parseWorkloadPolicy,
+  type WorkloadPolicy,
+  type WorkloadStatus,
+} from '../../services/workloadPolicy';
+
+const STATUS_STYLES: Record<WorkloadStatus, { label: string; className: string }> = {
+  overload: { label: 'Overload', className: 'bg-red-100 text-red-700' },
+  underload: { label: 'Underload', className: 'bg-amber-100 text-amber-700' },
+  balanced: { label: 'Balanced', className: 'bg-green-100 text-green-700' },
+};
+
+function loadPolicy(): WorkloadPolicy {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.workloadPolicy);
+    if (saved) return parseWorkloadPolicy(JSON.parse(saved));
+  } catch (error) {
+    console.error('Failed to load workload policy from storage:', error);
+  }
+  return DEFAULT_WORKLOAD_POLICY;
+}
+
+function savePolicy(policy: WorkloadPolicy): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.workloadPolicy, JSON.stringify(policy));
+  } catch (error) {
+    console.error('Failed to save workload policy to storage:', error);
+  }
+}
+
+interface NumberFieldProps {
+  label: string;
+  field: keyof WorkloadPolicy;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, field, value, step, onChange }: NumberFieldProps) {
+  return (
+    <label className="text-sm text-gray-700">
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      <input
+        type="number"
+        min={field === 'minutesPerContactHour' ? step : 0}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (isValidPolicyValue(field, next)) onChange(next);
+        }}
+        className="input w-28"
+      />
+    </label>
+  );
+}
+
+interface WorkloadPolicyPanelProps {
+  /** Any term in the academic year to analyze */
+  termCode: string;
+}
+
+/**
+ * Annual load units per instructor across fall, winter and spring, with an
+ * editable workload policy and overload/underload flags
+ */
+export default function WorkloadPolicyPanel({ termCode }: WorkloadPolicyPanelProps) {
+  const profileIndex = useFacultyProfileIndex();
+  const [policy, setPolicy] = useState<WorkloadPolicy>(loadPolicy);
+  const [termCourses, setTermCourses] = useState<Map<string, Course[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  const yearTerms = useMemo(() => getAcademicYearTerms(termCode), [termCode]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadTermsFromPublic(yearTerms).then((terms) => {
+      if (cancelled) return;
+      setTermCourses(terms);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [yearTerms]);
+
+  useEffect(() => {
+    savePolicy(policy);
+  }, [policy]);
+
+  const workloads = useMemo(
+    () => computeAnnualWorkload(termCourses, policy, profileIndex),
+    [termCourses, policy, profileIndex]
+  );
+
+  const flagged = workloads.filter((w) => w.status !== 'balanced');
+  const visible = showAll ? workloads : flagged;
+  const missingTerms = loading ? [] : yearTerms.filter((term) => !termCourses.has(term));
+  const updatePolicy = (patch: Partial<WorkloadPolicy>) => setPolicy({ ...policy, ...patch });
+
+  return (
+    <div className="card mt-6">
+      <div className="card-header">
+        <div className="flex items-center gap-3">
+          <Scale className="w-5 h-5 text-gray-600" />
+          <h3 className="font-semibold text-gray-900">
+            Annual Workload ({getAcademicYear(termCode)})
+          </h3>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Load units from weekly contact hours across {yearTerms.map(formatTerm).join(', ')}.
+          FTE and release time come from each instructor's profile in Settings.
+        </p>
+      </div>
+      <div className="card-body space-y-4">
+        <div className="flex flex-wrap items-end gap-4 p-3 bg-gray-50 rounded-lg">
+          <NumberField
+            label="Minutes per contact hour"
+            field="minutesPerContactHour"
+            value={policy.minutesPerContactHour}
+            step={5}
+            onChange={(minutesPerContactHour) => updatePolicy({ minutesPerContactHour })}
+          />
+          <NumberField
+            label="Lab weight"
+            field="labWeight"
+            value={policy.labWeight}
+            step={0.05}
+            onChange={(labWeight) => updatePolicy({ labWeight })}
+          />
+          <NumberField
+            label="Full-time annual units"
+            field="fullTimeAnnualUnits"
+            value={policy.fullTimeAnnualUnits}
+            step={1}
+            onChange={(fullTimeAnnualUnits) => updatePolicy({ fullTimeAnnualUnits })}
+          />
+          <NumberField
+            label="Tolerance (±units)"
+            field="tolerance"
+            value={policy.tolerance}
+            step={0.5}
+            onChange={(tolerance) => updatePolicy({ tolerance })}
+          />
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={policy.countStackedOnce}
+                onChange={(e) => updatePolicy({ countStackedOnce: e.target.checked })}
+              />
+              Count stacked 400/500 pairs once
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={policy.unscheduledUsesCredits}
+                onChange={(e) => updatePolicy({ unscheduledUsesCredits: e.target.checked })}
+              />
+              Use credits for unscheduled sections
+            </label>
+          </div>
+          <button
+            type="button"
+            onClick={() => setPolicy(DEFAULT_WORKLOAD_POLICY)}
+            className="btn btn-secondary flex items-center gap-2 text-sm"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+        </div>
+
+        {missingTerms.length > 0 && (
+          <p className="text-sm text-amber-700">
+            No schedule published for {missingTerms.map(formatTerm).join(', ')}; totals cover
+            the remaining terms only.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {loading
+              ? 'Loading term schedules…'
+              : `${flagged.length} of ${workloads.length} instructors outside ±${policy.tolerance} units of target`}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show balanced
+          </label>
+        </div>
+
+        {!loading && visible.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="px-4 py-2 text-left">Instructor</th>
+                  <th className="px-4 py-2 text-right">FTE</th>
+                  {yearTerms.map((term) => (
+                    <th key={term} className="px-4 py-2 text-right">{formatTerm(term)}</th>
+                  ))}
+                  <th className="px-4 py-2 text-right">Release</th>
+                  <th className="px-4 py-2 text-right">Total</th>
+                  <th className="px-4 py-2 text-right">Target</th>
+                  <th className="px-4 py-2 text-right">Variance</th>
+                  <th className="px-4 py-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visible.map((w) => {
+                  const stackedCount = w.sections.filter((s) => s.stackedWith).length;
+                  return (
+                    <tr key={w.key} className="hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">{w.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {w.sections.length} sections
+                          {stackedCount > 0 && ` · ${stackedCount} stacked`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right">{w.fte}</td>
+                      {yearTerms.map((term) => (
+                        <td key={term} className="px-4 py-2 text-right">
+                          {w.termUnits[term] ?? <span className="text-gray-400">—</span>}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-right" title={w.releaseReason}>
+                        {w.releaseUnits || <span className="text-gray-400">—</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right font-medium">{w.totalUnits}</td>
+                      <td className="px-4 py-2 text-right">{w.targetUnits}</td>
+                      <td className="px-4 py-2 text-right">
+                        {w.variance > 0 ? `+${w.variance}` : w.variance}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[w.status].className}`}
+                        >
+                          {STATUS_STYLES[w.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useMemo } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import type { Course } from '../../types/schedule';
+import { useAcademicCalendarEvents } from '../../contexts/AcademicCalendarContext';
+import { buildScheduleIcs } from '../../services/icsExport';
+import { downloadText } from '../../utils/download';
+
+interface CalendarExportButtonProps {
+  courses: Course[];
+  /** Calendar name shown in Outlook/Google, also used for the file name */
+  calendarName: string;
+  label?: string;
+  className?: string;
+}
+
+export default function CalendarExportButton({
+  courses,
+  calendarName,
+  label = 'Calendar',
+  className = 'btn btn-ghost btn-sm',
+}: CalendarExportButtonProps) {
+  const calendarEvents = useAcademicCalendarEvents();
+
+  // Online and arranged sections have no meetings to put on a calendar
+  const unscheduled = useMemo(
+    () => courses.filter((c) => !c.meetings.some((m) => m.days.length > 0)).length,
+    [courses]
+  );
+
+  const handleExport = () => {
+    const { content } = buildScheduleIcs(courses, { calendarName, calendarEvents });
+    const slug = calendarName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'schedule';
+    downloadText(content, `${slug}.ics`, 'text/calendar');
+  };
+
+  return (
+    <button
+      onClick={handleExport}
+      className={className}
+      title={`Download as .ics for Outlook, Google or Apple Calendar${
+        unscheduled > 0 ? ` (${unscheduled} section${unscheduled === 1 ? '' : 's'} without meeting times left out)` : ''
+      }`}
+      disabled={courses.length === unscheduled}
+    >
+      <CalendarPlus className="w-4 h-4" />
+      <span className="hidden sm:inline">{label}</span>
+    </button>
+  );
+}
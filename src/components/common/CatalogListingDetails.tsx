@@ -0,0 +1,71 @@
+/**
+ * =============================================================================
+ * COMPONENT: CatalogListingDetails
+ * =============================================================================
+ *
+ * PURPOSE: Show a course's catalog listing - description, prerequisites,
+ * catalog link - and flag Banner credits the catalog doesn't allow.
+ * =============================================================================
+ */
+
+import { AlertTriangle, BookMarked, ExternalLink } from 'lucide-react';
+import type { CatalogListing } from '../../types/catalog';
+import { getCreditDisagreement } from '../../services/catalogListings';
+
+interface CatalogListingDetailsProps {
+  listing: CatalogListing;
+  /** Credits of the scheduled Banner sections, compared with the catalog */
+  bannerCredits?: number[];
+}
+
+export default function CatalogListingDetails({ listing, bannerCredits = [] }: CatalogListingDetailsProps) {
+  const creditDisagreement = getCreditDisagreement(listing, bannerCredits);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <BookMarked className="w-4 h-4" />
+          Catalog {listing.edition}: {listing.code} ({listing.credits} cr)
+        </h4>
+        <a
+          href={listing.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:underline flex items-center gap-1 flex-shrink-0"
+        >
+          View in catalog
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+
+      {listing.description && <p className="text-sm text-gray-900">{listing.description}</p>}
+
+      {(listing.prerequisites || listing.corequisites) && (
+        <dl className="text-sm space-y-1">
+          {listing.prerequisites && (
+            <div>
+              <dt className="inline font-medium text-gray-700">Prerequisites: </dt>
+              <dd className="inline text-gray-900">{listing.prerequisites}</dd>
+            </div>
+          )}
+          {listing.corequisites && (
+            <div>
+              <dt className="inline font-medium text-gray-700">Corequisites: </dt>
+              <dd className="inline text-gray-900">{listing.corequisites}</dd>
+            </div>
+          )}
+        </dl>
+      )}
+
+      {listing.notes && <p className="text-xs text-gray-500">{listing.notes}</p>}
+
+      {creditDisagreement && (
+        <div className="flex items-start gap-2 p-2 rounded-lg text-sm bg-amber-50 text-amber-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{creditDisagreement}</span>
+        </div>
+      )}
+    </div>
+  );
+}
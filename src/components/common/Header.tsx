@@ -1,9 +1,10 @@
 import { useMemo, useRef, useState } from 'react';
 import { Search, Upload, Download, RefreshCw, Printer } from 'lucide-react';
 import { useSchedule } from '../../contexts/ScheduleContext';
-import { useFilters } from '../../contexts/FilterContext';
+import { useFilters, useFilteredCourses } from '../../contexts/FilterContext';
 import { downloadJson } from '../../utils/download';
 import { formatTerm } from '../../constants/academicTerms';
+import CalendarExportButton from './CalendarExportButton';
 
 // Format lastUpdated to show date if not today, otherwise just time
 function formatLastUpdated(date: Date): string {
@@ -26,6 +27,7 @@ function formatLastUpdated(date: Date): string {
 export default function Header() {
   const { state, loadFromFile, refreshData, availableTerms, selectedTermCode, selectTerm } = useSchedule();
   const { dispatch } = useFilters();
+  const filteredCourses = useFilteredCourses();
   const [searchQuery, setSearchQuery] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canRefresh = state.dataSource.startsWith('http') || state.dataSource.startsWith('/');
@@ -157,6 +159,11 @@ export default function Header() {
             <span className="hidden sm:inline">Export</span>
           </button>
 
+          <CalendarExportButton
+            courses={filteredCourses}
+            calendarName={`EWU ${state.courses[0] ? formatTerm(state.courses[0].term) : ''} schedule`}
+          />
+
           <button
             onClick={handlePrint}
             className="btn btn-ghost btn-sm"
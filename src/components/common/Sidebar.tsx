@@ -5,6 +5,7 @@ import {
   StickyNote,
   BarChart3,
   TrendingUp,
+  GitCompare,
   Wand2,
   FileText,
   Settings,
@@ -64,6 +65,11 @@ export default function Sidebar({ onNavigate }: SidebarProps) {
       label: 'Trends',
       icon: <TrendingUp className="w-5 h-5" />,
     },
+    {
+      path: '/compare',
+      label: 'Compare Terms',
+      icon: <GitCompare className="w-5 h-5" />,
+    },
     {
       path: '/optimizer',
       label: 'Optimizer',
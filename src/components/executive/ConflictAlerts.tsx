@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { AlertTriangle, ChevronRight, CheckCircle, Clock, MapPin, User } from 'lucide-react';
+import { AlertTriangle, CalendarX, Car, ChevronRight, CheckCircle, Clock, MapPin, User, Users } from 'lucide-react';
 import type { Conflict } from '../../services/conflictDetector';
 import { minutesToDisplayTime, DAYS_OF_WEEK } from '../../constants/timeSlots';
 
@@ -35,6 +35,24 @@ export default function ConflictAlerts({ conflicts, onConflictTap }: ConflictAle
   // Group conflicts by type
   const instructorConflicts = conflicts.filter(c => c.type === 'instructor');
   const roomConflicts = conflicts.filter(c => c.type === 'room');
+  const capacityConflicts = conflicts.filter(c => c.type === 'capacity');
+  const availabilityConflicts = conflicts.filter(c => c.type === 'availability');
+  const travelConflicts = conflicts.filter(c => c.type === 'travel');
+  const typeCounts = [
+    instructorConflicts.length > 0 && `${instructorConflicts.length} instructor`,
+    roomConflicts.length > 0 && `${roomConflicts.length} room`,
+    capacityConflicts.length > 0 && `${capacityConflicts.length} capacity`,
+    availabilityConflicts.length > 0 && `${availabilityConflicts.length} availability`,
+    travelConflicts.length > 0 && `${travelConflicts.length} travel`,
+  ].filter(Boolean);
+
+  const resolutionHints: Record<Conflict['type'], string> = {
+    instructor: 'Consider rescheduling one course to a different time slot',
+    room: 'Consider moving one course to a different room',
+    capacity: 'Consider a larger or better-equipped room, or lowering the enrollment cap',
+    availability: 'Consider moving the section outside the instructor\'s unavailable time',
+    travel: 'Consider a longer gap between the sections or moving them to the same campus',
+  };
 
   return (
     <div className="space-y-3">
@@ -48,11 +66,7 @@ export default function ConflictAlerts({ conflicts, onConflictTap }: ConflictAle
             <h2 className="font-semibold text-red-800">
               {conflicts.length} Scheduling Conflict{conflicts.length !== 1 ? 's' : ''}
             </h2>
-            <p className="text-sm text-red-600">
-              {instructorConflicts.length > 0 && `${instructorConflicts.length} instructor`}
-              {instructorConflicts.length > 0 && roomConflicts.length > 0 && ', '}
-              {roomConflicts.length > 0 && `${roomConflicts.length} room`}
-            </p>
+            <p className="text-sm text-red-600">{typeCounts.join(', ')}</p>
           </div>
         </div>
 
@@ -81,11 +95,17 @@ export default function ConflictAlerts({ conflicts, onConflictTap }: ConflictAle
                     <div className="flex items-center gap-2 mb-1">
                       {conflict.type === 'instructor' ? (
                         <User className="w-4 h-4 text-red-500 flex-shrink-0" />
+                      ) : conflict.type === 'capacity' ? (
+                        <Users className="w-4 h-4 text-red-500 flex-shrink-0" />
+                      ) : conflict.type === 'availability' ? (
+                        <CalendarX className="w-4 h-4 text-red-500 flex-shrink-0" />
+                      ) : conflict.type === 'travel' ? (
+                        <Car className="w-4 h-4 text-red-500 flex-shrink-0" />
                       ) : (
                         <MapPin className="w-4 h-4 text-red-500 flex-shrink-0" />
                       )}
                       <span className="font-medium text-gray-900 truncate">
-                        {conflict.type === 'instructor'
+                        {conflict.type === 'instructor' || conflict.type === 'availability' || conflict.type === 'travel'
                           ? conflict.course1.instructor?.displayName
                           : `${conflict.course1.meetings[0]?.building} ${conflict.course1.meetings[0]?.room}`
                         }
@@ -123,34 +143,46 @@ export default function ConflictAlerts({ conflicts, onConflictTap }: ConflictAle
                         </div>
                       </div>
 
-                      {/* Conflict indicator */}
-                      <div className="flex items-center justify-center">
-                        <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
-                          <AlertTriangle className="w-4 h-4 text-red-600" />
-                        </div>
-                      </div>
+                      {conflict.course2 && (
+                        <>
+                          {/* Conflict indicator */}
+                          <div className="flex items-center justify-center">
+                            <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
+                              <AlertTriangle className="w-4 h-4 text-red-600" />
+                            </div>
+                          </div>
 
-                      {/* Course 2 */}
-                      <div className="bg-gray-50 rounded-lg p-2.5">
-                        <div className="font-medium text-gray-900">
-                          {conflict.course2.displayCode}
-                        </div>
-                        <div className="text-sm text-gray-600">
-                          {conflict.course2.title}
-                        </div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          {minutesToDisplayTime(conflict.course2.meetings[0]?.startMinutes || 0)} - {' '}
-                          {minutesToDisplayTime(conflict.course2.meetings[0]?.endMinutes || 0)}
-                        </div>
-                      </div>
+                          {/* Course 2 */}
+                          <div className="bg-gray-50 rounded-lg p-2.5">
+                            <div className="font-medium text-gray-900">
+                              {conflict.course2.displayCode}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                              {conflict.course2.title}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              {minutesToDisplayTime(conflict.course2.meetings[0]?.startMinutes || 0)} - {' '}
+                              {minutesToDisplayTime(conflict.course2.meetings[0]?.endMinutes || 0)}
+                            </div>
+                          </div>
+                        </>
+                      )}
                     </div>
 
+                    {(conflict.type === 'capacity' || conflict.type === 'availability' || conflict.type === 'travel') && (
+                      <p className="text-sm text-gray-700 mt-3">{conflict.description}</p>
+                    )}
+                    {conflict.travel && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Walk: {conflict.travel.walkingMinutes === null ? 'not possible' : `${conflict.travel.walkingMinutes} min`}
+                        {conflict.travel.drivingMinutes !== null && ` · Drive: ~${conflict.travel.drivingMinutes} min`}
+                        {` · Gap: ${conflict.travel.gapMinutes} min`}
+                      </p>
+                    )}
+
                     {/* Resolution hint */}
                     <p className="text-xs text-gray-500 mt-3 italic">
-                      {conflict.type === 'instructor'
-                        ? 'Consider rescheduling one course to a different time slot'
-                        : 'Consider moving one course to a different room'
-                      }
+                      {resolutionHints[conflict.type]}
                     </p>
                   </div>
                 )}
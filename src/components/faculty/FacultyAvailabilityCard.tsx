@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react';
+import { CalendarX, Plus, Save, Trash2, X } from 'lucide-react';
+import type { CampusType, DayOfWeek } from '../../types/schedule';
+import type { FacultyProfile, UnavailableWindow } from '../../types/faculty';
+import { useSchedule } from '../../contexts/ScheduleContext';
+import { useFacultyProfiles } from '../../contexts/FacultyProfileContext';
+import { DAYS_OF_WEEK, minutesToDisplayTime } from '../../constants/timeSlots';
+import { describeWindow, normalizeEmail } from '../../services/facultyAvailability';
+
+// Half-hour options from 7 AM to 10 PM
+const TIME_OPTIONS = Array.from({ length: 31 }, (_, i) => 7 * 60 + i * 30);
+const CAMPUS_OPTIONS: CampusType[] = ['Cheney', 'Spokane U-District'];
+
+function emptyProfile(email: string, displayName: string): FacultyProfile {
+  return {
+    email,
+    displayName,
+    unavailable: [],
+    preferredDays: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function newWindowId(): string {
+  return `window-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+interface DayTogglesProps {
+  selected: DayOfWeek[];
+  onChange: (days: DayOfWeek[]) => void;
+}
+
+function DayToggles({ selected, onChange }: DayTogglesProps) {
+  return (
+    <div className="flex gap-1">
+      {DAYS_OF_WEEK.map((day) => (
+        <button
+          key={day.key}
+          type="button"
+          onClick={() =>
+            onChange(
+              selected.includes(day.key)
+                ? selected.filter((d) => d !== day.key)
+                : [...selected, day.key]
+            )
+          }
+          className={`px-2 py-1 rounded text-xs font-medium ${
+            selected.includes(day.key)
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          {day.short}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Settings card for recording faculty blackout windows and teaching preferences
+ */
+export default function FacultyAvailabilityCard() {
+  const { state } = useSchedule();
+  const { state: profileState, saveProfile, deleteProfile, getProfile } = useFacultyProfiles();
+
+  const instructors = useMemo(
+    () =>
+      state.instructors
+        .filter((i) => i.email)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [state.instructors]
+  );
+
+  const [selectedEmail, setSelectedEmail] = useState('');
+  const [draft, setDraft] = useState<FacultyProfile | null>(null);
+  const [newWindow, setNewWindow] = useState<Omit<UnavailableWindow, 'id'>>({
+    days: [],
+    startMinutes: 540,
+    endMinutes: 600,
+    reason: '',
+    hard: true,
+  });
+
+  const selectInstructor = (email: string) => {
+    const instructor = instructors.find((i) => normalizeEmail(i.email) === normalizeEmail(email));
+    setSelectedEmail(instructor?.email ?? email);
+    const existing = getProfile(email);
+    setDraft(existing ?? (instructor ? emptyProfile(instructor.email, instructor.displayName) : null));
+  };
+
+  const addWindow = () => {
+    if (!draft || newWindow.days.length === 0 || newWindow.endMinutes <= newWindow.startMinutes) return;
+    setDraft({ ...draft, unavailable: [...draft.unavailable, { ...newWindow, id: newWindowId() }] });
+    setNewWindow({ ...newWindow, days: [], reason: '' });
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-center gap-3">
+          <CalendarX className="w-5 h-5 text-gray-600" />
+          <h2 className="font-semibold text-gray-900">Faculty Availability</h2>
+        </div>
+      </div>
+      <div className="card-body space-y-4">
+        <p className="text-sm text-gray-600">
+          Record blackout times and teaching preferences. Sections inside a blackout are
+          reported as availability conflicts, and the optimizer never places an instructor
+          there. Preferences only rank otherwise-equal optimizer solutions. FTE and release
+          time set the annual workload target on the Analytics page.
+        </p>
+
+        {profileState.profiles.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {profileState.profiles.map((profile) => (
+              <button
+                key={profile.email}
+                type="button"
+                onClick={() => selectInstructor(profile.email)}
+                className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                {profile.displayName} · {profile.unavailable.length} window
+                {profile.unavailable.length === 1 ? '' : 's'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <select
+          value={selectedEmail}
+          onChange={(e) => selectInstructor(e.target.value)}
+          className="input w-full"
+        >
+          <option value="">Select an instructor…</option>
+          {instructors.map((instructor) => (
+            <option key={instructor.email} value={instructor.email}>
+              {instructor.displayName}
+              {getProfile(instructor.email) ? ' (profile saved)' : ''}
+            </option>
+          ))}
+        </select>
+
+        {draft && (
+          <div className="space-y-4 p-3 sm:p-4 bg-gray-50 rounded-lg">
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Unavailable windows</h3>
+              {draft.unavailable.length === 0 ? (
+                <p className="text-sm text-gray-500">No windows recorded.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {draft.unavailable.map((window) => (
+                    <li key={window.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        <span
+                          className={`mr-2 px-1.5 py-0.5 rounded text-xs font-medium ${
+                            window.hard ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                          }`}
+                        >
+                          {window.hard ? 'Blackout' : 'Prefer not'}
+                        </span>
+                        {describeWindow(window)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDraft({
+                            ...draft,
+                            unavailable: draft.unavailable.filter((w) => w.id !== window.id),
+                          })
+                        }
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        aria-label="Remove window"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <DayToggles
+                  selected={newWindow.days}
+                  onChange={(days) => setNewWindow({ ...newWindow, days })}
+                />
+                <select
+                  value={newWindow.startMinutes}
+                  onChange={(e) => {
+                    const startMinutes = Number(e.target.value);
+                    setNewWindow({
+                      ...newWindow,
+                      startMinutes,
+                      endMinutes: Math.max(newWindow.endMinutes, startMinutes + 30),
+                    });
+                  }}
+                  className="input text-sm"
+                >
+                  {TIME_OPTIONS.map((m) => (
+                    <option key={m} value={m}>{minutesToDisplayTime(m)}</option>
+                  ))}
+                </select>
+                <span className="text-gray-500 text-sm">to</span>
+                <select
+                  value={newWindow.endMinutes}
+                  onChange={(e) => setNewWindow({ ...newWindow, endMinutes: Number(e.target.value) })}
+                  className="input text-sm"
+                >
+                  {TIME_OPTIONS.filter((m) => m > newWindow.startMinutes).map((m) => (
+                    <option key={m} value={m}>{minutesToDisplayTime(m)}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={newWindow.reason}
+                  onChange={(e) => setNewWindow({ ...newWindow, reason: e.target.value })}
+                  placeholder="Reason (e.g., Committee)"
+                  className="input text-sm flex-1 min-w-[8rem]"
+                />
+                <select
+                  value={newWindow.allowedCampus ?? ''}
+                  onChange={(e) =>
+                    setNewWindow({
+                      ...newWindow,
+                      allowedCampus: (e.target.value || undefined) as CampusType | undefined,
+                    })
+                  }
+                  className="input text-sm"
+                  title="Still available at this campus during the window"
+                >
+                  <option value="">All campuses</option>
+                  {CAMPUS_OPTIONS.map((campus) => (
+                    <option key={campus} value={campus}>{campus} only</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={newWindow.hard}
+                    onChange={(e) => setNewWindow({ ...newWindow, hard: e.target.checked })}
+                  />
+                  Blackout
+                </label>
+                <button
+                  type="button"
+                  onClick={addWindow}
+                  disabled={newWindow.days.length === 0}
+                  className="btn btn-secondary flex items-center gap-1 text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </div>
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Preferred days</h3>
+                <DayToggles
+                  selected={draft.preferredDays}
+                  onChange={(preferredDays) => setDraft({ ...draft, preferredDays })}
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Max preps / quarter</h3>
+                <input
+                  type="number"
+                  min={1}
+                  max={6}
+                  value={draft.maxPreps ?? ''}
+                  onChange={(e) =>
+                    setDraft({ ...draft, maxPreps: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  className="input w-24"
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Campus preference</h3>
+                <select
+                  value={draft.campusPreference ?? ''}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      campusPreference: (e.target.value || undefined) as CampusType | undefined,
+                    })
+                  }
+                  className="input w-full"
+                >
+                  <option value="">No preference</option>
+                  {CAMPUS_OPTIONS.map((campus) => (
+                    <option key={campus} value={campus}>{campus}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">FTE</h3>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.fte ?? ''}
+                  placeholder="1"
+                  onChange={(e) =>
+                    setDraft({ ...draft, fte: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  className="input w-24"
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Release units / year</h3>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={draft.releaseUnits ?? ''}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      releaseUnits: e.target.value ? Number(e.target.value) : undefined,
+                    })
+                  }
+                  className="input w-24"
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Release reason</h3>
+                <input
+                  type="text"
+                  value={draft.releaseReason ?? ''}
+                  onChange={(e) => setDraft({ ...draft, releaseReason: e.target.value || undefined })}
+                  placeholder="e.g., Department chair"
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => saveProfile(draft)}
+                className="btn btn-primary flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Save Profile
+              </button>
+              {getProfile(draft.email) && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    deleteProfile(draft.email);
+                    setDraft(emptyProfile(draft.email, draft.displayName));
+                  }}
+                  className="btn btn-secondary flex items-center gap-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete Profile
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
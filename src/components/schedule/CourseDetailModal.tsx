@@ -6,6 +6,12 @@ import { SUBJECT_COLORS } from '../../constants/colors';
 import { formatTimeRange, formatDays } from '../../constants/timeSlots';
 import { useAcademicCalendarEvents } from '../../contexts/AcademicCalendarContext';
 import { findRegistrationOpensEvent } from '../../services/academicCalendar';
+import { useCourses } from '../../contexts/ScheduleContext';
+import { normalizeEmail } from '../../services/facultyAvailability';
+import { findCatalogListing } from '../../services/catalogListings';
+import { useCatalogIndex } from '../../hooks/useCatalogIndex';
+import CalendarExportButton from '../common/CalendarExportButton';
+import CatalogListingDetails from '../common/CatalogListingDetails';
 
 interface CourseDetailModalProps {
   course: Course;
@@ -17,6 +23,15 @@ export default function CourseDetailModal({ course, courseGroup, onClose }: Cour
   const navigate = useNavigate();
   const colors = SUBJECT_COLORS[course.subject];
   const calendarEvents = useAcademicCalendarEvents();
+  const allCourses = useCourses();
+  const catalogIndex = useCatalogIndex();
+  const catalogListing = catalogIndex ? findCatalogListing(catalogIndex, course.displayCode) : null;
+
+  const instructorSections = useMemo(() => {
+    const email = course.instructor?.email;
+    if (!email) return [];
+    return allCourses.filter((c) => c.instructor && normalizeEmail(c.instructor.email) === normalizeEmail(email));
+  }, [allCourses, course.instructor?.email]);
 
   const registrationInfo = useMemo(() => {
     const event = findRegistrationOpensEvent(calendarEvents, course.term);
@@ -209,6 +224,12 @@ export default function CourseDetailModal({ course, courseGroup, onClose }: Cour
                   {course.instructor.email}
                 </a>
               </div>
+              <CalendarExportButton
+                courses={instructorSections}
+                calendarName={`${course.instructor.displayName} teaching schedule`}
+                label="Teaching calendar"
+                className="btn btn-secondary btn-sm"
+              />
             </div>
           )}
 
@@ -262,6 +283,9 @@ export default function CourseDetailModal({ course, courseGroup, onClose }: Cour
             </div>
           </div>
 
+          {/* Catalog listing */}
+          {catalogListing && <CatalogListingDetails listing={catalogListing} bannerCredits={[course.credits]} />}
+
           {/* Waitlist info */}
           {course.enrollment.waitlistMax > 0 && (
             <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
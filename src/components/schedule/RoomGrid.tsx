@@ -0,0 +1,166 @@
+import { useMemo } from 'react';
+import { DoorOpen, Building2, Gauge } from 'lucide-react';
+import type { Course } from '../../types/schedule';
+import { DAYS_OF_WEEK, SCHEDULE_END_HOUR, SCHEDULE_START_HOUR, minutesToDisplayTime } from '../../constants/timeSlots';
+import {
+  analyzeRoomUtilization,
+  IDLE_THRESHOLD_PERCENT,
+  PRIME_TIME_END,
+  PRIME_TIME_START,
+  type RoomUsage,
+} from '../../services/roomUtilization';
+
+const HOURS = Array.from({ length: SCHEDULE_END_HOUR - SCHEDULE_START_HOUR }, (_, i) => SCHEDULE_START_HOUR + i);
+
+interface RoomGridProps {
+  courses: Course[];
+  onCourseClick: (course: Course) => void;
+}
+
+function occupancyClass(fraction: number, isPrime: boolean): string {
+  if (fraction >= 1) return 'bg-blue-600';
+  if (fraction >= 0.5) return 'bg-blue-400';
+  if (fraction > 0) return 'bg-blue-200';
+  return isPrime ? 'bg-amber-50' : 'bg-gray-50';
+}
+
+function utilizationColor(percent: number): string {
+  if (percent < IDLE_THRESHOLD_PERCENT) return 'bg-amber-500';
+  if (percent >= 75) return 'bg-green-600';
+  return 'bg-blue-500';
+}
+
+/**
+ * Room-centric week view: one row per room, one cell per weekday hour,
+ * shaded by how much of the hour the room is occupied
+ */
+export default function RoomGrid({ courses, onCourseClick }: RoomGridProps) {
+  const report = useMemo(() => analyzeRoomUtilization(courses), [courses]);
+
+  const cellBookings = (room: RoomUsage, day: string, hour: number) =>
+    room.bookings.filter((b) => b.day === day && b.startMinutes < (hour + 1) * 60 && b.endMinutes > hour * 60);
+
+  if (report.roomsInUse === 0) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        <DoorOpen className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+        <p>No in-person sections with an assigned room match the current filters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1.5 text-xs text-gray-500">
+            <Building2 className="w-3.5 h-3.5" />
+            Rooms in use
+          </div>
+          <div className="text-xl font-bold text-gray-900">{report.roomsInUse}</div>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1.5 text-xs text-gray-500">
+            <Gauge className="w-3.5 h-3.5" />
+            Avg prime-time use
+          </div>
+          <div className="text-xl font-bold text-gray-900">{report.averagePrimeUtilization}%</div>
+        </div>
+        <div className="p-3 bg-amber-50 rounded-xl">
+          <div className="flex items-center gap-1.5 text-xs text-amber-700">
+            <DoorOpen className="w-3.5 h-3.5" />
+            Idle rooms
+          </div>
+          <div className="text-xl font-bold text-amber-800">{report.idleRooms.length}</div>
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 0 }}>
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left font-medium text-gray-500 pr-3 pb-1">Room</th>
+              <th className="text-right font-medium text-gray-500 px-2 pb-1">Prime</th>
+              {DAYS_OF_WEEK.map((day) => (
+                <th key={day.key} colSpan={HOURS.length} className="font-medium text-gray-700 pb-1 border-l border-gray-200">
+                  {day.short}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.rooms.map((room) => (
+              <tr key={room.roomKey}>
+                <td className="sticky left-0 bg-white pr-3 py-0.5 whitespace-nowrap" title={`${room.buildingName}${room.capacity ? ` · ${room.capacity} seats` : ''}`}>
+                  <span className="font-medium text-gray-900">{room.roomKey}</span>
+                  {room.campus && <span className="ml-1 text-gray-400">{room.campus === 'Cheney' ? 'CHN' : 'SPK'}</span>}
+                </td>
+                <td className="px-2 py-0.5">
+                  <div className="flex items-center gap-1.5 justify-end" title={`${room.primeUtilization}% of weekday prime time`}>
+                    <div className="w-12 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${utilizationColor(room.primeUtilization)}`}
+                        style={{ width: `${Math.min(room.primeUtilization, 100)}%` }}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-gray-700">{room.primeUtilization}%</span>
+                  </div>
+                </td>
+                {DAYS_OF_WEEK.map((day) =>
+                  room.hourlyOccupancy[day.key].map((fraction, i) => {
+                    const hour = HOURS[i];
+                    const isPrime = hour * 60 >= PRIME_TIME_START && hour * 60 < PRIME_TIME_END;
+                    const bookings = fraction > 0 ? cellBookings(room, day.key, hour) : [];
+                    return (
+                      <td key={`${day.key}-${hour}`} className={`p-0 ${i === 0 ? 'border-l border-gray-200' : ''}`}>
+                        <button
+                          type="button"
+                          disabled={bookings.length === 0}
+                          onClick={() => bookings[0] && onCourseClick(bookings[0].course)}
+                          className={`block w-2.5 h-5 ${occupancyClass(fraction, isPrime)} ${bookings.length > 0 ? 'hover:ring-2 hover:ring-blue-300' : 'cursor-default'}`}
+                          title={`${room.roomKey} · ${day.display} ${minutesToDisplayTime(hour * 60)}${
+                            bookings.length > 0
+                              ? `\n${bookings.map((b) => `${b.course.displayCode}-${b.course.section} (CRN ${b.course.crn})`).join('\n')}`
+                              : ' · free'
+                          }`}
+                          aria-label={`${room.roomKey} ${day.display} ${minutesToDisplayTime(hour * 60)}`}
+                        />
+                      </td>
+                    );
+                  })
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-2 flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-amber-50 border border-amber-200" /> Free, prime time ({minutesToDisplayTime(PRIME_TIME_START)}–{minutesToDisplayTime(PRIME_TIME_END)})</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-blue-200" /> Partly used</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-blue-600" /> Full hour</span>
+        </div>
+      </div>
+
+      {/* Reclaim candidates */}
+      {report.idleRooms.length > 0 && (
+        <div className="p-3 border border-amber-200 bg-amber-50 rounded-xl">
+          <h3 className="text-sm font-semibold text-amber-800 mb-2">
+            Under {IDLE_THRESHOLD_PERCENT}% of prime time: candidates to reclaim
+          </h3>
+          <ul className="flex flex-wrap gap-2">
+            {report.idleRooms.map((room) => (
+              <li
+                key={room.roomKey}
+                className="px-2 py-1 bg-white border border-amber-200 rounded-lg text-xs text-gray-700"
+                title={`${room.buildingName} · ${Math.round(room.weeklyMinutes / 60)} h/week in use`}
+              >
+                <span className="font-medium">{room.roomKey}</span> · {room.primeUtilization}%
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
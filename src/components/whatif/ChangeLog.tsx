@@ -0,0 +1,73 @@
+import { Download } from 'lucide-react';
+import type { DraftAuditEntry } from '../../types/draft';
+import { AUDIT_ACTION_LABELS, auditLogToCsv } from '../../services/draftAudit';
+import { downloadText } from '../../utils/download';
+
+interface ChangeLogProps {
+  entries: DraftAuditEntry[];
+  /** Used in the exported file name */
+  scenarioName: string;
+  onCourseClick?: (courseId: string) => void;
+}
+
+const ACTION_STYLES: Partial<Record<DraftAuditEntry['action'], string>> = {
+  cancel: 'bg-red-100 text-red-700',
+  'remove-added': 'bg-red-100 text-red-700',
+  add: 'bg-green-100 text-green-700',
+  undo: 'bg-amber-100 text-amber-700',
+  redo: 'bg-amber-100 text-amber-700',
+};
+
+export default function ChangeLog({ entries, scenarioName, onCourseClick }: ChangeLogProps) {
+  const exportLog = () => {
+    const slug = scenarioName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'draft';
+    downloadText(auditLogToCsv(entries), `what-if-change-log-${slug}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="border-t border-gray-200">
+      <div className="px-4 py-2 flex items-center justify-between bg-gray-50">
+        <span className="text-xs font-medium text-gray-600">
+          Change log · {entries.length} entr{entries.length === 1 ? 'y' : 'ies'}
+        </span>
+        <button
+          onClick={exportLog}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-50 transition-colors"
+          title="Download the change log as CSV"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-gray-500">No edits recorded for this scenario yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+          {[...entries].reverse().map((entry) => (
+            <li
+              key={entry.id}
+              className={`px-4 py-2 text-xs ${entry.courseId && onCourseClick ? 'hover:bg-gray-50 cursor-pointer' : ''}`}
+              onClick={() => entry.courseId && onCourseClick?.(entry.courseId)}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`px-1.5 py-0.5 rounded font-medium ${ACTION_STYLES[entry.action] ?? 'bg-blue-100 text-blue-700'}`}>
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                </span>
+                {entry.courseCode && <span className="font-medium text-gray-900">{entry.courseCode}</span>}
+                <span className="ml-auto text-gray-400 whitespace-nowrap" title={entry.at.toLocaleString()}>
+                  {entry.at.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+              <div className="mt-0.5 text-gray-600">{entry.summary}</div>
+              <div className="text-gray-400">
+                {entry.author} · {entry.at.toLocaleDateString()}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
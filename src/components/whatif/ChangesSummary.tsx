@@ -1,8 +1,17 @@
-import { useMemo } from 'react';
-import { X, Undo2, Pencil, Plus, Download } from 'lucide-react';
-import { useDraft, useDraftActions } from '../../contexts/DraftScheduleContext';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Undo2, Pencil, Plus, Download, Printer, Upload, FileJson, Undo, Redo, History, Users } from 'lucide-react';
+import { useDraft, useDraftActions, useDraftHistory } from '../../contexts/DraftScheduleContext';
 import { useCourses } from '../../contexts/ScheduleContext';
-import { downloadJson } from '../../utils/download';
+import { downloadJson, downloadText } from '../../utils/download';
+import {
+  applyChangeRequest,
+  buildChangeRequest,
+  changeRequestToCsv,
+  changeRequestToHtml,
+  parseChangeRequest,
+} from '../../services/changeRequest';
+import ChangeLog from './ChangeLog';
+import PersonaImpactModal from './PersonaImpactModal';
 
 interface ChangesSummaryProps {
   onCourseClick?: (courseId: string) => void;
@@ -10,8 +19,33 @@ interface ChangesSummaryProps {
 
 export default function ChangesSummary({ onCourseClick }: ChangesSummaryProps) {
   const courses = useCourses();
-  const { state, changeCount, hasChanges } = useDraft();
-  const { resetAll, revertCourse, restoreCourse, removeAddedCourse } = useDraftActions();
+  const { state, changeCount, hasChanges, activeScenario } = useDraft();
+  const { resetAll, revertCourse, restoreCourse, removeAddedCourse, importChanges } = useDraftActions();
+  const { undo, redo, canUndo, canRedo, undoLabel, redoLabel, auditLog } = useDraftHistory();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [showLog, setShowLog] = useState(false);
+  const [showImpact, setShowImpact] = useState(false);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) while the editor is open,
+  // leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Build a summary of all changes
   const changesSummary = useMemo(() => {
@@ -76,10 +110,120 @@ export default function ChangesSummary({ onCourseClick }: ChangesSummaryProps) {
     return changes;
   }, [courses, state.cancelledIds, state.modifications, state.addedCourses]);
 
+  const handleImport = async (file: File) => {
+    try {
+      const doc = parseChangeRequest(JSON.parse(await file.text()));
+      if (hasChanges && !confirm('Importing replaces your current What-If changes. Continue?')) return;
+      const { unmatchedCrns, ...changes } = applyChangeRequest(doc, courses);
+      importChanges(changes);
+      setImportMessage(
+        unmatchedCrns.length > 0
+          ? `Imported. ${unmatchedCrns.length} CRN(s) not in this schedule were skipped: ${unmatchedCrns.join(', ')}`
+          : null
+      );
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : 'Failed to import change request');
+    }
+  };
+
+  const historyControls = (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        className="p-1.5 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo className="w-4 h-4" />
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        className="p-1.5 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setShowLog(!showLog)}
+        className={`p-1.5 rounded-md transition-colors ${
+          showLog ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-gray-100'
+        }`}
+        title="Show change log"
+        aria-label="Change log"
+        aria-pressed={showLog}
+      >
+        <History className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  const changeLog = showLog && (
+    <ChangeLog entries={auditLog} scenarioName={activeScenario?.name ?? 'draft'} onCourseClick={onCourseClick} />
+  );
+
+  const importControls = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void handleImport(file);
+          e.target.value = '';
+        }}
+      />
+      {importMessage && <p className="px-4 pt-2 text-xs text-amber-700">{importMessage}</p>}
+    </>
+  );
+
   if (!hasChanges) {
-    return null;
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+        {importControls}
+        <div className="px-4 py-3 flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-500">No changes yet</span>
+          <div className="flex items-center gap-3">
+            {historyControls}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import change request
+            </button>
+          </div>
+        </div>
+        {changeLog}
+      </div>
+    );
   }
 
+  const exportChangeRequest = (format: 'csv' | 'html' | 'json') => {
+    const doc = buildChangeRequest(state, courses);
+    const base = `schedule-change-request-${doc.effectiveTerm || new Date().toISOString().split('T')[0]}`;
+    if (format === 'csv') {
+      downloadText(changeRequestToCsv(doc), `${base}.csv`, 'text/csv');
+    } else if (format === 'json') {
+      downloadJson(doc, `${base}.json`);
+    } else {
+      const html = changeRequestToHtml(doc);
+      const report = window.open('', '_blank');
+      if (report) {
+        report.document.write(html);
+        report.document.close();
+        report.focus();
+        report.print();
+      } else {
+        downloadText(html, `${base}.html`, 'text/html');
+      }
+    }
+  };
+
   const handleUndoChange = (change: typeof changesSummary[0]) => {
     switch (change.type) {
       case 'cancelled':
@@ -104,14 +248,17 @@ export default function ChangesSummary({ onCourseClick }: ChangesSummaryProps) {
             {changeCount}
           </span>
         </div>
-        <button
-          onClick={resetAll}
-          className="flex items-center gap-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
-          title="Reset all changes"
-        >
-          <Undo2 className="w-4 h-4" />
-          <span className="hidden sm:inline">Reset</span>
-        </button>
+        <div className="flex items-center gap-3">
+          {historyControls}
+          <button
+            onClick={resetAll}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
+            title="Reset all changes"
+          >
+            <Undo2 className="w-4 h-4" />
+            <span className="hidden sm:inline">Reset</span>
+          </button>
+        </div>
       </div>
 
       {/* Changes list */}
@@ -168,28 +315,56 @@ export default function ChangesSummary({ onCourseClick }: ChangesSummaryProps) {
         ))}
       </div>
 
-      {/* Footer with export option */}
-      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200">
+      {changeLog}
+
+      {importControls}
+
+      {/* Footer with change-request exports */}
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 space-y-2">
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => exportChangeRequest('csv')}
+            className="btn btn-secondary text-sm py-2 flex items-center justify-center gap-2"
+            title="Registrar change request as CSV"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportChangeRequest('html')}
+            className="btn btn-secondary text-sm py-2 flex items-center justify-center gap-2"
+            title="Printable change request report"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+          <button
+            onClick={() => exportChangeRequest('json')}
+            className="btn btn-secondary text-sm py-2 flex items-center justify-center gap-2"
+            title="Change request JSON (can be imported back into the draft)"
+          >
+            <FileJson className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
         <button
-          onClick={() => {
-            const exportData = {
-              exportDate: new Date().toISOString(),
-              changeCount,
-              changes: changesSummary.map((change) => ({
-                courseId: change.id,
-                courseCode: change.courseCode,
-                changeType: change.type,
-                description: change.description,
-              })),
-            };
-            downloadJson(exportData, `schedule-changes-${new Date().toISOString().split('T')[0]}.json`);
-          }}
-          className="w-full btn btn-secondary text-sm py-2 flex items-center justify-center gap-2"
+          onClick={() => setShowImpact(true)}
+          className="btn btn-secondary w-full text-sm py-2 flex items-center justify-center gap-2"
+          title="Check the draft against student personas' plans"
         >
-          <Download className="w-4 h-4" />
-          Export Changes
+          <Users className="w-4 h-4" />
+          Student Impact
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full text-xs text-gray-500 hover:text-blue-600 flex items-center justify-center gap-1"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          Import change request JSON
         </button>
       </div>
+
+      {showImpact && <PersonaImpactModal onClose={() => setShowImpact(false)} />}
     </div>
   );
 }
@@ -1,10 +1,11 @@
 import { useState, useMemo } from 'react';
-import { X, User, Clock, MapPin, AlertTriangle, Undo2, Trash2, Save } from 'lucide-react';
+import { X, User, Clock, MapPin, DoorOpen, AlertTriangle, Undo2, Trash2, Save } from 'lucide-react';
 import type { Course, Instructor, DayOfWeek, CampusType } from '../../types/schedule';
 import { useCourses } from '../../contexts/ScheduleContext';
 import { useDraft, useDraftActions } from '../../contexts/DraftScheduleContext';
 import { SUBJECT_COLORS } from '../../constants/colors';
 import { minutesToDisplayTime } from '../../constants/timeSlots';
+import { ROOM_FEATURE_LABELS, checkRoomFit, getAllRooms, getRequiredRoomFeatures, getRoom } from '../../constants/rooms';
 
 interface CourseEditModalProps {
   course: Course;
@@ -27,6 +28,7 @@ function generateTimeOptions(): { value: number; label: string }[] {
 }
 
 const TIME_OPTIONS = generateTimeOptions();
+const ROOM_OPTIONS = getAllRooms();
 const CAMPUS_OPTIONS: CampusType[] = ['Cheney', 'Spokane U-District', 'Online'];
 const DAY_OPTIONS: { key: DayOfWeek; label: string; short: string }[] = [
   { key: 'monday', label: 'Monday', short: 'M' },
@@ -74,6 +76,13 @@ export default function CourseEditModal({ course, onClose }: CourseEditModalProp
   const [selectedCampus, setSelectedCampus] = useState<CampusType>(
     modification?.changes.campus ?? course.campus
   );
+  const [selectedRoom, setSelectedRoom] = useState<string>(initialMeeting?.location ?? '');
+
+  // Live capacity/feature check for the chosen room
+  const roomIssues = useMemo(
+    () => checkRoomFit(selectedRoom, course.enrollment.maximum, getRequiredRoomFeatures(course)),
+    [course, selectedRoom]
+  );
 
   // Check if form has unsaved changes (could be used for confirmation dialog)
   const _hasUnsavedChanges = useMemo(() => {
@@ -82,9 +91,10 @@ export default function CourseEditModal({ course, onClose }: CourseEditModalProp
     if (selectedCampus !== course.campus) return true;
     if (startTime !== originalMeeting?.startMinutes) return true;
     if (endTime !== originalMeeting?.endMinutes) return true;
+    if (selectedRoom !== (originalMeeting?.location ?? '')) return true;
     if (JSON.stringify(selectedDays.sort()) !== JSON.stringify(originalMeeting?.days?.sort())) return true;
     return false;
-  }, [course, selectedInstructor, selectedCampus, startTime, endTime, selectedDays]);
+  }, [course, selectedInstructor, selectedCampus, startTime, endTime, selectedDays, selectedRoom]);
   void _hasUnsavedChanges; // Suppress unused warning, will be used for close confirmation
 
   // Toggle a day in the selection
@@ -97,9 +107,13 @@ export default function CourseEditModal({ course, onClose }: CourseEditModalProp
   // Handle save
   const handleSave = () => {
     // Build the updated meeting
+    const room = getRoom(selectedRoom);
     const updatedMeeting = course.meetings[0]
       ? {
           ...course.meetings[0],
+          ...(room && room.location !== course.meetings[0].location
+            ? { building: room.building, room: room.room, location: room.location }
+            : {}),
           days: selectedDays,
           startMinutes: startTime,
           endMinutes: endTime,
@@ -293,6 +307,36 @@ export default function CourseEditModal({ course, onClose }: CourseEditModalProp
             </div>
           </div>
 
+          {/* Room selection */}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+              <DoorOpen className="w-4 h-4" />
+              Room
+            </label>
+            <select
+              value={selectedRoom}
+              onChange={(e) => setSelectedRoom(e.target.value)}
+              className="input w-full"
+            >
+              {!getRoom(selectedRoom) && (
+                <option value={selectedRoom}>{selectedRoom || '— No room —'}</option>
+              )}
+              {ROOM_OPTIONS.map((room) => (
+                <option key={room.location} value={room.location}>
+                  {room.location} · {room.capacity} seats
+                  {room.features.length > 0 &&
+                    ` · ${room.features.map((f) => ROOM_FEATURE_LABELS[f]).join(', ')}`}
+                </option>
+              ))}
+            </select>
+            {roomIssues.map((issue) => (
+              <p key={issue.message} className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                {issue.message}
+              </p>
+            ))}
+          </div>
+
           {/* Warning if time validation fails */}
           {endTime <= startTime && (
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Users, Clock, Car, BookX, CheckCircle, Loader2 } from 'lucide-react';
+import { useCourses } from '../../contexts/ScheduleContext';
+import { useDraft } from '../../contexts/DraftScheduleContext';
+import { usePersonas } from '../../contexts/StudentContext';
+import { formatTerm } from '../../constants/academicTerms';
+import { loadPrograms } from '../../services/catalogParser';
+import { analyzePersonaImpact, type LostOfferingReason } from '../../services/personaImpact';
+import type { DegreeProgram } from '../../types/advising';
+
+interface PersonaImpactModalProps {
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<LostOfferingReason, string> = {
+  enrolled: 'enrolled',
+  planned: 'planned this term',
+  required: 'required, not yet passed',
+};
+
+export default function PersonaImpactModal({ onClose }: PersonaImpactModalProps) {
+  const liveCourses = useCourses();
+  const { draftCourses, termCode } = useDraft();
+  const personas = usePersonas();
+  const [programs, setPrograms] = useState<Map<string, DegreeProgram> | null>(null);
+
+  // Required courses come from the personas' programs
+  useEffect(() => {
+    let cancelled = false;
+    const slugs = new Set(personas.flatMap((p) => [p.primaryMajor, p.secondMajor, ...p.minors].filter(Boolean) as string[]));
+    loadPrograms(Array.from(slugs)).then((loaded) => {
+      if (!cancelled) setPrograms(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [personas]);
+
+  const report = useMemo(
+    () => (programs ? analyzePersonaImpact(personas, liveCourses, draftCourses, { termCode, programs }) : null),
+    [personas, liveCourses, draftCourses, termCode, programs]
+  );
+
+  return (
+    <div
+      className="modal-overlay z-50 animate-fade-in"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="modal-content animate-slide-in max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Student Impact
+            </h2>
+            <p className="text-gray-600 text-sm">
+              Advising personas whose {termCode ? formatTerm(termCode) : ''} plans the draft breaks
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-200 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="modal-body space-y-3">
+          {!report ? (
+            <p className="text-sm text-gray-500 flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading degree programs…
+            </p>
+          ) : personas.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No student personas yet. Create some on the Students page to check drafts against their plans.
+            </p>
+          ) : report.impacts.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              None of the {report.personasChecked} personas are affected by this draft.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700">
+                {report.impacts.length} of {report.personasChecked} personas affected.
+              </p>
+              {report.impacts.map((impact) => (
+                <div key={impact.personaId} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg" aria-hidden="true">{impact.icon}</span>
+                    <span className="font-medium text-gray-900">{impact.nickname}</span>
+                    {impact.termCourses.length > 0 && (
+                      <span className="text-xs text-gray-500 truncate">{impact.termCourses.join(', ')}</span>
+                    )}
+                  </div>
+                  <ul className="space-y-1.5 text-sm">
+                    {impact.newConflicts.map((conflict) => (
+                      <li
+                        key={conflict.id}
+                        className={`flex gap-2 ${conflict.type === 'time-overlap' ? 'text-red-700' : 'text-amber-700'}`}
+                      >
+                        {conflict.type === 'time-overlap' ? (
+                          <Clock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <Car className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        )}
+                        <span>
+                          {conflict.description}
+                          {conflict.suggestion && (
+                            <span className="block text-xs text-gray-500">{conflict.suggestion}</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                    {impact.lostOfferings.map((lost) => (
+                      <li key={lost.courseCode} className="flex gap-2 text-red-700">
+                        <BookX className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>
+                          {lost.courseCode} is no longer offered ({REASON_LABELS[lost.reason]})
+                          <span className="block text-xs text-gray-500">Live CRN {lost.liveCrns.join(', ')}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
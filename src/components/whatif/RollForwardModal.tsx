@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { X, CalendarPlus, Download, Loader2, Pencil, AlertTriangle, User, MapPin } from 'lucide-react';
+import { useSchedule } from '../../contexts/ScheduleContext';
+import { useDraft } from '../../contexts/DraftScheduleContext';
+import { formatTerm, isTermAfter } from '../../constants/academicTerms';
+import { loadTermDataFromPublic, loadTermsFromPublic } from '../../services/termSchedules';
+import { getRollForwardTerm, rollForwardTerm, type RollForwardResult } from '../../services/rollForward';
+import { downloadJson } from '../../utils/download';
+
+// Instructors and rooms are checked against this many of the newest terms
+// published after the source term, or when the source is the newest term,
+// the newest terms before it
+const REFERENCE_TERM_COUNT = 3;
+
+interface RollForwardModalProps {
+  onClose: () => void;
+}
+
+export default function RollForwardModal({ onClose }: RollForwardModalProps) {
+  const { availableTerms, selectedTermCode, loadFromData } = useSchedule();
+  const { setEditMode } = useDraft();
+
+  const termCodes = useMemo(
+    () => availableTerms.map((t) => t.termCode).sort((a, b) => b.localeCompare(a)),
+    [availableTerms]
+  );
+
+  const [sourceTerm, setSourceTerm] = useState(selectedTermCode ?? termCodes[0] ?? '');
+  const [result, setResult] = useState<RollForwardResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const referenceTerms = useMemo(() => {
+    const later = termCodes.filter((code) => isTermAfter(code, sourceTerm));
+    const earlier = termCodes.filter((code) => isTermAfter(sourceTerm, code));
+    return (later.length > 0 ? later : earlier).slice(0, REFERENCE_TERM_COUNT);
+  }, [termCodes, sourceTerm]);
+
+  const handleRun = async () => {
+    if (!sourceTerm) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const [source, reference] = await Promise.all([
+        loadTermDataFromPublic(sourceTerm),
+        loadTermsFromPublic(referenceTerms),
+      ]);
+      setResult(rollForwardTerm(source, sourceTerm, reference));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to roll forward');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleOpenInEditor = () => {
+    if (!result) return;
+    // Drafts are kept per term, so the source term's scenarios are untouched
+    loadFromData(result.data, `Roll-forward of ${formatTerm(result.sourceTerm)}`);
+    setEditMode(true);
+    onClose();
+  };
+
+  const staleInstructors = result?.stale.filter((s) => s.kind === 'instructor') ?? [];
+  const staleRooms = result?.stale.filter((s) => s.kind === 'room') ?? [];
+
+  return (
+    <div
+      className="modal-overlay z-50 animate-fade-in"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="modal-content animate-slide-in max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <CalendarPlus className="w-5 h-5" />
+              Roll Forward
+            </h2>
+            <p className="text-gray-600 text-sm">
+              Start next year's schedule from a prior term, keeping times, rooms and instructors
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-200 rounded-lg transition-colors"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="modal-body space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={sourceTerm}
+              onChange={(e) => {
+                setSourceTerm(e.target.value);
+                setResult(null);
+              }}
+              className="input w-48"
+              aria-label="Source term"
+            >
+              {termCodes.map((code) => (
+                <option key={code} value={code}>{formatTerm(code)}</option>
+              ))}
+            </select>
+            {sourceTerm && (
+              <span className="text-sm text-gray-700">
+                → <span className="font-medium">{formatTerm(getRollForwardTerm(sourceTerm))}</span>
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={!sourceTerm || running}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {running && <Loader2 className="w-4 h-4 animate-spin" />}
+              Roll Forward
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Enrollment is reset and CRNs are kept as placeholders.{' '}
+            {referenceTerms.length > 0
+              ? `Instructors and rooms are checked against ${referenceTerms.map(formatTerm).join(', ')}.`
+              : 'No other terms are published, so instructors and rooms are not checked.'}
+          </p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                {result.courses.length} sections carried into {formatTerm(result.targetTerm)}.{' '}
+                {result.stale.length === 0
+                  ? 'Every instructor and room appears in recent terms.'
+                  : `${result.stale.length} references need review.`}
+              </p>
+
+              {[
+                { label: 'Instructors not seen recently', icon: User, items: staleInstructors },
+                { label: 'Rooms not used recently', icon: MapPin, items: staleRooms },
+              ]
+                .filter((group) => group.items.length > 0)
+                .map(({ label, icon: Icon, items }) => (
+                  <div key={label} className="p-3 bg-amber-50 rounded-lg">
+                    <h3 className="text-sm font-medium text-amber-800 flex items-center gap-2 mb-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {label} ({items.length})
+                    </h3>
+                    <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-gray-700">
+                      {items.map((item) => (
+                        <li key={`${item.kind}-${item.crn}-${item.value}`} className="flex items-center gap-2">
+                          <Icon className="w-3.5 h-3.5 text-gray-400" />
+                          <span className="font-medium">{item.value}</span>
+                          <span className="text-gray-500">
+                            {item.displayCode}-{item.section} (CRN {item.crn})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="modal-footer flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => downloadJson(result.data, `${result.targetTerm}-roll-forward.json`)}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download Banner JSON
+            </button>
+            <button type="button" onClick={handleOpenInEditor} className="btn btn-primary flex items-center gap-2">
+              <Pencil className="w-4 h-4" />
+              Open in What-If Editor
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
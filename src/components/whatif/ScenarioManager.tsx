@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { Layers, Plus, Copy, Pencil, Trash2, Check, X, GitCompare, ArrowRight } from 'lucide-react';
+import { useDraft, useScenarios } from '../../contexts/DraftScheduleContext';
+import { useCourses } from '../../contexts/ScheduleContext';
+import { useFacultyProfileIndex } from '../../contexts/FacultyProfileContext';
+import { formatTerm } from '../../constants/academicTerms';
+import type { DraftScenario } from '../../types/draft';
+import {
+  diffScenarios,
+  EMPTY_DRAFT_CHANGES,
+  summarizeScenario,
+  type ScenarioSummary,
+} from '../../services/draftScenarios';
+
+// Compare selector value standing for the live schedule
+const LIVE = 'live';
+
+const FIELD_LABELS = {
+  status: 'Status',
+  instructor: 'Instructor',
+  time: 'Time',
+  room: 'Room',
+  campus: 'Campus',
+} as const;
+
+export default function ScenarioManager() {
+  const courses = useCourses();
+  const facultyProfiles = useFacultyProfileIndex();
+  const { changeCount, draftConflicts } = useDraft();
+  const {
+    termCode,
+    scenarios,
+    activeScenario,
+    createScenario,
+    duplicateScenario,
+    renameScenario,
+    deleteScenario,
+    switchScenario,
+  } = useScenarios();
+
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [compareA, setCompareA] = useState<string>(LIVE);
+  const [compareB, setCompareB] = useState<string>(LIVE);
+
+  // Conflict analysis is per scenario; cache by scenario object so editing
+  // one scenario does not re-analyze the others. The cache carries the
+  // schedule and profiles it was built for, so new ones start a fresh cache.
+  const summaryCache = useMemo(
+    () => ({ courses, facultyProfiles, summaries: new WeakMap<DraftScenario, ScenarioSummary>() }),
+    [courses, facultyProfiles]
+  );
+  const summaries = useMemo(() => {
+    const result = new Map<string, ScenarioSummary>();
+    for (const scenario of scenarios) {
+      if (scenario.id === activeScenario?.id) {
+        result.set(scenario.id, { changeCount, conflictCount: draftConflicts.length });
+        continue;
+      }
+      let summary = summaryCache.summaries.get(scenario);
+      if (!summary) {
+        summary = summarizeScenario(scenario, summaryCache.courses, summaryCache.facultyProfiles);
+        summaryCache.summaries.set(scenario, summary);
+      }
+      result.set(scenario.id, summary);
+    }
+    return result;
+  }, [scenarios, activeScenario, changeCount, draftConflicts, summaryCache]);
+
+  const diff = useMemo(() => {
+    if (compareA === compareB) return [];
+    const changesFor = (id: string) => scenarios.find((s) => s.id === id) ?? EMPTY_DRAFT_CHANGES;
+    return diffScenarios(changesFor(compareA), changesFor(compareB), courses);
+  }, [compareA, compareB, scenarios, courses]);
+
+  const startRename = (scenario: DraftScenario) => {
+    setRenamingId(scenario.id);
+    setRenameValue(scenario.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) renameScenario(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (scenario: DraftScenario) => {
+    if (!confirm(`Delete scenario "${scenario.name}" and its ${summaries.get(scenario.id)?.changeCount ?? 0} change(s)?`)) {
+      return;
+    }
+    deleteScenario(scenario.id);
+    if (compareA === scenario.id) setCompareA(LIVE);
+    if (compareB === scenario.id) setCompareB(LIVE);
+  };
+
+  const labelFor = (id: string) => (id === LIVE ? 'Live' : scenarios.find((s) => s.id === id)?.name ?? '');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4 text-gray-500" />
+          <span className="font-semibold text-gray-900">Scenarios</span>
+          {termCode && <span className="text-sm text-gray-500">{formatTerm(termCode)}</span>}
+        </div>
+        <button
+          onClick={() => createScenario(`Plan ${String.fromCharCode(65 + (scenarios.length % 26))}`)}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600 transition-colors"
+          title="Start an empty scenario"
+        >
+          <Plus className="w-4 h-4" />
+          <span className="hidden sm:inline">New</span>
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">
+          Your first edit starts a "Draft" scenario. Add more to keep alternative plans side by side.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {scenarios.map((scenario) => {
+            const isActive = scenario.id === activeScenario?.id;
+            const summary = summaries.get(scenario.id);
+            return (
+              <div
+                key={scenario.id}
+                className={`px-4 py-2.5 flex items-center gap-3 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50 cursor-pointer'}`}
+                onClick={() => !isActive && renamingId !== scenario.id && switchScenario(scenario.id)}
+              >
+                <span
+                  className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${isActive ? 'bg-blue-600' : 'bg-gray-300'}`}
+                  aria-hidden="true"
+                />
+                <div className="flex-1 min-w-0">
+                  {renamingId === scenario.id ? (
+                    <form
+                      className="flex items-center gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        commitRename();
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        className="input py-1 text-sm"
+                        aria-label="Scenario name"
+                      />
+                      <button type="submit" className="p-1 text-green-600" title="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className="p-1 text-gray-400" title="Cancel">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="font-medium text-sm text-gray-900 truncate">
+                        {scenario.name}
+                        <span className="ml-2 text-xs font-normal text-gray-400">v{scenario.version}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {summary?.changeCount ?? 0} change{summary?.changeCount === 1 ? '' : 's'} •{' '}
+                        <span className={summary?.conflictCount ? 'text-amber-700' : undefined}>
+                          {summary?.conflictCount ?? 0} conflict{summary?.conflictCount === 1 ? '' : 's'}
+                        </span>
+                        {scenario.lastModified && <> • edited {scenario.lastModified.toLocaleString()}</>}
+                      </div>
+                    </>
+                  )}
+                </div>
+                {renamingId !== scenario.id && (
+                  <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => duplicateScenario(scenario.id)}
+                      className="p-1.5 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+                      title="Duplicate scenario"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => startRename(scenario)}
+                      className="p-1.5 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+                      title="Rename scenario"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(scenario)}
+                      className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-gray-100 transition-colors"
+                      title="Delete scenario"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Compare any two scenarios (or a scenario with the live schedule) */}
+      {scenarios.length > 0 && (
+        <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <GitCompare className="w-4 h-4 text-gray-500" />
+            <span className="text-gray-700">Compare</span>
+            {[
+              { value: compareA, onChange: setCompareA, label: 'First scenario' },
+              { value: compareB, onChange: setCompareB, label: 'Second scenario' },
+            ].map(({ value, onChange, label }, i) => (
+              <span key={label} className="flex items-center gap-2">
+                {i === 1 && <ArrowRight className="w-3.5 h-3.5 text-gray-400" />}
+                <select
+                  value={value}
+                  onChange={(e) => onChange(e.target.value)}
+                  className="input py-1 text-sm w-40"
+                  aria-label={label}
+                >
+                  <option value={LIVE}>Live schedule</option>
+                  {scenarios.map((s) => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+              </span>
+            ))}
+          </div>
+
+          {compareA !== compareB &&
+            (diff.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                {labelFor(compareA)} and {labelFor(compareB)} produce the same schedule.
+              </p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg bg-white">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium">Section</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Field</th>
+                      <th className="px-2 py-1.5 text-left font-medium">{labelFor(compareA)}</th>
+                      <th className="px-2 py-1.5 text-left font-medium">{labelFor(compareB)}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {diff.flatMap((row) =>
+                      row.fields.map((field, i) => (
+                        <tr key={`${row.courseId}-${field.field}`}>
+                          <td className="px-2 py-1.5 text-gray-900">
+                            {i === 0 && (
+                              <span className="font-medium" title={row.title}>
+                                {row.courseCode}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-2 py-1.5 text-gray-500">{FIELD_LABELS[field.field]}</td>
+                          <td className="px-2 py-1.5 text-gray-700">{field.a}</td>
+                          <td className="px-2 py-1.5 text-gray-700">{field.b}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
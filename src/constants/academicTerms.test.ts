@@ -7,6 +7,7 @@ import {
   addQuarters,
   getQuartersBetween,
   getAcademicYear,
+  getAcademicYearTerms,
 } from './academicTerms';
 
 describe('academicTerms', () => {
@@ -34,5 +35,10 @@ describe('academicTerms', () => {
     expect(getAcademicYear('202510')).toBe('2024-25');
     expect(getAcademicYear('202540')).toBe('2025-26');
   });
-});
 
+  it('lists the fall, winter and spring terms of an academic year', () => {
+    expect(getAcademicYearTerms('202540')).toEqual(['202540', '202610', '202620']);
+    expect(getAcademicYearTerms('202620')).toEqual(['202540', '202610', '202620']);
+    expect(getAcademicYearTerms('202530')).toEqual(['202440', '202510', '202520']);
+  });
+});
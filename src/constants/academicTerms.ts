@@ -370,3 +370,22 @@ export function getAcademicYear(termCode: AcademicTerm): string {
   // Winter, Spring, Summer belong to the academic year that started previous Fall
   return `${year - 1}-${year.toString().slice(-2)}`;
 }
+
+/**
+ * The fall, winter and spring terms of the academic year containing a term.
+ * Summer is outside the nine-month academic year and maps to the year that
+ * just ended.
+ *
+ * @example
+ * getAcademicYearTerms("202610") // => ["202540", "202610", "202620"]
+ * getAcademicYearTerms("202540") // => ["202540", "202610", "202620"]
+ */
+export function getAcademicYearTerms(termCode: AcademicTerm): AcademicTerm[] {
+  const { year, quarter } = parseTerm(termCode);
+  const fallYear = quarter === 'fall' ? year : year - 1;
+  return [
+    createTerm(fallYear, 'fall'),
+    createTerm(fallYear + 1, 'winter'),
+    createTerm(fallYear + 1, 'spring'),
+  ];
+}
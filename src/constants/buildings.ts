@@ -20,6 +20,7 @@
  */
 
 import type { CampusBuilding, Campus } from '../types/advising';
+import type { CampusType, Course, Meeting } from '../types/schedule';
 
 /**
  * All campus buildings with coordinates for SVG map
@@ -320,7 +321,7 @@ export function checkWalkingFeasibility(
       walkingMinutes: -1,
       isCrossCampus: true,
       buffer: 0,
-      recommendation: 'Cross-campus classes require driving (~20 min). Consider scheduling on different days.',
+      recommendation: `Cross-campus classes require driving (~${CROSS_CAMPUS_DRIVING_MINUTES} min). Consider scheduling on different days.`,
     };
   }
 
@@ -382,6 +383,41 @@ export const STANDARD_PASSING_PERIOD = 10;
  */
 export const MINIMUM_WALKING_BUFFER = 5;
 
+/**
+ * Door-to-door driving time between the Cheney and Spokane U-District
+ * campuses, including parking (in minutes)
+ */
+export const CROSS_CAMPUS_DRIVING_MINUTES = 25;
+
+/**
+ * Building a student or instructor has to be in for a meeting, or null for
+ * online sections and meetings without a room (ARR, TBA)
+ */
+export function getMeetingBuilding(
+  course: Pick<Course, 'delivery'>,
+  meeting: Pick<Meeting, 'building' | 'location'>
+): string | null {
+  if (course.delivery === 'Online' || !meeting.building || meeting.building === 'ARR' || meeting.location === 'TBA') {
+    return null;
+  }
+  return extractBuildingCode(meeting.location) ?? meeting.building;
+}
+
+/**
+ * Whether going from one building to the next means changing campus: the
+ * buildings are on different campuses, or the sections are scheduled at
+ * different campuses. A section's 'Online' campus never counts.
+ */
+export function isCrossCampusMove(
+  fromBuilding: string,
+  fromCampus: CampusType,
+  toBuilding: string,
+  toCampus: CampusType
+): boolean {
+  if (getWalkingTime(fromBuilding, toBuilding) === -1) return true;
+  return fromCampus !== toCampus && fromCampus !== 'Online' && toCampus !== 'Online';
+}
+
 /**
  * Get all building codes for validation
  */
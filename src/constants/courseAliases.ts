@@ -0,0 +1,55 @@
+/**
+ * =============================================================================
+ * MODULE: Course Aliases
+ * =============================================================================
+ *
+ * PURPOSE: Canonical course identity across subject renames (CSCD -> CYBR)
+ * and cross-listings, so the same course lines up from term to term.
+ *
+ * DATA SOURCE: data/catalog/mappings/course-aliases.json, the same map
+ * `npm run build:trends` applies when grouping trend data.
+ * =============================================================================
+ */
+
+import type { CourseAliasEntry, CourseAliasMapFile } from '../types/trends';
+import aliasFile from '../../data/catalog/mappings/course-aliases.json';
+
+export const COURSE_ALIAS_ENTRIES: CourseAliasEntry[] = (aliasFile as CourseAliasMapFile).entries;
+
+/**
+ * Course code in one canonical spelling, e.g. " cscd  330" => "CSCD 330"
+ */
+export function normalizeCourseCode(code: string): string {
+  return code.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Map every alias (and each canonical code itself) to its canonical code
+ */
+export function buildCanonicalCodeMap(entries: CourseAliasEntry[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const entry of entries) {
+    const canonical = normalizeCourseCode(entry.canonicalCourseCode);
+    if (!canonical) continue;
+    map.set(canonical, canonical);
+    for (const alias of entry.aliases ?? []) {
+      const key = normalizeCourseCode(alias);
+      if (key) map.set(key, canonical);
+    }
+  }
+  return map;
+}
+
+const CANONICAL_CODES = buildCanonicalCodeMap(COURSE_ALIAS_ENTRIES);
+
+/**
+ * Canonical code for a course code, e.g. "CSCD 330" => "CYBR 330". Codes
+ * without an alias entry are returned normalized.
+ */
+export function getCanonicalCourseCode(
+  code: string,
+  canonicalCodes: Map<string, string> = CANONICAL_CODES
+): string {
+  const normalized = normalizeCourseCode(code);
+  return canonicalCodes.get(normalized) ?? normalized;
+}
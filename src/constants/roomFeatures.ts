@@ -0,0 +1,33 @@
+/**
+ * Room feature rules shared by the room inventory build step and the
+ * runtime room validator
+ */
+
+import type { RoomFeature } from '../types/rooms';
+
+/**
+ * Which kind of lab room a subject's LAB meetings need
+ */
+export const LAB_FEATURE_BY_SUBJECT: Record<string, RoomFeature> = {
+  CSCD: 'computer-lab',
+  CYBR: 'computer-lab',
+  DSCI: 'computer-lab',
+  EENG: 'lab-benches',
+  BIOL: 'lab-benches',
+  CHEM: 'lab-benches',
+  PHYS: 'lab-benches',
+  GEOS: 'lab-benches',
+  ENVS: 'lab-benches',
+};
+
+/**
+ * Rooms that have held sections at least this large count as lecture halls
+ */
+export const LECTURE_HALL_MIN_CAPACITY = 80;
+
+/**
+ * Banner meeting schedule type for lab meetings
+ */
+export function isLabMeetingType(scheduleType: string): boolean {
+  return scheduleType.toUpperCase() === 'LAB';
+}
@@ -0,0 +1,104 @@
+/**
+ * =============================================================================
+ * MODULE: Room Inventory
+ * =============================================================================
+ *
+ * PURPOSE: Seat capacity and teaching features for every physical room that
+ * appears in the published term schedules.
+ *
+ * DATA SOURCE: src/data/rooms/room-inventory.json, generated by
+ * `npm run build:rooms` from public/data/terms/*.json.
+ * - Capacity is the largest combined maximumEnrollment ever scheduled in the
+ *   room in a single meeting slot (stacked/cross-listed sections share seats)
+ * - Features are inferred from LAB meetings (see roomFeatures.ts) and size
+ *
+ * Rooms not in the inventory are treated as unknown: nothing is validated.
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import type { RoomFeature, RoomInventoryFile, RoomRecord } from '../types/rooms';
+import inventoryFile from '../data/rooms/room-inventory.json';
+import { LAB_FEATURE_BY_SUBJECT, isLabMeetingType } from './roomFeatures';
+
+export type RoomInventory = Map<string, RoomRecord>;
+
+/**
+ * All known rooms keyed by location string (e.g., "CAT 219")
+ */
+export const ROOM_INVENTORY: RoomInventory = new Map(
+  (inventoryFile as RoomInventoryFile).rooms.map((room) => [room.location, room])
+);
+
+/**
+ * Display labels for room features
+ */
+export const ROOM_FEATURE_LABELS: Record<RoomFeature, string> = {
+  'computer-lab': 'Computer lab',
+  'lab-benches': 'Lab benches',
+  'lecture-hall': 'Lecture hall',
+};
+
+/**
+ * A reason a room cannot host a section
+ */
+export interface RoomFitIssue {
+  kind: 'capacity' | 'feature';
+  location: string;
+  message: string;
+}
+
+/**
+ * Look up a room by its location string
+ */
+export function getRoom(location: string, inventory: RoomInventory = ROOM_INVENTORY): RoomRecord | undefined {
+  return inventory.get(location);
+}
+
+/**
+ * All rooms, sorted by location
+ */
+export function getAllRooms(inventory: RoomInventory = ROOM_INVENTORY): RoomRecord[] {
+  return Array.from(inventory.values()).sort((a, b) => a.location.localeCompare(b.location));
+}
+
+/**
+ * Features a section's room must have (e.g., CSCD labs need a computer lab)
+ */
+export function getRequiredRoomFeatures(course: Course): RoomFeature[] {
+  const feature = LAB_FEATURE_BY_SUBJECT[course.subjectRaw];
+  if (!feature) return [];
+  return course.meetings.some((m) => isLabMeetingType(m.type)) ? [feature] : [];
+}
+
+/**
+ * Check whether a room can seat `seats` students and has the required features
+ */
+export function checkRoomFit(
+  location: string,
+  seats: number,
+  requiredFeatures: RoomFeature[],
+  inventory: RoomInventory = ROOM_INVENTORY
+): RoomFitIssue[] {
+  const room = inventory.get(location);
+  if (!room) return [];
+
+  const issues: RoomFitIssue[] = [];
+  if (seats > room.capacity) {
+    issues.push({
+      kind: 'capacity',
+      location,
+      message: `${location} seats ${room.capacity}, but ${seats} seats are needed`,
+    });
+  }
+  for (const feature of requiredFeatures) {
+    if (!room.features.includes(feature)) {
+      issues.push({
+        kind: 'feature',
+        location,
+        message: `${location} is not a ${ROOM_FEATURE_LABELS[feature].toLowerCase()}`,
+      });
+    }
+  }
+  return issues;
+}
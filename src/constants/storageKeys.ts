@@ -6,5 +6,8 @@ export const STORAGE_KEYS = {
   studentPersonas: 'ewu-student-personas',
   privacyReminderShown: 'ewu-privacy-reminder-shown',
   draftSchedule: 'ewu-draft-schedule',
+  draftScenarios: 'ewu-draft-scenarios',
   appSettings: 'ewu-app-settings',
+  facultyProfiles: 'ewu-faculty-profiles',
+  workloadPolicy: 'ewu-workload-policy',
 } as const;
@@ -71,6 +71,11 @@ export function isWithinScheduleHours(minutes: number): boolean {
   return minutes >= startMinutes && minutes <= endMinutes;
 }
 
+// Full name of a day (e.g., "Monday")
+export function formatDay(day: DayOfWeek): string {
+  return DAYS_OF_WEEK.find((d) => d.key === day)?.display ?? day;
+}
+
 // Format array of days to display string (e.g., "Mon, Wed, Fri")
 export function formatDays(days: DayOfWeek[]): string {
   return days
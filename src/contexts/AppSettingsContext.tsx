@@ -22,6 +22,9 @@ export interface AppSettings {
   // Debug mode: Show 500-level stacked versions separately (default: hidden/merged)
   // When true, shows all courses including 500-level cross-listed sections
   showStackedVersions: boolean;
+
+  // Name recorded as the author of What-If edits in the change log
+  editorName: string;
 }
 
 // Default settings
@@ -29,6 +32,7 @@ const defaultSettings: AppSettings = {
   visibleSubjects: ['CSCD', 'CYBR'], // Default to CSCD and CYBR only
   programFilter: null,
   showStackedVersions: false, // Hide 500-level stacked versions by default
+  editorName: '',
 };
 
 // Action types
@@ -37,6 +41,7 @@ type SettingsAction =
   | { type: 'TOGGLE_SUBJECT'; payload: SubjectCode }
   | { type: 'SET_PROGRAM_FILTER'; payload: string | null }
   | { type: 'SET_SHOW_STACKED_VERSIONS'; payload: boolean }
+  | { type: 'SET_EDITOR_NAME'; payload: string }
   | { type: 'RESET_SETTINGS' }
   | { type: 'LOAD_SETTINGS'; payload: AppSettings };
 
@@ -100,6 +105,9 @@ function settingsReducer(state: AppSettings, action: SettingsAction): AppSetting
     case 'SET_SHOW_STACKED_VERSIONS':
       return { ...state, showStackedVersions: action.payload };
 
+    case 'SET_EDITOR_NAME':
+      return { ...state, editorName: action.payload };
+
     case 'RESET_SETTINGS':
       return defaultSettings;
 
@@ -122,6 +130,8 @@ interface AppSettingsContextValue {
   setProgramFilter: (programSlug: string | null) => void;
   // Stacked versions visibility (debug mode)
   setShowStackedVersions: (show: boolean) => void;
+  // Author name for the What-If change log
+  setEditorName: (name: string) => void;
   // Reset
   resetSettings: () => void;
 }
@@ -165,6 +175,10 @@ export function AppSettingsProvider({ children }: AppSettingsProviderProps) {
     dispatch({ type: 'SET_SHOW_STACKED_VERSIONS', payload: show });
   }, []);
 
+  const setEditorName = useCallback((name: string) => {
+    dispatch({ type: 'SET_EDITOR_NAME', payload: name });
+  }, []);
+
   const resetSettings = useCallback(() => {
     dispatch({ type: 'RESET_SETTINGS' });
   }, []);
@@ -176,6 +190,7 @@ export function AppSettingsProvider({ children }: AppSettingsProviderProps) {
     setVisibleSubjects,
     setProgramFilter,
     setShowStackedVersions,
+    setEditorName,
     resetSettings,
   };
 
@@ -7,194 +7,452 @@ import {
   ReactNode,
   useCallback,
 } from 'react';
-import type { Course, Instructor, Meeting, CampusType } from '../types/schedule';
+import type { Course } from '../types/schedule';
+import type {
+  CourseModification,
+  DraftAuditAction,
+  DraftAuditEntry,
+  DraftChanges,
+  DraftCourse,
+  DraftScenario,
+  DraftState,
+} from '../types/draft';
 import { useCourses, useSchedule } from './ScheduleContext';
+import { useFacultyProfileIndex } from './FacultyProfileContext';
+import { useAppSettings } from './AppSettingsContext';
 import { STORAGE_KEYS } from '../constants/storageKeys';
 import { type Conflict } from '../services/conflictDetector';
-import { analyzeSchedule } from '../services/scheduleAnalysis';
-
-// Types for course modifications
-export interface CourseModification {
-  courseId: string;
-  changes: {
-    instructor?: Instructor | null;
-    meetings?: Meeting[];
-    campus?: CampusType;
-  };
-  modifiedAt: Date;
+import {
+  applyDraftChanges,
+  applyModification,
+  countDraftChanges,
+  detectDraftConflicts,
+  EMPTY_DRAFT_CHANGES,
+  uniqueScenarioName,
+} from '../services/draftScenarios';
+import { describeCourseEdit, sectionLabel, UNKNOWN_AUTHOR } from '../services/draftAudit';
+
+export type { CourseModification, DraftState, DraftScenario, DraftAuditEntry };
+
+// Name of the scenario created on the first edit of a term
+const DEFAULT_SCENARIO_NAME = 'Draft';
+
+// Undo steps kept per scenario (in memory only - a reload starts afresh)
+export const HISTORY_LIMIT = 100;
+
+// Change-log entries kept per scenario; older ones are dropped so the
+// saved store stays small
+export const AUDIT_LOG_LIMIT = 500;
+
+// The scenario's changes before an edit, and the log entry of that edit
+interface HistoryStep {
+  changes: DraftChanges;
+  entry: DraftAuditEntry;
+}
+
+interface ScenarioHistory {
+  past: HistoryStep[];
+  future: HistoryStep[];
 }
 
-// Serializable version for localStorage
-interface SerializableDraftState {
+const EMPTY_HISTORY: ScenarioHistory = { past: [], future: [] };
+const EMPTY_AUDIT_LOG: DraftAuditEntry[] = [];
+
+// All scenarios across terms, plus which one is being edited in each term
+export interface DraftStore {
   isEditMode: boolean;
+  scenarios: DraftScenario[];
+  activeScenarioIds: Record<string, string>;
+  history: Record<string, ScenarioHistory>;
+}
+
+// Serializable versions for localStorage
+interface SerializableScenario {
+  id: string;
+  name: string;
+  termCode: string;
+  version: number;
+  createdAt: string;
+  lastModified: string | null;
   modifications: Array<[string, CourseModification]>;
   cancelledIds: string[];
   addedCourses: Course[];
-  lastModified: string | null;
+  auditLog?: Array<Omit<DraftAuditEntry, 'at'> & { at: string }>;
+}
+
+interface SerializableDraftStore {
+  isEditMode: boolean;
+  scenarios: SerializableScenario[];
+  activeScenarioIds: Record<string, string>;
 }
 
-// Runtime state
-interface DraftState {
+// Single-draft format stored under STORAGE_KEYS.draftSchedule before scenarios
+interface LegacyDraftState {
   isEditMode: boolean;
-  modifications: Map<string, CourseModification>;
-  cancelledIds: Set<string>;
+  modifications: Array<[string, CourseModification]>;
+  cancelledIds: string[];
   addedCourses: Course[];
-  lastModified: Date | null;
+  lastModified: string | null;
 }
 
-// Action types
-type DraftAction =
+// Action types. Edits apply to the active scenario of the given term and
+// carry the change-log entry describing them. Creating, renaming, deleting
+// and switching scenarios manage scenarios rather than edit one, so they
+// are neither logged nor undoable (the scenario manager confirms deletes).
+export type DraftAction =
   | { type: 'TOGGLE_EDIT_MODE' }
   | { type: 'SET_EDIT_MODE'; payload: boolean }
-  | { type: 'MODIFY_COURSE'; payload: { courseId: string; changes: CourseModification['changes'] } }
-  | { type: 'CANCEL_COURSE'; payload: string }
-  | { type: 'RESTORE_COURSE'; payload: string }
-  | { type: 'REVERT_COURSE'; payload: string }
-  | { type: 'ADD_COURSE'; payload: Course }
-  | { type: 'REMOVE_ADDED'; payload: string }
-  | { type: 'RESET_ALL' }
-  | { type: 'LOAD_STATE'; payload: DraftState };
+  | {
+      type: 'MODIFY_COURSE';
+      termCode: string;
+      entry: DraftAuditEntry;
+      payload: { courseId: string; changes: CourseModification['changes'] };
+    }
+  | { type: 'CANCEL_COURSE'; termCode: string; entry: DraftAuditEntry; payload: string }
+  | { type: 'RESTORE_COURSE'; termCode: string; entry: DraftAuditEntry; payload: string }
+  | { type: 'REVERT_COURSE'; termCode: string; entry: DraftAuditEntry; payload: string }
+  | { type: 'ADD_COURSE'; termCode: string; entry: DraftAuditEntry; payload: Course }
+  | { type: 'REMOVE_ADDED'; termCode: string; entry: DraftAuditEntry; payload: string }
+  | { type: 'RESET_ALL'; termCode: string; entry: DraftAuditEntry }
+  | { type: 'IMPORT_CHANGES'; termCode: string; entry: DraftAuditEntry; payload: DraftChanges }
+  | { type: 'UNDO'; termCode: string; entry: DraftAuditEntry }
+  | { type: 'REDO'; termCode: string; entry: DraftAuditEntry }
+  | { type: 'CREATE_SCENARIO'; payload: { id: string; name: string; termCode: string; changes: DraftChanges } }
+  | { type: 'RENAME_SCENARIO'; payload: { id: string; name: string } }
+  | { type: 'DELETE_SCENARIO'; payload: string }
+  | { type: 'SWITCH_SCENARIO'; payload: string }
+  | { type: 'LOAD_STATE'; payload: DraftStore };
 
 // Initial state
-const initialState: DraftState = {
+export const initialStore: DraftStore = {
   isEditMode: false,
-  modifications: new Map(),
-  cancelledIds: new Set(),
-  addedCourses: [],
-  lastModified: null,
+  scenarios: [],
+  activeScenarioIds: {},
+  history: {},
 };
 
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createScenario(id: string, name: string, termCode: string, changes: DraftChanges): DraftScenario {
+  const now = new Date();
+  return {
+    id,
+    name,
+    termCode,
+    version: 1,
+    createdAt: now,
+    lastModified: countDraftChanges(changes) > 0 ? now : null,
+    modifications: changes.modifications,
+    cancelledIds: changes.cancelledIds,
+    addedCourses: changes.addedCourses,
+    auditLog: [],
+  };
+}
+
+function snapshot(scenario: DraftChanges): DraftChanges {
+  return {
+    modifications: scenario.modifications,
+    cancelledIds: scenario.cancelledIds,
+    addedCourses: scenario.addedCourses,
+  };
+}
+
+function getActiveScenario(store: DraftStore, termCode: string): DraftScenario | undefined {
+  const activeId = store.activeScenarioIds[termCode];
+  return store.scenarios.find((s) => s.id === activeId && s.termCode === termCode);
+}
+
+/**
+ * Apply an edit to the term's active scenario, starting a default scenario
+ * on the first edit of a term. Every edit bumps the scenario version, is
+ * logged, and can be undone.
+ */
+function updateActiveScenario(
+  store: DraftStore,
+  termCode: string,
+  entry: DraftAuditEntry,
+  update: (changes: DraftChanges) => Partial<DraftChanges>
+): DraftStore {
+  const active =
+    getActiveScenario(store, termCode) ??
+    createScenario(`draft-${termCode}`, DEFAULT_SCENARIO_NAME, termCode, EMPTY_DRAFT_CHANGES);
+  const history = store.history[active.id] ?? EMPTY_HISTORY;
+  return replaceScenario(
+    store,
+    { ...active, ...update(active) },
+    entry,
+    { past: [...history.past, { changes: snapshot(active), entry }].slice(-HISTORY_LIMIT), future: [] }
+  );
+}
+
+function replaceScenario(
+  store: DraftStore,
+  scenario: DraftScenario,
+  entry: DraftAuditEntry,
+  history: ScenarioHistory
+): DraftStore {
+  const updated: DraftScenario = {
+    ...scenario,
+    version: scenario.version + 1,
+    lastModified: entry.at,
+    auditLog: [...scenario.auditLog, entry].slice(-AUDIT_LOG_LIMIT),
+  };
+  const exists = store.scenarios.some((s) => s.id === scenario.id);
+  return {
+    ...store,
+    scenarios: exists
+      ? store.scenarios.map((s) => (s.id === scenario.id ? updated : s))
+      : [...store.scenarios, updated],
+    activeScenarioIds: { ...store.activeScenarioIds, [scenario.termCode]: scenario.id },
+    history: { ...store.history, [scenario.id]: history },
+  };
+}
+
+/**
+ * Step the active scenario back (undo) or forward (redo) through its history
+ */
+function stepHistory(store: DraftStore, termCode: string, entry: DraftAuditEntry, direction: 'undo' | 'redo'): DraftStore {
+  const active = getActiveScenario(store, termCode);
+  if (!active) return store;
+  const { past, future } = store.history[active.id] ?? EMPTY_HISTORY;
+  const from = direction === 'undo' ? past : future;
+  const step = from[from.length - 1];
+  if (!step) return store;
+
+  const current: HistoryStep = { changes: snapshot(active), entry: step.entry };
+  const remaining = from.slice(0, -1);
+  return replaceScenario(
+    store,
+    { ...active, ...step.changes },
+    entry,
+    direction === 'undo'
+      ? { past: remaining, future: [...future, current] }
+      : { past: [...past, current], future: remaining }
+  );
+}
+
 // Reducer
-function draftReducer(state: DraftState, action: DraftAction): DraftState {
+export function draftReducer(store: DraftStore, action: DraftAction): DraftStore {
   switch (action.type) {
     case 'TOGGLE_EDIT_MODE':
-      return { ...state, isEditMode: !state.isEditMode };
+      return { ...store, isEditMode: !store.isEditMode };
 
     case 'SET_EDIT_MODE':
-      return { ...state, isEditMode: action.payload };
-
-    case 'MODIFY_COURSE': {
-      const newModifications = new Map(state.modifications);
-      const existing = newModifications.get(action.payload.courseId);
-      newModifications.set(action.payload.courseId, {
-        courseId: action.payload.courseId,
-        changes: { ...existing?.changes, ...action.payload.changes },
-        modifiedAt: new Date(),
+      return { ...store, isEditMode: action.payload };
+
+    case 'MODIFY_COURSE':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => {
+        const newModifications = new Map(state.modifications);
+        const existing = newModifications.get(action.payload.courseId);
+        newModifications.set(action.payload.courseId, {
+          courseId: action.payload.courseId,
+          changes: { ...existing?.changes, ...action.payload.changes },
+          modifiedAt: new Date(),
+        });
+        return { modifications: newModifications };
       });
-      return {
-        ...state,
-        modifications: newModifications,
-        lastModified: new Date(),
-      };
-    }
 
-    case 'CANCEL_COURSE': {
-      const newCancelledIds = new Set(state.cancelledIds);
-      newCancelledIds.add(action.payload);
-      return {
-        ...state,
-        cancelledIds: newCancelledIds,
-        lastModified: new Date(),
-      };
-    }
+    case 'CANCEL_COURSE':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => {
+        const newCancelledIds = new Set(state.cancelledIds);
+        newCancelledIds.add(action.payload);
+        return { cancelledIds: newCancelledIds };
+      });
 
-    case 'RESTORE_COURSE': {
-      const newCancelledIds = new Set(state.cancelledIds);
-      newCancelledIds.delete(action.payload);
+    case 'RESTORE_COURSE':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => {
+        const newCancelledIds = new Set(state.cancelledIds);
+        newCancelledIds.delete(action.payload);
+        return { cancelledIds: newCancelledIds };
+      });
+
+    case 'REVERT_COURSE':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => {
+        const newModifications = new Map(state.modifications);
+        newModifications.delete(action.payload);
+        const newCancelledIds = new Set(state.cancelledIds);
+        newCancelledIds.delete(action.payload);
+        return { modifications: newModifications, cancelledIds: newCancelledIds };
+      });
+
+    case 'ADD_COURSE':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => ({
+        addedCourses: [...state.addedCourses, action.payload],
+      }));
+
+    case 'REMOVE_ADDED':
+      return updateActiveScenario(store, action.termCode, action.entry, (state) => ({
+        addedCourses: state.addedCourses.filter((c) => c.id !== action.payload),
+      }));
+
+    case 'RESET_ALL':
+      return updateActiveScenario(store, action.termCode, action.entry, () => EMPTY_DRAFT_CHANGES);
+
+    case 'IMPORT_CHANGES':
       return {
-        ...state,
-        cancelledIds: newCancelledIds,
-        lastModified: new Date(),
+        ...updateActiveScenario(store, action.termCode, action.entry, () => ({
+          modifications: action.payload.modifications,
+          cancelledIds: action.payload.cancelledIds,
+          addedCourses: action.payload.addedCourses,
+        })),
+        isEditMode: true,
       };
-    }
 
-    case 'REVERT_COURSE': {
-      const newModifications = new Map(state.modifications);
-      newModifications.delete(action.payload);
-      const newCancelledIds = new Set(state.cancelledIds);
-      newCancelledIds.delete(action.payload);
+    case 'UNDO':
+      return stepHistory(store, action.termCode, action.entry, 'undo');
+
+    case 'REDO':
+      return stepHistory(store, action.termCode, action.entry, 'redo');
+
+    case 'CREATE_SCENARIO': {
+      const { id, name, termCode, changes } = action.payload;
       return {
-        ...state,
-        modifications: newModifications,
-        cancelledIds: newCancelledIds,
-        lastModified: new Date(),
+        ...store,
+        scenarios: [...store.scenarios, createScenario(id, name, termCode, changes)],
+        activeScenarioIds: { ...store.activeScenarioIds, [termCode]: id },
       };
     }
 
-    case 'ADD_COURSE':
+    case 'RENAME_SCENARIO':
       return {
-        ...state,
-        addedCourses: [...state.addedCourses, action.payload],
-        lastModified: new Date(),
+        ...store,
+        scenarios: store.scenarios.map((s) =>
+          s.id === action.payload.id ? { ...s, name: action.payload.name } : s
+        ),
       };
 
-    case 'REMOVE_ADDED':
-      return {
-        ...state,
-        addedCourses: state.addedCourses.filter((c) => c.id !== action.payload),
-        lastModified: new Date(),
-      };
+    case 'DELETE_SCENARIO': {
+      const deleted = store.scenarios.find((s) => s.id === action.payload);
+      if (!deleted) return store;
+      const scenarios = store.scenarios.filter((s) => s.id !== deleted.id);
+      const activeScenarioIds = { ...store.activeScenarioIds };
+      if (activeScenarioIds[deleted.termCode] === deleted.id) {
+        // Fall back to the most recently edited scenario of the same term
+        const next = scenarios
+          .filter((s) => s.termCode === deleted.termCode)
+          .sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0))[0];
+        if (next) activeScenarioIds[deleted.termCode] = next.id;
+        else delete activeScenarioIds[deleted.termCode];
+      }
+      const history = { ...store.history };
+      delete history[deleted.id];
+      return { ...store, scenarios, activeScenarioIds, history };
+    }
 
-    case 'RESET_ALL':
+    case 'SWITCH_SCENARIO': {
+      const scenario = store.scenarios.find((s) => s.id === action.payload);
+      if (!scenario) return store;
       return {
-        ...initialState,
-        isEditMode: state.isEditMode, // Keep edit mode on
+        ...store,
+        activeScenarioIds: { ...store.activeScenarioIds, [scenario.termCode]: scenario.id },
       };
+    }
 
     case 'LOAD_STATE':
       return action.payload;
 
     default:
-      return state;
+      return store;
   }
 }
 
 // Serialize state for localStorage
-function serializeState(state: DraftState): SerializableDraftState {
+function serializeStore(store: DraftStore): SerializableDraftStore {
   return {
-    isEditMode: state.isEditMode,
-    modifications: Array.from(state.modifications.entries()),
-    cancelledIds: Array.from(state.cancelledIds),
-    addedCourses: state.addedCourses,
-    lastModified: state.lastModified?.toISOString() ?? null,
+    isEditMode: store.isEditMode,
+    scenarios: store.scenarios.map((s) => ({
+      id: s.id,
+      name: s.name,
+      termCode: s.termCode,
+      version: s.version,
+      createdAt: s.createdAt.toISOString(),
+      lastModified: s.lastModified?.toISOString() ?? null,
+      modifications: Array.from(s.modifications.entries()),
+      cancelledIds: Array.from(s.cancelledIds),
+      addedCourses: s.addedCourses,
+      auditLog: s.auditLog.map((entry) => ({ ...entry, at: entry.at.toISOString() })),
+    })),
+    activeScenarioIds: store.activeScenarioIds,
   };
 }
 
 // Deserialize state from localStorage
-function deserializeState(data: SerializableDraftState): DraftState {
+function deserializeStore(data: SerializableDraftStore): DraftStore {
   return {
     isEditMode: data.isEditMode,
-    modifications: new Map(data.modifications),
-    cancelledIds: new Set(data.cancelledIds),
-    addedCourses: data.addedCourses,
-    lastModified: data.lastModified ? new Date(data.lastModified) : null,
+    scenarios: data.scenarios.map((s) => ({
+      ...s,
+      createdAt: new Date(s.createdAt),
+      lastModified: s.lastModified ? new Date(s.lastModified) : null,
+      modifications: new Map(s.modifications),
+      cancelledIds: new Set(s.cancelledIds),
+      auditLog: (s.auditLog ?? []).slice(-AUDIT_LOG_LIMIT).map((entry) => ({ ...entry, at: new Date(entry.at) })),
+    })),
+    activeScenarioIds: data.activeScenarioIds,
+    history: {},
+  };
+}
+
+// The single pre-scenario draft becomes a "Draft" scenario of the term that
+// was selected when it was saved. Missing or mistyped fields count as empty,
+// so whatever survived of an old draft is kept.
+function migrateLegacyDraft(): DraftStore | null {
+  const stored = localStorage.getItem(STORAGE_KEYS.draftSchedule);
+  if (!stored) return null;
+  const legacy = JSON.parse(stored) as Partial<LegacyDraftState> | null;
+  if (!legacy || typeof legacy !== 'object') return null;
+  const termCode = localStorage.getItem(STORAGE_KEYS.scheduleSelectedTerm) ?? '';
+  const changes: DraftChanges = {
+    modifications: new Map(Array.isArray(legacy.modifications) ? legacy.modifications : []),
+    cancelledIds: new Set(Array.isArray(legacy.cancelledIds) ? legacy.cancelledIds : []),
+    addedCourses: Array.isArray(legacy.addedCourses) ? legacy.addedCourses : [],
+  };
+  const isEditMode = legacy.isEditMode === true;
+  if (countDraftChanges(changes) === 0) {
+    return { ...initialStore, isEditMode };
+  }
+  const scenario = {
+    ...createScenario(`draft-${termCode}`, DEFAULT_SCENARIO_NAME, termCode, changes),
+    lastModified: legacy.lastModified ? new Date(legacy.lastModified) : null,
+  };
+  return {
+    isEditMode,
+    scenarios: [scenario],
+    activeScenarioIds: { [termCode]: scenario.id },
+    history: {},
   };
 }
 
 // Load from localStorage
-function loadFromStorage(): DraftState | null {
+export function loadFromStorage(): DraftStore | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.draftSchedule);
-    if (!stored) return null;
-    const parsed = JSON.parse(stored) as SerializableDraftState;
-    return deserializeState(parsed);
+    const stored = localStorage.getItem(STORAGE_KEYS.draftScenarios);
+    if (!stored) return migrateLegacyDraft();
+    const parsed = JSON.parse(stored) as SerializableDraftStore;
+    return deserializeStore(parsed);
   } catch (e) {
-    console.error('Failed to load draft state:', e);
+    console.error('Failed to load draft scenarios:', e);
     return null;
   }
 }
 
 // Save to localStorage
-function saveToStorage(state: DraftState): void {
+function saveToStorage(store: DraftStore): void {
   try {
-    localStorage.setItem(STORAGE_KEYS.draftSchedule, JSON.stringify(serializeState(state)));
+    localStorage.setItem(STORAGE_KEYS.draftScenarios, JSON.stringify(serializeStore(store)));
   } catch (e) {
-    console.error('Failed to save draft state:', e);
+    console.error('Failed to save draft scenarios:', e);
   }
 }
 
 // Context value interface
 interface DraftContextValue {
+  // The active scenario of the loaded term, in the pre-scenario shape
   state: DraftState;
   // Mode controls
   toggleEditMode: () => void;
@@ -209,8 +467,27 @@ interface DraftContextValue {
   removeAddedCourse: (courseId: string) => void;
   // Reset
   resetAll: () => void;
+  // Replace the draft with imported changes (e.g. a change-request JSON)
+  importChanges: (changes: DraftChanges) => void;
+  // History of the active scenario
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  auditLog: DraftAuditEntry[];
+  // Scenarios of the loaded term
+  termCode: string;
+  scenarios: DraftScenario[];
+  activeScenario: DraftScenario | null;
+  createScenario: (name: string, changes?: DraftChanges) => string;
+  duplicateScenario: (scenarioId: string) => string | null;
+  renameScenario: (scenarioId: string, name: string) => void;
+  deleteScenario: (scenarioId: string) => void;
+  switchScenario: (scenarioId: string) => void;
   // Computed values
-  draftCourses: Course[];
+  draftCourses: DraftCourse[];
   draftConflicts: Conflict[];
   changeCount: number;
   hasChanges: boolean;
@@ -230,79 +507,61 @@ interface DraftProviderProps {
   children: ReactNode;
 }
 
-// Draft course with state indicator
-type DraftCourse = Course & { _draftState: 'live' | 'modified' | 'cancelled' | 'added' };
-
 // Provider component
 export function DraftScheduleProvider({ children }: DraftProviderProps) {
   const liveCourses = useCourses();
-  useSchedule(); // Required to ensure ScheduleProvider is parent
+  const facultyProfiles = useFacultyProfileIndex();
+  const { selectedTermCode } = useSchedule();
+  const {
+    settings: { editorName },
+  } = useAppSettings();
+
+  // Scenarios are kept per term; imported files have no selected term, so
+  // the loaded courses decide
+  const termCode = liveCourses[0]?.term ?? selectedTermCode ?? '';
 
   // Initialize with localStorage data
-  const [state, dispatch] = useReducer(draftReducer, initialState, () => {
+  const [store, dispatch] = useReducer(draftReducer, initialStore, () => {
     const stored = loadFromStorage();
-    return stored ?? initialState;
+    return stored ?? initialStore;
   });
 
   // Save to localStorage on changes
   useEffect(() => {
-    saveToStorage(state);
-  }, [state]);
-
-  // Compute draft courses by applying modifications
-  const draftCourses = useMemo((): DraftCourse[] => {
-    // Start with live courses
-    const modifiedCourses: DraftCourse[] = liveCourses.map((course) => {
-      // Check if cancelled
-      if (state.cancelledIds.has(course.id)) {
-        return { ...course, _draftState: 'cancelled' as const };
-      }
-      // Check if modified
-      const mod = state.modifications.get(course.id);
-      if (mod) {
-        return {
-          ...course,
-          ...(mod.changes.instructor !== undefined && { instructor: mod.changes.instructor }),
-          ...(mod.changes.meetings !== undefined && { meetings: mod.changes.meetings }),
-          ...(mod.changes.campus !== undefined && { campus: mod.changes.campus }),
-          _draftState: 'modified' as const,
-        };
-      }
-      return { ...course, _draftState: 'live' as const };
-    });
+    saveToStorage(store);
+  }, [store]);
 
-    // Add new courses
-    const addedWithState: DraftCourse[] = state.addedCourses.map((c) => ({
-      ...c,
-      _draftState: 'added' as const,
-    }));
+  const scenarios = useMemo(
+    () => store.scenarios.filter((s) => s.termCode === termCode),
+    [store.scenarios, termCode]
+  );
+  const activeScenario = useMemo(() => getActiveScenario(store, termCode) ?? null, [store, termCode]);
+
+  const state = useMemo(
+    (): DraftState => ({
+      isEditMode: store.isEditMode,
+      modifications: activeScenario?.modifications ?? EMPTY_DRAFT_CHANGES.modifications,
+      cancelledIds: activeScenario?.cancelledIds ?? EMPTY_DRAFT_CHANGES.cancelledIds,
+      addedCourses: activeScenario?.addedCourses ?? EMPTY_DRAFT_CHANGES.addedCourses,
+      lastModified: activeScenario?.lastModified ?? null,
+    }),
+    [store.isEditMode, activeScenario]
+  );
 
-    return [...modifiedCourses, ...addedWithState];
-  }, [liveCourses, state.modifications, state.cancelledIds, state.addedCourses]);
+  // Compute draft courses by applying modifications
+  const draftCourses = useMemo(
+    (): DraftCourse[] => applyDraftChanges(liveCourses, state),
+    [liveCourses, state]
+  );
 
   // Compute conflicts for draft state
-  const draftConflicts = useMemo(() => {
-    // Filter out cancelled courses for conflict detection
-    const activeCourses = draftCourses.filter(
-      (c) => !state.cancelledIds.has(c.id)
-    );
-
-    // Run analysis to get conflicts
-    const analysis = analyzeSchedule(activeCourses, {
-      hideStackedVersions: true,
-    });
-
-    return analysis.conflicts;
-  }, [draftCourses, state.cancelledIds]);
+  const draftConflicts = useMemo(
+    () => detectDraftConflicts(draftCourses, facultyProfiles),
+    [draftCourses, facultyProfiles]
+  );
 
   // Change count
-  const changeCount = useMemo(() => {
-    return (
-      state.modifications.size +
-      state.cancelledIds.size +
-      state.addedCourses.length
-    );
-  }, [state.modifications.size, state.cancelledIds.size, state.addedCourses.length]);
+  const changeCount = useMemo(() => countDraftChanges(state), [state]);
 
   // Helper functions
   const isModified = useCallback(
@@ -338,17 +597,146 @@ export function DraftScheduleProvider({ children }: DraftProviderProps) {
   // Action dispatchers
   const toggleEditMode = useCallback(() => dispatch({ type: 'TOGGLE_EDIT_MODE' }), []);
   const setEditMode = useCallback((enabled: boolean) => dispatch({ type: 'SET_EDIT_MODE', payload: enabled }), []);
+  // Change-log entries are built here, where the sections being edited and
+  // the author are known
+  const draftById = useMemo(() => new Map(draftCourses.map((c) => [c.id, c])), [draftCourses]);
+  const makeEntry = useCallback(
+    (action: DraftAuditAction, summary: string, course?: Course): DraftAuditEntry => ({
+      id: generateId(),
+      at: new Date(),
+      author: editorName.trim() || UNKNOWN_AUTHOR,
+      action,
+      courseId: course?.id ?? null,
+      courseCode: course ? sectionLabel(course) : null,
+      summary,
+    }),
+    [editorName]
+  );
+
   const modifyCourse = useCallback(
-    (courseId: string, changes: CourseModification['changes']) =>
-      dispatch({ type: 'MODIFY_COURSE', payload: { courseId, changes } }),
+    (courseId: string, changes: CourseModification['changes']) => {
+      const before = draftById.get(courseId);
+      const summary = before ? describeCourseEdit(before, applyModification(before, changes)) : 'Edited section';
+      dispatch({ type: 'MODIFY_COURSE', termCode, entry: makeEntry('modify', summary, before), payload: { courseId, changes } });
+    },
+    [termCode, draftById, makeEntry]
+  );
+  const cancelCourse = useCallback(
+    (courseId: string) =>
+      dispatch({
+        type: 'CANCEL_COURSE',
+        termCode,
+        entry: makeEntry('cancel', 'Cancelled section', draftById.get(courseId)),
+        payload: courseId,
+      }),
+    [termCode, draftById, makeEntry]
+  );
+  const restoreCourse = useCallback(
+    (courseId: string) =>
+      dispatch({
+        type: 'RESTORE_COURSE',
+        termCode,
+        entry: makeEntry('restore', 'Restored cancelled section', draftById.get(courseId)),
+        payload: courseId,
+      }),
+    [termCode, draftById, makeEntry]
+  );
+  const revertCourse = useCallback(
+    (courseId: string) =>
+      dispatch({
+        type: 'REVERT_COURSE',
+        termCode,
+        entry: makeEntry('revert', 'Reverted all edits to the live section', draftById.get(courseId)),
+        payload: courseId,
+      }),
+    [termCode, draftById, makeEntry]
+  );
+  const addCourse = useCallback(
+    (course: Course) =>
+      dispatch({ type: 'ADD_COURSE', termCode, entry: makeEntry('add', 'Added new section', course), payload: course }),
+    [termCode, makeEntry]
+  );
+  const removeAddedCourse = useCallback(
+    (courseId: string) =>
+      dispatch({
+        type: 'REMOVE_ADDED',
+        termCode,
+        entry: makeEntry('remove-added', 'Removed added section', draftById.get(courseId)),
+        payload: courseId,
+      }),
+    [termCode, draftById, makeEntry]
+  );
+  const resetAll = useCallback(
+    () =>
+      dispatch({
+        type: 'RESET_ALL',
+        termCode,
+        entry: makeEntry('reset', `Cleared ${changeCount} change${changeCount === 1 ? '' : 's'}`),
+      }),
+    [termCode, changeCount, makeEntry]
+  );
+  const importChanges = useCallback(
+    (changes: DraftChanges) => {
+      const count = countDraftChanges(changes);
+      dispatch({
+        type: 'IMPORT_CHANGES',
+        termCode,
+        entry: makeEntry('import', `Imported ${count} change${count === 1 ? '' : 's'}`),
+        payload: changes,
+      });
+    },
+    [termCode, makeEntry]
+  );
+
+  // Undo and redo step through the active scenario's edits
+  const history = (activeScenario && store.history[activeScenario.id]) || EMPTY_HISTORY;
+  const undo = useCallback(() => {
+    const step = history.past[history.past.length - 1];
+    if (!step) return;
+    const entry = makeEntry('undo', `Undid: ${step.entry.summary}`);
+    dispatch({ type: 'UNDO', termCode, entry: { ...entry, courseId: step.entry.courseId, courseCode: step.entry.courseCode } });
+  }, [history, termCode, makeEntry]);
+  const redo = useCallback(() => {
+    const step = history.future[history.future.length - 1];
+    if (!step) return;
+    const entry = makeEntry('redo', `Redid: ${step.entry.summary}`);
+    dispatch({ type: 'REDO', termCode, entry: { ...entry, courseId: step.entry.courseId, courseCode: step.entry.courseCode } });
+  }, [history, termCode, makeEntry]);
+
+  const createScenarioAction = useCallback(
+    (name: string, changes: DraftChanges = EMPTY_DRAFT_CHANGES) => {
+      const id = generateId();
+      dispatch({
+        type: 'CREATE_SCENARIO',
+        payload: { id, name: uniqueScenarioName(name, scenarios), termCode, changes },
+      });
+      return id;
+    },
+    [scenarios, termCode]
+  );
+  const duplicateScenario = useCallback(
+    (scenarioId: string) => {
+      const source = scenarios.find((s) => s.id === scenarioId);
+      if (!source) return null;
+      return createScenarioAction(`${source.name} copy`, source);
+    },
+    [scenarios, createScenarioAction]
+  );
+  const renameScenario = useCallback(
+    (scenarioId: string, name: string) => {
+      const others = scenarios.filter((s) => s.id !== scenarioId);
+      dispatch({ type: 'RENAME_SCENARIO', payload: { id: scenarioId, name: uniqueScenarioName(name, others) } });
+    },
+    [scenarios]
+  );
+  const deleteScenario = useCallback(
+    (scenarioId: string) => dispatch({ type: 'DELETE_SCENARIO', payload: scenarioId }),
+    []
+  );
+  const switchScenario = useCallback(
+    (scenarioId: string) => dispatch({ type: 'SWITCH_SCENARIO', payload: scenarioId }),
     []
   );
-  const cancelCourse = useCallback((courseId: string) => dispatch({ type: 'CANCEL_COURSE', payload: courseId }), []);
-  const restoreCourse = useCallback((courseId: string) => dispatch({ type: 'RESTORE_COURSE', payload: courseId }), []);
-  const revertCourse = useCallback((courseId: string) => dispatch({ type: 'REVERT_COURSE', payload: courseId }), []);
-  const addCourse = useCallback((course: Course) => dispatch({ type: 'ADD_COURSE', payload: course }), []);
-  const removeAddedCourse = useCallback((courseId: string) => dispatch({ type: 'REMOVE_ADDED', payload: courseId }), []);
-  const resetAll = useCallback(() => dispatch({ type: 'RESET_ALL' }), []);
 
   const value: DraftContextValue = {
     state,
@@ -361,6 +749,22 @@ export function DraftScheduleProvider({ children }: DraftProviderProps) {
     addCourse,
     removeAddedCourse,
     resetAll,
+    importChanges,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.entry.summary ?? null,
+    redoLabel: history.future[history.future.length - 1]?.entry.summary ?? null,
+    auditLog: activeScenario?.auditLog ?? EMPTY_AUDIT_LOG,
+    termCode,
+    scenarios,
+    activeScenario,
+    createScenario: createScenarioAction,
+    duplicateScenario,
+    renameScenario,
+    deleteScenario,
+    switchScenario,
     draftCourses,
     draftConflicts,
     changeCount,
@@ -408,6 +812,7 @@ export function useDraftActions() {
     addCourse,
     removeAddedCourse,
     resetAll,
+    importChanges,
   } = useDraft();
   return {
     modifyCourse,
@@ -417,9 +822,38 @@ export function useDraftActions() {
     addCourse,
     removeAddedCourse,
     resetAll,
+    importChanges,
   };
 }
 
+export function useScenarios() {
+  const {
+    termCode,
+    scenarios,
+    activeScenario,
+    createScenario,
+    duplicateScenario,
+    renameScenario,
+    deleteScenario,
+    switchScenario,
+  } = useDraft();
+  return {
+    termCode,
+    scenarios,
+    activeScenario,
+    createScenario,
+    duplicateScenario,
+    renameScenario,
+    deleteScenario,
+    switchScenario,
+  };
+}
+
+export function useDraftHistory() {
+  const { undo, redo, canUndo, canRedo, undoLabel, redoLabel, auditLog } = useDraft();
+  return { undo, redo, canUndo, canRedo, undoLabel, redoLabel, auditLog };
+}
+
 export function useCourseState(courseId: string) {
   const { getCourseState, isModified, isCancelled, isAdded, getModification } = useDraft();
   return {
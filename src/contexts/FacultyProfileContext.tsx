@@ -0,0 +1,201 @@
+/**
+ * =============================================================================
+ * MODULE: Faculty Profile Context
+ * =============================================================================
+ *
+ * PURPOSE: State management for faculty availability and teaching
+ * preferences, keyed by Instructor.email
+ *
+ * - Uses the same Context + useReducer + localStorage pattern as StudentContext
+ * - The profile index feeds conflict detection ('availability' conflicts) and
+ *   the optimizer (blackouts are hard constraints, preferences are soft)
+ * =============================================================================
+ */
+
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  ReactNode,
+  useMemo,
+  useCallback,
+} from 'react';
+import type {
+  FacultyProfile,
+  FacultyProfileAction,
+  FacultyProfileState,
+} from '../types/faculty';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import {
+  buildFacultyProfileIndex,
+  normalizeEmail,
+  type FacultyProfileIndex,
+} from '../services/facultyAvailability';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STORAGE_KEY = STORAGE_KEYS.facultyProfiles;
+
+const initialState: FacultyProfileState = {
+  profiles: [],
+  loading: true,
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Load profiles from localStorage
+ */
+function loadFromStorage(): FacultyProfile[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load faculty profiles from storage:', error);
+  }
+  return [];
+}
+
+/**
+ * Save profiles to localStorage
+ */
+function saveToStorage(profiles: FacultyProfile[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save faculty profiles to storage:', error);
+  }
+}
+
+// =============================================================================
+// REDUCER
+// =============================================================================
+
+function facultyProfileReducer(
+  state: FacultyProfileState,
+  action: FacultyProfileAction
+): FacultyProfileState {
+  switch (action.type) {
+    case 'UPSERT_PROFILE': {
+      const profile = {
+        ...action.payload,
+        email: normalizeEmail(action.payload.email),
+        updatedAt: new Date().toISOString(),
+      };
+      const others = state.profiles.filter((p) => p.email !== profile.email);
+      return { ...state, profiles: [...others, profile] };
+    }
+
+    case 'DELETE_PROFILE': {
+      const email = normalizeEmail(action.payload);
+      return { ...state, profiles: state.profiles.filter((p) => p.email !== email) };
+    }
+
+    case 'LOAD_STATE':
+      return { ...state, profiles: action.payload, loading: false };
+
+    case 'CLEAR_ALL':
+      return { ...initialState, loading: false };
+
+    default:
+      return state;
+  }
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+interface FacultyProfileContextValue {
+  state: FacultyProfileState;
+  profileIndex: FacultyProfileIndex;
+  saveProfile: (profile: FacultyProfile) => void;
+  deleteProfile: (email: string) => void;
+  getProfile: (email: string) => FacultyProfile | undefined;
+}
+
+const FacultyProfileContext = createContext<FacultyProfileContextValue | undefined>(undefined);
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+interface FacultyProfileProviderProps {
+  children: ReactNode;
+}
+
+export function FacultyProfileProvider({ children }: FacultyProfileProviderProps) {
+  const [state, dispatch] = useReducer(facultyProfileReducer, initialState);
+
+  // Load saved profiles on mount
+  useEffect(() => {
+    dispatch({ type: 'LOAD_STATE', payload: loadFromStorage() });
+  }, []);
+
+  // Persist profiles after initial load
+  useEffect(() => {
+    if (state.loading) return;
+    saveToStorage(state.profiles);
+  }, [state.loading, state.profiles]);
+
+  const profileIndex = useMemo(() => buildFacultyProfileIndex(state.profiles), [state.profiles]);
+
+  const saveProfile = useCallback((profile: FacultyProfile) => {
+    dispatch({ type: 'UPSERT_PROFILE', payload: profile });
+  }, []);
+
+  const deleteProfile = useCallback((email: string) => {
+    dispatch({ type: 'DELETE_PROFILE', payload: email });
+  }, []);
+
+  const getProfile = useCallback(
+    (email: string) => profileIndex.get(normalizeEmail(email)),
+    [profileIndex]
+  );
+
+  const contextValue: FacultyProfileContextValue = {
+    state,
+    profileIndex,
+    saveProfile,
+    deleteProfile,
+    getProfile,
+  };
+
+  return (
+    <FacultyProfileContext.Provider value={contextValue}>{children}</FacultyProfileContext.Provider>
+  );
+}
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+/**
+ * Access the full faculty profile context
+ *
+ * @throws Error if used outside FacultyProfileProvider
+ */
+export function useFacultyProfiles(): FacultyProfileContextValue {
+  const context = useContext(FacultyProfileContext);
+  if (context === undefined) {
+    throw new Error('useFacultyProfiles must be used within a FacultyProfileProvider');
+  }
+  return context;
+}
+
+/**
+ * Profiles keyed by lower-cased email, for conflict detection and the optimizer
+ */
+export function useFacultyProfileIndex(): FacultyProfileIndex {
+  return useFacultyProfiles().profileIndex;
+}
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useReducer, ReactNode, useMemo, useEffect, useState } from 'react';
-import type { ScheduleFilters, SubjectCode, DayOfWeek, DeliveryMethod, CampusType, Course, ColorByOption } from '../types/schedule';
+import type { ScheduleFilters, SubjectCode, DayOfWeek, DeliveryMethod, CampusType, Course, ColorByOption, ViewMode } from '../types/schedule';
 import { useCourses, useSchedule } from './ScheduleContext';
 import { useAppSettings } from './AppSettingsContext';
 import { STORAGE_KEYS } from '../constants/storageKeys';
@@ -65,7 +65,7 @@ const defaultFilters: ScheduleFilters = {
 interface FilterState {
   filters: ScheduleFilters;
   colorBy: ColorByOption;
-  viewMode: 'week' | 'day' | 'list';
+  viewMode: ViewMode;
   selectedDay: DayOfWeek | null;
   presets: FilterPreset[];
   activePresetId: string | null;
@@ -87,7 +87,7 @@ type FilterAction =
   | { type: 'SET_CONFLICTS_ONLY'; payload: boolean }
   | { type: 'SET_SEARCH_QUERY'; payload: string }
   | { type: 'SET_COLOR_BY'; payload: ColorByOption }
-  | { type: 'SET_VIEW_MODE'; payload: 'week' | 'day' | 'list' }
+  | { type: 'SET_VIEW_MODE'; payload: ViewMode }
   | { type: 'SET_SELECTED_DAY'; payload: DayOfWeek | null }
   | { type: 'APPLY_PRESET'; payload: FilterPreset }
   | { type: 'SAVE_PRESET'; payload: { name: string } }
@@ -604,7 +604,7 @@ export function useViewMode() {
   const { state, dispatch } = useFilters();
   return {
     viewMode: state.viewMode,
-    setViewMode: (value: 'week' | 'day' | 'list') => dispatch({ type: 'SET_VIEW_MODE', payload: value }),
+    setViewMode: (value: ViewMode) => dispatch({ type: 'SET_VIEW_MODE', payload: value }),
     selectedDay: state.selectedDay,
     setSelectedDay: (value: DayOfWeek | null) => dispatch({ type: 'SET_SELECTED_DAY', payload: value }),
   };
@@ -623,7 +623,7 @@ export function usePresets() {
 
 /**
  * Hook to get conflicts filtered to only include courses matching current filter
- * A conflict is included only if BOTH courses are in the filtered set
+ * A conflict is included only if BOTH courses (or its only course) are in the filtered set
  */
 export function useFilteredConflicts(): Conflict[] {
   const { filteredCourses } = useFilters();
@@ -632,7 +632,9 @@ export function useFilteredConflicts(): Conflict[] {
   return useMemo(() => {
     const filteredIds = new Set(filteredCourses.map(c => c.id));
     return state.conflicts.filter(
-      conflict => filteredIds.has(conflict.course1.id) && filteredIds.has(conflict.course2.id)
+      conflict =>
+        filteredIds.has(conflict.course1.id) &&
+        (!conflict.course2 || filteredIds.has(conflict.course2.id))
     );
   }, [filteredCourses, state.conflicts]);
 }
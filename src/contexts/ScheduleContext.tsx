@@ -1,12 +1,18 @@
-import { createContext, useContext, useEffect, ReactNode, useReducer, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, ReactNode, useMemo, useReducer, useRef, useState } from 'react';
 import type { Course, BannerDataResponse } from '../types/schedule';
 import { parseScheduleData, getUniqueInstructors, getUniqueSubjects, getUniqueCampuses } from '../services/scheduleParser';
 import type { Instructor, SubjectCode, CampusType } from '../types/schedule';
 import { analyzeSchedule } from '../services/scheduleAnalysis';
-import type { Conflict } from '../services/conflictDetector';
+import {
+  detectAvailabilityConflicts,
+  markCoursesWithConflicts,
+  type Conflict,
+} from '../services/conflictDetector';
 import type { StackedCourseInfo } from '../services/stackedCourseDetector';
+import { loadTermsFromPublic } from '../services/termSchedules';
 import { STORAGE_KEYS } from '../constants/storageKeys';
 import { getCurrentTerm } from '../constants/academicTerms';
+import { useFacultyProfileIndex } from './FacultyProfileContext';
 
 // State interface
 interface ScheduleState {
@@ -107,7 +113,14 @@ interface ScheduleContextValue {
   availableTerms: TermScheduleSummary[];
   selectedTermCode: string | null;
   selectTerm: (termCode: string) => Promise<void>;
+  /** Terms loaded side by side for comparison, keyed by term code */
+  comparisonTerms: Map<string, Course[]>;
+  comparisonLoading: boolean;
+  /** Load several terms together without changing the selected term */
+  loadComparisonTerms: (termCodes: string[]) => Promise<void>;
   loadFromFile: (file: File) => Promise<void>;
+  /** Load Banner data generated in the app (e.g. a rolled-forward term) */
+  loadFromData: (data: BannerDataResponse, source: string) => void;
   loadFromUrl: (url: string) => Promise<boolean>;
   refreshData: () => Promise<void>;
 }
@@ -125,6 +138,18 @@ export function ScheduleProvider({ children }: ScheduleProviderProps) {
   const [state, dispatch] = useReducer(scheduleReducer, initialState);
   const [availableTerms, setAvailableTerms] = useState<TermScheduleSummary[]>([]);
   const [selectedTermCode, setSelectedTermCode] = useState<string | null>(null);
+  const [comparisonTerms, setComparisonTerms] = useState<Map<string, Course[]>>(new Map());
+  const [comparisonLoading, setComparisonLoading] = useState(false);
+  const facultyProfiles = useFacultyProfileIndex();
+
+  // Availability conflicts depend on faculty profiles, which can change after
+  // the schedule loads, so they are layered on top of the load-time analysis
+  const analyzedState = useMemo(() => {
+    const availability = detectAvailabilityConflicts(state.courses, facultyProfiles);
+    if (availability.length === 0) return state;
+    const conflicts = [...state.conflicts, ...availability];
+    return { ...state, conflicts, courses: markCoursesWithConflicts(state.courses, conflicts) };
+  }, [state, facultyProfiles]);
 
   const manifestPath = 'data/terms/index.json';
 
@@ -221,6 +246,16 @@ export function ScheduleProvider({ children }: ScheduleProviderProps) {
     }
   };
 
+  const loadFromData = (data: BannerDataResponse, source: string): void => {
+    const courses = parseScheduleData(data);
+    if (courses.length === 0) {
+      dispatch({ type: 'LOAD_ERROR', payload: 'No valid courses found in data' });
+      return;
+    }
+    setSelectedTermCode(null);
+    dispatch({ type: 'LOAD_SUCCESS', payload: { courses, source, lastUpdated: new Date() } });
+  };
+
   // Load data from URL
   const loadFromUrl = async (url: string): Promise<boolean> => {
     dispatch({ type: 'LOAD_START' });
@@ -277,6 +312,21 @@ export function ScheduleProvider({ children }: ScheduleProviderProps) {
     safeStorageSet(STORAGE_KEYS.scheduleSelectedTerm, next);
   };
 
+  // Only the newest comparison load may update state; earlier ones that
+  // finish later are dropped
+  const comparisonRequestRef = useRef(0);
+  const loadComparisonTerms = useCallback(async (termCodes: string[]): Promise<void> => {
+    const codes = Array.from(new Set(termCodes.map((code) => code.trim()).filter(Boolean)));
+    const requestId = ++comparisonRequestRef.current;
+    setComparisonLoading(true);
+    try {
+      const terms = await loadTermsFromPublic(codes);
+      if (requestId === comparisonRequestRef.current) setComparisonTerms(terms);
+    } finally {
+      if (requestId === comparisonRequestRef.current) setComparisonLoading(false);
+    }
+  }, []);
+
   // Refresh data from current source
   const refreshData = async (): Promise<void> => {
     const source = state.dataSource;
@@ -390,11 +440,15 @@ export function ScheduleProvider({ children }: ScheduleProviderProps) {
   return (
     <ScheduleContext.Provider
       value={{
-        state,
+        state: analyzedState,
         availableTerms,
         selectedTermCode,
         selectTerm,
+        comparisonTerms,
+        comparisonLoading,
+        loadComparisonTerms,
         loadFromFile,
+        loadFromData,
         loadFromUrl,
         refreshData,
       }}
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import type { CatalogIndexFile } from '../types/catalog';
+import { loadCatalogIndex } from '../services/catalogListings';
+
+/**
+ * Hook to load the catalog listing index
+ *
+ * Returns null until the index is loaded, so callers can leave the
+ * catalog details out in the meantime.
+ */
+export function useCatalogIndex(): CatalogIndexFile | null {
+  const [index, setIndex] = useState<CatalogIndexFile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCatalogIndex().then((loaded) => {
+      if (!cancelled) setIndex(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return index;
+}
+
+export default useCatalogIndex;
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { loadOfferingPatternsFromPublic, type OfferingPatternIndex } from '../services/offeringPatterns';
+
+/**
+ * Hook to load the offering patterns inferred from the published terms
+ *
+ * Returns null until the terms are loaded, or if they fail to load, so
+ * callers fall back to the catalog's typicalQuarters.
+ */
+export function useOfferingPatterns(): OfferingPatternIndex | null {
+  const [patterns, setPatterns] = useState<OfferingPatternIndex | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOfferingPatternsFromPublic()
+      .then((index) => {
+        if (!cancelled) setPatterns(index);
+      })
+      .catch((error) => {
+        console.error('Failed to load offering patterns:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return patterns;
+}
+
+export default useOfferingPatterns;
@@ -21,6 +21,8 @@ import { downloadText } from '../utils/download';
 import type { Course, DeliveryMethod, SubjectCode } from '../types/schedule';
 import CourseDetailModal from '../components/schedule/CourseDetailModal';
 import AnalyticsDrilldownModal, { type AnalyticsDrilldown } from '../components/analytics/AnalyticsDrilldownModal';
+import WorkloadPolicyPanel from '../components/analytics/WorkloadPolicyPanel';
+import WaitlistDemandPanel from '../components/analytics/WaitlistDemandPanel';
 
 function extractChartPayload<T extends object>(value: unknown): T | null {
   if (!value || typeof value !== 'object') return null;
@@ -572,6 +574,13 @@ export default function Analytics() {
         </div>
       </div>
 
+      <WaitlistDemandPanel
+        report={analytics.waitlist}
+        onDrilldown={(courseCode) => setDrilldown({ kind: 'waitlist', courseCode })}
+      />
+
+      {analytics.term.primary && <WorkloadPolicyPanel termCode={analytics.term.primary.code} />}
+
       <AnalyticsDrilldownModal
         drilldown={drilldown}
         onClose={() => setDrilldown(null)}
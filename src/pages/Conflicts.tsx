@@ -1,12 +1,37 @@
 import { useMemo } from 'react';
-import { AlertTriangle, CheckCircle, Clock, User, MapPin } from 'lucide-react';
+import { AlertTriangle, CalendarX, Car, CheckCircle, Clock, User, MapPin, Users, type LucideIcon } from 'lucide-react';
 import { useScheduleLoading } from '../contexts/ScheduleContext';
 import { useFilteredConflicts } from '../contexts/FilterContext';
 import { DAYS_OF_WEEK, formatTimeRange } from '../constants/timeSlots';
 import {
+  getAvailabilityConflicts,
+  getCapacityConflicts,
   getInstructorConflicts,
   getRoomConflicts,
+  getTravelConflicts,
+  type Conflict,
 } from '../services/conflictDetector';
+import type { Course } from '../types/schedule';
+
+const CONFLICT_TYPE_DISPLAY: Record<Conflict['type'], { label: string; icon: LucideIcon; bg: string; fg: string }> = {
+  instructor: { label: 'Instructor Conflict', icon: User, bg: 'bg-amber-100', fg: 'text-amber-600' },
+  room: { label: 'Room Conflict', icon: MapPin, bg: 'bg-blue-100', fg: 'text-blue-600' },
+  capacity: { label: 'Room Capacity', icon: Users, bg: 'bg-purple-100', fg: 'text-purple-600' },
+  availability: { label: 'Faculty Availability', icon: CalendarX, bg: 'bg-rose-100', fg: 'text-rose-600' },
+  travel: { label: 'Instructor Travel Time', icon: Car, bg: 'bg-teal-100', fg: 'text-teal-600' },
+};
+
+/**
+ * Time shown on a course card: the overlap, or for travel conflicts (which
+ * don't overlap) the course's own meeting that day
+ */
+function courseTimeLabel(conflict: Conflict, course: Course): string {
+  if (conflict.type === 'travel') {
+    const meeting = course.meetings.find((m) => m.days.includes(conflict.day));
+    if (meeting) return formatTimeRange(meeting.startMinutes, meeting.endMinutes);
+  }
+  return formatTimeRange(conflict.overlapStart, conflict.overlapEnd);
+}
 
 export default function Conflicts() {
   const { loading, error } = useScheduleLoading();
@@ -25,6 +50,9 @@ export default function Conflicts() {
 
   const instructorConflicts = useMemo(() => getInstructorConflicts(conflicts), [conflicts]);
   const roomConflicts = useMemo(() => getRoomConflicts(conflicts), [conflicts]);
+  const capacityConflicts = useMemo(() => getCapacityConflicts(conflicts), [conflicts]);
+  const availabilityConflicts = useMemo(() => getAvailabilityConflicts(conflicts), [conflicts]);
+  const travelConflicts = useMemo(() => getTravelConflicts(conflicts), [conflicts]);
 
   return (
     <div>
@@ -37,7 +65,7 @@ export default function Conflicts() {
       </div>
 
       {/* Summary cards */}
-      <div className="grid md:grid-cols-3 gap-4 mb-6">
+      <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
         <div className="card p-4">
           <div className="flex items-center gap-3">
             <div
@@ -83,6 +111,42 @@ export default function Conflicts() {
             </div>
           </div>
         </div>
+
+        <div className="card p-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-purple-100 flex items-center justify-center">
+              <Users className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{capacityConflicts.length}</div>
+              <div className="text-sm text-gray-500">Room Capacity Issues</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="card p-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-rose-100 flex items-center justify-center">
+              <CalendarX className="w-5 h-5 text-rose-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{availabilityConflicts.length}</div>
+              <div className="text-sm text-gray-500">Availability Conflicts</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="card p-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-teal-100 flex items-center justify-center">
+              <Car className="w-5 h-5 text-teal-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{travelConflicts.length}</div>
+              <div className="text-sm text-gray-500">Travel Conflicts</div>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Conflict list */}
@@ -107,29 +171,34 @@ export default function Conflicts() {
         </div>
       ) : (
         <div className="space-y-4">
-          {conflicts.map((conflict) => (
+          {conflicts.map((conflict) => {
+            const display = CONFLICT_TYPE_DISPLAY[conflict.type];
+            const TypeIcon = display.icon;
+            return (
             <div
               key={conflict.id}
-              className="card p-4 border-l-4 border-l-red-500"
+              className={`card p-4 border-l-4 ${
+                conflict.severity === 'error' ? 'border-l-red-500' : 'border-l-amber-400'
+              }`}
             >
               <div className="flex items-start justify-between">
                 <div className="flex items-start gap-3">
-                  <div
-                    className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-                      conflict.type === 'instructor' ? 'bg-amber-100' : 'bg-blue-100'
-                    }`}
-                  >
-                    {conflict.type === 'instructor' ? (
-                      <User className="w-4 h-4 text-amber-600" />
-                    ) : (
-                      <MapPin className="w-4 h-4 text-blue-600" />
-                    )}
+                  <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${display.bg}`}>
+                    <TypeIcon className={`w-4 h-4 ${display.fg}`} />
                   </div>
                   <div>
-                    <h3 className="font-semibold text-gray-900">
-                      {conflict.type === 'instructor' ? 'Instructor Conflict' : 'Room Conflict'}
-                    </h3>
+                    <h3 className="font-semibold text-gray-900">{display.label}</h3>
                     <p className="text-sm text-gray-600 mt-1">{conflict.description}</p>
+                    {conflict.travel && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Gap {conflict.travel.gapMinutes} min · Walk{' '}
+                        {conflict.travel.walkingMinutes === null
+                          ? 'not possible'
+                          : `${conflict.travel.walkingMinutes} min`}
+                        {conflict.travel.drivingMinutes !== null &&
+                          ` · Drive ~${conflict.travel.drivingMinutes} min`}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <span className="badge badge-conflict">
@@ -146,11 +215,12 @@ export default function Conflicts() {
                   <div className="text-sm text-gray-600">{conflict.course1.title}</div>
                   <div className="text-sm text-gray-500 mt-1 flex items-center gap-2">
                     <Clock className="w-3 h-3" />
-                    {formatTimeRange(conflict.overlapStart, conflict.overlapEnd)}
+                    {courseTimeLabel(conflict, conflict.course1)}
                   </div>
                 </div>
 
                 {/* Course 2 */}
+                {conflict.course2 && (
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <div className="font-medium text-gray-900">
                     {conflict.course2.displayCode} - {conflict.course2.section}
@@ -158,12 +228,14 @@ export default function Conflicts() {
                   <div className="text-sm text-gray-600">{conflict.course2.title}</div>
                   <div className="text-sm text-gray-500 mt-1 flex items-center gap-2">
                     <Clock className="w-3 h-3" />
-                    {formatTimeRange(conflict.overlapStart, conflict.overlapEnd)}
+                    {courseTimeLabel(conflict, conflict.course2)}
                   </div>
                 </div>
+                )}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -4,13 +4,16 @@ import { useFilteredCourses, useFilteredConflicts, useViewMode } from '../contex
 import { useEditMode, useDraft } from '../contexts/DraftScheduleContext';
 import MobileDayTabs from '../components/schedule/MobileDayTabs';
 import DayTimeline from '../components/schedule/DayTimeline';
+import RoomGrid from '../components/schedule/RoomGrid';
 import CourseDetailModal from '../components/schedule/CourseDetailModal';
 import CourseEditModal from '../components/whatif/CourseEditModal';
 import ChangesSummary from '../components/whatif/ChangesSummary';
+import ScenarioManager from '../components/whatif/ScenarioManager';
+import RollForwardModal from '../components/whatif/RollForwardModal';
 import ConflictAlerts from '../components/executive/ConflictAlerts';
 import QuickInsights from '../components/executive/QuickInsights';
 import AcademicCalendarCard from '../components/calendar/AcademicCalendarCard';
-import { Loader2, Calendar, Eye, Pencil } from 'lucide-react';
+import { Loader2, Calendar, CalendarPlus, Eye, Pencil, LayoutList, DoorOpen } from 'lucide-react';
 import type { Course, DayOfWeek } from '../types/schedule';
 import { formatTerm } from '../constants/academicTerms';
 
@@ -24,10 +27,11 @@ export default function Dashboard() {
   const { state, availableTerms, selectedTermCode, selectTerm } = useSchedule();
   const filteredCourses = useFilteredCourses();
   const filteredConflicts = useFilteredConflicts();
-  const { selectedDay, setSelectedDay } = useViewMode();
+  const { viewMode, setViewMode, selectedDay, setSelectedDay } = useViewMode();
   const { isEditMode, toggleEditMode } = useEditMode();
   const { changeCount } = useDraft();
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [showRollForward, setShowRollForward] = useState(false);
 
   // Default to Monday if no day selected
   const currentDay: DayOfWeek = selectedDay || 'monday';
@@ -115,6 +119,17 @@ export default function Dashboard() {
                 ))}
             </select>
           ) : null}
+          {availableTerms.length > 0 && (
+            <button
+              onClick={() => setShowRollForward(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl border bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50 transition-all touch-target"
+              aria-label="Roll forward a term"
+              title="Roll forward a term into next year"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              <span className="text-sm font-medium hidden sm:inline">Roll Forward</span>
+            </button>
+          )}
           {/* Edit Mode Toggle */}
           <button
             onClick={toggleEditMode}
@@ -164,23 +179,53 @@ export default function Dashboard() {
 
       {/* Day Schedule - PRIORITY 2 */}
       <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
-        {/* Day tabs */}
-        <MobileDayTabs
-          selectedDay={currentDay}
-          onDayChange={setSelectedDay}
-          courseCounts={courseCounts}
-        />
+        {/* Sections by day, or occupancy by room */}
+        <div className="flex justify-end gap-1 px-3 pt-2">
+          {([
+            { mode: 'day', label: 'Sections', icon: LayoutList },
+            { mode: 'rooms', label: 'Rooms', icon: DoorOpen },
+          ] as const).map(({ mode, label, icon: Icon }) => {
+            const active = mode === 'rooms' ? viewMode === 'rooms' : viewMode !== 'rooms';
+            return (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  active ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+                aria-pressed={active}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
 
-        {/* Day timeline */}
-        <DayTimeline
-          courses={displayCourses}
-          selectedDay={currentDay}
-          onCourseClick={setSelectedCourse}
-          stackedPairs={state.stackedPairs}
-        />
+        {viewMode === 'rooms' ? (
+          <RoomGrid courses={displayCourses} onCourseClick={setSelectedCourse} />
+        ) : (
+          <>
+            {/* Day tabs */}
+            <MobileDayTabs
+              selectedDay={currentDay}
+              onDayChange={setSelectedDay}
+              courseCounts={courseCounts}
+            />
+
+            {/* Day timeline */}
+            <DayTimeline
+              courses={displayCourses}
+              selectedDay={currentDay}
+              onCourseClick={setSelectedCourse}
+              stackedPairs={state.stackedPairs}
+            />
+          </>
+        )}
       </div>
 
-      {/* Changes Summary - only visible in edit mode */}
+      {/* Scenarios and Changes Summary - only visible in edit mode */}
+      {isEditMode && <ScenarioManager />}
       {isEditMode && (
         <ChangesSummary
           onCourseClick={(courseId) => {
@@ -204,6 +249,8 @@ export default function Dashboard() {
           />
         )
       )}
+
+      {showRollForward && <RollForwardModal onClose={() => setShowRollForward(false)} />}
     </div>
   );
 }
@@ -12,11 +12,12 @@
  * - Progress indicator during computation
  * - Ranked list of alternative schedules
  * - Preview mode showing changes highlighted
+ * - Save a permutation as a named What-If scenario
  *
  * =============================================================================
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import {
   Wand2,
   PlayCircle,
@@ -33,14 +34,26 @@ import {
   ChevronUp,
   Lock,
   Unlock,
+  Save,
 } from 'lucide-react';
 import { useFilteredCourses } from '../contexts/FilterContext';
+import { useFacultyProfileIndex } from '../contexts/FacultyProfileContext';
+import { useCourses } from '../contexts/ScheduleContext';
+import { useEditMode, useScenarios } from '../contexts/DraftScheduleContext';
 import type { SchedulePermutation, ScheduleChange } from '../services/scheduleOptimizer';
 import { optimizeSchedule, hasConflicts } from '../services/scheduleOptimizer';
+import type { QualificationIndex } from '../services/instructorQualifications';
+import { loadQualificationIndexFromPublic } from '../services/instructorQualifications';
+import { detectAvailabilityConflicts } from '../services/conflictDetector';
+import { permutationToChanges } from '../services/draftScenarios';
 
 export default function Optimizer() {
   // Get filtered courses (already filtered by term and subject from context)
   const filteredCourses = useFilteredCourses();
+  const facultyProfiles = useFacultyProfileIndex();
+  const liveCourses = useCourses();
+  const { createScenario } = useScenarios();
+  const { setEditMode } = useEditMode();
 
   // State
   const [selectedCRNs, setSelectedCRNs] = useState<Set<string>>(new Set());
@@ -51,6 +64,27 @@ export default function Optimizer() {
   const [elapsed, setElapsed] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [expandedResult, setExpandedResult] = useState<number | null>(null);
+  const [savedResults, setSavedResults] = useState<Map<number, string>>(new Map());
+  const [allowInstructorChange, setAllowInstructorChange] = useState(true);
+  const [qualifications, setQualifications] = useState<QualificationIndex | null>(null);
+  const [qualificationsError, setQualificationsError] = useState<string | null>(null);
+
+  // Teaching history across all published terms decides who may take over a section
+  useEffect(() => {
+    let cancelled = false;
+    loadQualificationIndexFromPublic()
+      .then((index) => {
+        if (!cancelled) setQualifications(index);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setQualificationsError(err instanceof Error ? err.message : 'Failed to load teaching history');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Check for conflicts in selected courses
   const selectedCourses = useMemo(() => {
@@ -58,8 +92,9 @@ export default function Optimizer() {
   }, [filteredCourses, selectedCRNs]);
 
   const conflictsExist = useMemo(() => {
-    return hasConflicts(selectedCourses);
-  }, [selectedCourses]);
+    return hasConflicts(selectedCourses) ||
+      detectAvailabilityConflicts(selectedCourses, facultyProfiles).some((c) => c.severity === 'error');
+  }, [selectedCourses, facultyProfiles]);
 
   // Toggle course selection
   const toggleCourse = (crn: string) => {
@@ -110,6 +145,14 @@ export default function Optimizer() {
     setLockedCRNs(new Set());
   };
 
+  // Save a permutation as a new What-If scenario and make it the active draft
+  const saveAsScenario = (result: SchedulePermutation, index: number) => {
+    const name = `Optimizer #${index + 1} (${result.changeCount} change${result.changeCount !== 1 ? 's' : ''})`;
+    createScenario(name, permutationToChanges(result, liveCourses, qualifications ?? undefined));
+    setEditMode(true);
+    setSavedResults(new Map(savedResults).set(index, name));
+  };
+
   // Run optimization
   const runOptimization = useCallback(() => {
     if (selectedCourses.length === 0) return;
@@ -117,6 +160,7 @@ export default function Optimizer() {
     setIsRunning(true);
     setProgress(0);
     setResults([]);
+    setSavedResults(new Map());
     setError(null);
     setElapsed(0);
 
@@ -128,6 +172,10 @@ export default function Optimizer() {
         maxPermutations: 20,
         maxTimeMs: 30000,
         lockedCRNs: lockedCRNs.size > 0 ? lockedCRNs : undefined,
+        allowInstructorChange,
+        qualifiedInstructors: qualifications ?? undefined,
+        otherCourses: liveCourses,
+        facultyProfiles: facultyProfiles.size > 0 ? facultyProfiles : undefined,
         onProgress: (p) => setProgress(p),
       });
 
@@ -139,7 +187,7 @@ export default function Optimizer() {
       setIsRunning(false);
       setProgress(100);
     }
-  }, [selectedCourses, lockedCRNs]);
+  }, [selectedCourses, liveCourses, lockedCRNs, allowInstructorChange, qualifications, facultyProfiles]);
 
   // Get change type icon
   const getChangeIcon = (type: ScheduleChange['changeType']) => {
@@ -176,8 +224,11 @@ export default function Optimizer() {
         <div className="text-sm text-blue-800">
           <p className="font-medium">How it works</p>
           <p className="mt-1">
-            Select courses to optimize. The algorithm will try different time/room combinations
-            to eliminate conflicts while minimizing changes from the current schedule.
+            Select courses to optimize. The algorithm will try different time/room/instructor
+            combinations to eliminate conflicts while minimizing changes from the current schedule.
+            An instructor is only proposed for a section if they have taught that course in any
+            published term. Faculty blackout times (Settings) are never used; teaching
+            preferences break ties between equally small solutions.
             Solutions are ranked by similarity - fewer changes means a higher rank.
           </p>
           <p className="mt-2 flex items-center gap-1">
@@ -321,6 +372,23 @@ export default function Optimizer() {
               ) : null}
             </div>
 
+            <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allowInstructorChange}
+                onChange={(e) => setAllowInstructorChange(e.target.checked)}
+                className="w-4 h-4 text-ewu-red rounded border-gray-300 focus:ring-ewu-red"
+              />
+              Allow instructor reassignment
+              <span className="text-xs text-gray-500">
+                {qualificationsError
+                  ? '(teaching history unavailable)'
+                  : qualifications
+                  ? `(history for ${qualifications.size} courses)`
+                  : '(loading teaching history...)'}
+              </span>
+            </label>
+
             <button
               onClick={runOptimization}
               disabled={isRunning || selectedCRNs.size === 0}
@@ -424,20 +492,30 @@ export default function Optimizer() {
                     {expandedResult === index && result.changes.length > 0 && (
                       <div className="mt-3 space-y-2">
                         {result.changes.map((change, changeIndex) => (
-                          <div
-                            key={changeIndex}
-                            className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg text-sm"
-                          >
-                            {getChangeIcon(change.changeType)}
-                            <span className="font-medium text-gray-700">
-                              {change.courseCode}
-                            </span>
-                            <span className="text-gray-500">{change.changeType}:</span>
-                            <span className="text-red-600 line-through">{change.from}</span>
-                            <ArrowRight className="w-3 h-3 text-gray-400" />
-                            <span className="text-green-600">{change.to}</span>
+                          <div key={changeIndex} className="p-2 bg-gray-50 rounded-lg text-sm">
+                            <div className="flex items-center gap-2">
+                              {getChangeIcon(change.changeType)}
+                              <span className="font-medium text-gray-700">
+                                {change.courseCode}
+                              </span>
+                              <span className="text-gray-500">{change.changeType}:</span>
+                              <span className="text-red-600 line-through">{change.from}</span>
+                              <ArrowRight className="w-3 h-3 text-gray-400" />
+                              <span className="text-green-600">{change.to}</span>
+                            </div>
+                            {change.reason && (
+                              <p className="mt-1 ml-6 text-xs text-gray-500">
+                                Qualified: {change.reason}
+                              </p>
+                            )}
                           </div>
                         ))}
+                        {result.preferenceIssues?.map((issue) => (
+                          <p key={issue} className="text-xs text-amber-700 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                            {issue}
+                          </p>
+                        ))}
                       </div>
                     )}
 
@@ -446,6 +524,24 @@ export default function Optimizer() {
                         No changes from current schedule
                       </div>
                     )}
+
+                    {expandedResult === index && result.changes.length > 0 && (
+                      <div className="mt-3 flex items-center justify-end gap-3">
+                        {savedResults.has(index) && (
+                          <span className="text-xs text-green-700 flex items-center gap-1">
+                            <CheckCircle className="w-3.5 h-3.5" />
+                            Saved as "{savedResults.get(index)}" on the Dashboard
+                          </span>
+                        )}
+                        <button
+                          onClick={() => saveAsScenario(result, index)}
+                          className="btn btn-secondary text-sm py-1.5 flex items-center gap-2"
+                        >
+                          <Save className="w-4 h-4" />
+                          Save as Scenario
+                        </button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -16,9 +16,11 @@ import {
   GraduationCap,
   Layers,
   Bug,
+  UserPen,
 } from 'lucide-react';
 import { useSchedule } from '../contexts/ScheduleContext';
 import { useAppSettings } from '../contexts/AppSettingsContext';
+import FacultyAvailabilityCard from '../components/faculty/FacultyAvailabilityCard';
 import { STORAGE_KEYS } from '../constants/storageKeys';
 import { downloadJson } from '../utils/download';
 import { CATALOG_PROGRAMS } from '../constants/catalogPrograms';
@@ -36,7 +38,8 @@ const ADVISING_PROGRAMS = CATALOG_PROGRAMS.filter((p) => p.includeInAdvising !==
 
 export default function Settings() {
   const { state, loadFromFile } = useSchedule();
-  const { settings, toggleSubject, setProgramFilter, setShowStackedVersions, resetSettings } = useAppSettings();
+  const { settings, toggleSubject, setProgramFilter, setShowStackedVersions, setEditorName, resetSettings } =
+    useAppSettings();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [copiedText, setCopiedText] = useState<string | null>(null);
@@ -334,6 +337,25 @@ export default function Settings() {
               )}
             </div>
 
+            {/* Change Log Author */}
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+                <UserPen className="w-4 h-4 text-gray-600" />
+                Your Name
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Recorded as the author of each What-If edit in the change log.
+              </p>
+              <input
+                type="text"
+                value={settings.editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+                placeholder="e.g. Jane Doe"
+                className="input w-full sm:w-80"
+                aria-label="Your name"
+              />
+            </div>
+
             {/* Debug Options */}
             <div className="pt-4 border-t border-gray-200">
               <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
@@ -545,6 +567,9 @@ export default function Settings() {
           </div>
         </div>
 
+        {/* Faculty Availability */}
+        <FacultyAvailabilityCard />
+
         {/* Display Settings */}
         <div className="card">
           <div className="card-header">
@@ -18,13 +18,26 @@
  * =============================================================================
  */
 
-import { useState } from 'react';
-import { Users, GraduationCap, BookOpen, ChevronLeft, Info } from 'lucide-react';
-import type { StudentPersona } from '../types/advising';
+import { useEffect, useMemo, useState } from 'react';
+import { Users, GraduationCap, BookOpen, ChevronLeft, Info, GitBranch } from 'lucide-react';
+import type { DegreeProgram, StudentPersona } from '../types/advising';
 import PersonaList from '../components/advising/PersonaList';
-import { getAvailablePrograms } from '../services/catalogParser';
-import { formatTerm } from '../constants/academicTerms';
+import PrerequisiteMap from '../components/advising/PrerequisiteMap';
+import GraduationPlanCard from '../components/advising/GraduationPlanCard';
+import DegreeAuditCard from '../components/advising/DegreeAuditCard';
+import ScheduleBuilderCard from '../components/advising/ScheduleBuilderCard';
+import CourseSelectionIssues from '../components/advising/CourseSelectionIssues';
+import { getAvailablePrograms, loadProgram } from '../services/catalogParser';
+import { buildPrerequisiteGraph, getPersonaCourseStates } from '../services/prerequisiteGraph';
+import { generateGraduationPlan } from '../services/graduationPlanner';
+import { validateCourseSelection } from '../services/courseSelectionValidator';
+import { formatTerm, getCurrentTerm } from '../constants/academicTerms';
+import { useCourses } from '../contexts/ScheduleContext';
+import { findEnrolledSections } from '../services/icsExport';
+import CalendarExportButton from '../components/common/CalendarExportButton';
 import RegistrationPrepCard from '../components/advising/RegistrationPrepCard';
+import { useOfferingPatterns } from '../hooks/useOfferingPatterns';
+import { useCatalogIndex } from '../hooks/useCatalogIndex';
 
 /**
  * Students page - main advising dashboard
@@ -136,6 +149,57 @@ interface PersonaDetailProps {
 }
 
 function PersonaDetail({ persona, programName, onBack }: PersonaDetailProps) {
+  const courses = useCourses();
+  const currentTerm = getCurrentTerm();
+  const loadedTerm = courses[0]?.term ?? null;
+  // currentCourses are this quarter's, so they only match the current term's sections
+  const enrolled = useMemo(
+    () => (loadedTerm === currentTerm ? findEnrolledSections(persona, courses) : null),
+    [persona, courses, loadedTerm, currentTerm]
+  );
+
+  const [program, setProgram] = useState<DegreeProgram | null>(null);
+  const offeringPatterns = useOfferingPatterns();
+  const catalogIndex = useCatalogIndex();
+
+  useEffect(() => {
+    let cancelled = false;
+    setProgram(null);
+    loadProgram(persona.primaryMajor).then((loaded) => {
+      if (!cancelled) setProgram(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [persona.primaryMajor]);
+
+  const prerequisiteGraph = useMemo(
+    () => (program ? buildPrerequisiteGraph(program, catalogIndex) : null),
+    [program, catalogIndex]
+  );
+  const prerequisiteStates = useMemo(
+    () => (prerequisiteGraph ? getPersonaCourseStates(prerequisiteGraph, persona) : null),
+    [prerequisiteGraph, persona]
+  );
+
+  const selectionConflicts = useMemo(
+    () => (program ? validateCourseSelection(persona, persona.currentCourses, program, catalogIndex) : []),
+    [persona, program, catalogIndex]
+  );
+
+  // Start the schedule builder from the plan's courses for the loaded term
+  const suggestedCodes = useMemo(() => {
+    if (!program || !loadedTerm) return [];
+    const plan = generateGraduationPlan(persona, program, {
+      startTerm: loadedTerm,
+      includeSummer: true,
+      offeringPatterns,
+      catalog: catalogIndex,
+    });
+    const first = plan.quarterPlans[0];
+    return first?.term === loadedTerm ? first.courses.map((c) => c.requirement.courseCode) : [];
+  }, [persona, program, loadedTerm, offeringPatterns, catalogIndex]);
+
   // Calculate stats
   const completedCredits = persona.completedCourses.reduce((sum, c) => sum + c.credits, 0);
   const passingCourses = persona.completedCourses.filter(
@@ -185,6 +249,32 @@ function PersonaDetail({ persona, programName, onBack }: PersonaDetailProps) {
               <span>Expected {formatTerm(persona.expectedGraduation)}</span>
             </div>
           </div>
+          {persona.currentCourses.length > 0 && (
+            <div className="flex flex-col items-end gap-1">
+              {enrolled ? (
+                <CalendarExportButton
+                  courses={enrolled.sections}
+                  calendarName={`${persona.nickname} ${formatTerm(currentTerm)} classes`}
+                  label="Class calendar"
+                  className="btn btn-secondary btn-sm"
+                />
+              ) : (
+                <span className="text-xs text-gray-500">
+                  Load {formatTerm(currentTerm)} to export this quarter's classes
+                </span>
+              )}
+              {enrolled && enrolled.ambiguous.length > 0 && (
+                <span className="text-xs text-amber-600" title="Several sections are offered; personas record courses, not CRNs">
+                  Not included (multiple sections): {enrolled.ambiguous.join(', ')}
+                </span>
+              )}
+              {enrolled && enrolled.notOffered.length > 0 && (
+                <span className="text-xs text-gray-500">
+                  Not offered this term: {enrolled.notOffered.join(', ')}
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Quick stats */}
@@ -208,8 +298,50 @@ function PersonaDetail({ persona, programName, onBack }: PersonaDetailProps) {
             <div className="text-xs text-gray-500 mt-1">Complete</div>
           </div>
         </div>
+
+        {/* Prerequisite and corequisite problems with this quarter's courses */}
+        {selectionConflicts.length > 0 && (
+          <div className="mt-4">
+            <CourseSelectionIssues conflicts={selectionConflicts} />
+          </div>
+        )}
       </div>
 
+      {/* Degree Audit */}
+      {program && <DegreeAuditCard persona={persona} program={program} offeringPatterns={offeringPatterns} />}
+
+      {/* Graduation Plan */}
+      {program && (
+        <GraduationPlanCard
+          persona={persona}
+          program={program}
+          offeringPatterns={offeringPatterns}
+          catalog={catalogIndex}
+        />
+      )}
+
+      {/* Schedule Builder */}
+      {loadedTerm && (
+        <ScheduleBuilderCard
+          key={`${persona.id}-${loadedTerm}-${suggestedCodes.join(',')}`}
+          persona={persona}
+          courses={courses}
+          termCode={loadedTerm}
+          suggestedCodes={suggestedCodes}
+        />
+      )}
+
+      {/* Prerequisite Map */}
+      {prerequisiteGraph && prerequisiteStates && (
+        <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+          <div className="flex items-center gap-2 mb-4">
+            <GitBranch className="w-5 h-5 text-gray-500" />
+            <h3 className="font-semibold text-gray-900">Prerequisite Map</h3>
+          </div>
+          <PrerequisiteMap graph={prerequisiteGraph} states={prerequisiteStates} />
+        </div>
+      )}
+
       {/* Course History */}
       <div className="bg-white rounded-2xl border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowRight,
+  Clock,
+  Download,
+  GitCompare,
+  Loader2,
+  MapPin,
+  Minus,
+  Plus,
+  User,
+  type LucideIcon,
+} from 'lucide-react';
+import { useSchedule } from '../contexts/ScheduleContext';
+import { addQuarters, formatTerm } from '../constants/academicTerms';
+import { downloadText } from '../utils/download';
+import { toCsv } from '../utils/csv';
+import {
+  compareTermSchedules,
+  describeInstructor,
+  describeMeetingPattern,
+  describeRooms,
+  type SectionChangeField,
+  type SectionComparison,
+  type TermComparisonSummary,
+} from '../services/termComparison';
+
+type KindFilter = 'all' | 'added' | 'dropped' | SectionChangeField;
+
+const SUMMARY_CARDS: Array<{
+  key: keyof TermComparisonSummary;
+  filter: KindFilter;
+  label: string;
+  icon: LucideIcon;
+  bg: string;
+  fg: string;
+}> = [
+  { key: 'added', filter: 'added', label: 'Added', icon: Plus, bg: 'bg-green-100', fg: 'text-green-600' },
+  { key: 'dropped', filter: 'dropped', label: 'Dropped', icon: Minus, bg: 'bg-red-100', fg: 'text-red-600' },
+  { key: 'retimed', filter: 'time', label: 'Re-timed', icon: Clock, bg: 'bg-amber-100', fg: 'text-amber-600' },
+  { key: 'reroomed', filter: 'room', label: 'Re-roomed', icon: MapPin, bg: 'bg-blue-100', fg: 'text-blue-600' },
+  { key: 'reassigned', filter: 'instructor', label: 'Reassigned', icon: User, bg: 'bg-purple-100', fg: 'text-purple-600' },
+];
+
+const CHANGE_LABELS: Record<SectionChangeField, string> = {
+  time: 'Time',
+  room: 'Room',
+  instructor: 'Instructor',
+};
+
+function matchesFilter(row: SectionComparison, filter: KindFilter): boolean {
+  if (filter === 'all') return row.kind !== 'unchanged';
+  if (filter === 'added' || filter === 'dropped') return row.kind === filter;
+  return row.changes.some((change) => change.field === filter);
+}
+
+export default function TermCompare() {
+  const {
+    availableTerms,
+    selectedTermCode,
+    comparisonTerms,
+    comparisonLoading,
+    loadComparisonTerms,
+  } = useSchedule();
+
+  const termCodes = useMemo(
+    () => availableTerms.map((t) => t.termCode).sort((a, b) => b.localeCompare(a)),
+    [availableTerms]
+  );
+
+  const [baseTerm, setBaseTerm] = useState<string>('');
+  const [targetTerms, setTargetTerms] = useState<string[]>([]);
+  const [activeTarget, setActiveTarget] = useState<string>('');
+  const [filter, setFilter] = useState<KindFilter>('all');
+  const [query, setQuery] = useState('');
+
+  // Default to the selected term against the same quarter a year earlier
+  useEffect(() => {
+    if (baseTerm || !selectedTermCode || termCodes.length === 0) return;
+    const lastYear = addQuarters(selectedTermCode, -4);
+    setBaseTerm(termCodes.includes(lastYear) ? lastYear : termCodes[termCodes.length - 1]);
+    setTargetTerms([selectedTermCode]);
+    setActiveTarget(selectedTermCode);
+  }, [baseTerm, selectedTermCode, termCodes]);
+
+  useEffect(() => {
+    if (!baseTerm || targetTerms.length === 0) return;
+    void loadComparisonTerms([baseTerm, ...targetTerms]);
+  }, [baseTerm, targetTerms, loadComparisonTerms]);
+
+  const comparison = useMemo(() => {
+    const base = comparisonTerms.get(baseTerm);
+    const target = comparisonTerms.get(activeTarget);
+    if (!base || !target) return null;
+    return compareTermSchedules(baseTerm, base, activeTarget, target);
+  }, [comparisonTerms, baseTerm, activeTarget]);
+
+  const visibleRows = useMemo(() => {
+    if (!comparison) return [];
+    const q = query.trim().toUpperCase();
+    return comparison.rows.filter(
+      (row) =>
+        matchesFilter(row, filter) &&
+        (!q || row.canonicalCode.includes(q) || row.title.toUpperCase().includes(q))
+    );
+  }, [comparison, filter, query]);
+
+  const toggleTarget = (code: string) => {
+    const next = targetTerms.includes(code)
+      ? targetTerms.filter((t) => t !== code)
+      : [...targetTerms, code].sort();
+    setTargetTerms(next);
+    if (!next.includes(activeTarget)) setActiveTarget(next[0] ?? '');
+    else if (!activeTarget) setActiveTarget(code);
+  };
+
+  const handleExport = () => {
+    if (!comparison) return;
+    const headers = ['Course', 'Title', 'Status', 'Base Section', 'Base CRN', 'Target Section', 'Target CRN', 'Changes'];
+    const rows = comparison.rows
+      .filter((row) => row.kind !== 'unchanged')
+      .map((row) => [
+        row.canonicalCode,
+        row.title,
+        row.kind,
+        row.base?.section ?? '',
+        row.base?.crn ?? '',
+        row.target?.section ?? '',
+        row.target?.crn ?? '',
+        row.changes.map((c) => `${CHANGE_LABELS[c.field]}: ${c.from} -> ${c.to}`).join('; '),
+      ]);
+    downloadText(
+      toCsv([headers, ...rows]),
+      `ewu-term-comparison-${comparison.baseTerm}-${comparison.targetTerm}.csv`,
+      'text/csv'
+    );
+  };
+
+  return (
+    <div>
+      {/* Page header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Term Comparison</h1>
+          <p className="text-gray-600 mt-1">
+            Line sections up across terms by course and see what was added, dropped or changed
+          </p>
+        </div>
+        <button onClick={handleExport} disabled={!comparison} className="btn btn-primary">
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      <div className="card mb-6">
+        <div className="card-body space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm font-medium text-gray-700" htmlFor="compare-base">
+              Compare from
+            </label>
+            <select
+              id="compare-base"
+              value={baseTerm}
+              onChange={(e) => {
+                const next = e.target.value;
+                setBaseTerm(next);
+                if (targetTerms.includes(next)) toggleTarget(next);
+              }}
+              className="input w-48"
+            >
+              {termCodes.map((code) => (
+                <option key={code} value={code}>{formatTerm(code)}</option>
+              ))}
+            </select>
+            <ArrowRight className="w-4 h-4 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">to</span>
+            {comparisonLoading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {termCodes
+              .filter((code) => code !== baseTerm)
+              .map((code) => (
+                <button
+                  key={code}
+                  type="button"
+                  onClick={() => toggleTarget(code)}
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    targetTerms.includes(code)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {formatTerm(code)}
+                </button>
+              ))}
+          </div>
+        </div>
+      </div>
+
+      {targetTerms.length > 1 && (
+        <div className="flex gap-2 mb-4 border-b border-gray-200">
+          {targetTerms.map((code) => (
+            <button
+              key={code}
+              type="button"
+              onClick={() => setActiveTarget(code)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                activeTarget === code
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {formatTerm(baseTerm)} → {formatTerm(code)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!comparison ? (
+        <div className="card p-8 text-center text-gray-500">
+          {comparisonLoading
+            ? 'Loading term schedules…'
+            : targetTerms.length === 0
+              ? 'Select one or more terms to compare against.'
+              : 'Schedule data is not available for the selected terms.'}
+        </div>
+      ) : (
+        <>
+          {/* Summary cards */}
+          <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+            {SUMMARY_CARDS.map(({ key, filter: cardFilter, label, icon: Icon, bg, fg }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setFilter(filter === cardFilter ? 'all' : cardFilter)}
+                className={`card p-4 text-left ${filter === cardFilter ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`w-10 h-10 rounded-lg ${bg} flex items-center justify-center`}>
+                    <Icon className={`w-5 h-5 ${fg}`} />
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">{comparison.summary[key]}</div>
+                    <div className="text-sm text-gray-500">{label}</div>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="card">
+            <div className="card-header flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <GitCompare className="w-5 h-5 text-gray-600" />
+                <h3 className="font-semibold text-gray-900">
+                  {formatTerm(comparison.baseTerm)} → {formatTerm(comparison.targetTerm)}
+                </h3>
+                <span className="text-sm text-gray-500">
+                  {visibleRows.length} sections · {comparison.summary.unchanged} unchanged hidden
+                </span>
+              </div>
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Filter by course or title"
+                className="input w-64"
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="px-4 py-2 text-left">Course</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2 text-left">{formatTerm(comparison.baseTerm)}</th>
+                    <th className="px-4 py-2 text-left">{formatTerm(comparison.targetTerm)}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleRows.map((row) => (
+                    <tr
+                      key={`${row.base?.crn ?? ''}-${row.target?.crn ?? ''}`}
+                      className="hover:bg-gray-50 align-top"
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">{row.canonicalCode}</div>
+                        <div className="text-xs text-gray-500">{row.title}</div>
+                      </td>
+                      <td className="px-4 py-2">
+                        {row.kind === 'changed' ? (
+                          <div className="space-y-1">
+                            {row.changes.map((change) => (
+                              <div key={change.field} className="text-xs">
+                                <span className="font-medium text-gray-700">{CHANGE_LABELS[change.field]}:</span>{' '}
+                                <span className="text-gray-500 line-through">{change.from}</span>{' '}
+                                <span className="text-gray-900">{change.to}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              row.kind === 'added' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                            }`}
+                          >
+                            {row.kind === 'added' ? 'Added' : 'Dropped'}
+                          </span>
+                        )}
+                      </td>
+                      {[row.base, row.target].map((course, i) => (
+                        <td key={i} className="px-4 py-2 text-xs text-gray-600">
+                          {course ? (
+                            <>
+                              <div className="text-gray-900">
+                                {course.displayCode}-{course.section} · CRN {course.crn}
+                              </div>
+                              <div>{describeMeetingPattern(course)}</div>
+                              <div>{describeRooms(course)} · {describeInstructor(course)}</div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useEffect, useMemo, useState } from 'react';
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   CartesianGrid,
   XAxis,
@@ -11,10 +12,21 @@ import {
 import { Loader2, TrendingUp, Search, Info, Link2 } from 'lucide-react';
 import type { ScheduleTrendsDataset } from '../types/trends';
 import { loadScheduleTrendsFromPublic } from '../services/trends';
+import { loadTermCoursesFromPublic } from '../services/termSchedules';
+import { findCatalogListing } from '../services/catalogListings';
+import { getCanonicalCourseCode } from '../constants/courseAliases';
+import { useCatalogIndex } from '../hooks/useCatalogIndex';
 import { formatTerm } from '../constants/academicTerms';
 import { useAcademicCalendarEvents } from '../contexts/AcademicCalendarContext';
 import { findRegistrationOpensEvent } from '../services/academicCalendar';
 import DrilldownModal from '../components/common/DrilldownModal';
+import CatalogListingDetails from '../components/common/CatalogListingDetails';
+import {
+  forecastDemand,
+  forecastMetricValues,
+  getForecastTerm,
+  type DemandForecast,
+} from '../services/demandForecast';
 
 type MetricKey = 'sections' | 'capacity' | 'enrollment' | 'fillRate';
 
@@ -49,6 +61,110 @@ function toPercent(enrollment: number, capacity: number): number | null {
   return (enrollment / capacity) * 100;
 }
 
+interface ProjectionFields {
+  projected: number | null;
+  projectedBand: [number, number] | null;
+}
+
+type ChartRow<T> =
+  | (T & ProjectionFields & { projectionOnly: false })
+  | (ProjectionFields & { projectionOnly: true; termCode: string; termLabel: string } & Record<MetricKey, null>);
+
+/**
+ * Add the forecast as a dashed continuation: the line starts at the last
+ * actual value and ends at the projected term (appended if not in the data)
+ */
+function withProjection<T extends { termCode: string; termLabel: string } & Record<MetricKey, number | null>>(
+  series: T[],
+  forecast: DemandForecast | null,
+  metric: MetricKey
+): ChartRow<T>[] {
+  const rows: ChartRow<T>[] = series.map((row) => ({
+    ...row,
+    projected: null,
+    projectedBand: null,
+    projectionOnly: false as const,
+  }));
+  if (!forecast) return rows;
+
+  const { value, low, high } = forecastMetricValues(forecast)[metric];
+  const anchor = [...rows].reverse().find((row) => row.termCode < forecast.targetTerm && row[metric] !== null);
+  if (anchor && anchor[metric] !== null) {
+    anchor.projected = anchor[metric];
+    anchor.projectedBand = [anchor[metric] as number, anchor[metric] as number];
+  }
+
+  const target = rows.find((row) => row.termCode === forecast.targetTerm);
+  if (target) {
+    target.projected = value;
+    target.projectedBand = [low, high];
+  } else {
+    rows.push({
+      termCode: forecast.targetTerm,
+      termLabel: `${formatTerm(forecast.targetTerm)} (projected)`,
+      sections: null,
+      capacity: null,
+      enrollment: null,
+      fillRate: null,
+      projected: value,
+      projectedBand: [low, high],
+      projectionOnly: true,
+    });
+  }
+  return rows;
+}
+
+function ForecastSummary({ forecast, subject }: { forecast: DemandForecast | null; subject: string }) {
+  if (!forecast) {
+    return (
+      <p className="text-xs text-gray-500">
+        No projection: {subject} has no published enrollment for this quarter in the history.
+      </p>
+    );
+  }
+  const format = new Intl.NumberFormat().format;
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+      <span className="font-medium text-amber-900">
+        {formatTerm(forecast.targetTerm)} projection: {format(forecast.projected)} students
+      </span>
+      <span className="text-amber-800">
+        80% range {format(forecast.low)}–{format(forecast.high)}
+      </span>
+      <span className="text-amber-800">
+        Offer <span className="font-semibold">{forecast.recommendedSections}</span> section
+        {forecast.recommendedSections === 1 ? '' : 's'} at ~{forecast.typicalCap} seats
+      </span>
+      <span className="text-xs text-amber-700">
+        Same-quarter average {format(forecast.seasonalAverage)} • trend {forecast.trendPerYear >= 0 ? '+' : ''}
+        {format(forecast.trendPerYear)}/yr • {forecast.observations} terms
+      </span>
+    </div>
+  );
+}
+
+function ProjectionTooltip({ row, forecast, label }: { row: ProjectionFields & { termLabel: string }; forecast: DemandForecast; label: string }) {
+  return (
+    <div className="bg-white p-3 shadow-lg rounded-lg border">
+      <div className="font-medium text-gray-900">{row.termLabel}</div>
+      <div className="text-sm text-gray-700 mt-1">
+        Projected {label.toLowerCase()}:{' '}
+        <span className="font-medium">
+          {row.projected === null ? '—' : new Intl.NumberFormat().format(Math.round(row.projected))}
+        </span>
+      </div>
+      {row.projectedBand && (
+        <div className="text-xs text-gray-600 mt-1">
+          Range: {Math.round(row.projectedBand[0])}–{Math.round(row.projectedBand[1])}
+        </div>
+      )}
+      <div className="text-xs text-gray-600 mt-1">
+        Recommend {forecast.recommendedSections} section{forecast.recommendedSections === 1 ? '' : 's'}
+      </div>
+    </div>
+  );
+}
+
 export default function Trends() {
   const calendarEvents = useAcademicCalendarEvents();
 
@@ -67,6 +183,9 @@ export default function Trends() {
     | { kind: 'course'; termCode: string; termLabel: string; canonicalCourseCode: string }
     | null
   >(null);
+  // Banner credits of the drilled-down course, keyed by "term|course"
+  const [drilldownCredits, setDrilldownCredits] = useState<{ key: string; credits: number[] } | null>(null);
+  const catalogIndex = useCatalogIndex();
 
   useEffect(() => {
     let alive = true;
@@ -105,6 +224,29 @@ export default function Trends() {
     setSelectedCourseCode(preferredCourse);
   }, [dataset]);
 
+  useEffect(() => {
+    if (drilldown?.kind !== 'course') return;
+    const { termCode, canonicalCourseCode } = drilldown;
+    let alive = true;
+
+    loadTermCoursesFromPublic(termCode)
+      .then((courses) => {
+        if (!alive) return;
+        const credits = courses
+          .filter((course) => getCanonicalCourseCode(course.displayCode) === canonicalCourseCode)
+          .map((course) => course.credits);
+        setDrilldownCredits({ key: `${termCode}|${canonicalCourseCode}`, credits });
+      })
+      .catch((e) => {
+        // Without the term file there is nothing to compare the catalog credits with
+        console.warn(`Banner credits not loaded for ${termCode}:`, e);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [drilldown]);
+
   const termLabelByCode = useMemo(() => {
     const map = new Map<string, string>();
     for (const term of dataset?.terms ?? []) {
@@ -218,6 +360,32 @@ export default function Trends() {
     });
   }, [courseMetricsByTerm, dataset, selectedCourseCode, termLabelByCode]);
 
+  const forecastTerm = useMemo(() => (dataset ? getForecastTerm(dataset.termTotals) : null), [dataset]);
+
+  const departmentForecast = useMemo(() => {
+    if (!dataset || !forecastTerm) return null;
+    const points =
+      deptSubject === 'ALL'
+        ? dataset.termTotals
+        : dataset.departmentTrends.filter((row) => row.subject === deptSubject);
+    return forecastDemand(points, forecastTerm);
+  }, [dataset, deptSubject, forecastTerm]);
+
+  const courseForecast = useMemo(() => {
+    if (!forecastTerm || !selectedCourseCode) return null;
+    return forecastDemand(Array.from(courseMetricsByTerm.values()), forecastTerm);
+  }, [courseMetricsByTerm, forecastTerm, selectedCourseCode]);
+
+  const departmentChartData = useMemo(
+    () => withProjection(departmentSeries, departmentForecast, deptMetric),
+    [departmentSeries, departmentForecast, deptMetric]
+  );
+
+  const courseChartData = useMemo(
+    () => withProjection(courseSeries, courseForecast, courseMetric),
+    [courseSeries, courseForecast, courseMetric]
+  );
+
   const departmentBreakdownForTerm = useMemo(() => {
     const map = new Map<string, ScheduleTrendsDataset['departmentTrends']>();
     if (!dataset) return map;
@@ -346,17 +514,18 @@ export default function Trends() {
           </div>
         </div>
 
-        <div className="card-body">
+        <div className="card-body space-y-3">
+          <ForecastSummary forecast={departmentForecast} subject={deptSubject === 'ALL' ? 'All departments' : deptSubject} />
           <div className="h-72">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={departmentSeries}
+              <ComposedChart
+                data={departmentChartData}
                 onClick={(state) => {
                   const activePayload = (
                     state as { activePayload?: Array<{ payload?: unknown }> }
                   ).activePayload;
-                  const row = activePayload?.[0]?.payload as (typeof departmentSeries)[number] | undefined;
-                  if (!row) return;
+                  const row = activePayload?.[0]?.payload as (typeof departmentChartData)[number] | undefined;
+                  if (!row || row.projectionOnly) return;
                   setDrilldown({
                     kind: 'department',
                     termCode: row.termCode,
@@ -371,7 +540,12 @@ export default function Trends() {
                 <Tooltip
                   content={({ active, payload }) => {
                     if (!active || !payload || payload.length === 0) return null;
-                    const row = payload[0].payload as (typeof departmentSeries)[number];
+                    const row = payload[0].payload as (typeof departmentChartData)[number];
+                    if (row.projectionOnly) {
+                      return departmentForecast ? (
+                        <ProjectionTooltip row={row} forecast={departmentForecast} label={selectedMetric.valueLabel} />
+                      ) : null;
+                    }
                     const reg = registrationOpensByTerm.get(row.termCode);
                     const regLabel = reg
                       ? new Intl.DateTimeFormat(undefined, { year: 'numeric', month: 'short', day: 'numeric' }).format(reg)
@@ -393,6 +567,11 @@ export default function Trends() {
                         <div className="text-xs text-gray-600 mt-2 space-y-0.5">
                           <div>Sections: {row.sections}</div>
                           <div>Seats offered: {new Intl.NumberFormat().format(row.capacity)}</div>
+                          {row.projected !== null && row.termCode === departmentForecast?.targetTerm && (
+                            <div className="text-amber-700">
+                              Projected {selectedMetric.valueLabel.toLowerCase()}: {selectedMetric.format(row.projected)}
+                            </div>
+                          )}
                           <div>
                             Seats filled:{' '}
                             {row.enrollmentPublished ? new Intl.NumberFormat().format(row.enrollment ?? 0) : '—'}
@@ -414,6 +593,25 @@ export default function Trends() {
                     );
                   }}
                 />
+                <Area
+                  type="monotone"
+                  dataKey="projectedBand"
+                  stroke="none"
+                  fill="#A4232E"
+                  fillOpacity={0.12}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="projected"
+                  stroke="#A4232E"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={{ r: 3, fill: '#fff', stroke: '#A4232E' }}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
                 <Line
                   type="monotone"
                   dataKey={deptMetric}
@@ -450,7 +648,7 @@ export default function Trends() {
                   }}
                   connectNulls={false}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
@@ -543,17 +741,19 @@ export default function Trends() {
             </div>
           )}
 
+          {selectedCourseCode && <ForecastSummary forecast={courseForecast} subject={selectedCourseCode} />}
+
           {/* Chart */}
           <div className="h-72">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={courseSeries}
+              <ComposedChart
+                data={courseChartData}
                 onClick={(state) => {
                   const activePayload = (
                     state as { activePayload?: Array<{ payload?: unknown }> }
                   ).activePayload;
-                  const row = activePayload?.[0]?.payload as (typeof courseSeries)[number] | undefined;
-                  if (!row || !selectedCourseCode) return;
+                  const row = activePayload?.[0]?.payload as (typeof courseChartData)[number] | undefined;
+                  if (!row || row.projectionOnly || !selectedCourseCode) return;
                   setDrilldown({
                     kind: 'course',
                     termCode: row.termCode,
@@ -568,7 +768,12 @@ export default function Trends() {
                 <Tooltip
                   content={({ active, payload }) => {
                     if (!active || !payload || payload.length === 0) return null;
-                    const row = payload[0].payload as (typeof courseSeries)[number];
+                    const row = payload[0].payload as (typeof courseChartData)[number];
+                    if (row.projectionOnly) {
+                      return courseForecast ? (
+                        <ProjectionTooltip row={row} forecast={courseForecast} label={selectedCourseMetric.valueLabel} />
+                      ) : null;
+                    }
                     const reg = registrationOpensByTerm.get(row.termCode);
                     const regLabel = reg
                       ? new Intl.DateTimeFormat(undefined, { year: 'numeric', month: 'short', day: 'numeric' }).format(reg)
@@ -590,6 +795,11 @@ export default function Trends() {
                           <div>Sections: {row.sections}</div>
                           <div>Seats offered: {new Intl.NumberFormat().format(row.capacity)}</div>
                           <div>Seats filled: {row.enrollmentPublished ? new Intl.NumberFormat().format(row.enrollment ?? 0) : '—'}</div>
+                          {row.projected !== null && row.termCode === courseForecast?.targetTerm && (
+                            <div className="text-amber-700">
+                              Projected {selectedCourseMetric.valueLabel.toLowerCase()}: {selectedCourseMetric.format(row.projected)}
+                            </div>
+                          )}
                           <div>
                             Codes in snapshot:{' '}
                             {row.codesUsed.length > 0 ? row.codesUsed.join(', ') : '—'}
@@ -607,6 +817,25 @@ export default function Trends() {
                     );
                   }}
                 />
+                <Area
+                  type="monotone"
+                  dataKey="projectedBand"
+                  stroke="none"
+                  fill="#2563EB"
+                  fillOpacity={0.12}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="projected"
+                  stroke="#2563EB"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={{ r: 3, fill: '#fff', stroke: '#2563EB' }}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
                 <Line
                   type="monotone"
                   dataKey={courseMetric}
@@ -644,7 +873,7 @@ export default function Trends() {
                   }}
                   connectNulls={false}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
@@ -895,6 +1124,16 @@ export default function Trends() {
 	                  ? toPercent(courseTermMetric.enrollment, courseTermMetric.capacity)
 	                  : null;
 
+	              const catalogListing = catalogIndex
+	                ? [drilldown.canonicalCourseCode, ...(courseTermMetric?.codesUsed ?? [])]
+	                    .map((code) => findCatalogListing(catalogIndex, code))
+	                    .find((listing) => listing !== null) ?? null
+	                : null;
+	              const bannerCredits =
+	                drilldownCredits?.key === `${drilldown.termCode}|${drilldown.canonicalCourseCode}`
+	                  ? drilldownCredits.credits
+	                  : [];
+
 	              const aliasEntry =
 	                dataset.courseAliases.find(
 	                  (entry) => entry.canonicalCourseCode === drilldown.canonicalCourseCode
@@ -972,6 +1211,8 @@ export default function Trends() {
 	                    </div>
 	                  </div>
 
+	                  {catalogListing && <CatalogListingDetails listing={catalogListing} bannerCredits={bannerCredits} />}
+
 	                  {aliasEntry && (
 	                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
 	                      <div className="flex items-start gap-3">
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { findCatalogListing, getCreditDisagreement, parseCatalogCredits } from './catalogListings';
+import { catalogIndex, listing } from '../test/mocks/advisingData';
+
+const index = catalogIndex(
+  [
+    listing('CSCD 330', undefined, { url: 'https://catalog.example/CSCD 330' }),
+    listing('CSCD 495', undefined, { credits: '1-5', url: 'https://catalog.example/CSCD 495' }),
+  ],
+  { 'CYBR 330': 'CSCD 330' }
+);
+
+describe('catalogListings', () => {
+  it('finds listings by code or alias', () => {
+    expect(findCatalogListing(index, 'cscd  330')?.code).toBe('CSCD 330');
+    expect(findCatalogListing(index, 'CYBR 330')?.code).toBe('CSCD 330');
+    expect(findCatalogListing(index, 'CYBR 999')).toBeNull();
+  });
+
+  it('parses single and ranged credits', () => {
+    expect(parseCatalogCredits('5')).toEqual({ min: 5, max: 5 });
+    expect(parseCatalogCredits('1-5')).toEqual({ min: 1, max: 5 });
+    expect(parseCatalogCredits('variable')).toBeNull();
+  });
+
+  it('reports Banner credits outside the catalog value', () => {
+    expect(getCreditDisagreement(index.listings['CSCD 330'], [5, 5])).toBeNull();
+    expect(getCreditDisagreement(index.listings['CSCD 330'], [4, 5, 4])).toBe(
+      'Catalog lists 5 credits; Banner schedules 4'
+    );
+    expect(getCreditDisagreement(index.listings['CSCD 495'], [1, 3, 5])).toBeNull();
+    expect(getCreditDisagreement(index.listings['CSCD 495'], [0, 6])).toBe(
+      'Catalog lists 1-5 credits; Banner schedules 0, 6'
+    );
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * =============================================================================
+ * SERVICE: catalogListings
+ * =============================================================================
+ *
+ * PURPOSE: Look up a course's catalog listing (description, prerequisites,
+ * credits, catalog link) from any code it is scheduled under, and compare
+ * the catalog credits with what Banner schedules.
+ *
+ * DATA SOURCE: src/data/catalog/course-index.json, generated by
+ * `npm run build:catalog` from data/catalog/course-listings/ with aliases
+ * resolved through data/catalog/mappings/course-aliases.json and
+ * prerequisites parsed into trees (prerequisiteParser). The prerequisite
+ * graph, graduation planner and course selection validator all read
+ * listings from here.
+ *
+ * RULES:
+ * - A code is looked up as-is first, then through its alias, so CYBR 330
+ *   finds the CSCD 330 listing
+ * - Catalog credits are a single value ("5") or a range ("1-5"); Banner
+ *   credits disagree when they fall outside it
+ * =============================================================================
+ */
+
+import type { CatalogIndexFile, CatalogListing } from '../types/catalog';
+import { normalizeCourseCode } from '../constants/courseAliases';
+
+const EMPTY_INDEX: CatalogIndexFile = {
+  schemaVersion: 2,
+  generatedAt: '',
+  editions: [],
+  listings: {},
+  aliases: {},
+};
+
+let indexPromise: Promise<CatalogIndexFile> | null = null;
+
+/**
+ * The catalog index, imported on first use so it stays out of the main bundle
+ */
+export function loadCatalogIndex(): Promise<CatalogIndexFile> {
+  if (!indexPromise) {
+    indexPromise = import('../data/catalog/course-index.json')
+      .then((module) => module.default as CatalogIndexFile)
+      .catch((error) => {
+        console.error('Failed to load catalog index:', error);
+        indexPromise = null;
+        return EMPTY_INDEX;
+      });
+  }
+  return indexPromise;
+}
+
+/**
+ * The listing for a course code, following aliases and cross-listings
+ */
+export function findCatalogListing(index: CatalogIndexFile, code: string): CatalogListing | null {
+  const normalized = normalizeCourseCode(code);
+  const listingCode = index.listings[normalized] ? normalized : index.aliases[normalized];
+  return (listingCode && index.listings[listingCode]) || null;
+}
+
+/**
+ * Parse catalog credits text, e.g. "5" → {min: 5, max: 5}, "1-5" → {min: 1, max: 5}
+ *
+ * @returns null when the text isn't a number or range
+ */
+export function parseCatalogCredits(text: string): { min: number; max: number } | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:[-–]\s*(\d+(?:\.\d+)?))?\s*$/.exec(text);
+  if (!match) return null;
+  const min = Number(match[1]);
+  const max = match[2] ? Number(match[2]) : min;
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+}
+
+/**
+ * Describe any Banner credit values the catalog doesn't allow
+ *
+ * @param bannerCredits - Credits from the scheduled sections
+ * @returns e.g. "Catalog lists 5 credits; Banner schedules 4", or null when they agree
+ */
+export function getCreditDisagreement(listing: CatalogListing, bannerCredits: number[]): string | null {
+  const range = parseCatalogCredits(listing.credits);
+  if (!range) return null;
+
+  const outside = [...new Set(bannerCredits)]
+    .filter((credits) => credits < range.min || credits > range.max)
+    .sort((a, b) => a - b);
+  if (outside.length === 0) return null;
+
+  return `Catalog lists ${listing.credits} credits; Banner schedules ${outside.join(', ')}`;
+}
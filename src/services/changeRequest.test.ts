@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyChangeRequest,
+  buildChangeRequest,
+  changeRequestToCsv,
+  changeRequestToHtml,
+  parseChangeRequest,
+} from './changeRequest';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { CourseModification, DraftState } from '../types/draft';
+
+describe('changeRequest', () => {
+  const courses = parseScheduleData(mockScheduleResponse);
+  const [edited, cancelled] = courses;
+  const added = { ...edited, id: 'new-1', crn: '', section: '099', title: 'Topics <Special>' };
+
+  const changes: CourseModification['changes'] = {
+    instructor: { ...edited.instructor!, id: 'x', displayName: 'Roe, Rick', email: 'rroe@ewu.edu' },
+    meetings: edited.meetings.map((m) => ({ ...m, startMinutes: 600, endMinutes: 650 })),
+  };
+  const draft: Pick<DraftState, 'modifications' | 'cancelledIds' | 'addedCourses'> = {
+    modifications: new Map([[edited.id, { courseId: edited.id, changes, modifiedAt: new Date() }]]),
+    cancelledIds: new Set([cancelled.id]),
+    addedCourses: [added],
+  };
+
+  const doc = buildChangeRequest(draft, courses, '202640', new Date('2026-03-01T12:00:00Z'));
+
+  it('emits one line per CRN and changed field', () => {
+    const editedLines = doc.lines.filter((l) => l.crn === edited.crn);
+    expect(editedLines.map((l) => l.field)).toEqual(['instructor', 'meeting-time']);
+    expect(editedLines[0]).toMatchObject({
+      action: 'modify',
+      oldValue: edited.instructor!.displayName,
+      newValue: 'Roe, Rick',
+      effectiveTerm: '202640',
+    });
+
+    expect(doc.lines.find((l) => l.crn === cancelled.crn)).toMatchObject({
+      action: 'cancel',
+      field: 'status',
+      oldValue: 'Active',
+      newValue: 'Cancelled',
+    });
+    expect(doc.lines.find((l) => l.action === 'add')).toMatchObject({ crn: 'NEW', field: 'section' });
+  });
+
+  it('renders CSV and printable HTML', () => {
+    const csv = changeRequestToCsv(doc).split('\n');
+    expect(csv[0]).toBe('CRN,Course,Title,Action,Field,Old Value,New Value,Effective Term');
+    expect(csv).toHaveLength(doc.lines.length + 1);
+
+    const html = changeRequestToHtml(doc);
+    expect(html).toContain('Fall 2026 (202640)');
+    expect(html).toContain('Topics &lt;Special&gt;');
+    expect(html).not.toContain('<Special>');
+  });
+
+  it('round-trips through JSON back into draft changes', () => {
+    const reimported = applyChangeRequest(parseChangeRequest(JSON.parse(JSON.stringify(doc))), courses);
+
+    expect(reimported.unmatchedCrns).toEqual([]);
+    expect(Array.from(reimported.cancelledIds)).toEqual([cancelled.id]);
+    expect(reimported.modifications.get(edited.id)?.changes).toEqual(changes);
+    expect(reimported.addedCourses).toEqual([added]);
+  });
+
+  it('rejects other JSON and reports CRNs missing from the schedule', () => {
+    expect(() => parseChangeRequest({ changes: [] })).toThrow('Not a schedule change request');
+
+    const elsewhere = applyChangeRequest(doc, courses.slice(2));
+    expect(elsewhere.unmatchedCrns.sort()).toEqual([cancelled.crn, edited.crn].sort());
+    expect(elsewhere.modifications.size).toBe(0);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * =============================================================================
+ * SERVICE: changeRequest
+ * =============================================================================
+ *
+ * PURPOSE: Turn a What-If draft into the section change requests the
+ * registrar works from - one line per CRN and field, with the old value,
+ * new value and effective term.
+ *
+ * FORMATS:
+ * - CSV and a printable HTML report for the registrar
+ * - JSON that also carries the draft itself (keyed by CRN, not internal
+ *   course id) so it can be re-imported into the draft editor
+ *
+ * A cancelled section produces a single status line even if it was also
+ * edited; the edits are still kept in the JSON for round-tripping.
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import type { CourseModification, DraftChanges } from '../types/draft';
+import { formatTerm } from '../constants/academicTerms';
+import { toCsv } from '../utils/csv';
+import { describeInstructor, describeMeetingPattern, describeRooms } from './termComparison';
+
+export const CHANGE_REQUEST_FORMAT = 'ewu-schedule-change-request';
+
+export type ChangeRequestAction = 'modify' | 'cancel' | 'add';
+export type ChangeRequestField = 'instructor' | 'meeting-time' | 'room' | 'campus' | 'status' | 'section';
+
+export interface ChangeRequestLine {
+  crn: string;
+  courseCode: string;
+  title: string;
+  action: ChangeRequestAction;
+  field: ChangeRequestField;
+  oldValue: string;
+  newValue: string;
+  effectiveTerm: string;
+}
+
+export interface ChangeRequestDocument {
+  format: typeof CHANGE_REQUEST_FORMAT;
+  version: 1;
+  generatedAt: string;
+  effectiveTerm: string;
+  lines: ChangeRequestLine[];
+  draft: {
+    modifications: Array<{ crn: string; changes: CourseModification['changes'] }>;
+    cancelledCrns: string[];
+    addedCourses: Course[];
+  };
+}
+
+export interface ImportedDraftChanges extends DraftChanges {
+  /** CRNs in the document that match no section of the live schedule */
+  unmatchedCrns: string[];
+}
+
+const FIELD_LABELS: Record<ChangeRequestField, string> = {
+  instructor: 'Instructor',
+  'meeting-time': 'Meeting Time',
+  room: 'Room',
+  campus: 'Campus',
+  status: 'Status',
+  section: 'New Section',
+};
+
+const ADDED_CRN = 'NEW';
+
+function sectionCode(course: Course): string {
+  return `${course.displayCode}-${course.section}`;
+}
+
+function describeSection(course: Course): string {
+  return [describeMeetingPattern(course), describeRooms(course), describeInstructor(course), course.campus].join(' | ');
+}
+
+function modificationLines(course: Course, changes: CourseModification['changes'], effectiveTerm: string): ChangeRequestLine[] {
+  const edited: Course = {
+    ...course,
+    ...(changes.instructor !== undefined && { instructor: changes.instructor }),
+    ...(changes.meetings !== undefined && { meetings: changes.meetings }),
+    ...(changes.campus !== undefined && { campus: changes.campus }),
+  };
+
+  const base = { crn: course.crn, courseCode: sectionCode(course), title: course.title, action: 'modify' as const, effectiveTerm };
+  const candidates: Array<[ChangeRequestField, string, string]> = [
+    ['instructor', describeInstructor(course), describeInstructor(edited)],
+    ['meeting-time', describeMeetingPattern(course), describeMeetingPattern(edited)],
+    ['room', describeRooms(course), describeRooms(edited)],
+    ['campus', course.campus, edited.campus],
+  ];
+
+  return candidates
+    .filter(([, oldValue, newValue]) => oldValue !== newValue)
+    .map(([field, oldValue, newValue]) => ({ ...base, field, oldValue, newValue }));
+}
+
+/**
+ * Build the change-request document for a draft against the live schedule
+ */
+export function buildChangeRequest(
+  draft: DraftChanges,
+  liveCourses: Course[],
+  effectiveTerm: string = liveCourses[0]?.term ?? '',
+  generatedAt: Date = new Date()
+): ChangeRequestDocument {
+  const byId = new Map(liveCourses.map((course) => [course.id, course]));
+  const lines: ChangeRequestLine[] = [];
+  const modifications: ChangeRequestDocument['draft']['modifications'] = [];
+  const cancelledCrns: string[] = [];
+
+  for (const [courseId, modification] of draft.modifications) {
+    const course = byId.get(courseId);
+    if (!course) continue;
+    modifications.push({ crn: course.crn, changes: modification.changes });
+    if (!draft.cancelledIds.has(courseId)) {
+      lines.push(...modificationLines(course, modification.changes, effectiveTerm));
+    }
+  }
+
+  for (const courseId of draft.cancelledIds) {
+    const course = byId.get(courseId);
+    if (!course) continue;
+    cancelledCrns.push(course.crn);
+    lines.push({
+      crn: course.crn,
+      courseCode: sectionCode(course),
+      title: course.title,
+      action: 'cancel',
+      field: 'status',
+      oldValue: 'Active',
+      newValue: 'Cancelled',
+      effectiveTerm,
+    });
+  }
+
+  for (const course of draft.addedCourses) {
+    lines.push({
+      crn: ADDED_CRN,
+      courseCode: sectionCode(course),
+      title: course.title,
+      action: 'add',
+      field: 'section',
+      oldValue: '',
+      newValue: describeSection(course),
+      effectiveTerm,
+    });
+  }
+
+  lines.sort((a, b) => a.courseCode.localeCompare(b.courseCode) || a.field.localeCompare(b.field));
+
+  return {
+    format: CHANGE_REQUEST_FORMAT,
+    version: 1,
+    generatedAt: generatedAt.toISOString(),
+    effectiveTerm,
+    lines,
+    draft: { modifications, cancelledCrns, addedCourses: draft.addedCourses },
+  };
+}
+
+export function changeRequestToCsv(doc: ChangeRequestDocument): string {
+  const headers = ['CRN', 'Course', 'Title', 'Action', 'Field', 'Old Value', 'New Value', 'Effective Term'];
+  return toCsv([
+    headers,
+    ...doc.lines.map((line) => [
+      line.crn,
+      line.courseCode,
+      line.title,
+      line.action,
+      FIELD_LABELS[line.field],
+      line.oldValue,
+      line.newValue,
+      line.effectiveTerm,
+    ]),
+  ]);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone HTML report, laid out for printing
+ */
+export function changeRequestToHtml(doc: ChangeRequestDocument): string {
+  const termLabel = doc.effectiveTerm ? `${formatTerm(doc.effectiveTerm)} (${doc.effectiveTerm})` : 'Unspecified term';
+  const rows = doc.lines
+    .map(
+      (line) => `<tr>
+  <td>${escapeHtml(line.crn)}</td>
+  <td>${escapeHtml(line.courseCode)}<br><small>${escapeHtml(line.title)}</small></td>
+  <td class="action-${line.action}">${escapeHtml(line.action)}</td>
+  <td>${escapeHtml(FIELD_LABELS[line.field])}</td>
+  <td>${escapeHtml(line.oldValue)}</td>
+  <td>${escapeHtml(line.newValue)}</td>
+</tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Schedule Change Request - ${escapeHtml(termLabel)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  h1 { font-size: 1.25rem; margin-bottom: 0.25rem; }
+  p { margin: 0 0 1rem; color: #4b5563; font-size: 0.875rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.8125rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.375rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  small { color: #6b7280; }
+  .action-cancel { color: #b91c1c; font-weight: 600; }
+  .action-add { color: #047857; font-weight: 600; }
+  @media print { body { margin: 0.5in; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Schedule Change Request &mdash; ${escapeHtml(termLabel)}</h1>
+<p>${doc.lines.length} change${doc.lines.length === 1 ? '' : 's'} &middot; generated ${escapeHtml(new Date(doc.generatedAt).toLocaleString())}</p>
+<table>
+<thead><tr><th>CRN</th><th>Course</th><th>Action</th><th>Field</th><th>Old Value</th><th>New Value</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Validate an imported change-request JSON document
+ *
+ * @throws Error if the value is not a change-request document
+ */
+export function parseChangeRequest(value: unknown): ChangeRequestDocument {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Change request must be a JSON object');
+  }
+  const doc = value as Partial<ChangeRequestDocument>;
+  if (doc.format !== CHANGE_REQUEST_FORMAT || doc.version !== 1) {
+    throw new Error('Not a schedule change request (unknown format or version)');
+  }
+  const draft = doc.draft;
+  if (
+    !draft ||
+    !Array.isArray(draft.modifications) ||
+    !Array.isArray(draft.cancelledCrns) ||
+    !Array.isArray(draft.addedCourses)
+  ) {
+    throw new Error('Change request is missing its draft section');
+  }
+  return doc as ChangeRequestDocument;
+}
+
+/**
+ * Rebuild draft changes from a change-request document, matching sections
+ * of the live schedule by CRN
+ */
+export function applyChangeRequest(doc: ChangeRequestDocument, liveCourses: Course[]): ImportedDraftChanges {
+  const byCrn = new Map(liveCourses.map((course) => [course.crn, course]));
+  const unmatched = new Set<string>();
+  const modifications = new Map<string, CourseModification>();
+  const cancelledIds = new Set<string>();
+
+  for (const { crn, changes } of doc.draft.modifications) {
+    const course = byCrn.get(crn);
+    if (!course) {
+      unmatched.add(crn);
+      continue;
+    }
+    modifications.set(course.id, { courseId: course.id, changes, modifiedAt: new Date() });
+  }
+
+  for (const crn of doc.draft.cancelledCrns) {
+    const course = byCrn.get(crn);
+    if (course) cancelledIds.add(course.id);
+    else unmatched.add(crn);
+  }
+
+  return {
+    modifications,
+    cancelledIds,
+    addedCourses: doc.draft.addedCourses,
+    unmatchedCrns: Array.from(unmatched),
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCommute, getWeekSeverity } from './commuteAnalysis';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { CampusType, Course, DayOfWeek } from '../types/schedule';
+
+const live = parseScheduleData(mockScheduleResponse);
+const base = live.find((c) => c.displayCode === 'CSCD 110')!;
+
+function section(
+  displayCode: string,
+  days: DayOfWeek[],
+  start: number,
+  end: number,
+  building: string,
+  campus: CampusType = 'Cheney'
+): Course {
+  return {
+    ...base,
+    id: displayCode,
+    displayCode,
+    campus,
+    meetings: [
+      {
+        ...base.meetings[0],
+        days,
+        startMinutes: start,
+        endMinutes: end,
+        durationMinutes: end - start,
+        building,
+        room: '101',
+        location: `${building} 101`,
+      },
+    ],
+  };
+}
+
+describe('commuteAnalysis', () => {
+  it('orders each day by start time and walks between buildings', () => {
+    const days = analyzeCommute([
+      section('MATH 161', ['monday', 'wednesday'], 600, 650, 'KGS'),
+      section('CSCD 300', ['monday'], 480, 530, 'CEB'),
+      section('CSCD 320', ['monday'], 720, 770, 'CWH'),
+    ]);
+
+    expect(days.map((d) => d.day)).toEqual(['monday', 'wednesday']);
+    const [monday, wednesday] = days;
+    expect(monday.buildings).toEqual(['CEB', 'KGS', 'CWH']);
+    expect(monday.transitions[0]).toMatchObject({
+      from: 'CEB',
+      to: 'KGS',
+      fromCourse: 'CSCD 300',
+      toCourse: 'MATH 161',
+      walkingMinutes: 4,
+      gapMinutes: 70,
+      isTight: false,
+    });
+    expect(monday.totalWalkingMinutes).toBe(4 + monday.transitions[1].walkingMinutes);
+    expect(monday.severity).toBe('ok');
+    expect(wednesday).toMatchObject({ buildings: ['KGS'], transitions: [], severity: 'ok' });
+  });
+
+  it('marks a walk inside the buffer as tight and one past the gap as an error', () => {
+    const tight = analyzeCommute([
+      section('CSCD 300', ['tuesday'], 480, 530, 'CEB'),
+      section('MATH 161', ['tuesday'], 542, 592, 'CWH'),
+    ]);
+    expect(tight[0].transitions[0]).toMatchObject({ walkingMinutes: 10, gapMinutes: 12, isTight: true });
+    expect(tight[0].severity).toBe('warning');
+
+    const late = analyzeCommute([
+      section('CSCD 300', ['tuesday'], 480, 530, 'CEB'),
+      section('MATH 161', ['tuesday'], 535, 585, 'CWH'),
+    ]);
+    expect(late[0].severity).toBe('error');
+    expect(getWeekSeverity([...tight, ...late])).toBe('error');
+  });
+
+  it('counts cross-campus moves and needs time to drive', () => {
+    const [thursday] = analyzeCommute([
+      section('CSCD 300', ['thursday'], 480, 530, 'CEB'),
+      section('CSCD 320', ['thursday'], 600, 650, 'CAT', 'Spokane U-District'),
+    ]);
+    expect(thursday.crossCampusTransitions).toBe(1);
+    expect(thursday.transitions[0].walkingMinutes).toBe(-1);
+    expect(thursday.totalWalkingMinutes).toBe(0);
+    expect(thursday.severity).toBe('warning');
+
+    const [rushed] = analyzeCommute([
+      section('CSCD 300', ['thursday'], 480, 530, 'CEB'),
+      section('CSCD 320', ['thursday'], 540, 590, 'CAT', 'Spokane U-District'),
+    ]);
+    expect(rushed.severity).toBe('error');
+  });
+
+  it("doesn't count a section whose campus is Online as a campus change", () => {
+    const [tuesday] = analyzeCommute([
+      section('CSCD 300', ['tuesday'], 480, 530, 'CEB'),
+      section('CSCD 320', ['tuesday'], 540, 590, 'CEB', 'Online'),
+    ]);
+    expect(tuesday.crossCampusTransitions).toBe(0);
+    expect(tuesday.severity).toBe('ok');
+  });
+
+  it('skips online sections', () => {
+    const online = { ...section('CSCD 300', ['friday'], 480, 530, 'CEB'), delivery: 'Online' as const };
+    expect(analyzeCommute([online])).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * =============================================================================
+ * SERVICE: commuteAnalysis
+ * =============================================================================
+ *
+ * PURPOSE: Work out how a student gets between classes. For the sections a
+ * persona would take, each weekday's in-person meetings are put in time
+ * order and every move from one building to the next becomes a transition.
+ *
+ * RULES:
+ * - Online sections and meetings without a room (ARR, TBA) are skipped
+ * - Walking time comes from getWalkingTime; a different campus is decided
+ *   by isCrossCampusMove, so an 'Online' section campus is never a move
+ * - A transition is tight when the gap is under the walking time plus
+ *   MINIMUM_WALKING_BUFFER (the driving time for cross-campus moves)
+ *
+ * SEVERITY (per day):
+ * - error: a walk that doesn't fit in the gap, or a cross-campus move with
+ *   less than CROSS_CAMPUS_DRIVING_MINUTES
+ * - warning: any tight transition, or a cross-campus move with time to drive
+ * - ok: otherwise
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import type { CommuteAnalysis } from '../types/advising';
+import {
+  CROSS_CAMPUS_DRIVING_MINUTES,
+  getMeetingBuilding,
+  getWalkingTime,
+  isCrossCampusMove,
+  MINIMUM_WALKING_BUFFER,
+} from '../constants/buildings';
+import { DAYS_OF_WEEK } from '../constants/timeSlots';
+
+export type CommuteTransition = CommuteAnalysis['transitions'][number];
+
+interface Stop {
+  course: Course;
+  building: string;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+function toTransition(from: Stop, to: Stop): CommuteTransition {
+  const gapMinutes = to.startMinutes - from.endMinutes;
+  const walk = getWalkingTime(from.building, to.building);
+  const crossCampus = isCrossCampusMove(from.building, from.course.campus, to.building, to.course.campus);
+  const needed = crossCampus ? CROSS_CAMPUS_DRIVING_MINUTES : walk;
+
+  return {
+    from: from.building,
+    to: to.building,
+    fromCourse: from.course.displayCode,
+    toCourse: to.course.displayCode,
+    walkingMinutes: crossCampus ? -1 : walk,
+    gapMinutes,
+    isTight: gapMinutes < needed + MINIMUM_WALKING_BUFFER,
+  };
+}
+
+/**
+ * How bad a single move between classes is
+ */
+export function getTransitionSeverity(transition: CommuteTransition): CommuteAnalysis['severity'] {
+  const crossCampus = transition.walkingMinutes === -1;
+  const needed = crossCampus ? CROSS_CAMPUS_DRIVING_MINUTES : transition.walkingMinutes;
+  if (transition.gapMinutes < needed) return 'error';
+  if (transition.isTight || crossCampus) return 'warning';
+  return 'ok';
+}
+
+function getWorstSeverity(severities: CommuteAnalysis['severity'][]): CommuteAnalysis['severity'] {
+  if (severities.includes('error')) return 'error';
+  if (severities.includes('warning')) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Commute for each weekday the sections meet in person, Monday first
+ */
+export function analyzeCommute(sections: Course[]): CommuteAnalysis[] {
+  const analyses: CommuteAnalysis[] = [];
+
+  for (const { key: day } of DAYS_OF_WEEK) {
+    const stops: Stop[] = sections
+      .flatMap((course) =>
+        course.meetings
+          .filter((m) => m.days.includes(day))
+          .map((m) => ({
+            course,
+            building: getMeetingBuilding(course, m),
+            startMinutes: m.startMinutes,
+            endMinutes: m.endMinutes,
+          }))
+      )
+      .filter((stop): stop is Stop => stop.building !== null)
+      .sort((a, b) => a.startMinutes - b.startMinutes);
+    if (stops.length === 0) continue;
+
+    const transitions = stops.slice(1).map((stop, i) => toTransition(stops[i], stop));
+    analyses.push({
+      day,
+      buildings: stops.map((s) => s.building),
+      totalWalkingMinutes: transitions.reduce((sum, t) => sum + Math.max(t.walkingMinutes, 0), 0),
+      crossCampusTransitions: transitions.filter((t) => t.walkingMinutes === -1).length,
+      transitions,
+      severity: getWorstSeverity(transitions.map(getTransitionSeverity)),
+    });
+  }
+
+  return analyses;
+}
+
+/**
+ * Worst severity across the week
+ */
+export function getWeekSeverity(analyses: CommuteAnalysis[]): CommuteAnalysis['severity'] {
+  return getWorstSeverity(analyses.map((a) => a.severity));
+}
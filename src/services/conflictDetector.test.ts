@@ -1,12 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import {
   detectAllConflicts,
+  detectRoomFitConflicts,
+  detectTravelConflicts,
+  findSectionClash,
   haveSameInstructor,
   findTimeOverlap,
   findRoomConflict,
   getConflictsForCourse,
   getInstructorConflicts,
   getRoomConflicts,
+  getCapacityConflicts,
+  getTravelConflicts,
   markCoursesWithConflicts,
 } from './conflictDetector';
 import { parseScheduleData } from './scheduleParser';
@@ -17,6 +22,7 @@ import {
   mockNonConflictingCourse,
 } from '../test/mocks/scheduleData';
 import type { Course } from '../types/schedule';
+import type { RoomInventory } from '../constants/rooms';
 
 describe('conflictDetector', () => {
   // Parse mock data for testing
@@ -249,7 +255,7 @@ describe('conflictDetector', () => {
       expect(courseConflicts.length).toBeGreaterThan(0);
       courseConflicts.forEach(conflict => {
         expect(
-          conflict.course1.id === courses[0].id || conflict.course2.id === courses[0].id
+          conflict.course1.id === courses[0].id || conflict.course2?.id === courses[0].id
         ).toBe(true);
       });
     });
@@ -310,6 +316,152 @@ describe('conflictDetector', () => {
     });
   });
 
+  describe('detectRoomFitConflicts', () => {
+    const inventory: RoomInventory = new Map([
+      ['TEST 100', {
+        location: 'TEST 100', building: 'TEST', room: '100', capacity: 30,
+        features: [], sectionCount: 1, lastSeenTerm: '202610',
+      }],
+      ['TEST 200', {
+        location: 'TEST 200', building: 'TEST', room: '200', capacity: 60,
+        features: ['computer-lab'], sectionCount: 1, lastSeenTerm: '202610',
+      }],
+    ]);
+
+    const inRoom = (course: Course, location: string, maximum: number): Course => {
+      const [building, room] = location.split(' ');
+      return {
+        ...course,
+        enrollment: { ...course.enrollment, maximum },
+        meetings: course.meetings.map(m => ({ ...m, building, room, location })),
+      };
+    };
+
+    it('flags a section capped above the room capacity', () => {
+      const course = inRoom(allCourses[0], 'TEST 100', 40);
+
+      const conflicts = detectRoomFitConflicts([course], inventory);
+
+      expect(conflicts.length).toBeGreaterThan(0);
+      expect(conflicts.every(c => c.type === 'capacity' && c.severity === 'error')).toBe(true);
+      expect(conflicts[0].course2).toBeUndefined();
+      expect(conflicts[0].description).toContain('TEST 100 seats 30, but 40 seats are needed');
+    });
+
+    it('passes sections that fit and ignores rooms missing from the inventory', () => {
+      const fits = inRoom(allCourses[0], 'TEST 200', 40);
+      const unknown = inRoom(allCourses[1], 'NOWHERE 1', 500);
+
+      expect(detectRoomFitConflicts([fits, unknown], inventory)).toHaveLength(0);
+    });
+
+    it('warns when a lab section is placed in a room without the required feature', () => {
+      const course = allCourses[0];
+      const lab = inRoom(
+        { ...course, meetings: course.meetings.map(m => ({ ...m, type: 'LAB' })) },
+        'TEST 100',
+        20
+      );
+
+      const conflicts = detectRoomFitConflicts([lab], inventory);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].severity).toBe('warning');
+      expect(conflicts[0].description).toContain('not a computer lab');
+    });
+
+    it('is included in detectAllConflicts and filtered by getCapacityConflicts', () => {
+      const course = inRoom(allCourses[0], 'TEST 100', 40);
+
+      const conflicts = detectAllConflicts([course], { roomInventory: inventory });
+
+      expect(getCapacityConflicts(conflicts).length).toBe(conflicts.length);
+      expect(detectAllConflicts([course], { roomInventory: inventory, checkRoomFit: false })).toHaveLength(0);
+    });
+  });
+
+  describe('detectTravelConflicts', () => {
+    // Same instructor, CSCD 110 then another course on the same days
+    const at = (course: Course, id: string, location: string, campus: Course['campus'], start: number): Course => {
+      const [building, room] = location.split(' ');
+      return {
+        ...course,
+        id,
+        crn: id,
+        courseNumber: id,
+        displayCode: `CSCD ${id}`,
+        campus,
+        meetings: course.meetings.map(m => ({
+          ...m, building, room, location, startMinutes: start, endMinutes: start + 50,
+        })),
+      };
+    };
+
+    it('flags a cross-campus hop that cannot be driven in the gap', () => {
+      const first = at(allCourses[0], '300', 'CEB 101', 'Cheney', 600);
+      const second = at(allCourses[0], '301', 'CAT 221', 'Spokane U-District', 660);
+
+      const conflicts = detectTravelConflicts([first, second]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({
+        type: 'travel',
+        severity: 'error',
+        overlapStart: 650,
+        overlapEnd: 660,
+        travel: { gapMinutes: 10, walkingMinutes: null, drivingMinutes: 25, crossCampus: true },
+      });
+      expect(getTravelConflicts(detectAllConflicts([first, second]))).toHaveLength(1);
+    });
+
+    it('allows a cross-campus hop with enough time to drive', () => {
+      const first = at(allCourses[0], '300', 'CEB 101', 'Cheney', 600);
+      const second = at(allCourses[0], '301', 'CAT 221', 'Spokane U-District', 720);
+
+      expect(detectTravelConflicts([first, second])).toEqual([]);
+    });
+
+    it('warns when a same-campus walk does not fit the gap', () => {
+      // CEB to CWH is a 10-minute walk
+      const first = at(allCourses[0], '300', 'CEB 101', 'Cheney', 600);
+      const second = at(allCourses[0], '301', 'CWH 101', 'Cheney', 655);
+
+      const conflicts = detectTravelConflicts([first, second]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].severity).toBe('warning');
+      expect(conflicts[0].travel).toMatchObject({ gapMinutes: 5, walkingMinutes: 10, drivingMinutes: null });
+    });
+  });
+
+  describe('findSectionClash', () => {
+    const at = (id: string, location: string, campus: Course['campus'], start: number, end = start + 50): Course => {
+      const [building, room] = location.split(' ');
+      return {
+        ...allCourses[0],
+        id,
+        crn: id,
+        campus,
+        meetings: allCourses[0].meetings.map(m => ({
+          ...m, building, room, location, startMinutes: start, endMinutes: end,
+        })),
+      };
+    };
+
+    it('reports an overlap before a campus change or a walk', () => {
+      const first = at('1', 'CEB 101', 'Cheney', 600);
+      expect(findSectionClash(first, at('2', 'CAT 221', 'Spokane U-District', 660))).toMatchObject({
+        kind: 'cross-campus', gap: 10, needed: 25,
+      });
+      expect(findSectionClash(first, at('3', 'CWH 101', 'Cheney', 655))).toMatchObject({ kind: 'walk', gap: 5, needed: 10 });
+      expect(findSectionClash(first, at('4', 'CEB 102', 'Cheney', 630))).toMatchObject({ kind: 'overlap', start: 630, end: 650 });
+    });
+
+    it("doesn't treat a section's Online campus as another campus", () => {
+      expect(findSectionClash(at('1', 'CEB 101', 'Cheney', 600), at('2', 'CEB 102', 'Online', 655))).toBeNull();
+    });
+  });
+
   describe('markCoursesWithConflicts', () => {
     it('should mark courses that have conflicts', () => {
       const courses = parseScheduleData({
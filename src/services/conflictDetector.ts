@@ -1,5 +1,19 @@
 import type { Course, DayOfWeek } from '../types/schedule';
 import { isStackedPair } from './stackedCourseDetector';
+import { checkRoomFit, getRequiredRoomFeatures, ROOM_INVENTORY, type RoomInventory } from '../constants/rooms';
+import {
+  CROSS_CAMPUS_DRIVING_MINUTES,
+  checkWalkingFeasibility,
+  extractBuildingCode,
+  getMeetingBuilding,
+  isCrossCampusMove,
+} from '../constants/buildings';
+import {
+  describeWindow,
+  findWindowViolations,
+  getProfileForInstructor,
+  type FacultyProfileIndex,
+} from './facultyAvailability';
 import {
   haveSameInstructor,
   findTimeOverlap,
@@ -8,19 +22,47 @@ import {
 
 export interface Conflict {
   id: string;
-  type: 'instructor' | 'room';
+  type: 'instructor' | 'room' | 'capacity' | 'availability' | 'travel';
   severity: 'warning' | 'error';
   course1: Course;
-  course2: Course;
+  course2?: Course;               // Absent for single-section conflicts (e.g., capacity)
   day: DayOfWeek;
   overlapStart: number;
   overlapEnd: number;
   description: string;
+  travel?: TravelEstimate;        // Only for 'travel' conflicts
+}
+
+/**
+ * Getting from one meeting to the next: overlapStart/overlapEnd on a travel
+ * conflict are the end of the first meeting and the start of the second
+ */
+export interface TravelEstimate {
+  fromLocation: string;
+  toLocation: string;
+  gapMinutes: number;
+  walkingMinutes: number | null;  // null = not walkable (cross-campus)
+  drivingMinutes: number | null;  // null = same campus, driving doesn't help
+  crossCampus: boolean;
 }
 
+/**
+ * What stops one student from taking two sections together
+ */
+export type SectionClash =
+  | { kind: 'overlap'; day: DayOfWeek; start: number; end: number }
+  | { kind: 'cross-campus'; day: DayOfWeek; from: string; to: string; gap: number; needed: number }
+  | { kind: 'walk'; day: DayOfWeek; from: string; to: string; gap: number; needed: number };
+
+const CLASH_RANK: Record<SectionClash['kind'], number> = { walk: 0, 'cross-campus': 1, overlap: 2 };
+
 export interface ConflictDetectionOptions {
   hideStackedCourses?: boolean;    // Filter out 400/500 level stacked courses
   hideLabCorequisites?: boolean;   // Filter out lab+lecture with same instructor
+  checkRoomFit?: boolean;          // Flag rooms too small or missing required features (default on)
+  roomInventory?: RoomInventory;   // Defaults to ROOM_INVENTORY
+  facultyProfiles?: FacultyProfileIndex; // Flag sections inside instructor unavailable windows
+  checkTravel?: boolean;           // Flag back-to-back meetings an instructor can't reach in time (default on)
 }
 
 /**
@@ -87,6 +129,53 @@ export function isLabCorequisite(course1: Course, course2: Course): boolean {
   return sameBase;
 }
 
+/**
+ * Worst problem between two sections one student would take: meetings that
+ * overlap, then back-to-back meetings on different campuses with less than
+ * CROSS_CAMPUS_DRIVING_MINUTES between them, then walks that don't fit the gap
+ */
+export function findSectionClash(a: Course, b: Course): SectionClash | null {
+  let worst: SectionClash | null = null;
+
+  for (const ma of a.meetings) {
+    for (const mb of b.meetings) {
+      for (const day of ma.days.filter((d) => mb.days.includes(d))) {
+        if (ma.startMinutes < mb.endMinutes && mb.startMinutes < ma.endMinutes) {
+          return {
+            kind: 'overlap',
+            day,
+            start: Math.max(ma.startMinutes, mb.startMinutes),
+            end: Math.min(ma.endMinutes, mb.endMinutes),
+          };
+        }
+
+        const [first, second] = ma.startMinutes < mb.startMinutes ? [ma, mb] : [mb, ma];
+        const [firstCourse, secondCourse] = first === ma ? [a, b] : [b, a];
+        const from = getMeetingBuilding(firstCourse, first);
+        const to = getMeetingBuilding(secondCourse, second);
+        if (!from || !to) continue;
+
+        const gap = second.startMinutes - first.endMinutes;
+        const crossCampus = isCrossCampusMove(from, firstCourse.campus, to, secondCourse.campus);
+        const walk = checkWalkingFeasibility(from, to, gap);
+        if (crossCampus ? gap >= CROSS_CAMPUS_DRIVING_MINUTES : walk.feasible) continue;
+
+        const clash: SectionClash = {
+          kind: crossCampus ? 'cross-campus' : 'walk',
+          day,
+          from: first.location,
+          to: second.location,
+          gap,
+          needed: crossCampus ? CROSS_CAMPUS_DRIVING_MINUTES : walk.walkingMinutes,
+        };
+        if (!worst || CLASH_RANK[clash.kind] > CLASH_RANK[worst.kind]) worst = clash;
+      }
+    }
+  }
+
+  return worst;
+}
+
 /**
  * Detect all scheduling conflicts in a list of courses
  * @param options - Options to filter out false positives
@@ -164,9 +253,218 @@ export function detectAllConflicts(
     }
   }
 
+  if (options.checkRoomFit !== false) {
+    conflicts.push(...detectRoomFitConflicts(scheduledCourses, options.roomInventory ?? ROOM_INVENTORY));
+  }
+
+  if (options.facultyProfiles) {
+    conflicts.push(...detectAvailabilityConflicts(scheduledCourses, options.facultyProfiles));
+  }
+
+  if (options.checkTravel !== false) {
+    conflicts.push(...detectTravelConflicts(scheduledCourses));
+  }
+
   return conflicts;
 }
 
+/**
+ * Detect sections placed in rooms that are too small or lack required features.
+ * Sections of one course or a stacked pair meeting in the same room at the
+ * same start time share the room, so their seats are summed. Unrelated
+ * sections in the same slot are already reported as room conflicts.
+ */
+export function detectRoomFitConflicts(
+  courses: Course[],
+  inventory: RoomInventory = ROOM_INVENTORY
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const slots = new Map<string, { courses: Course[]; day: DayOfWeek; start: number; end: number; location: string }>();
+
+  for (const course of courses) {
+    if (course.delivery === 'Online') continue;
+
+    for (const meeting of course.meetings) {
+      if (!meeting.building || !meeting.room || meeting.days.length === 0) continue;
+
+      const key = `${meeting.location}|${meeting.days.join(',')}|${meeting.startMinutes}`;
+      const slot = slots.get(key) ?? {
+        courses: [],
+        day: meeting.days[0],
+        start: meeting.startMinutes,
+        end: meeting.endMinutes,
+        location: meeting.location,
+      };
+      if (!slot.courses.includes(course)) slot.courses.push(course);
+      slot.end = Math.max(slot.end, meeting.endMinutes);
+      slots.set(key, slot);
+
+      for (const issue of checkRoomFit(meeting.location, 0, getRequiredRoomFeatures(course), inventory)) {
+        conflicts.push({
+          id: `capacity-feature-${course.id}-${meeting.location}`,
+          type: 'capacity',
+          severity: 'warning',
+          course1: course,
+          day: meeting.days[0],
+          overlapStart: meeting.startMinutes,
+          overlapEnd: meeting.endMinutes,
+          description: `${course.displayCode} needs a lab room: ${issue.message}`,
+        });
+      }
+    }
+  }
+
+  for (const slot of slots.values()) {
+    const groups: Course[][] = [];
+    for (const course of slot.courses) {
+      const group = groups.find((g) =>
+        g.some((other) => isSameCourse(course, other) || isStackedPair(course, other))
+      );
+      if (group) group.push(course);
+      else groups.push([course]);
+    }
+
+    for (const group of groups) {
+      const seats = group.reduce((sum, c) => sum + c.enrollment.maximum, 0);
+      const issues = checkRoomFit(slot.location, seats, [], inventory);
+      if (issues.length === 0) continue;
+
+      const codes = group.map((c) => c.displayCode).join(' + ');
+      conflicts.push({
+        id: `capacity-${group.map((c) => c.id).join('-')}-${slot.location}-${slot.day}`,
+        type: 'capacity',
+        severity: 'error',
+        course1: group[0],
+        course2: group[1],
+        day: slot.day,
+        overlapStart: slot.start,
+        overlapEnd: slot.end,
+        description: `${codes} ${group.length > 1 ? 'are' : 'is'} capped at ${seats}: ${issues[0].message}`,
+      });
+    }
+  }
+
+  // A section with several identical meetings would repeat its feature issue
+  return conflicts.filter((c, i) => conflicts.findIndex((other) => other.id === c.id) === i);
+}
+
+/**
+ * Detect sections scheduled inside their instructor's unavailable windows.
+ * Hard windows (blackouts) are errors; soft windows are warnings.
+ */
+export function detectAvailabilityConflicts(
+  courses: Course[],
+  profiles: FacultyProfileIndex
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+
+  for (const course of courses) {
+    const profile = getProfileForInstructor(profiles, course.instructor);
+    if (!profile) continue;
+
+    for (const meeting of course.meetings) {
+      const violations = findWindowViolations(
+        profile,
+        meeting.days,
+        meeting.startMinutes,
+        meeting.endMinutes,
+        course.campus
+      );
+      for (const violation of violations) {
+        conflicts.push({
+          id: `availability-${course.id}-${violation.window.id}-${violation.day}`,
+          type: 'availability',
+          severity: violation.window.hard ? 'error' : 'warning',
+          course1: course,
+          day: violation.day,
+          overlapStart: violation.overlapStart,
+          overlapEnd: violation.overlapEnd,
+          description: `${course.displayCode} is scheduled while ${profile.displayName} is ${
+            violation.window.hard ? 'unavailable' : 'prefers not to teach'
+          }: ${describeWindow(violation.window)}`,
+        });
+      }
+    }
+  }
+
+  return conflicts.filter((c, i) => conflicts.findIndex((other) => other.id === c.id) === i);
+}
+
+/**
+ * Detect an instructor's back-to-back meetings in places they can't reach in
+ * the gap between them. Cross-campus moves (Cheney <-> Spokane U-District)
+ * need the drive time and are errors; same-campus walks that don't fit the
+ * gap are warnings. Overlapping meetings are instructor conflicts instead.
+ */
+export function detectTravelConflicts(courses: Course[]): Conflict[] {
+  type Stop = { course: Course; day: DayOfWeek; start: number; end: number; location: string; building: string };
+  const stopsByInstructorDay = new Map<string, Stop[]>();
+
+  for (const course of courses) {
+    if (!course.instructor || course.delivery === 'Online') continue;
+    const instructorKey = course.instructor.email || course.instructor.displayName;
+
+    for (const meeting of course.meetings) {
+      if (!meeting.building || !meeting.room || meeting.building === 'ARR' || meeting.room === 'WEB') continue;
+      const building = extractBuildingCode(meeting.location) ?? meeting.building;
+
+      for (const day of meeting.days) {
+        const key = `${instructorKey}|${day}`;
+        const stops = stopsByInstructorDay.get(key) ?? [];
+        stops.push({ course, day, start: meeting.startMinutes, end: meeting.endMinutes, location: meeting.location, building });
+        stopsByInstructorDay.set(key, stops);
+      }
+    }
+  }
+
+  const conflicts = new Map<string, Conflict>();
+
+  for (const stops of stopsByInstructorDay.values()) {
+    stops.sort((a, b) => a.start - b.start);
+
+    for (let i = 0; i + 1 < stops.length; i++) {
+      const from = stops[i];
+      const to = stops[i + 1];
+      if (from.course.id === to.course.id || from.location === to.location) continue;
+      const gapMinutes = to.start - from.end;
+      if (gapMinutes < 0) continue;
+
+      const walk = checkWalkingFeasibility(from.building, to.building, gapMinutes);
+      const crossCampus = isCrossCampusMove(from.building, from.course.campus, to.building, to.course.campus);
+      const drivingMinutes = crossCampus ? CROSS_CAMPUS_DRIVING_MINUTES : null;
+      if (crossCampus ? gapMinutes >= CROSS_CAMPUS_DRIVING_MINUTES : walk.feasible) continue;
+
+      // One conflict per pair of sections, on the first day it happens
+      const id = `travel-${from.course.id}-${to.course.id}`;
+      if (conflicts.has(id)) continue;
+
+      const walkingMinutes = crossCampus ? null : walk.walkingMinutes;
+      const needed = crossCampus ? `driving takes ~${drivingMinutes} min` : `walking takes ${walkingMinutes} min`;
+      conflicts.set(id, {
+        id,
+        type: 'travel',
+        severity: crossCampus ? 'error' : 'warning',
+        course1: from.course,
+        course2: to.course,
+        day: from.day,
+        overlapStart: from.end,
+        overlapEnd: to.start,
+        description: `${from.course.instructor?.displayName} has ${gapMinutes} min to get from ${from.course.displayCode} in ${from.location} to ${to.course.displayCode} in ${to.location}, but ${needed}`,
+        travel: {
+          fromLocation: from.location,
+          toLocation: to.location,
+          gapMinutes,
+          walkingMinutes,
+          drivingMinutes,
+          crossCampus,
+        },
+      });
+    }
+  }
+
+  return Array.from(conflicts.values());
+}
+
 export { haveSameInstructor, findTimeOverlap, findRoomConflict };
 
 /**
@@ -174,7 +472,7 @@ export { haveSameInstructor, findTimeOverlap, findRoomConflict };
  */
 export function getConflictsForCourse(course: Course, allConflicts: Conflict[]): Conflict[] {
   return allConflicts.filter(
-    (c) => c.course1.id === course.id || c.course2.id === course.id
+    (c) => c.course1.id === course.id || c.course2?.id === course.id
   );
 }
 
@@ -192,6 +490,27 @@ export function getRoomConflicts(conflicts: Conflict[]): Conflict[] {
   return conflicts.filter((c) => c.type === 'room');
 }
 
+/**
+ * Get room capacity / feature conflicts only
+ */
+export function getCapacityConflicts(conflicts: Conflict[]): Conflict[] {
+  return conflicts.filter((c) => c.type === 'capacity');
+}
+
+/**
+ * Get faculty availability conflicts only
+ */
+export function getAvailabilityConflicts(conflicts: Conflict[]): Conflict[] {
+  return conflicts.filter((c) => c.type === 'availability');
+}
+
+/**
+ * Get instructor travel-time conflicts only
+ */
+export function getTravelConflicts(conflicts: Conflict[]): Conflict[] {
+  return conflicts.filter((c) => c.type === 'travel');
+}
+
 /**
  * Mark courses that have conflicts
  */
@@ -200,7 +519,7 @@ export function markCoursesWithConflicts(courses: Course[], conflicts: Conflict[
 
   conflicts.forEach((conflict) => {
     conflictingCourseIds.add(conflict.course1.id);
-    conflictingCourseIds.add(conflict.course2.id);
+    if (conflict.course2) conflictingCourseIds.add(conflict.course2.id);
   });
 
   return courses.map((course) => ({
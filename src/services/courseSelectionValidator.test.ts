@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { validateCourseSelection } from './courseSelectionValidator';
+import { catalogIndex, listing, program as testProgram, requirement, taken } from '../test/mocks/advisingData';
+
+const program = testProgram(
+  [
+    requirement('CSCD 210'),
+    requirement('CSCD 211', ['CSCD 210']),
+    requirement('CSCD 300', ['CSCD 211', 'MATH 161']),
+    requirement('CSCD 477', [], { corequisites: ['CSCD 477L'] }),
+    requirement('CSCD 477L'),
+  ],
+  { supportCourses: [requirement('MATH 161', [], { minimumGrade: 'C-' })] }
+);
+
+describe('courseSelectionValidator', () => {
+  it('accepts prerequisites passed at their own minimum grade', () => {
+    const persona = { completedCourses: [taken('CSCD 210', 'B'), taken('cscd 211', 'C'), taken('MATH 161', 'C-')] };
+    expect(validateCourseSelection(persona, ['CSCD 300'], program)).toEqual([]);
+  });
+
+  it('explains missing, low-grade and concurrent prerequisites', () => {
+    const persona = { completedCourses: [taken('CSCD 210', 'D'), taken('CSCD 210', 'C-'), taken('MATH 161', 'IP')] };
+    const conflicts = validateCourseSelection(persona, ['CSCD 211', 'CSCD 300'], program);
+
+    expect(conflicts.map((c) => c.id)).toEqual([
+      'prerequisite-CSCD 211-CSCD 210',
+      'prerequisite-CSCD 300-CSCD 211',
+      'prerequisite-CSCD 300-MATH 161',
+    ]);
+    expect(conflicts[0]).toMatchObject({
+      type: 'prerequisite',
+      severity: 'error',
+      description: 'CSCD 211 needs CSCD 210 with C or better; the best grade is C-',
+      suggestion: 'Retake CSCD 210 before CSCD 211',
+    });
+    expect(conflicts[1].description).toContain('being taken at the same time');
+    expect(conflicts[2].suggestion).toBe('Move CSCD 300 to the quarter after MATH 161');
+
+    const fresh = validateCourseSelection({ completedCourses: [] }, ['CSCD 211'], program);
+    expect(fresh[0].description).toBe("CSCD 211 needs CSCD 210, which hasn't been taken");
+  });
+
+  it('requires corequisites in the same selection unless already passed', () => {
+    expect(validateCourseSelection({ completedCourses: [] }, ['CSCD 477'], program)).toEqual([
+      {
+        id: 'corequisite-CSCD 477-CSCD 477L',
+        type: 'corequisite',
+        severity: 'error',
+        courses: ['CSCD 477', 'CSCD 477L'],
+        description: 'CSCD 477 must be taken with CSCD 477L',
+        suggestion: 'Add CSCD 477L in the same quarter',
+      },
+    ]);
+    expect(validateCourseSelection({ completedCourses: [] }, ['CSCD 477', 'CSCD 477L'], program)).toEqual([]);
+    expect(validateCourseSelection({ completedCourses: [taken('CSCD 477L', 'A')] }, ['CSCD 477'], program)).toEqual([]);
+  });
+
+  it('prefers the catalog prerequisite tree over the program list', () => {
+    const catalog = catalogIndex([
+      listing(
+        'CSCD 300',
+        'CSCD 211 ≥ C and (MATH 161 or MATH 142) (may be taken concurrently), permission of the department'
+      ),
+    ]);
+    const persona = { completedCourses: [taken('CSCD 211', 'C')] };
+    const conflicts = validateCourseSelection(persona, ['CSCD 300', 'MATH 142'], program, catalog);
+
+    expect(conflicts).toEqual([
+      {
+        id: 'prerequisite-CSCD 300-2',
+        type: 'prerequisite',
+        severity: 'info',
+        courses: ['CSCD 300'],
+        description: 'CSCD 300 also requires permission of the department',
+        suggestion: 'Confirm this before registering',
+      },
+    ]);
+
+    const fresh = validateCourseSelection({ completedCourses: [taken('CSCD 211', 'C')] }, ['CSCD 300'], program, catalog);
+    expect(fresh[0]).toMatchObject({
+      severity: 'error',
+      description: 'CSCD 300 needs MATH 161 (may be concurrent) or MATH 142 (may be concurrent)',
+      suggestion: 'Complete one of them first',
+    });
+  });
+
+  it('skips courses neither the program nor the catalog lists', () => {
+    expect(validateCourseSelection({ completedCourses: [] }, ['ENGL 201'], program)).toEqual([]);
+  });
+
+  it('checks courses outside the program against their catalog listing', () => {
+    const catalog = catalogIndex([listing('CSCD 350', 'CSCD 211 ≥ C+.')]);
+    const conflicts = validateCourseSelection({ completedCourses: [taken('CSCD 211', 'C')] }, ['CSCD 350'], program, catalog);
+
+    expect(conflicts).toEqual([
+      {
+        id: 'prerequisite-CSCD 350-CSCD 211',
+        type: 'prerequisite',
+        severity: 'error',
+        courses: ['CSCD 350', 'CSCD 211'],
+        description: 'CSCD 350 needs CSCD 211 with C+ or better; the best grade is C',
+        suggestion: 'Retake CSCD 211 before CSCD 350',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * =============================================================================
+ * SERVICE: courseSelectionValidator
+ * =============================================================================
+ *
+ * PURPOSE: Check the courses a persona is taking (or about to take) against
+ * their prerequisites and corequisites, the way registration would before
+ * letting them enroll.
+ *
+ * SOURCES:
+ * - Prerequisites come from the catalog index listing's parsed expression
+ *   tree (found through findCatalogListing) when there is one, so
+ *   alternatives, per-course grades and concurrent enrollment are honored. Otherwise the program's
+ *   CourseRequirement.prerequisites are all required, each at its own
+ *   minimumGrade in the program (C when the program doesn't list it).
+ * - Corequisites come from the program
+ *
+ * RULES:
+ * - A prerequisite is met when its best attempt reaches the grade it needs
+ *   (any passing grade when none is given). TR and P always count.
+ * - Prerequisites must be finished beforehand: one that is in progress or
+ *   in the same selection is still an error, unless the catalog allows it
+ *   concurrently
+ * - Permission, standing and other conditions can't be checked from a
+ *   transcript and are listed as info, as is prose the parser couldn't read
+ * - A corequisite is met when it is in the selection or already passed
+ * - Courses the program doesn't list are checked against their catalog
+ *   listing; with neither they can't be checked and are skipped
+ * =============================================================================
+ */
+
+import type {
+  CompletedCourse,
+  CourseRequirement,
+  DegreeProgram,
+  StudentPersona,
+  StudentScheduleConflict,
+} from '../types/advising';
+import type { CatalogIndexFile } from '../types/catalog';
+import { normalizeCourseCode } from '../constants/courseAliases';
+import { findCatalogListing } from './catalogListings';
+import { getBestAttempts } from './degreeAudit';
+import { isInProgress, meetsMinimumGrade } from './graduationPlanner';
+import {
+  DEFAULT_MINIMUM_GRADE,
+  PASSING_GRADE,
+  describePrerequisites,
+  evaluatePrerequisites,
+  getCoursePrerequisites,
+  type PrerequisiteCourse,
+} from './prerequisiteParser';
+
+function indexRequirements(program: DegreeProgram): Map<string, CourseRequirement> {
+  const requirements = new Map<string, CourseRequirement>();
+  const all = [...program.coreCourses, ...program.supportCourses, ...program.electiveGroups.flatMap((g) => g.courses)];
+  for (const requirement of all) {
+    const code = normalizeCourseCode(requirement.courseCode);
+    if (!requirements.has(code)) requirements.set(code, requirement);
+  }
+  return requirements;
+}
+
+/**
+ * Prerequisite and corequisite problems with a selection of courses
+ *
+ * @param selectedCodes - Courses being added, e.g. the persona's currentCourses
+ * @param catalog - Catalog index whose prerequisite trees take precedence
+ */
+export function validateCourseSelection(
+  persona: Pick<StudentPersona, 'completedCourses'>,
+  selectedCodes: string[],
+  program: DegreeProgram,
+  catalog: CatalogIndexFile | null = null
+): StudentScheduleConflict[] {
+  const requirements = indexRequirements(program);
+  const attempts = persona.completedCourses.map(
+    (c): CompletedCourse => ({ ...c, courseCode: normalizeCourseCode(c.courseCode) })
+  );
+  const best = getBestAttempts(attempts);
+  const inProgress = new Set(attempts.filter(isInProgress).map((c) => c.courseCode));
+  const selected = [...new Set(selectedCodes.map(normalizeCourseCode).filter(Boolean))];
+  const selectedSet = new Set(selected);
+
+  const programGrade = (code: string) => requirements.get(code)?.minimumGrade ?? DEFAULT_MINIMUM_GRADE;
+  const gradeFor = (node: PrerequisiteCourse) => node.minimumGrade ?? PASSING_GRADE;
+  const passedNode = (node: PrerequisiteCourse) => meetsMinimumGrade(best.get(node.courseCode)?.grade ?? null, gradeFor(node));
+  const alongside = (code: string) => selectedSet.has(code) || inProgress.has(code);
+  const courseMet = (node: PrerequisiteCourse) => passedNode(node) || (node.concurrent && alongside(node.courseCode));
+
+  const courseConflict = (code: string, node: PrerequisiteCourse): StudentScheduleConflict => {
+    const prereq = node.courseCode;
+    const attempt = best.get(prereq);
+    const base = {
+      id: `prerequisite-${code}-${prereq}`,
+      type: 'prerequisite' as const,
+      severity: 'error' as const,
+      courses: [code, prereq],
+    };
+    if (alongside(prereq)) {
+      return {
+        ...base,
+        description: `${code} needs ${prereq} finished first, but it is being taken at the same time`,
+        suggestion: `Move ${code} to the quarter after ${prereq}`,
+      };
+    }
+    if (attempt) {
+      const needed = node.minimumGrade ? `${node.minimumGrade} or better` : 'a passing grade';
+      return {
+        ...base,
+        description: `${code} needs ${prereq} with ${needed}; the best grade is ${attempt.grade}`,
+        suggestion: `Retake ${prereq} before ${code}`,
+      };
+    }
+    return {
+      ...base,
+      description: `${code} needs ${prereq}, which hasn't been taken`,
+      suggestion: node.concurrent ? `Take ${prereq} first or in the same quarter` : `Take ${prereq} first`,
+    };
+  };
+
+  const conflicts: StudentScheduleConflict[] = [];
+  for (const code of selected) {
+    const requirement = requirements.get(code);
+    const listing = catalog ? findCatalogListing(catalog, code) : null;
+    if ((!requirement && !listing) || meetsMinimumGrade(best.get(code)?.grade ?? null, programGrade(code))) continue;
+
+    const tree = getCoursePrerequisites(
+      listing,
+      requirement && { ...requirement, prerequisites: requirement.prerequisites.map(normalizeCourseCode) },
+      programGrade
+    );
+    const expression = tree.expression;
+
+    const clauses = !expression ? [] : expression.type === 'and' ? expression.operands : [expression];
+    clauses.forEach((clause, index) => {
+      const outcome = evaluatePrerequisites(clause, courseMet);
+      if (outcome === 'met') return;
+
+      if (clause.type === 'course') {
+        conflicts.push(courseConflict(code, clause));
+      } else if (outcome === 'unmet') {
+        conflicts.push({
+          id: `prerequisite-${code}-${index}`,
+          type: 'prerequisite',
+          severity: 'error',
+          courses: [code],
+          description: `${code} needs ${describePrerequisites(clause)}`,
+          suggestion: clause.type === 'or' ? 'Complete one of them first' : 'Complete them first',
+        });
+      } else {
+        conflicts.push({
+          id: `prerequisite-${code}-${index}`,
+          type: 'prerequisite',
+          severity: 'info',
+          courses: [code],
+          description: `${code} also requires ${describePrerequisites(clause)}`,
+          suggestion: 'Confirm this before registering',
+        });
+      }
+    });
+
+    if (tree.unparsed.length > 0) {
+      conflicts.push({
+        id: `prerequisite-${code}-unparsed`,
+        type: 'prerequisite',
+        severity: 'info',
+        courses: [code],
+        description: `Part of the catalog's prerequisites for ${code} couldn't be read: "${tree.unparsed.join('", "')}"`,
+        suggestion: 'Check the catalog listing by hand',
+      });
+    }
+
+    for (const coreq of (requirement?.corequisites ?? []).map(normalizeCourseCode)) {
+      if (selectedSet.has(coreq) || meetsMinimumGrade(best.get(coreq)?.grade ?? null, programGrade(coreq))) continue;
+      conflicts.push({
+        id: `corequisite-${code}-${coreq}`,
+        type: 'corequisite',
+        severity: 'error',
+        courses: [code, coreq],
+        description: `${code} must be taken with ${coreq}`,
+        suggestion: `Add ${coreq} in the same quarter`,
+      });
+    }
+  }
+
+  return conflicts;
+}
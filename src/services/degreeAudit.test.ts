@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { auditDegree, getBestAttempts } from './degreeAudit';
+import type { CompletedCourse, StudentPersona } from '../types/advising';
+import { program as testProgram, requirement, taken } from '../test/mocks/advisingData';
+
+const program = testProgram([requirement('CSCD 210'), requirement('CSCD 211'), requirement('CSCD 300')], {
+  totalCredits: 40,
+  minimumMajorGPA: 2.5,
+  electiveGroups: [
+    {
+      id: 'security',
+      name: 'Security Electives',
+      description: '',
+      requiredCount: 1,
+      requiredCredits: 5,
+      courses: [requirement('CSCD 434'), requirement('CYBR 320')],
+    },
+    {
+      id: 'systems',
+      name: 'Systems Electives',
+      description: '',
+      requiredCount: 1,
+      requiredCredits: 5,
+      courses: [requirement('CYBR 320'), requirement('CSCD 300'), requirement('CSCD 467')],
+    },
+  ],
+  supportCourses: [requirement('MATH 161', [], { minimumGrade: 'C-' })],
+});
+
+function persona(completedCourses: CompletedCourse[], currentCourses: string[] = []): StudentPersona {
+  return {
+    id: 'p1',
+    nickname: 'Student 1',
+    icon: '💻',
+    primaryMajor: 'test-bs',
+    minors: [],
+    startTerm: '202540',
+    expectedGraduation: '202820',
+    completedCourses,
+    currentCourses,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('degreeAudit', () => {
+  it('keeps the best attempt of a retaken course', () => {
+    const best = getBestAttempts([taken('CSCD 210', 'D'), taken('CSCD 210', 'B', { term: '202610' }), taken('CSCD 211', 'W')]);
+    expect(best.get('CSCD 210')!.grade).toBe('B');
+    expect(best.get('CSCD 211')!.grade).toBe('W');
+  });
+
+  it('reports each requirement against its minimum grade', () => {
+    const audit = auditDegree(
+      persona([taken('CSCD 210', 'D'), taken('CSCD 210', 'B+', { term: '202610' }), taken('CSCD 211', 'C-'), taken('MATH 161', 'C-')], ['CSCD 300']),
+      program
+    );
+    const core = Object.fromEntries(audit.core.map((item) => [item.requirement.courseCode, item]));
+
+    expect(core['CSCD 210']).toMatchObject({ status: 'satisfied', grade: 'B+', term: '202610', attempts: 2 });
+    expect(core['CSCD 211']).toMatchObject({ status: 'missing', belowMinimum: true });
+    expect(core['CSCD 300'].status).toBe('in-progress');
+    expect(audit.support[0].status).toBe('satisfied');
+  });
+
+  it('counts transfer credit toward requirements and credits, but not GPA', () => {
+    const audit = auditDegree(persona([taken('CSCD 210', 'TR', { isTransfer: true }), taken('CSCD 211', 'A')]), program);
+
+    expect(audit.core[0]).toMatchObject({ status: 'satisfied', isTransfer: true });
+    expect(audit.gpa.overall).toEqual({ value: 4, required: 2, met: true });
+    expect(audit.creditsEarned).toBe(10);
+  });
+
+  it('uses a course for one requirement and lets elective groups share only what is left', () => {
+    const audit = auditDegree(persona([taken('CSCD 300', 'A'), taken('CYBR 320', 'B'), taken('CSCD 434', 'B')]), program);
+    const [security, systems] = audit.electiveGroups;
+
+    // CSCD 434 fills the security group first, leaving CYBR 320 for systems
+    expect(security.status).toBe('satisfied');
+    expect(systems.status).toBe('satisfied');
+    expect(systems.options.find((o) => o.requirement.courseCode === 'CSCD 300')).toMatchObject({
+      status: 'missing',
+      countedToward: 'Core',
+    });
+    expect(audit.core[2].alsoListedIn).toEqual(['Systems Electives']);
+
+    const short = auditDegree(persona([taken('CSCD 300', 'A')], ['CSCD 467']), program);
+    expect(short.electiveGroups[1]).toMatchObject({ status: 'in-progress', countSatisfied: 0, countInProgress: 1 });
+  });
+
+  it('checks overall and major GPA and overall completion', () => {
+    const audit = auditDegree(
+      persona([
+        taken('CSCD 210', 'C'),
+        taken('CSCD 211', 'C'),
+        taken('CSCD 300', 'C'),
+        taken('MATH 161', 'C'),
+        taken('CSCD 434', 'C'),
+        taken('CSCD 467', 'C'),
+        taken('HIST 110', 'A'),
+        taken('ENGL 101', 'A'),
+      ]),
+      program
+    );
+
+    expect(audit.gpa.overall.value).toBe(2.5);
+    expect(audit.gpa.major).toEqual({ value: 2, required: 2.5, met: false });
+    expect(audit.summary).toEqual({ satisfied: 6, 'in-progress': 0, missing: 0 });
+    expect(audit.creditsEarned).toBe(40);
+    expect(audit.complete).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * =============================================================================
+ * SERVICE: degreeAudit
+ * =============================================================================
+ *
+ * PURPOSE: Check a persona's course history against a degree program,
+ * requirement by requirement, the way the registrar's degree audit does.
+ *
+ * RULES:
+ * - Retakes: the best attempt counts, both for the requirement and for GPA
+ * - A requirement is satisfied when its best attempt meets minimumGrade.
+ *   Transfer (TR) and Pass (P) grades always satisfy it.
+ * - A course currently being taken (getInProgressCourses) marks the
+ *   requirement in progress
+ * - One course counts toward one requirement. Core and support courses
+ *   claim it first; elective groups then take only as many of the
+ *   remaining courses as they need, in catalog order. Every other
+ *   requirement a course appears in is listed on its item so advisors can
+ *   see the overlap.
+ * - An elective group is satisfied when its satisfied options reach both
+ *   requiredCount and requiredCredits. It is in progress when current
+ *   courses would get it there.
+ * - GPA uses GRADE_POINTS over graded, non-transfer best attempts. Major
+ *   GPA is limited to courses the program lists.
+ * =============================================================================
+ */
+
+import type {
+  AcademicTerm,
+  CompletedCourse,
+  CourseRequirement,
+  DegreeProgram,
+  ElectiveGroup,
+  LetterGrade,
+  StudentPersona,
+} from '../types/advising';
+import { GRADE_POINTS } from '../types/advising';
+import { calculateGPA, getInProgressCourses, isInProgress, meetsMinimumGrade } from './graduationPlanner';
+import { PASSING_GRADE } from './prerequisiteParser';
+
+export type AuditStatus = 'satisfied' | 'in-progress' | 'missing';
+
+export interface AuditCourseItem {
+  requirement: CourseRequirement;
+  status: AuditStatus;
+  /** Grade of the best attempt (null if never taken) */
+  grade: LetterGrade | null;
+  term: AcademicTerm | null;
+  attempts: number;
+  isTransfer: boolean;
+  /** Taken, but no attempt reached minimumGrade */
+  belowMinimum: boolean;
+  /** Requirement the course was counted toward, if not this one */
+  countedToward: string | null;
+  /** Other requirements the course appears in */
+  alsoListedIn: string[];
+}
+
+export interface ElectiveGroupAudit {
+  group: ElectiveGroup;
+  status: AuditStatus;
+  options: AuditCourseItem[];
+  countSatisfied: number;
+  creditsSatisfied: number;
+  countInProgress: number;
+  creditsInProgress: number;
+}
+
+export interface GPACheck {
+  value: number | null;
+  required: number;
+  /** null until there is a GPA to check */
+  met: boolean | null;
+}
+
+export interface DegreeAudit {
+  personaId: string;
+  programSlug: string;
+  core: AuditCourseItem[];
+  support: AuditCourseItem[];
+  electiveGroups: ElectiveGroupAudit[];
+  gpa: {
+    overall: GPACheck;
+    /** null when the program has no separate major GPA */
+    major: GPACheck | null;
+  };
+  /** Credits earned with a passing grade, each course counted once */
+  creditsEarned: number;
+  creditsRequired: number;
+  /** Counts over core and support courses plus elective groups */
+  summary: Record<AuditStatus, number>;
+  complete: boolean;
+}
+
+const CORE_LABEL = 'Core';
+const SUPPORT_LABEL = 'Support';
+
+/**
+ * Rank of an attempt; higher is better. TR and P pass any minimum, so they
+ * outrank every letter grade.
+ */
+function attemptRank(attempt: CompletedCourse): number {
+  if (attempt.grade === 'TR' || attempt.grade === 'P') return 5;
+  if (attempt.grade === null) return -1;
+  return GRADE_POINTS[attempt.grade] ?? -1;
+}
+
+/**
+ * The attempt that counts for each course
+ */
+export function getBestAttempts(courses: CompletedCourse[]): Map<string, CompletedCourse> {
+  const best = new Map<string, CompletedCourse>();
+  for (const course of courses) {
+    const current = best.get(course.courseCode);
+    if (!current || attemptRank(course) > attemptRank(current)) best.set(course.courseCode, course);
+  }
+  return best;
+}
+
+function check(value: number | null, required: number): GPACheck {
+  return { value, required, met: value === null ? null : value >= required };
+}
+
+/**
+ * Audit a persona's progress toward a degree program
+ */
+export function auditDegree(persona: StudentPersona, program: DegreeProgram): DegreeAudit {
+  const best = getBestAttempts(persona.completedCourses);
+  const attemptCounts = new Map<string, number>();
+  for (const course of persona.completedCourses) {
+    attemptCounts.set(course.courseCode, (attemptCounts.get(course.courseCode) ?? 0) + 1);
+  }
+  const inProgress = getInProgressCourses(persona);
+
+  // Every requirement each course appears in, for overlap notes
+  const listings = new Map<string, string[]>();
+  const list = (code: string, label: string) => {
+    const labels = listings.get(code) ?? [];
+    if (!labels.includes(label)) listings.set(code, [...labels, label]);
+  };
+  program.coreCourses.forEach((r) => list(r.courseCode, CORE_LABEL));
+  program.supportCourses.forEach((r) => list(r.courseCode, SUPPORT_LABEL));
+  program.electiveGroups.forEach((g) => g.courses.forEach((r) => list(r.courseCode, g.name)));
+
+  // Course code -> requirement it was counted toward
+  const claimed = new Map<string, string>();
+
+  const auditCourse = (requirement: CourseRequirement, label: string, claim = true): AuditCourseItem => {
+    const code = requirement.courseCode;
+    const attempt = best.get(code);
+    const passed = attempt !== undefined && meetsMinimumGrade(attempt.grade, requirement.minimumGrade);
+    const owner = claimed.get(code);
+    const usable = owner === undefined || owner === label;
+
+    let status: AuditStatus = 'missing';
+    if (usable && passed) status = 'satisfied';
+    else if (usable && inProgress.has(code)) status = 'in-progress';
+    if (claim && status !== 'missing' && owner === undefined) claimed.set(code, label);
+
+    return {
+      requirement,
+      status,
+      grade: attempt?.grade ?? null,
+      term: attempt?.term ?? null,
+      attempts: attemptCounts.get(code) ?? 0,
+      isTransfer: attempt?.isTransfer ?? false,
+      belowMinimum: attempt !== undefined && !isInProgress(attempt) && !passed,
+      countedToward: usable ? null : owner,
+      alsoListedIn: (listings.get(code) ?? []).filter((l) => l !== label),
+    };
+  };
+
+  const core = program.coreCourses.map((r) => auditCourse(r, CORE_LABEL));
+  const support = program.supportCourses.map((r) => auditCourse(r, SUPPORT_LABEL));
+
+  const electiveGroups = program.electiveGroups.map((group): ElectiveGroupAudit => {
+    const options = group.courses.map((r) => auditCourse(r, group.name, false));
+
+    // Claim satisfied options, then current ones, only until the group is
+    // met, so extra courses stay free for later groups
+    let claimedCount = 0;
+    let claimedCredits = 0;
+    for (const status of ['satisfied', 'in-progress'] as const) {
+      for (const option of options) {
+        if (claimedCount >= group.requiredCount && claimedCredits >= group.requiredCredits) break;
+        if (option.status !== status || claimed.has(option.requirement.courseCode)) continue;
+        claimed.set(option.requirement.courseCode, group.name);
+        claimedCount += 1;
+        claimedCredits += option.requirement.credits;
+      }
+    }
+
+    const satisfied = options.filter((o) => o.status === 'satisfied');
+    const current = options.filter((o) => o.status === 'in-progress');
+    const countSatisfied = satisfied.length;
+    const creditsSatisfied = satisfied.reduce((sum, o) => sum + o.requirement.credits, 0);
+    const countInProgress = current.length;
+    const creditsInProgress = current.reduce((sum, o) => sum + o.requirement.credits, 0);
+
+    let status: AuditStatus = 'missing';
+    if (countSatisfied >= group.requiredCount && creditsSatisfied >= group.requiredCredits) {
+      status = 'satisfied';
+    } else if (
+      countSatisfied + countInProgress >= group.requiredCount &&
+      creditsSatisfied + creditsInProgress >= group.requiredCredits
+    ) {
+      status = 'in-progress';
+    }
+    return { group, status, options, countSatisfied, creditsSatisfied, countInProgress, creditsInProgress };
+  });
+
+  const bestList = Array.from(best.values());
+  const overall = check(calculateGPA(bestList), program.minimumGPA);
+  const major =
+    program.minimumMajorGPA !== undefined
+      ? check(calculateGPA(bestList.filter((c) => listings.has(c.courseCode))), program.minimumMajorGPA)
+      : null;
+
+  const creditsEarned = bestList
+    .filter((c) => meetsMinimumGrade(c.grade, PASSING_GRADE))
+    .reduce((sum, c) => sum + c.credits, 0);
+
+  const summary: Record<AuditStatus, number> = { satisfied: 0, 'in-progress': 0, missing: 0 };
+  for (const item of [...core, ...support, ...electiveGroups]) summary[item.status] += 1;
+
+  return {
+    personaId: persona.id,
+    programSlug: program.slug,
+    core,
+    support,
+    electiveGroups,
+    gpa: { overall, major },
+    creditsEarned,
+    creditsRequired: program.totalCredits,
+    summary,
+    complete:
+      summary['in-progress'] === 0 &&
+      summary.missing === 0 &&
+      overall.met !== false &&
+      major?.met !== false &&
+      creditsEarned >= program.totalCredits,
+  };
+}
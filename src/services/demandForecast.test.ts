@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { forecastDemand, forecastMetricValues, getForecastTerm, type TrendPoint } from './demandForecast';
+
+function point(termCode: string, enrollment: number, sections = 2, capacity = 60, enrollmentPublished = true): TrendPoint {
+  return { termCode, sections, capacity, enrollment, enrollmentPublished };
+}
+
+describe('demandForecast', () => {
+  // Fall is always the busy quarter and grows by 10 students a year
+  const history = [
+    point('202240', 100),
+    point('202310', 70),
+    point('202320', 60),
+    point('202340', 110),
+    point('202410', 75),
+    point('202420', 65),
+    point('202440', 120),
+    point('202510', 80),
+    point('202520', 70),
+    point('202540', 130),
+    point('202610', 85),
+    point('202620', 0, 2, 60, false),
+  ];
+
+  it('forecasts the term after the last published one', () => {
+    expect(getForecastTerm(history)).toBe('202620');
+    expect(getForecastTerm([point('202540', 10, 1, 30, false)])).toBeNull();
+  });
+
+  it('blends the same-quarter average with the trend and recommends sections', () => {
+    const forecast = forecastDemand(history, '202640')!;
+
+    // Last three falls
+    expect(forecast.seasonalAverage).toBe(120);
+    expect(forecast.trendProjection).toBeGreaterThan(130);
+    expect(forecast.trendPerYear).toBeGreaterThan(0);
+    expect(forecast.projected).toBeGreaterThan(forecast.seasonalAverage);
+    expect(forecast.low).toBeLessThanOrEqual(forecast.projected);
+    expect(forecast.high).toBeGreaterThanOrEqual(forecast.projected);
+    expect(forecast.typicalCap).toBe(30);
+    expect(forecast.recommendedSections).toBe(Math.ceil(forecast.projected / 30));
+    expect(forecast.observations).toBe(11);
+  });
+
+  it('ignores the unpublished term and expresses the forecast in each chart metric', () => {
+    const forecast = forecastDemand(history, '202620')!;
+    const values = forecastMetricValues(forecast);
+
+    expect(forecast.seasonalAverage).toBe(65);
+    expect(values.sections.value).toBe(forecast.recommendedSections);
+    expect(values.capacity.value).toBe(forecast.recommendedSections * forecast.typicalCap);
+    expect(values.enrollment).toEqual({ value: forecast.projected, low: forecast.low, high: forecast.high });
+  });
+
+  it('makes no projection for a quarter the course has never been offered in', () => {
+    expect(forecastDemand(history, '202630')).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * =============================================================================
+ * SERVICE: demandForecast
+ * =============================================================================
+ *
+ * PURPOSE: Project next-term enrollment for a course (or department) from the
+ * per-term history built by scripts/build-trends.ts, and turn it into a
+ * recommended number of sections.
+ *
+ * METHOD:
+ * 1. Seasonal moving average: the mean of the last SEASONAL_WINDOW terms of
+ *    the same quarter (Fall with Fall, Summer with Summer)
+ * 2. Linear trend: each quarter gets a seasonal index (its mean over the
+ *    overall mean); enrollment is divided by it, a least-squares line is fit
+ *    over time and extended to the target term, then re-seasonalized
+ * 3. The projection is the average of the two. The confidence band is the
+ *    trend line's prediction interval (~80%), shifted to the projection
+ *
+ * SECTIONS: projected enrollment divided by the typical section cap (median
+ * seats per section over recent terms), rounded up.
+ *
+ * Only terms with published enrollment count. A course never offered in the
+ * target quarter gets no projection.
+ * =============================================================================
+ */
+
+import type { AcademicTerm } from '../types/advising';
+import type { CourseTermMetric } from '../types/trends';
+import { addQuarters, parseTerm, QUARTER_ORDER, type AcademicQuarter } from '../constants/academicTerms';
+
+export const SEASONAL_WINDOW = 3;
+// Terms used for the typical section cap
+const CAP_WINDOW = 6;
+// z for a two-sided ~80% interval
+const BAND_Z = 1.28;
+
+export type TrendPoint = Pick<CourseTermMetric, 'termCode' | 'sections' | 'capacity' | 'enrollment' | 'enrollmentPublished'>;
+
+export interface DemandForecast {
+  targetTerm: AcademicTerm;
+  /** Projected enrollment (rounded) */
+  projected: number;
+  low: number;
+  high: number;
+  seasonalAverage: number;
+  trendProjection: number;
+  /** Enrollment change per year from the trend line */
+  trendPerYear: number;
+  /** Median seats per section */
+  typicalCap: number;
+  recommendedSections: number;
+  /** Published terms the forecast is based on */
+  observations: number;
+}
+
+function quarterIndex(termCode: AcademicTerm): number {
+  const { year, quarter } = parseTerm(termCode);
+  return year * 4 + QUARTER_ORDER.indexOf(quarter);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * The term a forecast is for: the first term after the last published one
+ */
+export function getForecastTerm(points: TrendPoint[]): AcademicTerm | null {
+  const published = points.filter((p) => p.enrollmentPublished).map((p) => p.termCode).sort();
+  const last = published[published.length - 1];
+  return last ? addQuarters(last, 1) : null;
+}
+
+/**
+ * Sections needed to seat the projected enrollment at the typical cap
+ */
+export function sectionsNeeded(enrollment: number, typicalCap: number): number {
+  if (enrollment <= 0 || typicalCap <= 0) return 0;
+  return Math.max(1, Math.ceil(enrollment / typicalCap));
+}
+
+/**
+ * Project enrollment for `targetTerm` from a course's (or department's) history
+ */
+export function forecastDemand(points: TrendPoint[], targetTerm: AcademicTerm): DemandForecast | null {
+  const observed = points
+    .filter((p) => p.enrollmentPublished && p.sections > 0 && p.termCode < targetTerm)
+    .sort((a, b) => a.termCode.localeCompare(b.termCode));
+  const targetQuarter = parseTerm(targetTerm).quarter;
+  const sameQuarter = observed.filter((p) => parseTerm(p.termCode).quarter === targetQuarter);
+  if (sameQuarter.length === 0) return null;
+
+  const seasonalAverage = mean(sameQuarter.slice(-SEASONAL_WINDOW).map((p) => p.enrollment));
+
+  // Seasonal indexes, then a line through the deseasonalized history
+  const overall = mean(observed.map((p) => p.enrollment));
+  const seasonIndex = new Map<AcademicQuarter, number>();
+  for (const quarter of new Set(observed.map((p) => parseTerm(p.termCode).quarter))) {
+    const values = observed.filter((p) => parseTerm(p.termCode).quarter === quarter).map((p) => p.enrollment);
+    seasonIndex.set(quarter, overall > 0 ? mean(values) / overall : 1);
+  }
+  const xs = observed.map((p) => quarterIndex(p.termCode));
+  const ys = observed.map((p) => {
+    const index = seasonIndex.get(parseTerm(p.termCode).quarter) ?? 1;
+    return index > 0 ? p.enrollment / index : p.enrollment;
+  });
+  const n = observed.length;
+  const xBar = mean(xs);
+  const yBar = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - xBar) ** 2, 0);
+  const slope = n >= 3 && sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - xBar) * (ys[i] - yBar), 0) / sxx : 0;
+  const intercept = yBar - slope * xBar;
+
+  const targetX = quarterIndex(targetTerm);
+  const targetIndex = seasonIndex.get(targetQuarter) ?? 1;
+  const trendProjection = Math.max(0, (intercept + slope * targetX) * targetIndex);
+
+  // Prediction interval of the trend line, in seasonal units
+  const residualVariance =
+    n > 2 ? ys.reduce((sum, y, i) => sum + (y - (intercept + slope * xs[i])) ** 2, 0) / (n - 2) : 0;
+  const leverage = sxx > 0 ? (targetX - xBar) ** 2 / sxx : 0;
+  const halfWidth = BAND_Z * Math.sqrt(residualVariance * (1 + 1 / n + leverage)) * targetIndex;
+
+  const projected = (seasonalAverage + trendProjection) / 2;
+  const recent = observed.slice(-CAP_WINDOW);
+  const typicalCap = Math.round(median(recent.map((p) => p.capacity / p.sections)));
+
+  return {
+    targetTerm,
+    projected: Math.round(projected),
+    low: Math.max(0, Math.round(projected - halfWidth)),
+    high: Math.round(projected + halfWidth),
+    seasonalAverage: Math.round(seasonalAverage),
+    trendProjection: Math.round(trendProjection),
+    trendPerYear: Math.round(slope * 4 * targetIndex),
+    typicalCap,
+    recommendedSections: sectionsNeeded(projected, typicalCap),
+    observations: n,
+  };
+}
+
+export type ForecastMetric = 'sections' | 'capacity' | 'enrollment' | 'fillRate';
+
+/**
+ * The forecast expressed in each Trends chart metric, with its band
+ */
+export function forecastMetricValues(
+  forecast: DemandForecast
+): Record<ForecastMetric, { value: number; low: number; high: number }> {
+  const { projected, low, high, typicalCap, recommendedSections } = forecast;
+  const seats = recommendedSections * typicalCap;
+  const sections = (n: number) => sectionsNeeded(n, typicalCap);
+  const fill = (n: number) => (seats > 0 ? (n / seats) * 100 : 0);
+  return {
+    enrollment: { value: projected, low, high },
+    sections: { value: recommendedSections, low: sections(low), high: sections(high) },
+    capacity: { value: seats, low: sections(low) * typicalCap, high: sections(high) * typicalCap },
+    fillRate: { value: fill(projected), low: fill(low), high: fill(high) },
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { auditLogToCsv, describeCourseEdit } from './draftAudit';
+import { applyModification } from './draftScenarios';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { DraftAuditEntry } from '../types/draft';
+
+describe('draftAudit', () => {
+  const [course] = parseScheduleData(mockScheduleResponse);
+
+  it('describes only the fields an edit changed', () => {
+    const moved = applyModification(course, {
+      instructor: { ...course.instructor!, displayName: 'Roe, Rick', email: 'rroe@ewu.edu' },
+      meetings: course.meetings.map((m) => ({ ...m, building: 'CEB', room: '101', location: 'CEB 101' })),
+    });
+
+    expect(describeCourseEdit(course, moved)).toBe(
+      `Instructor: ${course.instructor!.displayName} → Roe, Rick; Room: CAT 221 → CEB 101`
+    );
+    expect(describeCourseEdit(course, course)).toBe('No effective change');
+  });
+
+  it('exports the log as CSV, oldest first', () => {
+    const entries: DraftAuditEntry[] = [
+      {
+        id: '1',
+        at: new Date('2026-03-01T17:00:00Z'),
+        author: 'Jane Doe',
+        action: 'cancel',
+        courseId: course.id,
+        courseCode: 'CSCD 110-001',
+        summary: 'Cancelled section',
+      },
+      {
+        id: '2',
+        at: new Date('2026-03-01T17:05:00Z'),
+        author: 'Jane Doe',
+        action: 'undo',
+        courseId: course.id,
+        courseCode: 'CSCD 110-001',
+        summary: 'Undid: Cancelled section',
+      },
+    ];
+
+    expect(auditLogToCsv(entries).split('\n')).toEqual([
+      'Time,Author,Action,Section,Details',
+      '2026-03-01T17:00:00.000Z,Jane Doe,Cancelled,CSCD 110-001,Cancelled section',
+      '2026-03-01T17:05:00.000Z,Jane Doe,Undo,CSCD 110-001,Undid: Cancelled section',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * =============================================================================
+ * SERVICE: draftAudit
+ * =============================================================================
+ *
+ * PURPOSE: Describe What-If edits for the change log that every scenario
+ * keeps, and export that log.
+ *
+ * Each entry records who made the edit (the name set in Settings), what
+ * changed in plain words ("Instructor: Doe, Jane → Smith, John") and when.
+ * Undo and redo are logged as entries of their own, so the log is an
+ * append-only record of the editing session rather than of the end result.
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import type { DraftAuditAction, DraftAuditEntry } from '../types/draft';
+import { toCsv } from '../utils/csv';
+import { describeInstructor, describeMeetingPattern, describeRooms } from './termComparison';
+
+export const AUDIT_ACTION_LABELS: Record<DraftAuditAction, string> = {
+  modify: 'Edited',
+  cancel: 'Cancelled',
+  restore: 'Restored',
+  revert: 'Reverted',
+  add: 'Added',
+  'remove-added': 'Removed',
+  reset: 'Reset',
+  import: 'Imported',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+// Author recorded when no name is set in Settings
+export const UNKNOWN_AUTHOR = 'Unknown';
+
+export function sectionLabel(course: Pick<Course, 'displayCode' | 'section'>): string {
+  return `${course.displayCode}-${course.section}`;
+}
+
+/**
+ * Plain-words description of what an edit changed, e.g.
+ * "Instructor: Doe, Jane → Smith, John; Room: CAT 222 → CAT 223"
+ */
+export function describeCourseEdit(before: Course, after: Course): string {
+  const fields: Array<[string, string, string]> = [
+    ['Instructor', describeInstructor(before), describeInstructor(after)],
+    ['Time', describeMeetingPattern(before), describeMeetingPattern(after)],
+    ['Room', describeRooms(before), describeRooms(after)],
+    ['Campus', before.campus, after.campus],
+  ];
+  const changed = fields
+    .filter(([, from, to]) => from !== to)
+    .map(([label, from, to]) => `${label}: ${from} → ${to}`);
+  return changed.length > 0 ? changed.join('; ') : 'No effective change';
+}
+
+export function auditLogToCsv(entries: DraftAuditEntry[]): string {
+  return toCsv([
+    ['Time', 'Author', 'Action', 'Section', 'Details'],
+    ...entries.map((entry) => [
+      entry.at.toISOString(),
+      entry.author,
+      AUDIT_ACTION_LABELS[entry.action],
+      entry.courseCode ?? '',
+      entry.summary,
+    ]),
+  ]);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffScenarios,
+  EMPTY_DRAFT_CHANGES,
+  permutationToChanges,
+  summarizeScenario,
+  uniqueScenarioName,
+} from './draftScenarios';
+import { buildQualificationIndex } from './instructorQualifications';
+import { parseScheduleData } from './scheduleParser';
+import { courseToAssignment, type SchedulePermutation } from './scheduleOptimizer';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { DraftChanges } from '../types/draft';
+
+describe('draftScenarios', () => {
+  const courses = parseScheduleData(mockScheduleResponse);
+  // CSCD 110 and CSCD 211 overlap and share an instructor
+  const [cscd110, cscd211, cscd300] = courses;
+
+  const moveTo = (startMinutes: number, endMinutes: number) =>
+    cscd211.meetings.map((m) => ({ ...m, startMinutes, endMinutes }));
+
+  const planA: DraftChanges = {
+    modifications: new Map([
+      [cscd211.id, { courseId: cscd211.id, changes: { meetings: moveTo(900, 950) }, modifiedAt: new Date() }],
+    ]),
+    cancelledIds: new Set(),
+    addedCourses: [],
+  };
+  const planB: DraftChanges = {
+    modifications: new Map(),
+    cancelledIds: new Set([cscd110.id]),
+    addedCourses: [],
+  };
+
+  it('counts changes and conflicts per scenario', () => {
+    const live = summarizeScenario(EMPTY_DRAFT_CHANGES, courses);
+    expect(live.changeCount).toBe(0);
+    expect(live.conflictCount).toBeGreaterThan(0);
+
+    expect(summarizeScenario(planA, courses)).toEqual({ changeCount: 1, conflictCount: live.conflictCount - 1 });
+    expect(summarizeScenario(planB, courses)).toEqual({ changeCount: 1, conflictCount: live.conflictCount - 1 });
+  });
+
+  it('diffs the sections touched by either scenario', () => {
+    const rows = diffScenarios(planA, planB, courses);
+
+    expect(rows.map((r) => r.courseCode)).toEqual(['CSCD 110-001', 'CSCD 211-001']);
+    expect(rows[0]).toMatchObject({ stateA: 'live', stateB: 'cancelled' });
+    expect(rows[0].fields).toEqual([{ field: 'status', a: 'Unchanged', b: 'Cancelled' }]);
+    expect(rows[1].fields.map((f) => f.field)).toEqual(['status', 'time']);
+
+    expect(diffScenarios(planA, planA, courses)).toEqual([]);
+  });
+
+  it('turns an optimizer permutation into draft changes', () => {
+    const original = courseToAssignment(cscd211)!;
+    const permutation: SchedulePermutation = {
+      assignments: [
+        { ...original, timeSlot: { ...original.timeSlot, startMinutes: 900, endMinutes: 950 }, room: 'CAT 223', instructor: 'Smith, John' },
+      ],
+      conflictCount: 0,
+      changeCount: 3,
+      changes: [
+        { crn: cscd211.crn, courseCode: 'CSCD 211', changeType: 'time', from: '', to: '' },
+        { crn: cscd211.crn, courseCode: 'CSCD 211', changeType: 'room', from: 'CAT 222', to: 'CAT 223' },
+        { crn: cscd211.crn, courseCode: 'CSCD 211', changeType: 'instructor', from: 'Doe, Jane', to: 'Smith, John' },
+      ],
+      similarityScore: 0.5,
+    };
+
+    const changes = permutationToChanges(permutation, courses);
+    const mod = changes.modifications.get(cscd211.id)!;
+
+    expect(changes.modifications.size).toBe(1);
+    expect(mod.changes.instructor).toEqual(cscd300.instructor);
+    expect(mod.changes.campus).toBeUndefined();
+    expect(mod.changes.meetings?.[0]).toMatchObject({
+      days: cscd211.meetings[0].days,
+      startMinutes: 900,
+      endMinutes: 950,
+      durationMinutes: 50,
+      building: 'CAT',
+      room: '223',
+      location: 'CAT 223',
+    });
+  });
+
+  it('assigns instructors outside the live term from their qualification record', () => {
+    const lee = {
+      ...cscd211.instructor!,
+      id: '900123',
+      displayName: 'Lee, Ann',
+      firstName: 'Ann',
+      lastName: 'Lee',
+      email: 'alee@ewu.edu',
+    };
+    const qualifications = buildQualificationIndex([{ ...cscd211, term: '202410', instructor: lee }]);
+    const original = courseToAssignment(cscd211)!;
+    const reassign = (instructor: string): SchedulePermutation => ({
+      assignments: [{ ...original, instructor }],
+      conflictCount: 0,
+      changeCount: 1,
+      changes: [{ crn: cscd211.crn, courseCode: 'CSCD 211', changeType: 'instructor', from: 'Doe, Jane', to: instructor }],
+      similarityScore: 0.9,
+    });
+
+    const changes = permutationToChanges(reassign('Lee, Ann'), courses, qualifications);
+    expect(changes.modifications.get(cscd211.id)!.changes.instructor).toEqual(lee);
+
+    const unknown = permutationToChanges(reassign('Nobody, Known'), courses, qualifications);
+    expect(unknown.modifications.get(cscd211.id)!.changes).not.toHaveProperty('instructor');
+  });
+
+  it('keeps scenario names unique within a term', () => {
+    const scenarios = [{ name: 'Plan A' }, { name: 'Plan A (2)' }];
+    expect(uniqueScenarioName('Plan B', scenarios)).toBe('Plan B');
+    expect(uniqueScenarioName(' Plan A ', scenarios)).toBe('Plan A (3)');
+    expect(uniqueScenarioName('', [])).toBe('Untitled scenario');
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * =============================================================================
+ * SERVICE: draftScenarios
+ * =============================================================================
+ *
+ * PURPOSE: Work with named What-If scenarios - sets of draft changes layered
+ * on the live schedule - so several plans for one term can be kept, scored
+ * and compared side by side.
+ *
+ * - applyDraftChanges: the draft schedule a scenario produces
+ * - summarizeScenario: change and conflict counts for a scenario
+ * - diffScenarios: per-section differences between two scenarios
+ * - permutationToChanges: an Optimizer permutation as draft changes
+ *
+ * Conflicts are counted the same way as the What-If editor: stacked copies
+ * and lab corequisites are hidden and faculty availability is checked.
+ * =============================================================================
+ */
+
+import type { Course, Instructor, Meeting } from '../types/schedule';
+import type { CourseModification, DraftChanges, DraftCourse, DraftCourseState, DraftScenario } from '../types/draft';
+import type { Conflict } from './conflictDetector';
+import type { FacultyProfileIndex } from './facultyAvailability';
+import type { SchedulePermutation } from './scheduleOptimizer';
+import type { QualificationIndex } from './instructorQualifications';
+import { minutesToDisplayTime } from '../constants/timeSlots';
+import { findQualification } from './instructorQualifications';
+import { analyzeSchedule } from './scheduleAnalysis';
+import { describeInstructor, describeMeetingPattern, describeRooms } from './termComparison';
+
+export interface ScenarioSummary {
+  changeCount: number;
+  conflictCount: number;
+}
+
+export type ScenarioDiffField = 'status' | 'instructor' | 'time' | 'room' | 'campus';
+
+export interface ScenarioFieldDiff {
+  field: ScenarioDiffField;
+  a: string;
+  b: string;
+}
+
+export interface ScenarioDiffRow {
+  courseId: string;
+  courseCode: string;
+  title: string;
+  crn: string;
+  /** Draft state of the section in each scenario; null when it does not exist there */
+  stateA: DraftCourseState | null;
+  stateB: DraftCourseState | null;
+  fields: ScenarioFieldDiff[];
+}
+
+export const EMPTY_DRAFT_CHANGES: DraftChanges = {
+  modifications: new Map(),
+  cancelledIds: new Set(),
+  addedCourses: [],
+};
+
+export function countDraftChanges(changes: DraftChanges): number {
+  return changes.modifications.size + changes.cancelledIds.size + changes.addedCourses.length;
+}
+
+/**
+ * The section as it looks with a modification applied
+ */
+export function applyModification(course: Course, changes: CourseModification['changes']): Course {
+  return {
+    ...course,
+    ...(changes.instructor !== undefined && { instructor: changes.instructor }),
+    ...(changes.meetings !== undefined && { meetings: changes.meetings }),
+    ...(changes.campus !== undefined && { campus: changes.campus }),
+  };
+}
+
+/**
+ * Apply draft changes to the live schedule. Cancelled sections are kept
+ * (marked 'cancelled') so the editor can still show and restore them.
+ */
+export function applyDraftChanges(liveCourses: Course[], changes: DraftChanges): DraftCourse[] {
+  const modifiedCourses: DraftCourse[] = liveCourses.map((course) => {
+    if (changes.cancelledIds.has(course.id)) {
+      return { ...course, _draftState: 'cancelled' as const };
+    }
+    const mod = changes.modifications.get(course.id);
+    if (mod) {
+      return { ...applyModification(course, mod.changes), _draftState: 'modified' as const };
+    }
+    return { ...course, _draftState: 'live' as const };
+  });
+
+  const added: DraftCourse[] = changes.addedCourses.map((c) => ({ ...c, _draftState: 'added' as const }));
+
+  return [...modifiedCourses, ...added];
+}
+
+/**
+ * Conflicts in a draft schedule, ignoring cancelled sections
+ */
+export function detectDraftConflicts(draftCourses: DraftCourse[], facultyProfiles?: FacultyProfileIndex): Conflict[] {
+  const activeCourses = draftCourses.filter((c) => c._draftState !== 'cancelled');
+  const analysis = analyzeSchedule(activeCourses, {
+    hideStackedVersions: true,
+    conflictOptions: { hideStackedCourses: true, hideLabCorequisites: true, facultyProfiles },
+  });
+  return analysis.conflicts;
+}
+
+export function summarizeScenario(
+  scenario: DraftChanges,
+  liveCourses: Course[],
+  facultyProfiles?: FacultyProfileIndex
+): ScenarioSummary {
+  return {
+    changeCount: countDraftChanges(scenario),
+    conflictCount: detectDraftConflicts(applyDraftChanges(liveCourses, scenario), facultyProfiles).length,
+  };
+}
+
+function touchedIds(changes: DraftChanges): string[] {
+  return [
+    ...changes.modifications.keys(),
+    ...changes.cancelledIds,
+    ...changes.addedCourses.map((c) => c.id),
+  ];
+}
+
+function describeState(state: DraftCourseState | null): string {
+  if (state === null) return 'Not in scenario';
+  return state === 'live' ? 'Unchanged' : state.charAt(0).toUpperCase() + state.slice(1);
+}
+
+/**
+ * Sections that end up different in two scenarios. Only sections touched by
+ * either scenario are compared; everything else is live in both.
+ */
+export function diffScenarios(a: DraftChanges, b: DraftChanges, liveCourses: Course[]): ScenarioDiffRow[] {
+  const ids = new Set([...touchedIds(a), ...touchedIds(b)]);
+  const liveById = new Map(liveCourses.map((course) => [course.id, course]));
+
+  const pick = (changes: DraftChanges, id: string): DraftCourse | null => {
+    const live = liveById.get(id);
+    if (live) return applyDraftChanges([live], changes)[0];
+    const added = changes.addedCourses.find((c) => c.id === id);
+    return added ? { ...added, _draftState: 'added' } : null;
+  };
+
+  const rows: ScenarioDiffRow[] = [];
+  for (const id of ids) {
+    const courseA = pick(a, id);
+    const courseB = pick(b, id);
+    const reference = (courseA ?? courseB)!;
+    const stateA = courseA?._draftState ?? null;
+    const stateB = courseB?._draftState ?? null;
+
+    const fields: ScenarioFieldDiff[] = [];
+    if (stateA !== stateB) {
+      fields.push({ field: 'status', a: describeState(stateA), b: describeState(stateB) });
+    }
+    if (courseA && courseB && stateA !== 'cancelled' && stateB !== 'cancelled') {
+      const candidates: Array<[ScenarioDiffField, string, string]> = [
+        ['instructor', describeInstructor(courseA), describeInstructor(courseB)],
+        ['time', describeMeetingPattern(courseA), describeMeetingPattern(courseB)],
+        ['room', describeRooms(courseA), describeRooms(courseB)],
+        ['campus', courseA.campus, courseB.campus],
+      ];
+      for (const [field, valueA, valueB] of candidates) {
+        if (valueA !== valueB) fields.push({ field, a: valueA, b: valueB });
+      }
+    }
+
+    if (fields.length > 0) {
+      rows.push({
+        courseId: id,
+        courseCode: `${reference.displayCode}-${reference.section}`,
+        title: reference.title,
+        crn: reference.crn,
+        stateA,
+        stateB,
+        fields,
+      });
+    }
+  }
+
+  return rows.sort((x, y) => x.courseCode.localeCompare(y.courseCode));
+}
+
+/**
+ * Scenario names are unique per term; "Plan A" becomes "Plan A (2)" etc.
+ */
+export function uniqueScenarioName(name: string, scenarios: Pick<DraftScenario, 'name'>[]): string {
+  const taken = new Set(scenarios.map((s) => s.name));
+  const base = name.trim() || 'Untitled scenario';
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
+
+// Banner's record for an instructor: from the live term, else from the
+// qualification index; undefined when neither knows them
+function findInstructor(
+  name: string,
+  courseCode: string,
+  courses: Course[],
+  qualifications?: QualificationIndex
+): Instructor | null | undefined {
+  if (name === 'TBA') return null;
+  const existing = courses.find((c) => c.instructor?.displayName === name)?.instructor;
+  if (existing) return existing;
+  return qualifications && findQualification(qualifications, courseCode, name)?.record;
+}
+
+function findRoom(location: string, courses: Course[]): Pick<Meeting, 'building' | 'room' | 'location'> {
+  for (const course of courses) {
+    const meeting = course.meetings.find((m) => m.location === location);
+    if (meeting) return { building: meeting.building, room: meeting.room, location };
+  }
+  const [building = null, ...rest] = location.split(' ');
+  return { building, room: rest.join(' ') || null, location };
+}
+
+/**
+ * Translate an Optimizer permutation into draft changes against the live
+ * schedule. The optimizer only moves each section's first meeting, so any
+ * further meetings are carried over unchanged.
+ *
+ * @param qualifications - Records for proposed instructors who don't teach
+ *   in the live term; an instructor no record is found for is left unchanged
+ */
+export function permutationToChanges(
+  permutation: SchedulePermutation,
+  liveCourses: Course[],
+  qualifications?: QualificationIndex
+): DraftChanges {
+  const byCrn = new Map(liveCourses.map((course) => [course.crn, course]));
+  const assignments = new Map(permutation.assignments.map((a) => [a.crn, a]));
+  const modifications = new Map<string, CourseModification>();
+
+  for (const crn of new Set(permutation.changes.map((c) => c.crn))) {
+    const course = byCrn.get(crn);
+    const assignment = assignments.get(crn);
+    if (!course || !assignment) continue;
+
+    const types = new Set(permutation.changes.filter((c) => c.crn === crn).map((c) => c.changeType));
+    const changes: CourseModification['changes'] = {};
+
+    if (types.has('instructor')) {
+      const instructor = findInstructor(assignment.instructor, course.displayCode, liveCourses, qualifications);
+      if (instructor !== undefined) changes.instructor = instructor;
+    }
+    if ((types.has('time') || types.has('room')) && course.meetings[0]) {
+      const { days, startMinutes, endMinutes } = assignment.timeSlot;
+      const [first, ...others] = course.meetings;
+      changes.meetings = [
+        {
+          ...first,
+          ...(types.has('room') && findRoom(assignment.room, liveCourses)),
+          days,
+          startMinutes,
+          endMinutes,
+          startTime: minutesToDisplayTime(startMinutes),
+          endTime: minutesToDisplayTime(endMinutes),
+          durationMinutes: endMinutes - startMinutes,
+        },
+        ...others,
+      ];
+    }
+    if (types.has('campus')) {
+      changes.campus = assignment.campus as Course['campus'];
+    }
+
+    modifications.set(course.id, { courseId: course.id, changes, modifiedAt: new Date() });
+  }
+
+  return { modifications, cancelledIds: new Set(), addedCourses: [] };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFacultyProfileIndex,
+  countPreps,
+  findPreferenceIssues,
+  findWindowViolations,
+  getProfileForInstructor,
+} from './facultyAvailability';
+import { detectAllConflicts, getAvailabilityConflicts } from './conflictDetector';
+import { parseScheduleData } from './scheduleParser';
+import { mockBannerCourse } from '../test/mocks/scheduleData';
+import type { FacultyProfile } from '../types/faculty';
+
+describe('facultyAvailability', () => {
+  // Doe, Jane (jdoe@ewu.edu) teaches CSCD 110 MTWRF 8:00-8:50 in Cheney
+  const courses = parseScheduleData({ success: true, totalCount: 1, data: [mockBannerCourse] });
+
+  const profile: FacultyProfile = {
+    email: 'JDoe@ewu.edu',
+    displayName: 'Doe, Jane',
+    unavailable: [
+      { id: 'w1', days: ['tuesday'], startMinutes: 480, endMinutes: 600, reason: 'Committee', hard: true },
+      { id: 'w2', days: ['friday'], startMinutes: 420, endMinutes: 540, reason: 'Research', hard: false },
+      {
+        id: 'w3', days: ['monday'], startMinutes: 420, endMinutes: 720, reason: 'Spokane day',
+        hard: true, allowedCampus: 'Spokane U-District',
+      },
+    ],
+    preferredDays: ['tuesday', 'thursday'],
+    campusPreference: 'Spokane U-District',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const index = buildFacultyProfileIndex([profile]);
+
+  it('looks profiles up by case-insensitive email', () => {
+    expect(getProfileForInstructor(index, courses[0].instructor)).toBe(profile);
+  });
+
+  it('finds overlapping windows and honors campus-only windows', () => {
+    const atCheney = findWindowViolations(profile, ['monday', 'tuesday'], 480, 530, 'Cheney');
+    expect(atCheney.map((v) => [v.window.id, v.day])).toEqual([
+      ['w1', 'tuesday'],
+      ['w3', 'monday'],
+    ]);
+    expect(atCheney[0].overlapStart).toBe(480);
+    expect(atCheney[0].overlapEnd).toBe(530);
+
+    const atSpokane = findWindowViolations(profile, ['monday'], 480, 530, 'Spokane U-District');
+    expect(atSpokane).toEqual([]);
+  });
+
+  it('reports preferred-day and campus preference issues', () => {
+    expect(findPreferenceIssues(profile, ['monday', 'tuesday'], 'Cheney')).toEqual([
+      'Doe, Jane prefers not to teach on Mon',
+      'Doe, Jane prefers Spokane U-District',
+    ]);
+    expect(findPreferenceIssues(profile, ['thursday'], 'Online')).toEqual([]);
+  });
+
+  it('counts stacked pairs and repeated sections as one prep', () => {
+    const [course] = courses;
+    const stacked = { ...course, id: 'x', crn: 'x', courseNumber: '510', displayCode: 'CSCD 510' };
+    const undergrad = { ...course, id: 'y', crn: 'y', courseNumber: '410', displayCode: 'CSCD 410' };
+    const second = { ...course, id: 'z', crn: 'z', section: '02' };
+
+    expect(countPreps([course, second, undergrad, stacked])).toBe(2);
+  });
+
+  it('adds availability conflicts to detectAllConflicts when profiles are supplied', () => {
+    expect(getAvailabilityConflicts(detectAllConflicts(courses))).toEqual([]);
+
+    const conflicts = getAvailabilityConflicts(
+      detectAllConflicts(courses, { hideStackedCourses: true, facultyProfiles: index })
+    );
+
+    expect(conflicts.map((c) => [c.day, c.severity])).toEqual([
+      ['tuesday', 'error'],
+      ['friday', 'warning'],
+      ['monday', 'error'],
+    ]);
+    expect(conflicts[0].description).toContain('Doe, Jane is unavailable');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * =============================================================================
+ * SERVICE: facultyAvailability
+ * =============================================================================
+ *
+ * PURPOSE: Check scheduled sections against faculty profiles - blackout
+ * windows, preferred teaching days, campus preference and max preps.
+ *
+ * RULES:
+ * - Hard unavailable windows are blackouts: a section inside one is a
+ *   conflict, and the optimizer never places an instructor there
+ * - Soft windows, preferred days, campus preference and max preps are
+ *   preferences: reported as warnings and used by the optimizer to rank
+ *   otherwise-equal solutions
+ * - A window with `allowedCampus` only applies to sections at other campuses
+ *
+ * =============================================================================
+ */
+
+import type { CampusType, Course, DayOfWeek, Instructor } from '../types/schedule';
+import type { FacultyProfile, UnavailableWindow } from '../types/faculty';
+import { formatDays, formatTimeRange } from '../constants/timeSlots';
+import { isStackedPair } from './stackedCourseDetector';
+
+/**
+ * Faculty profiles keyed by lower-cased email
+ */
+export type FacultyProfileIndex = Map<string, FacultyProfile>;
+
+/**
+ * A meeting that falls inside an unavailable window
+ */
+export interface WindowViolation {
+  window: UnavailableWindow;
+  day: DayOfWeek;
+  overlapStart: number;
+  overlapEnd: number;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function buildFacultyProfileIndex(profiles: FacultyProfile[]): FacultyProfileIndex {
+  return new Map(profiles.map((profile) => [normalizeEmail(profile.email), profile]));
+}
+
+/**
+ * Find the profile for a course's instructor, if one has been recorded
+ */
+export function getProfileForInstructor(
+  index: FacultyProfileIndex,
+  instructor: Instructor | null | undefined
+): FacultyProfile | undefined {
+  if (!instructor?.email) return undefined;
+  return index.get(normalizeEmail(instructor.email));
+}
+
+/**
+ * Windows of the profile that a meeting at the given days/time/campus falls into
+ */
+export function findWindowViolations(
+  profile: FacultyProfile,
+  days: DayOfWeek[],
+  startMinutes: number,
+  endMinutes: number,
+  campus: CampusType
+): WindowViolation[] {
+  const violations: WindowViolation[] = [];
+
+  for (const window of profile.unavailable) {
+    if (window.allowedCampus && window.allowedCampus === campus) continue;
+
+    const overlapStart = Math.max(startMinutes, window.startMinutes);
+    const overlapEnd = Math.min(endMinutes, window.endMinutes);
+    if (overlapStart >= overlapEnd) continue;
+
+    for (const day of days) {
+      if (window.days.includes(day)) {
+        violations.push({ window, day, overlapStart, overlapEnd });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Preference issues (not blackouts) for an instructor teaching at the given
+ * days and campus, as human-readable strings
+ */
+export function findPreferenceIssues(
+  profile: FacultyProfile,
+  days: DayOfWeek[],
+  campus: CampusType
+): string[] {
+  const issues: string[] = [];
+
+  if (profile.preferredDays.length > 0) {
+    const outside = days.filter((day) => !profile.preferredDays.includes(day));
+    if (outside.length > 0) {
+      issues.push(`${profile.displayName} prefers not to teach on ${formatDays(outside)}`);
+    }
+  }
+
+  if (profile.campusPreference && campus !== 'Online' && campus !== profile.campusPreference) {
+    issues.push(`${profile.displayName} prefers ${profile.campusPreference}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Distinct preps in a set of sections; a stacked 400/500 pair is one prep
+ */
+export function countPreps(courses: Course[]): number {
+  const preps: Course[] = [];
+  for (const course of courses) {
+    const samePrep = preps.some((prep) =>
+      prep.displayCode === course.displayCode || isStackedPair(prep, course)
+    );
+    if (!samePrep) preps.push(course);
+  }
+  return preps.length;
+}
+
+/**
+ * Describe a window for display, e.g. "Tue, Thu 9:00 AM - 12:00 PM (Committee)"
+ */
+export function describeWindow(window: UnavailableWindow): string {
+  const when = `${formatDays(window.days)} ${formatTimeRange(window.startMinutes, window.endMinutes)}`;
+  const details = [window.reason, window.allowedCampus && `${window.allowedCampus} only`]
+    .filter(Boolean)
+    .join(', ');
+  return details ? `${when} (${details})` : when;
+}
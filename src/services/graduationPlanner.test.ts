@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { generateGraduationPlan, getInProgressCourses, meetsMinimumGrade } from './graduationPlanner';
+import type { StudentPersona } from '../types/advising';
+import type { CatalogIndexFile } from '../types/catalog';
+import { catalogIndex, listing, program, requirement, taken } from '../test/mocks/advisingData';
+
+const persona: StudentPersona = {
+  id: 'p1',
+  nickname: 'Student 1',
+  icon: '💻',
+  primaryMajor: 'test-bs',
+  minors: [],
+  startTerm: '202540',
+  expectedGraduation: '202820',
+  completedCourses: [],
+  currentCourses: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+const START = '202640';
+
+describe('graduationPlanner', () => {
+  it('checks grades against the minimum, accepting transfer and pass', () => {
+    expect(meetsMinimumGrade('C', 'C')).toBe(true);
+    expect(meetsMinimumGrade('C-', 'C')).toBe(false);
+    expect(meetsMinimumGrade('TR', 'B')).toBe(true);
+    expect(meetsMinimumGrade('W', 'D')).toBe(false);
+    expect(meetsMinimumGrade(null, 'D')).toBe(false);
+  });
+
+  it('follows prerequisites and the quarters a course is offered, skipping summer', () => {
+    const plan = generateGraduationPlan(
+      persona,
+      program([
+        requirement('CSCD 210'),
+        requirement('CSCD 211', ['CSCD 210'], { typicalQuarters: ['winter'] }),
+        requirement('CSCD 300', ['CSCD 211'], { typicalQuarters: ['fall'] }),
+        requirement('MATH 161'),
+      ]),
+      { startTerm: START }
+    );
+
+    expect(plan.quarterPlans.map((q) => [q.term, q.courses.map((c) => c.requirement.courseCode)])).toEqual([
+      ['202640', ['CSCD 210', 'MATH 161']],
+      ['202710', ['CSCD 211']],
+      ['202720', []],
+      ['202740', ['CSCD 300']],
+    ]);
+    expect(plan.quarterPlans[2].warnings).toContain('No remaining requirement can be taken this quarter');
+    expect(plan.summary.estimatedGraduation).toBe('202740');
+    expect(plan.summary.bottleneckCourses).toEqual(['CSCD 210', 'CSCD 211', 'CSCD 300']);
+    expect(plan.summary.onTrack).toBe(true);
+    expect(plan.blockers).toEqual([]);
+  });
+
+  it('caps each quarter at the persona credit limit and keeps corequisites together', () => {
+    const courses = [
+      requirement('CSCD 210'),
+      requirement('CSCD 240'),
+      requirement('CSCD 260', [], { corequisites: ['CSCD 260L'] }),
+      requirement('CSCD 260L', [], { credits: 1 }),
+    ];
+    const plan = generateGraduationPlan({ ...persona, maxCreditsPerQuarter: 11 }, program(courses), { startTerm: START });
+
+    expect(plan.quarterPlans.map((q) => q.courses.map((c) => c.requirement.courseCode))).toEqual([
+      ['CSCD 210', 'CSCD 240'],
+      ['CSCD 260', 'CSCD 260L'],
+    ]);
+    expect(plan.quarterPlans.every((q) => q.totalCredits <= 11)).toBe(true);
+
+    const heavy = generateGraduationPlan({ ...persona, maxCreditsPerQuarter: 25 }, program(courses), { startTerm: START });
+    expect(heavy.quarterPlans).toHaveLength(1);
+    expect(heavy.quarterPlans[0].totalCredits).toBe(16);
+
+    const overload = generateGraduationPlan(
+      { ...persona, maxCreditsPerQuarter: 25 },
+      program([...courses, requirement('MATH 161')]),
+      { startTerm: START }
+    );
+    expect(overload.quarterPlans[0].totalCredits).toBe(21);
+    expect(overload.quarterPlans[0].warnings[0]).toContain('advisor approval');
+  });
+
+  it('plans a retake when the minimum grade was missed and holds dependents until then', () => {
+    const plan = generateGraduationPlan(
+      {
+        ...persona,
+        completedCourses: [
+          taken('CSCD 210', 'C-', { term: '202610' }),
+          taken('MATH 161', 'A', { term: '202610' }),
+        ],
+        currentCourses: ['MATH 162'],
+      },
+      program([requirement('CSCD 210'), requirement('CSCD 211', ['CSCD 210']), requirement('MATH 161'), requirement('MATH 162', ['MATH 161'])]),
+      { startTerm: START }
+    );
+
+    expect(plan.quarterPlans.map((q) => q.courses.map((c) => c.requirement.courseCode))).toEqual([['CSCD 210'], ['CSCD 211']]);
+    expect(plan.summary.creditsCompleted).toBe(10);
+    expect(plan.summary.currentGPA).toBe(2.85);
+  });
+
+  it('fills elective groups with the shallowest options', () => {
+    const plan = generateGraduationPlan(
+      persona,
+      program([requirement('CSCD 300')], {
+        electiveGroups: [
+          {
+            id: 'electives',
+            name: 'Electives',
+            description: '',
+            requiredCount: 1,
+            requiredCredits: 5,
+            courses: [requirement('CSCD 427', ['CSCD 300']), requirement('CSCD 434')],
+          },
+        ],
+      }),
+      { startTerm: START }
+    );
+
+    expect(plan.quarterPlans.flatMap((q) => q.courses.map((c) => c.requirement.courseCode))).toEqual(['CSCD 300', 'CSCD 434']);
+  });
+
+  it('reports courses that can never be placed as blockers', () => {
+    const plan = generateGraduationPlan(persona, program([requirement('CYBR 498', [], { typicalQuarters: ['summer'] })]), {
+      startTerm: START,
+      maxQuarters: 4,
+    });
+
+    expect(plan.quarterPlans).toEqual([]);
+    expect(plan.blockers).toEqual(['CYBR 498 could not be placed within 4 quarters (offered summer)']);
+    expect(plan.summary.onTrack).toBe(false);
+  });
+
+  it('follows catalog prerequisite trees: alternatives, concurrency and grades', () => {
+    const courses = program([requirement('CSCD 300'), requirement('MATH 161')]);
+    const codesByQuarter = (index: CatalogIndexFile, completed = persona.completedCourses) =>
+      generateGraduationPlan({ ...persona, completedCourses: completed }, courses, { startTerm: START, catalog: index })
+        .quarterPlans.map((q) => q.courses.map((c) => c.requirement.courseCode).sort());
+
+    expect(codesByQuarter(catalogIndex([listing('CSCD 300', 'MATH 161 or MATH 142.')]))).toEqual([['MATH 161'], ['CSCD 300']]);
+    expect(codesByQuarter(catalogIndex([listing('CSCD 300', 'MATH 142 or MATH 161 (may be taken concurrently).')]))).toEqual([
+      ['CSCD 300', 'MATH 161'],
+    ]);
+    expect(
+      codesByQuarter(catalogIndex([listing('CSCD 300', 'MATH 161 or MATH 142.')]), [
+        taken('MATH 142', 'B', { term: '202610' }),
+      ])
+    ).toEqual([['CSCD 300', 'MATH 161']]);
+
+    const lowGrade = generateGraduationPlan(
+      { ...persona, completedCourses: [taken('CSCD 211', 'C', { term: '202610' })] },
+      program([requirement('CSCD 211'), requirement('CSCD 300', ['CSCD 211'])]),
+      { startTerm: START, catalog: catalogIndex([listing('CSCD 300', 'CSCD 211 ≥ B.')]) }
+    );
+    expect(lowGrade.blockers).toEqual(['CSCD 300 requires CSCD 211 ≥ B, which is not in the plan and not yet completed']);
+    expect(lowGrade.quarterPlans[0].courses.map((c) => c.requirement.courseCode)).toEqual(['CSCD 300']);
+  });
+  it("doesn't let a condition alternative stand in for courses still to take", () => {
+    const courses = program([
+      requirement('CSCD 377', [], { typicalQuarters: ['spring'] }),
+      requirement('CSCD 377L', [], { typicalQuarters: ['spring'] }),
+      requirement('CSCD 470'),
+    ]);
+    const plan = generateGraduationPlan(persona, courses, {
+      startTerm: START,
+      catalog: catalogIndex([listing('CSCD 470', 'CSCD 377 & 377L ≥ C+ or equivalent')]),
+    });
+    const termOf = (code: string) =>
+      plan.quarterPlans.find((q) => q.courses.some((c) => c.requirement.courseCode === code))?.term;
+
+    expect(termOf('CSCD 377')).toBe('202720');
+    expect(termOf('CSCD 470')).toBe('202740');
+    expect(plan.blockers).toEqual([]);
+
+    const byPermission = generateGraduationPlan(persona, program([requirement('CSCD 470')]), {
+      startTerm: START,
+      catalog: catalogIndex([listing('CSCD 470', 'Permission of the instructor.')]),
+    });
+    expect(byPermission.quarterPlans[0].warnings).toContain(
+      'CSCD 470 also requires Permission of the instructor; confirm with an advisor'
+    );
+  });
+
+  it('counts ungraded and IP attempts as in progress', () => {
+    const taking = {
+      ...persona,
+      completedCourses: [
+        taken('CSCD 210', null, { term: '202620' }),
+        taken('CSCD 211', 'IP', { term: '202620' }),
+        taken('MATH 161', 'B'),
+      ],
+      currentCourses: ['CSCD 240'],
+    };
+    expect(Array.from(getInProgressCourses(taking))).toEqual(['CSCD 240', 'CSCD 210', 'CSCD 211']);
+
+    const plan = generateGraduationPlan(taking, program([requirement('CSCD 210'), requirement('CSCD 300', ['CSCD 210'])]), {
+      startTerm: START,
+    });
+    expect(plan.quarterPlans.map((q) => q.courses.map((c) => c.requirement.courseCode))).toEqual([['CSCD 300']]);
+  });
+});
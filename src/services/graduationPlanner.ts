@@ -0,0 +1,421 @@
+/**
+ * =============================================================================
+ * SERVICE: graduationPlanner
+ * =============================================================================
+ *
+ * PURPOSE: Lay out a persona's remaining degree requirements quarter by
+ * quarter, the way an advisor does on paper, and report what could delay
+ * graduation.
+ *
+ * RULES:
+ * - A requirement is done when it was passed at or above its minimumGrade
+ *   (TR and P always count). In-progress courses (getInProgressCourses)
+ *   count as done by the time the plan starts.
+ * - Elective groups are filled with the shallowest options (fewest
+ *   prerequisites ahead of them) until requiredCount and requiredCredits are
+ *   both met
+ * - A course is placed only in a quarter listed in its typicalQuarters, and
+ *   only once its prerequisites are met by courses done or placed in an
+ *   earlier quarter. When offering patterns are passed in, the quarters the
+ *   course has actually run in replace the catalog's typicalQuarters.
+ * - Prerequisites are the catalog listing's tree when the catalog index is
+ *   passed in (alternatives, per-course grades, concurrent enrollment),
+ *   otherwise the program's list, each at its own minimumGrade (C when the
+ *   program doesn't list it). A course allowed concurrently may share the
+ *   quarter. Permission and other conditions are left to the advisor and
+ *   never stand in for a course alternative still in reach; a course that
+ *   only they can open is flagged in the quarter it lands in.
+ * - Prerequisites nothing in the plan can satisfy are reported as blockers
+ *   and then set aside, so the rest of the plan can still be laid out
+ * - Corequisites are placed together in the same quarter
+ * - Each quarter is capped at the persona's maxCreditsPerQuarter (default
+ *   CREDIT_LIMITS.standard), never above CREDIT_LIMITS.overload. Loads above
+ *   CREDIT_LIMITS.maximum are flagged as needing advisor approval.
+ * - Summer is skipped unless requested
+ *
+ * ORDER: within a quarter, courses with the longest chain of dependents
+ * after them go first, so nothing on the critical path waits.
+ * =============================================================================
+ */
+
+import type {
+  AcademicTerm,
+  CompletedCourse,
+  CourseRequirement,
+  DegreeProgram,
+  GraduationPlan,
+  LetterGrade,
+  QuarterPlan,
+  StudentCourseStatus,
+  StudentPersona,
+  StudentScheduleConflict,
+} from '../types/advising';
+import { GRADE_POINTS } from '../types/advising';
+import type { CatalogIndexFile, PrerequisiteExpression } from '../types/catalog';
+import { CREDIT_LIMITS, formatTerm, getCurrentTerm, getNextTerm, isTermAfter, parseTerm } from '../constants/academicTerms';
+import { findCatalogListing } from './catalogListings';
+import { findCourseInProgram } from './catalogParser';
+import { buildPrerequisiteGraph, getCriticalPathCourses } from './prerequisiteGraph';
+import {
+  DEFAULT_MINIMUM_GRADE,
+  PASSING_GRADE,
+  describePrerequisites,
+  evaluatePrerequisites,
+  getCoursePrerequisites,
+  type PrerequisiteCourse,
+} from './prerequisiteParser';
+import { applyOfferingPatterns, type OfferingPatternIndex } from './offeringPatterns';
+
+// Quarters to look ahead before giving up on unplaceable courses
+const DEFAULT_MAX_QUARTERS = 24;
+
+export interface GraduationPlanOptions {
+  /** First term to plan (default: the term after the current one) */
+  startTerm?: AcademicTerm;
+  includeSummer?: boolean;
+  maxQuarters?: number;
+  /** Inferred offering patterns to plan with instead of the catalog's quarters */
+  offeringPatterns?: OfferingPatternIndex | null;
+  /** Catalog index whose prerequisite trees take precedence over the program's lists */
+  catalog?: CatalogIndexFile | null;
+  /** For generatedAt (tests) */
+  now?: Date;
+}
+
+/**
+ * Whether a grade satisfies a requirement's minimum grade
+ */
+export function meetsMinimumGrade(grade: LetterGrade | null, minimumGrade: LetterGrade): boolean {
+  if (grade === null) return false;
+  if (grade === 'TR' || grade === 'P') return true;
+  const points = GRADE_POINTS[grade];
+  const required = GRADE_POINTS[minimumGrade];
+  if (points === null) return false;
+  return required === null ? points > 0 : points >= required;
+}
+
+/**
+ * Whether an attempt is still under way: graded IP, or not graded yet
+ */
+export function isInProgress(attempt: CompletedCourse): boolean {
+  return attempt.grade === null || attempt.grade === 'IP';
+}
+
+/**
+ * Courses a persona is taking: their current courses and attempts still in progress
+ */
+export function getInProgressCourses(persona: Pick<StudentPersona, 'completedCourses' | 'currentCourses'>): Set<string> {
+  return new Set([
+    ...persona.currentCourses,
+    ...persona.completedCourses.filter(isInProgress).map((c) => c.courseCode),
+  ]);
+}
+
+/**
+ * GPA over letter-graded attempts (null when there are none)
+ */
+export function calculateGPA(courses: CompletedCourse[]): number | null {
+  let points = 0;
+  let credits = 0;
+  for (const course of courses) {
+    if (course.isTransfer || course.grade === null) continue;
+    const value = GRADE_POINTS[course.grade];
+    if (value === null) continue;
+    points += value * course.credits;
+    credits += course.credits;
+  }
+  return credits > 0 ? Math.round((points / credits) * 100) / 100 : null;
+}
+
+function creditCap(persona: StudentPersona): number {
+  const preferred = persona.maxCreditsPerQuarter ?? CREDIT_LIMITS.standard;
+  return Math.min(Math.max(preferred, 1), CREDIT_LIMITS.overload);
+}
+
+/**
+ * Elective options to take, shallowest first, until the group is satisfied
+ */
+function chooseElectives(
+  program: DegreeProgram,
+  isDone: (requirement: CourseRequirement) => boolean,
+  depthOf: (courseCode: string) => number
+): { chosen: CourseRequirement[]; shortfalls: string[] } {
+  const chosen: CourseRequirement[] = [];
+  const shortfalls: string[] = [];
+
+  for (const group of program.electiveGroups) {
+    const done = group.courses.filter(isDone);
+    let count = done.length;
+    let credits = done.reduce((sum, c) => sum + c.credits, 0);
+    const options = group.courses
+      .filter((c) => !isDone(c))
+      .sort((a, b) => depthOf(a.courseCode) - depthOf(b.courseCode) || a.courseCode.localeCompare(b.courseCode));
+
+    for (const option of options) {
+      if (count >= group.requiredCount && credits >= group.requiredCredits) break;
+      chosen.push(option);
+      count += 1;
+      credits += option.credits;
+    }
+    if (count < group.requiredCount || credits < group.requiredCredits) {
+      shortfalls.push(`${group.name}: not enough options to reach ${group.requiredCount} courses / ${group.requiredCredits} credits`);
+    }
+  }
+  return { chosen, shortfalls };
+}
+
+/**
+ * What's left of a tree after setting aside what the plan can't wait for:
+ * courses it can never satisfy, and conditions only an advisor can sign off
+ * on (null when nothing is left). An "or" keeps the course alternatives
+ * still reachable, and is dropped only when none is.
+ */
+function prunePrerequisites(
+  expression: PrerequisiteExpression,
+  reachable: (node: PrerequisiteCourse) => boolean
+): PrerequisiteExpression | null {
+  switch (expression.type) {
+    case 'course':
+      return reachable(expression) ? expression : null;
+    case 'and': {
+      const operands = expression.operands
+        .map((o) => prunePrerequisites(o, reachable))
+        .filter((o): o is PrerequisiteExpression => o !== null);
+      return operands.length > 0 ? { type: 'and', operands } : null;
+    }
+    case 'or': {
+      const operands = expression.operands
+        .filter((o) => evaluatePrerequisites(o, reachable) !== 'unmet')
+        .map((o) => prunePrerequisites(o, reachable))
+        .filter((o): o is PrerequisiteExpression => o !== null);
+      if (operands.length === 0) return null;
+      return operands.length === 1 ? operands[0] : { type: 'or', operands };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a quarter-by-quarter plan for the rest of the persona's degree
+ */
+export function generateGraduationPlan(
+  persona: StudentPersona,
+  catalogProgram: DegreeProgram,
+  options: GraduationPlanOptions = {}
+): GraduationPlan {
+  const {
+    includeSummer = false,
+    maxQuarters = DEFAULT_MAX_QUARTERS,
+    offeringPatterns,
+    catalog = null,
+    now = new Date(),
+  } = options;
+  const program = offeringPatterns ? applyOfferingPatterns(catalogProgram, offeringPatterns) : catalogProgram;
+  const graph = buildPrerequisiteGraph(program, catalog);
+  const depthOf = (code: string) => graph.nodes.get(code)?.depth ?? 0;
+  const pathLengthOf = (code: string) => graph.nodes.get(code)?.criticalPathLength ?? 0;
+
+  // Every attempt per course, so retakes are seen
+  const attempts = new Map<string, CompletedCourse[]>();
+  for (const course of persona.completedCourses) {
+    attempts.set(course.courseCode, [...(attempts.get(course.courseCode) ?? []), course]);
+  }
+  const inProgress = getInProgressCourses(persona);
+  const isDone = (requirement: CourseRequirement) =>
+    inProgress.has(requirement.courseCode) ||
+    (attempts.get(requirement.courseCode) ?? []).some((a) => meetsMinimumGrade(a.grade, requirement.minimumGrade));
+
+  const { chosen: electives, shortfalls } = chooseElectives(program, isDone, depthOf);
+  const required = [...program.coreCourses, ...program.supportCourses, ...electives];
+  const remaining = new Map<string, CourseRequirement>();
+  for (const requirement of required) {
+    if (!isDone(requirement) && !remaining.has(requirement.courseCode)) remaining.set(requirement.courseCode, requirement);
+  }
+
+  // In progress, or placed in an earlier quarter
+  const plannedCodes = new Set<string>(inProgress);
+  const passed = (node: PrerequisiteCourse) =>
+    (attempts.get(node.courseCode) ?? []).some((a) => meetsMinimumGrade(a.grade, node.minimumGrade ?? PASSING_GRADE));
+  const metBy = (sameQuarter: ReadonlySet<string>) => (node: PrerequisiteCourse) =>
+    plannedCodes.has(node.courseCode) || passed(node) || (node.concurrent && sameQuarter.has(node.courseCode));
+  const blockers = [...shortfalls];
+
+  // Prerequisites nothing in the plan satisfies are reported, then set aside
+  // so the rest of the plan can still be laid out
+  const gradeOf = (code: string) => findCourseInProgram(program, code)?.minimumGrade ?? DEFAULT_MINIMUM_GRADE;
+  const reachable = (node: PrerequisiteCourse) => metBy(new Set())(node) || remaining.has(node.courseCode);
+  const prerequisites = new Map<string, PrerequisiteExpression | null>();
+  // Clauses only a permission or other condition can satisfy
+  const needsReview = new Map<string, string[]>();
+  for (const requirement of remaining.values()) {
+    const code = requirement.courseCode;
+    const listing = catalog ? findCatalogListing(catalog, code) : null;
+    const { expression } = getCoursePrerequisites(listing, requirement, gradeOf);
+    const clauses = !expression ? [] : expression.type === 'and' ? expression.operands : [expression];
+    for (const clause of clauses.filter((c) => evaluatePrerequisites(c, reachable) === 'unmet')) {
+      blockers.push(`${code} requires ${describePrerequisites(clause)}, which is not in the plan and not yet completed`);
+    }
+    const review = clauses.filter(
+      (c) => evaluatePrerequisites(c, reachable) === 'review' && prunePrerequisites(c, reachable) === null
+    );
+    if (review.length > 0) needsReview.set(code, review.map(describePrerequisites));
+    prerequisites.set(code, expression && prunePrerequisites(expression, reachable));
+  }
+  const ready = (r: CourseRequirement, sameQuarter: ReadonlySet<string> = new Set()) => {
+    const expression = prerequisites.get(r.courseCode);
+    return !expression || evaluatePrerequisites(expression, metBy(sameQuarter)) === 'met';
+  };
+
+  const cap = creditCap(persona);
+  const quarterPlans: QuarterPlan[] = [];
+  const earliest = new Map<string, AcademicTerm>();
+  let term = options.startTerm ?? getNextTerm(getCurrentTerm());
+  let planned = 0;
+
+  while (remaining.size > 0 && planned < maxQuarters) {
+    const quarter = parseTerm(term).quarter;
+    if (quarter === 'summer' && !includeSummer) {
+      term = getNextTerm(term);
+      continue;
+    }
+    planned += 1;
+
+    for (const r of remaining.values()) {
+      if (ready(r) && !earliest.has(r.courseCode)) earliest.set(r.courseCode, term);
+    }
+    const offered = (r: CourseRequirement) => r.typicalQuarters.length === 0 || r.typicalQuarters.includes(quarter);
+
+    // Courses allowed concurrently can become ready as others are placed
+    const candidates = Array.from(remaining.values())
+      .filter(offered)
+      .sort(
+        (a, b) =>
+          pathLengthOf(b.courseCode) - pathLengthOf(a.courseCode) ||
+          depthOf(a.courseCode) - depthOf(b.courseCode) ||
+          a.courseCode.localeCompare(b.courseCode)
+      );
+
+    const placed: CourseRequirement[] = [];
+    const placedCodes = new Set<string>();
+    const conflicts: StudentScheduleConflict[] = [];
+    let credits = 0;
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const candidate of candidates) {
+        if (placedCodes.has(candidate.courseCode) || !ready(candidate, placedCodes)) continue;
+        // Corequisites still to take come along in the same quarter, whichever
+        // side of the pair lists the other
+        const coreqs = Array.from(remaining.values()).filter(
+          (r) =>
+            r !== candidate &&
+            !placedCodes.has(r.courseCode) &&
+            (candidate.corequisites.includes(r.courseCode) || r.corequisites.includes(candidate.courseCode))
+        );
+        const bundle = [candidate, ...coreqs];
+        const withBundle = new Set([...placedCodes, ...bundle.map((r) => r.courseCode)]);
+        if (!coreqs.every((r) => ready(r, withBundle) && offered(r))) {
+          if (!conflicts.some((c) => c.courses.includes(candidate.courseCode))) {
+            conflicts.push({
+              id: `coreq-${term}-${candidate.courseCode}`,
+              type: 'corequisite',
+              severity: 'warning',
+              courses: bundle.map((r) => r.courseCode),
+              description: `${candidate.courseCode} must be taken with ${coreqs.map((r) => r.courseCode).join(', ')}, which can't be taken in ${formatTerm(term)}`,
+            });
+          }
+          continue;
+        }
+        const bundleCredits = bundle.reduce((sum, r) => sum + r.credits, 0);
+        if (credits + bundleCredits > cap) continue;
+        const stale = conflicts.findIndex((c) => c.id === `coreq-${term}-${candidate.courseCode}`);
+        if (stale !== -1) conflicts.splice(stale, 1);
+        placed.push(...bundle);
+        bundle.forEach((r) => placedCodes.add(r.courseCode));
+        credits += bundleCredits;
+        progress = true;
+      }
+    }
+
+    const warnings: string[] = [];
+    if (credits > CREDIT_LIMITS.maximum) {
+      warnings.push(`${credits} credits is above ${CREDIT_LIMITS.maximum} and needs advisor approval`);
+    }
+    if (placed.length > 0 && credits < CREDIT_LIMITS.minimum && remaining.size > placed.length) {
+      warnings.push(`Below full-time (${CREDIT_LIMITS.minimum} credits); fill with general education or electives`);
+    }
+    if (placed.length === 0) {
+      warnings.push('No remaining requirement can be taken this quarter');
+    }
+    for (const requirement of placed) {
+      const review = needsReview.get(requirement.courseCode);
+      if (review) warnings.push(`${requirement.courseCode} also requires ${review.join(', ')}; confirm with an advisor`);
+    }
+
+    const courses: StudentCourseStatus[] = placed.map((requirement) => ({
+      requirement,
+      status: 'scheduled',
+      term,
+      earliestAvailable: earliest.get(requirement.courseCode),
+    }));
+    quarterPlans.push({ term, termLabel: formatTerm(term), courses, totalCredits: credits, conflicts, warnings });
+
+    for (const requirement of placed) {
+      remaining.delete(requirement.courseCode);
+      plannedCodes.add(requirement.courseCode);
+    }
+    term = getNextTerm(term);
+  }
+
+  for (const requirement of remaining.values()) {
+    const expression = prerequisites.get(requirement.courseCode);
+    const clauses = !expression ? [] : expression.type === 'and' ? expression.operands : [expression];
+    const missing = clauses
+      .filter((clause) => evaluatePrerequisites(clause, metBy(new Set())) !== 'met')
+      .map(describePrerequisites);
+    blockers.push(
+      missing.length > 0
+        ? `${requirement.courseCode} could not be placed: waiting on ${missing.join(', ')}`
+        : `${requirement.courseCode} could not be placed within ${maxQuarters} quarters (offered ${requirement.typicalQuarters.join(', ') || 'rarely'})`
+    );
+  }
+
+  // Trim trailing empty quarters
+  while (quarterPlans.length > 0 && quarterPlans[quarterPlans.length - 1].courses.length === 0) quarterPlans.pop();
+
+  // Once-a-year courses that gate others, and courses on the longest chain
+  const criticalPath = getCriticalPathCourses(graph);
+  const bottleneckCourses = required
+    .filter((r) => !isDone(r))
+    .filter((r) => (r.typicalQuarters.length === 1 && pathLengthOf(r.courseCode) > 0) || criticalPath.has(r.courseCode))
+    .map((r) => r.courseCode)
+    .filter((code, index, list) => list.indexOf(code) === index);
+
+  // Retaken courses earn credit once
+  const creditsCompleted = Array.from(attempts.values()).reduce((sum, list) => {
+    const passed = list.filter((a) => meetsMinimumGrade(a.grade, PASSING_GRADE));
+    return sum + (passed.length > 0 ? Math.max(...passed.map((a) => a.credits)) : 0);
+  }, 0);
+  const currentGPA = calculateGPA(persona.completedCourses);
+  const lastTerm = quarterPlans.length > 0 ? quarterPlans[quarterPlans.length - 1].term : getCurrentTerm();
+
+  return {
+    personaId: persona.id,
+    programSlug: program.slug,
+    quartersRemaining: quarterPlans.length,
+    quarterPlans,
+    summary: {
+      totalCreditsRemaining: quarterPlans.reduce((sum, q) => sum + q.totalCredits, 0) +
+        Array.from(remaining.values()).reduce((sum, r) => sum + r.credits, 0),
+      creditsCompleted,
+      currentGPA,
+      projectedGPA: currentGPA,
+      estimatedGraduation: lastTerm,
+      onTrack: blockers.length === 0 && !isTermAfter(lastTerm, persona.expectedGraduation),
+      bottleneckCourses,
+    },
+    blockers,
+    generatedAt: now.toISOString(),
+  };
+}
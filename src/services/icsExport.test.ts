@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildScheduleIcs } from './icsExport';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { AcademicCalendarEvent } from './academicCalendar';
+
+function calendarEvent(title: string, startDate: string, category: string, termCode: string | null = '202620'): AcademicCalendarEvent {
+  return { id: title, title, link: null, startDate, termLabel: null, termCode, category, descriptionHtml: null };
+}
+
+const MEMORIAL_DAY = calendarEvent('Memorial Day Observed (EWU closed)', '2026-05-25T15:00:00.000Z', 'Federal Holidays', null);
+
+describe('icsExport', () => {
+  const courses = parseScheduleData(mockScheduleResponse);
+  const cscd110 = courses.find((c) => c.displayCode === 'CSCD 110')!;
+  const online = courses.find((c) => c.delivery === 'Online')!;
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('turns each meeting into a weekly event over the Banner class dates, skipping holidays', () => {
+    const { content, eventCount, skipped } = buildScheduleIcs([cscd110, online], {
+      calendarName: 'Spring 2026',
+      calendarEvents: [MEMORIAL_DAY],
+      now,
+    });
+    const lines = content.replace(/\r\n /g, '').split('\r\n');
+
+    expect(eventCount).toBe(1);
+    expect(skipped).toEqual([online]);
+    expect(lines).toContain('DTSTART;TZID=America/Los_Angeles:20260330T080000');
+    expect(lines).toContain('DTEND;TZID=America/Los_Angeles:20260330T085000');
+    // June 12 23:59:59 PDT
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20260613T065959Z');
+    expect(lines).toContain('EXDATE;TZID=America/Los_Angeles:20260525T080000');
+    expect(lines).toContain('LOCATION:CAT 221');
+    expect(lines.find((l) => l.startsWith('DESCRIPTION:'))).toContain('CRN 21054');
+  });
+
+  it('falls back to the academic calendar when meetings have no dates', () => {
+    const undated = {
+      ...cscd110,
+      meetings: cscd110.meetings.map((m) => ({ ...m, days: ['tuesday' as const], startDate: undefined, endDate: undefined })),
+    };
+    const { content } = buildScheduleIcs([undated], {
+      calendarName: 'Spring 2026',
+      calendarEvents: [
+        calendarEvent('First Day of Instruction', '2026-03-30T15:00:00.000Z', 'Instruction Dates'),
+        calendarEvent('Last Day of Instruction', '2026-06-05T15:00:00.000Z', 'Instruction Dates'),
+        MEMORIAL_DAY,
+      ],
+      now,
+    });
+
+    expect(content).toContain('DTSTART;TZID=America/Los_Angeles:20260331T080000');
+    expect(content).toContain('UNTIL=20260606T065959Z');
+    // Memorial Day is a Monday, so a Tuesday class is unaffected
+    expect(content).not.toContain('EXDATE');
+  });
+
+  it('writes CRLF lines folded at 75 octets', () => {
+    const { content } = buildScheduleIcs([{ ...cscd110, title: 'A very long course title '.repeat(5) }], {
+      calendarName: 'Spring 2026',
+      calendarEvents: [],
+      now,
+    });
+
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * =============================================================================
+ * SERVICE: icsExport
+ * =============================================================================
+ *
+ * PURPOSE: Turn any list of sections into an iCalendar (.ics) file that
+ * Outlook, Google Calendar and Apple Calendar can import, e.g. the filtered
+ * schedule, one instructor's teaching load, or a persona's enrolled classes.
+ *
+ * EVENTS:
+ * - One weekly recurring VEVENT per meeting, on the meeting's days and times
+ * - Class dates come from the Banner meeting startDate/endDate; when those
+ *   are missing, the term's First/Last Day of Instruction from the academic
+ *   calendar feed are used instead
+ * - 'Federal Holidays' calendar events become EXDATEs, so no class shows up
+ *   on a day the university is closed
+ * - Each event carries the room as LOCATION, and the CRN, instructor and
+ *   campus in its DESCRIPTION
+ *
+ * TIMES: All class times are campus local time (America/Los_Angeles). The
+ * file includes a VTIMEZONE so calendars in other zones convert correctly.
+ * =============================================================================
+ */
+
+import type { Course, DayOfWeek, Meeting } from '../types/schedule';
+import type { StudentPersona } from '../types/advising';
+import type { AcademicCalendarEvent } from './academicCalendar';
+import { normalizeCourseCode } from '../constants/courseAliases';
+
+export const CAMPUS_TIME_ZONE = 'America/Los_Angeles';
+
+export interface TermDateRange {
+  start: CalendarDate;
+  end: CalendarDate;
+}
+
+export interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface IcsExportOptions {
+  /** Shown as the calendar's name when subscribed or imported */
+  calendarName: string;
+  /** Academic calendar feed, for instruction dates and holidays */
+  calendarEvents: AcademicCalendarEvent[];
+  /** DTSTAMP for every event (default: now) */
+  now?: Date;
+}
+
+export interface IcsExportResult {
+  content: string;
+  eventCount: number;
+  /** Sections with no meeting times or no known class dates */
+  skipped: Course[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ICS_DAYS: Record<DayOfWeek, { code: string; weekday: number }> = {
+  monday: { code: 'MO', weekday: 1 },
+  tuesday: { code: 'TU', weekday: 2 },
+  wednesday: { code: 'WE', weekday: 3 },
+  thursday: { code: 'TH', weekday: 4 },
+  friday: { code: 'FR', weekday: 5 },
+};
+
+// US Pacific rules since 2007
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CAMPUS_TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0800',
+  'TZOFFSETTO:-0700',
+  'TZNAME:PDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0700',
+  'TZOFFSETTO:-0800',
+  'TZNAME:PST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+/**
+ * Parse a Banner date (MM/DD/YYYY)
+ */
+export function parseBannerDate(value: string | undefined): CalendarDate | null {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  return { year: Number(match[3]), month: Number(match[1]), day: Number(match[2]) };
+}
+
+function toDayNumber(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): CalendarDate {
+  const d = new Date(dayNumber * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function formatDate(date: CalendarDate): string {
+  return `${pad(date.year, 4)}${pad(date.month)}${pad(date.day)}`;
+}
+
+function formatLocalDateTime(date: CalendarDate, minutes: number): string {
+  return `${formatDate(date)}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const pacificFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: CAMPUS_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+  hourCycle: 'h23',
+});
+
+function pacificParts(instant: Date): CalendarDate & { hour: number; minute: number; second: number } {
+  const parts = Object.fromEntries(
+    pacificFormatter.formatToParts(instant).map((p) => [p.type, Number(p.value)])
+  ) as Record<string, number>;
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Campus-local calendar date of an instant
+ */
+export function toCampusDate(instant: Date): CalendarDate {
+  const { year, month, day } = pacificParts(instant);
+  return { year, month, day };
+}
+
+/**
+ * The instant at which campus-local wall time reads `date` + `seconds`
+ */
+function campusTimeToUtc(date: CalendarDate, seconds: number): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day) + seconds * 1000;
+  let instant = wallClock;
+  // Two passes settle on the right offset, including across DST changes
+  for (let i = 0; i < 2; i++) {
+    const p = pacificParts(new Date(instant));
+    const shownAs = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    instant += wallClock - shownAs;
+  }
+  return new Date(instant);
+}
+
+/**
+ * First and last day of instruction for a term, from the academic calendar
+ */
+export function findInstructionDates(
+  events: AcademicCalendarEvent[],
+  termCode: string
+): TermDateRange | null {
+  const dates = (pattern: RegExp) =>
+    events
+      .filter((e) => e.termCode === termCode && pattern.test(e.title))
+      .map((e) => toCampusDate(new Date(e.startDate)))
+      .sort((a, b) => toDayNumber(a) - toDayNumber(b));
+
+  const start = dates(/first day of instruction/i)[0];
+  const end = dates(/last day of instruction/i).pop();
+  return start && end ? { start, end } : null;
+}
+
+/**
+ * Campus-local dates of every 'Federal Holidays' calendar event
+ */
+export function findHolidayDates(events: AcademicCalendarEvent[]): CalendarDate[] {
+  return events
+    .filter((e) => e.category === 'Federal Holidays')
+    .map((e) => toCampusDate(new Date(e.startDate)));
+}
+
+// =============================================================================
+// TEXT
+// =============================================================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts toward the limit
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function meetingEvent(
+  course: Course,
+  meeting: Meeting,
+  index: number,
+  range: TermDateRange,
+  holidays: CalendarDate[],
+  stamp: string
+): string[] | null {
+  const weekdays = new Set(meeting.days.map((d) => ICS_DAYS[d].weekday));
+  const isMeetingDay = (dayNumber: number) => weekdays.has(new Date(dayNumber * DAY_MS).getUTCDay());
+
+  const startDay = toDayNumber(range.start);
+  const endDay = toDayNumber(range.end);
+  let firstDay = startDay;
+  while (firstDay <= endDay && !isMeetingDay(firstDay)) firstDay++;
+  if (firstDay > endDay) return null;
+
+  const first = fromDayNumber(firstDay);
+  const tz = `TZID=${CAMPUS_TIME_ZONE}`;
+  const byDay = meeting.days.map((d) => ICS_DAYS[d].code).join(',');
+  const until = formatUtc(campusTimeToUtc(range.end, 24 * 60 * 60 - 1));
+
+  const exdates = holidays
+    .map(toDayNumber)
+    .filter((day) => day >= firstDay && day <= endDay && isMeetingDay(day))
+    .sort((a, b) => a - b)
+    .map((day) => formatLocalDateTime(fromDayNumber(day), meeting.startMinutes));
+
+  const description = [
+    `CRN ${course.crn}`,
+    course.title,
+    `Instructor: ${course.instructor?.displayName ?? 'Staff'}`,
+    `Campus: ${course.campus}`,
+    meeting.typeDescription ? `Type: ${meeting.typeDescription}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${course.term}-${course.crn}-${index}@ewu-cyber-schedule`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(`${course.displayCode}-${course.section} ${course.title}`)}`,
+    `DTSTART;${tz}:${formatLocalDateTime(first, meeting.startMinutes)}`,
+    `DTEND;${tz}:${formatLocalDateTime(first, meeting.endMinutes)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${byDay};UNTIL=${until}`,
+    ...(exdates.length > 0 ? [`EXDATE;${tz}:${exdates.join(',')}`] : []),
+    `LOCATION:${escapeText(meeting.location)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build an .ics calendar with a recurring event for every class meeting
+ */
+export function buildScheduleIcs(courses: Course[], options: IcsExportOptions): IcsExportResult {
+  const { calendarName, calendarEvents, now = new Date() } = options;
+  const stamp = formatUtc(now);
+  const holidays = findHolidayDates(calendarEvents);
+  const termRanges = new Map<string, TermDateRange | null>();
+  const termRange = (term: string) => {
+    if (!termRanges.has(term)) termRanges.set(term, findInstructionDates(calendarEvents, term));
+    return termRanges.get(term) ?? null;
+  };
+
+  const events: string[][] = [];
+  const skipped: Course[] = [];
+  for (const course of courses) {
+    const before = events.length;
+    course.meetings.forEach((meeting, index) => {
+      if (meeting.days.length === 0 || meeting.endMinutes <= meeting.startMinutes) return;
+      const start = parseBannerDate(meeting.startDate);
+      const end = parseBannerDate(meeting.endDate);
+      const range = start && end ? { start, end } : termRange(course.term);
+      if (!range) return;
+      const event = meetingEvent(course, meeting, index, range, holidays, stamp);
+      if (event) events.push(event);
+    });
+    if (events.length === before) skipped.push(course);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EWU//Cyber Schedule Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${CAMPUS_TIME_ZONE}`,
+    ...VTIMEZONE,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return {
+    content: lines.map(foldLine).join('\r\n') + '\r\n',
+    eventCount: events.length,
+    skipped,
+  };
+}
+
+/**
+ * Live sections of a persona's current courses. A course with several
+ * sections is ambiguous, since personas record course codes, not CRNs.
+ */
+export function findEnrolledSections(
+  persona: StudentPersona,
+  courses: Course[]
+): { sections: Course[]; ambiguous: string[]; notOffered: string[] } {
+  const sections: Course[] = [];
+  const ambiguous: string[] = [];
+  const notOffered: string[] = [];
+  for (const code of persona.currentCourses) {
+    const normalized = normalizeCourseCode(code);
+    const matches = courses.filter((c) => normalizeCourseCode(c.displayCode) === normalized);
+    if (matches.length === 1) sections.push(matches[0]);
+    else if (matches.length === 0) notOffered.push(normalized);
+    else ambiguous.push(normalized);
+  }
+  return { sections, ambiguous, notOffered };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQualificationIndex,
+  describeQualification,
+  findQualification,
+  getQualifiedInstructors,
+} from './instructorQualifications';
+import { parseScheduleData } from './scheduleParser';
+import { mockBannerCourse, mockNonConflictingCourse } from '../test/mocks/scheduleData';
+
+describe('instructorQualifications', () => {
+  const courses = parseScheduleData({
+    success: true,
+    totalCount: 4,
+    data: [
+      mockBannerCourse,
+      { ...mockBannerCourse, id: 2, courseReferenceNumber: '30001', term: '202540' },
+      { ...mockBannerCourse, id: 3, courseReferenceNumber: '30002', term: '202540' },
+      { ...mockNonConflictingCourse, courseNumber: '110', subjectCourse: 'CSCD110', term: '202410' },
+    ],
+  });
+
+  it('indexes every instructor who has taught a course code', () => {
+    const index = buildQualificationIndex(courses);
+    const qualified = index.get('CSCD 110') ?? [];
+
+    expect(qualified.map((q) => q.instructor)).toEqual(['Doe, Jane', 'Smith, John']);
+    expect(qualified[0].termsTaught).toEqual(['202540', '202620']);
+    expect(qualified[0].sectionCount).toBe(3);
+  });
+
+  it('explains why an instructor is qualified', () => {
+    const index = buildQualificationIndex(courses);
+    const qualification = findQualification(index, 'CSCD 110', 'Smith, John');
+
+    expect(qualification).toBeDefined();
+    expect(describeQualification(qualification!)).toBe(
+      'Taught CSCD 110 in 1 term (1 section), most recently Winter 2024'
+    );
+    expect(findQualification(index, 'CSCD 300', 'Doe, Jane')).toBeUndefined();
+  });
+
+  it('qualifies an instructor for every code of a cross-listed course', () => {
+    const index = buildQualificationIndex(
+      parseScheduleData({
+        success: true,
+        totalCount: 1,
+        data: [{ ...mockBannerCourse, courseNumber: '434', subjectCourse: 'CSCD434' }],
+      })
+    );
+
+    expect(getQualifiedInstructors(index, 'CYBR 434').map((q) => q.instructor)).toEqual(['Doe, Jane']);
+    expect(findQualification(index, 'CSCD 434', 'Doe, Jane')?.courseCode).toBe('CYBR 434');
+  });
+});
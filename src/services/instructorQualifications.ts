@@ -0,0 +1,118 @@
+/**
+ * =============================================================================
+ * SERVICE: instructorQualifications
+ * =============================================================================
+ *
+ * PURPOSE: Decide which instructors are qualified to teach a course, for use
+ * by the optimizer when proposing instructor reassignments.
+ *
+ * RULE: An instructor is qualified for a course code if they have been the
+ * primary instructor of any section of it in any published term
+ * (public/data/terms/index.json). Codes go through getCanonicalCourseCode,
+ * so teaching CSCD 434 qualifies them for CYBR 434 too.
+ *
+ * =============================================================================
+ */
+
+import type { Course, Instructor } from '../types/schedule';
+import { compareTerms, formatTerm } from '../constants/academicTerms';
+import { getCanonicalCourseCode } from '../constants/courseAliases';
+import { loadAllTermsFromPublic } from './termSchedules';
+
+/**
+ * Evidence that an instructor can teach a course
+ */
+export interface InstructorQualification {
+  instructor: string;     // Display name, matches CourseAssignment.instructor
+  email: string;
+  record: Instructor;     // As Banner listed them, for drafts that assign them
+  courseCode: string;     // Canonical code, e.g. "CSCD 340"
+  termsTaught: string[];  // Term codes, oldest first
+  sectionCount: number;
+}
+
+/**
+ * Qualified instructors keyed by canonical course code
+ */
+export type QualificationIndex = Map<string, InstructorQualification[]>;
+
+/**
+ * Build a qualification index from courses across any number of terms
+ */
+export function buildQualificationIndex(courses: Course[]): QualificationIndex {
+  const byCourse = new Map<string, Map<string, InstructorQualification>>();
+
+  for (const course of courses) {
+    if (!course.instructor) continue;
+
+    const courseCode = getCanonicalCourseCode(course.displayCode);
+    let instructors = byCourse.get(courseCode);
+    if (!instructors) {
+      instructors = new Map();
+      byCourse.set(courseCode, instructors);
+    }
+
+    const key = course.instructor.email || course.instructor.displayName;
+    const existing = instructors.get(key);
+    if (existing) {
+      existing.sectionCount++;
+      if (!existing.termsTaught.includes(course.term)) existing.termsTaught.push(course.term);
+    } else {
+      instructors.set(key, {
+        instructor: course.instructor.displayName,
+        email: course.instructor.email,
+        record: course.instructor,
+        courseCode,
+        termsTaught: [course.term],
+        sectionCount: 1,
+      });
+    }
+  }
+
+  const index: QualificationIndex = new Map();
+  for (const [courseCode, instructors] of byCourse) {
+    const list = Array.from(instructors.values());
+    list.forEach((q) => q.termsTaught.sort(compareTerms));
+    // Most experienced first so the optimizer tries them first among equals
+    list.sort((a, b) => b.termsTaught.length - a.termsTaught.length || a.instructor.localeCompare(b.instructor));
+    index.set(courseCode, list);
+  }
+  return index;
+}
+
+/**
+ * Instructors qualified for a course, under whichever of its codes it is given
+ */
+export function getQualifiedInstructors(index: QualificationIndex, courseCode: string): InstructorQualification[] {
+  return index.get(getCanonicalCourseCode(courseCode)) ?? [];
+}
+
+/**
+ * Find the qualification record for an instructor and course
+ */
+export function findQualification(
+  index: QualificationIndex,
+  courseCode: string,
+  instructor: string
+): InstructorQualification | undefined {
+  return getQualifiedInstructors(index, courseCode).find((q) => q.instructor === instructor);
+}
+
+/**
+ * Explain in one line why an instructor counts as qualified
+ */
+export function describeQualification(qualification: InstructorQualification): string {
+  const terms = qualification.termsTaught;
+  const count = terms.length;
+  const latest = formatTerm(terms[terms.length - 1]);
+  return `Taught ${qualification.courseCode} in ${count} term${count === 1 ? '' : 's'} ` +
+    `(${qualification.sectionCount} section${qualification.sectionCount === 1 ? '' : 's'}), most recently ${latest}`;
+}
+
+/**
+ * Build the qualification index from every published term
+ */
+export async function loadQualificationIndexFromPublic(): Promise<QualificationIndex> {
+  const terms = await loadAllTermsFromPublic();
+  return buildQualificationIndex(Array.from(terms.values()).flat());
+}
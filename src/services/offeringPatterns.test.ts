@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyOfferingPatterns,
+  buildOfferingPatterns,
+  compareWithCatalog,
+  describeOfferingPattern,
+  getOfferingPattern,
+} from './offeringPatterns';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import { program as testProgram, requirement } from '../test/mocks/advisingData';
+import type { Course } from '../types/schedule';
+
+const live = parseScheduleData(mockScheduleResponse);
+const cscd110 = live.find((c) => c.displayCode === 'CSCD 110')!;
+
+function section(term: string, displayCode: string, overrides: Partial<Course> = {}): Course {
+  const [subject, courseNumber] = displayCode.split(' ');
+  return {
+    ...cscd110,
+    id: `${term}-${displayCode}-${overrides.section ?? '001'}`,
+    term,
+    displayCode,
+    subjectRaw: subject,
+    courseNumber,
+    ...overrides,
+  };
+}
+
+// Three academic years of CSCD terms; MATH only appears in the newer files
+const terms = new Map<string, Course[]>([
+  ['202220', [section('202220', 'CSCD 300', { campus: 'Spokane U-District' })]],
+  ['202340', [section('202340', 'CSCD 110'), section('202340', 'CSCD 300')]],
+  ['202410', [section('202410', 'CSCD 110')]],
+  ['202420', [section('202420', 'CSCD 110')]],
+  ['202440', [section('202440', 'CSCD 110'), section('202440', 'CSCD 300'), section('202440', 'CSCD 330')]],
+  ['202510', [section('202510', 'CSCD 110'), section('202510', 'MATH 161')]],
+  ['202520', [section('202520', 'CSCD 110'), section('202520', 'CSCD 300'), section('202520', 'MATH 225')]],
+  ['202530', [section('202530', 'CSCD 110', { campus: 'Spokane U-District' })]],
+  [
+    '202540',
+    [
+      section('202540', 'CSCD 110'),
+      section('202540', 'CSCD 110', { section: '040', campus: 'Online', delivery: 'Online', meetings: [] }),
+      section('202540', 'CSCD 300'),
+      section('202540', 'CYBR 330'),
+    ],
+  ],
+  ['202610', [section('202610', 'CSCD 110')]],
+  ['202620', [section('202620', 'CSCD 110')]],
+]);
+
+describe('offeringPatterns', () => {
+  const index = buildOfferingPatterns(terms);
+
+  it('uses the last three years of terms', () => {
+    expect(index.from).toBe('202340');
+    expect(index.to).toBe('202620');
+    expect(index.subjectTerms.get('MATH')).toEqual(['202510', '202520']);
+  });
+
+  it('infers regular quarters, campuses, delivery modes and time slots', () => {
+    const intro = getOfferingPattern(index, 'CSCD 110')!;
+    expect(intro.quarters).toEqual(['fall', 'winter', 'spring', 'summer']);
+    expect(intro.quarterFrequency.fall).toEqual({ offered: 3, observed: 3 });
+    expect(intro.campuses).toEqual(['Cheney', 'Spokane U-District', 'Online']);
+    expect(intro.deliveryModes).toEqual([
+      { mode: 'F2F', sections: 10 },
+      { mode: 'Online', sections: 1 },
+    ]);
+    expect(intro.timeSlots).toHaveLength(1);
+    expect(intro.timeSlots[0]).toMatchObject({ startMinutes: 480, endMinutes: 530, sections: 10 });
+
+    // One spring in three isn't a pattern; the 202220 section is outside the window
+    const systems = getOfferingPattern(index, 'CSCD 300')!;
+    expect(systems.quarters).toEqual(['fall']);
+    expect(systems.quarterFrequency.spring).toEqual({ offered: 1, observed: 3 });
+    expect(systems.campuses).toEqual(['Cheney']);
+    expect(describeOfferingPattern(systems)).toBe('Fall at Cheney');
+  });
+
+  it('groups aliases and only counts terms that carried the subject', () => {
+    const renamed = getOfferingPattern(index, 'CSCD 330')!;
+    expect(renamed.courseCode).toBe('CYBR 330');
+    expect(renamed.codesUsed).toEqual(['CSCD 330', 'CYBR 330']);
+    expect(renamed.quarters).toEqual(['fall']);
+
+    expect(getOfferingPattern(index, 'MATH 161')!.quarters).toEqual(['winter']);
+  });
+
+  it('flags where the catalog and the schedules disagree', () => {
+    expect(compareWithCatalog(requirement('CSCD 110'), index).map((d) => d.message)).toEqual([
+      "Runs in Summer (1 of 1 terms), which the catalog doesn't list",
+      "Sections ran at Spokane U-District, which the catalog doesn't list",
+      "Sections ran at Online, which the catalog doesn't list",
+    ]);
+    const cscd300 = requirement('CSCD 300', [], {
+      typicalQuarters: ['fall', 'spring'],
+      typicalCampuses: ['Cheney', 'Spokane U-District'],
+    });
+    expect(compareWithCatalog(cscd300, index)).toEqual([
+      { courseCode: 'CSCD 300', field: 'quarters', message: 'Catalog lists Spring, but it ran in 1 of 3 Spring terms' },
+      { courseCode: 'CSCD 300', field: 'campuses', message: 'Catalog lists Spokane U-District, but no sections ran there' },
+    ]);
+    expect(compareWithCatalog(requirement('CSCD 499', [], { typicalQuarters: ['spring'] }), index)).toEqual([
+      { courseCode: 'CSCD 499', field: 'offered', message: 'Not on any schedule since Fall 2023' },
+    ]);
+    // No PHYS terms at all, so nothing to compare against
+    expect(compareWithCatalog(requirement('PHYS 131', [], { typicalQuarters: ['fall'] }), index)).toEqual([]);
+  });
+
+  it('replaces catalog quarters and campuses in a program where a pattern exists', () => {
+    const electives = [requirement('PHYS 131', [], { typicalQuarters: ['winter'] })];
+    const program = testProgram(
+      [requirement('CSCD 300', [], { typicalQuarters: ['fall', 'spring'], typicalCampuses: ['Spokane U-District'] })],
+      { electiveGroups: [{ id: 'e', name: 'Electives', description: '', requiredCount: 1, requiredCredits: 5, courses: electives }] }
+    );
+    const applied = applyOfferingPatterns(program, index);
+
+    expect(applied.coreCourses[0]).toMatchObject({ typicalQuarters: ['fall'], typicalCampuses: ['Cheney'] });
+    expect(applied.electiveGroups[0].courses[0].typicalQuarters).toEqual(['winter']);
+    expect(program.coreCourses[0].typicalQuarters).toEqual(['fall', 'spring']);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * =============================================================================
+ * SERVICE: offeringPatterns
+ * =============================================================================
+ *
+ * PURPOSE: Work out when, where and how each course actually runs, from the
+ * published term schedules, instead of trusting the hand-entered
+ * typicalQuarters / typicalCampuses in the program JSON.
+ *
+ * RULES:
+ * - Courses are grouped by canonical code (course-aliases.json), so CSCD 434
+ *   and CYBR 434 share one pattern
+ * - Only the last N years of terms are used (default 3), counted back from
+ *   the newest published term
+ * - A quarter counts as regular when the course ran in at least half of the
+ *   terms of that quarter that carried its subject. Early term files only
+ *   hold a few subjects, so a term without the subject says nothing.
+ * - Campuses and delivery modes are every one a section used in the window
+ * - Time slots are the most common meeting patterns
+ *
+ * CATALOG CHECK: compareWithCatalog lists every quarter or campus the
+ * catalog data and the schedules disagree on.
+ * =============================================================================
+ */
+
+import type { AcademicTerm, CourseRequirement, DegreeProgram, Quarter } from '../types/advising';
+import type { Course, DayOfWeek, DeliveryMethod } from '../types/schedule';
+import { QUARTER_NAMES, addQuarters, compareTerms, formatTerm, parseTerm } from '../constants/academicTerms';
+import { formatDays, formatTimeRange } from '../constants/timeSlots';
+import { getCanonicalCourseCode } from '../constants/courseAliases';
+import { loadAllTermsFromPublic } from './termSchedules';
+
+export const DEFAULT_PATTERN_YEARS = 3;
+
+// Most common meeting patterns kept per course
+const MAX_TIME_SLOTS = 3;
+
+// Academic-year order, the order the program JSON lists quarters in
+const QUARTERS: Quarter[] = ['fall', 'winter', 'spring', 'summer'];
+
+export type OfferingCampus = CourseRequirement['typicalCampuses'][number];
+
+export interface QuarterFrequency {
+  /** Terms of this quarter the course ran in */
+  offered: number;
+  /** Terms of this quarter that carried the course's subject */
+  observed: number;
+}
+
+export interface OfferingTimeSlot {
+  days: DayOfWeek[];
+  startMinutes: number;
+  endMinutes: number;
+  label: string;
+  sections: number;
+}
+
+export interface OfferingPattern {
+  /** Canonical course code */
+  courseCode: string;
+  /** Codes the course ran under (e.g. CSCD 434 and CYBR 434) */
+  codesUsed: string[];
+  /** Oldest first */
+  termsOffered: AcademicTerm[];
+  /** Regular quarters, in academic-year order */
+  quarters: Quarter[];
+  quarterFrequency: Record<Quarter, QuarterFrequency>;
+  campuses: OfferingCampus[];
+  /** Most sections first */
+  deliveryModes: { mode: DeliveryMethod; sections: number }[];
+  /** Most sections first */
+  timeSlots: OfferingTimeSlot[];
+  sections: number;
+}
+
+export interface OfferingPatternIndex {
+  from: AcademicTerm;
+  to: AcademicTerm;
+  years: number;
+  /** Keyed by canonical course code */
+  patterns: Map<string, OfferingPattern>;
+  /** Terms in the window that carried each subject */
+  subjectTerms: Map<string, AcademicTerm[]>;
+}
+
+export type OfferingDiscrepancyField = 'offered' | 'quarters' | 'campuses';
+
+export interface OfferingDiscrepancy {
+  courseCode: string;
+  field: OfferingDiscrepancyField;
+  message: string;
+}
+
+function subjectOf(courseCode: string): string {
+  return courseCode.split(' ')[0];
+}
+
+function emptyFrequency(): Record<Quarter, QuarterFrequency> {
+  return {
+    fall: { offered: 0, observed: 0 },
+    winter: { offered: 0, observed: 0 },
+    spring: { offered: 0, observed: 0 },
+    summer: { offered: 0, observed: 0 },
+  };
+}
+
+/**
+ * Infer offering patterns from term schedules keyed by term code
+ */
+export function buildOfferingPatterns(
+  terms: Map<string, Course[]>,
+  years: number = DEFAULT_PATTERN_YEARS
+): OfferingPatternIndex {
+  const termCodes = Array.from(terms.keys()).sort(compareTerms);
+  const to = termCodes.length > 0 ? termCodes[termCodes.length - 1] : '';
+  const cutoff = to ? addQuarters(to, -4 * years) : '';
+  const window = termCodes.filter((term) => compareTerms(term, cutoff) > 0);
+  const from = window[0] ?? '';
+
+  const subjectTerms = new Map<string, AcademicTerm[]>();
+  const sectionsByCourse = new Map<string, Course[]>();
+  for (const term of window) {
+    const subjects = new Set<string>();
+    for (const course of terms.get(term) ?? []) {
+      const code = getCanonicalCourseCode(course.displayCode);
+      subjects.add(subjectOf(course.displayCode));
+      sectionsByCourse.set(code, [...(sectionsByCourse.get(code) ?? []), course]);
+    }
+    for (const subject of subjects) subjectTerms.set(subject, [...(subjectTerms.get(subject) ?? []), term]);
+  }
+
+  const patterns = new Map<string, OfferingPattern>();
+  for (const [courseCode, sections] of sectionsByCourse) {
+    const codesUsed = Array.from(new Set(sections.map((s) => s.displayCode))).sort();
+    const termsOffered = Array.from(new Set(sections.map((s) => s.term))).sort(compareTerms);
+
+    // A term counts as observed if any code the course runs under had its subject on it
+    const observedTerms = new Set(codesUsed.flatMap((code) => subjectTerms.get(subjectOf(code)) ?? []));
+    const quarterFrequency = emptyFrequency();
+    for (const term of observedTerms) quarterFrequency[parseTerm(term).quarter].observed += 1;
+    for (const term of termsOffered) quarterFrequency[parseTerm(term).quarter].offered += 1;
+    const quarters = QUARTERS.filter((q) => {
+      const { offered, observed } = quarterFrequency[q];
+      return offered > 0 && offered * 2 >= observed;
+    });
+
+    const campuses = (['Cheney', 'Spokane U-District', 'Online'] as const).filter((campus) =>
+      sections.some((s) => s.campus === campus)
+    );
+
+    const modeCounts = new Map<DeliveryMethod, number>();
+    for (const section of sections) modeCounts.set(section.delivery, (modeCounts.get(section.delivery) ?? 0) + 1);
+    const deliveryModes = Array.from(modeCounts, ([mode, count]) => ({ mode, sections: count })).sort(
+      (a, b) => b.sections - a.sections || a.mode.localeCompare(b.mode)
+    );
+
+    const slots = new Map<string, OfferingTimeSlot>();
+    for (const section of sections) {
+      for (const meeting of section.meetings) {
+        if (meeting.days.length === 0 || meeting.startMinutes <= 0) continue;
+        const label = `${formatDays(meeting.days)} ${formatTimeRange(meeting.startMinutes, meeting.endMinutes)}`;
+        const slot = slots.get(label);
+        if (slot) slot.sections += 1;
+        else {
+          slots.set(label, {
+            days: meeting.days,
+            startMinutes: meeting.startMinutes,
+            endMinutes: meeting.endMinutes,
+            label,
+            sections: 1,
+          });
+        }
+      }
+    }
+    const timeSlots = Array.from(slots.values())
+      .sort((a, b) => b.sections - a.sections || a.startMinutes - b.startMinutes || a.label.localeCompare(b.label))
+      .slice(0, MAX_TIME_SLOTS);
+
+    patterns.set(courseCode, {
+      courseCode,
+      codesUsed,
+      termsOffered,
+      quarters,
+      quarterFrequency,
+      campuses,
+      deliveryModes,
+      timeSlots,
+      sections: sections.length,
+    });
+  }
+
+  return { from, to, years, patterns, subjectTerms };
+}
+
+/**
+ * Pattern for a course code or any of its aliases
+ */
+export function getOfferingPattern(index: OfferingPatternIndex, courseCode: string): OfferingPattern | undefined {
+  return index.patterns.get(getCanonicalCourseCode(courseCode));
+}
+
+/**
+ * One-line summary, e.g. "Fall, Winter at Cheney, Online"
+ */
+export function describeOfferingPattern(pattern: OfferingPattern): string {
+  const quarters = pattern.quarters.map((q) => QUARTER_NAMES[q]).join(', ') || 'Irregularly';
+  return pattern.campuses.length > 0 ? `${quarters} at ${pattern.campuses.join(', ')}` : quarters;
+}
+
+/**
+ * Where the catalog data and the schedules disagree for one requirement
+ */
+export function compareWithCatalog(requirement: CourseRequirement, index: OfferingPatternIndex): OfferingDiscrepancy[] {
+  const { courseCode } = requirement;
+  const pattern = getOfferingPattern(index, courseCode);
+
+  if (!pattern) {
+    // Only meaningful if the schedules cover the subject at all
+    if (!index.subjectTerms.has(subjectOf(courseCode))) return [];
+    return [{ courseCode, field: 'offered', message: `Not on any schedule since ${formatTerm(index.from)}` }];
+  }
+
+  const discrepancies: OfferingDiscrepancy[] = [];
+  for (const quarter of QUARTERS) {
+    const { offered, observed } = pattern.quarterFrequency[quarter];
+    const listed = requirement.typicalQuarters.includes(quarter);
+    const regular = pattern.quarters.includes(quarter);
+    if (listed && !regular && observed > 0) {
+      discrepancies.push({
+        courseCode,
+        field: 'quarters',
+        message: `Catalog lists ${QUARTER_NAMES[quarter]}, but it ran in ${offered} of ${observed} ${QUARTER_NAMES[quarter]} terms`,
+      });
+    } else if (!listed && regular) {
+      discrepancies.push({
+        courseCode,
+        field: 'quarters',
+        message: `Runs in ${QUARTER_NAMES[quarter]} (${offered} of ${observed} terms), which the catalog doesn't list`,
+      });
+    }
+  }
+
+  if (pattern.campuses.length > 0) {
+    for (const campus of requirement.typicalCampuses) {
+      if (!pattern.campuses.includes(campus)) {
+        discrepancies.push({ courseCode, field: 'campuses', message: `Catalog lists ${campus}, but no sections ran there` });
+      }
+    }
+    for (const campus of pattern.campuses) {
+      if (!requirement.typicalCampuses.includes(campus)) {
+        discrepancies.push({ courseCode, field: 'campuses', message: `Sections ran at ${campus}, which the catalog doesn't list` });
+      }
+    }
+  }
+  return discrepancies;
+}
+
+/**
+ * Copy of a program with typicalQuarters and typicalCampuses replaced by the
+ * inferred pattern wherever one exists
+ */
+export function applyOfferingPatterns(program: DegreeProgram, index: OfferingPatternIndex): DegreeProgram {
+  const apply = (requirement: CourseRequirement): CourseRequirement => {
+    const pattern = getOfferingPattern(index, requirement.courseCode);
+    if (!pattern || pattern.quarters.length === 0) return requirement;
+    return {
+      ...requirement,
+      typicalQuarters: pattern.quarters,
+      typicalCampuses: pattern.campuses.length > 0 ? pattern.campuses : requirement.typicalCampuses,
+    };
+  };
+
+  return {
+    ...program,
+    coreCourses: program.coreCourses.map(apply),
+    supportCourses: program.supportCourses.map(apply),
+    electiveGroups: program.electiveGroups.map((group) => ({ ...group, courses: group.courses.map(apply) })),
+  };
+}
+
+let patternsPromise: Promise<OfferingPatternIndex> | null = null;
+
+/**
+ * Offering patterns from every published term (built once per session)
+ */
+export function loadOfferingPatternsFromPublic(): Promise<OfferingPatternIndex> {
+  if (!patternsPromise) {
+    patternsPromise = loadAllTermsFromPublic()
+      .then((terms) => buildOfferingPatterns(terms))
+      .catch((error) => {
+        patternsPromise = null;
+        throw error;
+      });
+  }
+  return patternsPromise;
+}
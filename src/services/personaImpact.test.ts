@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePersonaImpact } from './personaImpact';
+import { applyDraftChanges, EMPTY_DRAFT_CHANGES } from './draftScenarios';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { StudentPersona } from '../types/advising';
+import type { CourseModification, DraftChanges } from '../types/draft';
+
+const TERM = '202640';
+
+const persona: StudentPersona = {
+  id: 'p1',
+  nickname: 'Spokane Junior',
+  icon: '💻',
+  primaryMajor: 'computer-science-cyber-operations-bs',
+  minors: [],
+  startTerm: '202440',
+  expectedGraduation: '202820',
+  completedCourses: [
+    { courseCode: 'CSCD 110', term: TERM, grade: null, credits: 5, isTransfer: false },
+    { courseCode: 'CSCD 300', term: TERM, grade: null, credits: 5, isTransfer: false },
+  ],
+  currentCourses: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('personaImpact', () => {
+  const live = parseScheduleData(mockScheduleResponse);
+  const cscd300 = live.find((c) => c.displayCode === 'CSCD 300')!;
+
+  const analyze = (changes: Partial<DraftChanges>) =>
+    analyzePersonaImpact([persona], live, applyDraftChanges(live, { ...EMPTY_DRAFT_CHANGES, ...changes }), {
+      termCode: TERM,
+      currentTerm: '202620',
+    });
+
+  const move300 = (changes: CourseModification['changes']) => ({
+    modifications: new Map([[cscd300.id, { courseId: cscd300.id, changes, modifiedAt: new Date() }]]),
+  });
+
+  it('reports nothing for an unchanged draft', () => {
+    expect(analyze({}).impacts).toEqual([]);
+  });
+
+  it('flags a time overlap the draft introduces', () => {
+    const report = analyze(
+      move300({ meetings: cscd300.meetings.map((m) => ({ ...m, startMinutes: 480, endMinutes: 530 })) })
+    );
+
+    expect(report.impacts).toHaveLength(1);
+    expect(report.impacts[0].newConflicts.map((c) => c.id)).toEqual(['time-overlap-CSCD 110-CSCD 300']);
+  });
+
+  it('flags a cross-campus transition that leaves too little time', () => {
+    const report = analyze(
+      move300({
+        meetings: cscd300.meetings.map((m) => ({
+          ...m,
+          startMinutes: 540,
+          endMinutes: 590,
+          building: 'CEB',
+          room: '101',
+          location: 'CEB 101',
+        })),
+      })
+    );
+
+    const [conflict] = report.impacts[0].newConflicts;
+    expect(conflict.type).toBe('cross-campus');
+    expect(conflict.walkingInfo?.gapMinutes).toBe(10);
+  });
+
+  it('flags courses that fit in pairs but not all together', () => {
+    const cybr301 = live.find((c) => c.displayCode === 'CYBR 301')!;
+    const at = (course: typeof cscd300, startMinutes: number) =>
+      course.meetings.map((m) => ({ ...m, startMinutes, endMinutes: startMinutes + 50 }));
+    const threeCourses: StudentPersona = {
+      ...persona,
+      completedCourses: [
+        ...persona.completedCourses,
+        { courseCode: 'CYBR 301', term: TERM, grade: null, credits: 5, isTransfer: false },
+      ],
+    };
+    // CSCD 110 holds 8:00, so CSCD 300 and CYBR 301 both need their 1:00 section
+    const draft = applyDraftChanges(live, {
+      modifications: new Map([
+        [cybr301.id, { courseId: cybr301.id, changes: { meetings: at(cybr301, 480) }, modifiedAt: new Date() }],
+      ]),
+      cancelledIds: new Set(),
+      addedCourses: [
+        { ...cscd300, id: 'added-300', crn: '29001', meetings: at(cscd300, 480) },
+        { ...cybr301, id: 'added-301', crn: '29002', meetings: at(cybr301, 780) },
+      ],
+    });
+
+    const report = analyzePersonaImpact([threeCourses], live, draft, { termCode: TERM, currentTerm: '202620' });
+
+    expect(report.impacts).toHaveLength(1);
+    expect(report.impacts[0].newConflicts.map((c) => c.id)).toEqual(['no-combination']);
+  });
+
+  it('reports a planned course that loses its only section', () => {
+    const cscd110 = live.find((c) => c.displayCode === 'CSCD 110')!;
+    const report = analyze({ cancelledIds: new Set([cscd110.id]) });
+
+    expect(report.impacts[0].lostOfferings).toEqual([
+      { courseCode: 'CSCD 110', reason: 'planned', liveCrns: [cscd110.crn] },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * =============================================================================
+ * SERVICE: personaImpact
+ * =============================================================================
+ *
+ * PURPOSE: Show which advising plans a What-If draft breaks. Each student
+ * persona's courses for the draft term are checked against the live
+ * schedule and the draft, and only problems the draft introduces are kept.
+ *
+ * COURSES CHECKED PER PERSONA:
+ * - Planned: completedCourses entries for the draft term without a final grade
+ * - Enrolled: currentCourses, when the draft term is the current term
+ * - Required: core and support courses of the persona's programs not yet
+ *   passed at the program's minimum grade (only for the "lost offering" check)
+ *
+ * RULES:
+ * - A student picks one section of each course, so the term's courses are
+ *   a problem only when no combination of sections works, as judged by
+ *   buildStudentSchedules (overlaps, walks, campus changes and labs; the
+ *   persona's credit limit is left out). The draft is blamed for the
+ *   reasons its search fails that the live schedule's search doesn't share.
+ * - Lost offering: the course had sections in the live term and has none
+ *   left in the draft
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import type { DraftCourse } from '../types/draft';
+import type {
+  AcademicTerm,
+  DegreeProgram,
+  StudentPersona,
+  StudentScheduleConflict,
+} from '../types/advising';
+import { getCurrentTerm, isTermAfter } from '../constants/academicTerms';
+import { normalizeCourseCode } from '../constants/courseAliases';
+import { getBestAttempts } from './degreeAudit';
+import { isInProgress, meetsMinimumGrade } from './graduationPlanner';
+import { buildStudentSchedules, DEFAULT_SCHEDULE_PREFERENCES } from './scheduleBuilder';
+
+export type LostOfferingReason = 'enrolled' | 'planned' | 'required';
+
+export interface LostOffering {
+  courseCode: string;
+  reason: LostOfferingReason;
+  /** CRNs the course had in the live schedule */
+  liveCrns: string[];
+}
+
+export interface PersonaImpact {
+  personaId: string;
+  nickname: string;
+  icon: StudentPersona['icon'];
+  /** Enrolled and planned course codes for the draft term */
+  termCourses: string[];
+  newConflicts: StudentScheduleConflict[];
+  lostOfferings: LostOffering[];
+}
+
+export interface PersonaImpactReport {
+  termCode: AcademicTerm;
+  personasChecked: number;
+  /** Only personas the draft affects */
+  impacts: PersonaImpact[];
+}
+
+export interface PersonaImpactOptions {
+  termCode: AcademicTerm;
+  /** Term the personas' currentCourses belong to (default: today's term) */
+  currentTerm?: AcademicTerm;
+  /** Loaded degree programs by slug, for the required-course check */
+  programs?: Map<string, DegreeProgram>;
+}
+
+// Only whether some schedule works matters
+const IMPACT_SEARCH = { maxSchedules: 1 };
+
+function groupByCode(courses: Course[]): Map<string, Course[]> {
+  const byCode = new Map<string, Course[]>();
+  for (const course of courses) {
+    const code = normalizeCourseCode(course.displayCode);
+    byCode.set(code, [...(byCode.get(code) ?? []), course]);
+  }
+  return byCode;
+}
+
+/**
+ * Problems that stop every draft schedule and that the live schedule
+ * doesn't already have
+ */
+function draftScheduleConflicts(
+  persona: StudentPersona,
+  codes: string[],
+  liveCourses: Course[],
+  draftCourses: Course[]
+): StudentScheduleConflict[] {
+  // The credit limit is the persona's choice, not something a draft changes
+  const student = { ...persona, maxCreditsPerQuarter: Number.POSITIVE_INFINITY };
+  const draft = buildStudentSchedules(student, draftCourses, codes, DEFAULT_SCHEDULE_PREFERENCES, IMPACT_SEARCH);
+  if (draft.schedules.length > 0) return [];
+  const live = buildStudentSchedules(student, liveCourses, codes, DEFAULT_SCHEDULE_PREFERENCES, IMPACT_SEARCH);
+  const liveIds = new Set(live.conflicts.map((c) => c.id));
+  return draft.conflicts.filter((c) => c.severity === 'error' && !liveIds.has(c.id));
+}
+
+/**
+ * Courses a persona takes in the term, with why each one counts
+ */
+export function getPersonaTermCourses(
+  persona: StudentPersona,
+  termCode: AcademicTerm,
+  currentTerm: AcademicTerm = getCurrentTerm()
+): Map<string, LostOfferingReason> {
+  const courses = new Map<string, LostOfferingReason>();
+  if (termCode === currentTerm) {
+    persona.currentCourses.forEach((code) => courses.set(normalizeCourseCode(code), 'enrolled'));
+  }
+  for (const record of persona.completedCourses) {
+    const code = normalizeCourseCode(record.courseCode);
+    if (record.term === termCode && isInProgress(record) && !courses.has(code)) {
+      courses.set(code, 'planned');
+    }
+  }
+  return courses;
+}
+
+function requiredCourses(persona: StudentPersona, programs: Map<string, DegreeProgram>): Set<string> {
+  const best = getBestAttempts(
+    persona.completedCourses.map((c) => ({ ...c, courseCode: normalizeCourseCode(c.courseCode) }))
+  );
+  const required = new Set<string>();
+  for (const slug of [persona.primaryMajor, persona.secondMajor, ...persona.minors]) {
+    const program = slug ? programs.get(slug) : undefined;
+    if (!program) continue;
+    for (const course of [...program.coreCourses, ...program.supportCourses]) {
+      const code = normalizeCourseCode(course.courseCode);
+      if (!meetsMinimumGrade(best.get(code)?.grade ?? null, course.minimumGrade)) required.add(code);
+    }
+  }
+  return required;
+}
+
+/**
+ * Compare the draft with the live schedule for every persona
+ */
+export function analyzePersonaImpact(
+  personas: StudentPersona[],
+  liveCourses: Course[],
+  draftCourses: DraftCourse[],
+  options: PersonaImpactOptions
+): PersonaImpactReport {
+  const { termCode, currentTerm = getCurrentTerm(), programs = new Map() } = options;
+  const liveByCode = groupByCode(liveCourses);
+  const offered = draftCourses.filter((c) => c._draftState !== 'cancelled');
+  const draftByCode = groupByCode(offered);
+
+  const impacts: PersonaImpact[] = [];
+  for (const persona of personas) {
+    const termCourses = getPersonaTermCourses(persona, termCode, currentTerm);
+    const codes = Array.from(termCourses.keys());
+
+    const newConflicts = codes.length > 0 ? draftScheduleConflicts(persona, codes, liveCourses, offered) : [];
+
+    const needed = new Map(termCourses);
+    if (!isTermAfter(termCode, persona.expectedGraduation)) {
+      requiredCourses(persona, programs).forEach((code) => {
+        if (!needed.has(code)) needed.set(code, 'required');
+      });
+    }
+    const lostOfferings: LostOffering[] = [];
+    for (const [courseCode, reason] of needed) {
+      const live = liveByCode.get(courseCode) ?? [];
+      if (live.length > 0 && !draftByCode.has(courseCode)) {
+        lostOfferings.push({ courseCode, reason, liveCrns: live.map((c) => c.crn) });
+      }
+    }
+
+    if (newConflicts.length > 0 || lostOfferings.length > 0) {
+      impacts.push({
+        personaId: persona.id,
+        nickname: persona.nickname,
+        icon: persona.icon,
+        termCourses: codes,
+        newConflicts,
+        lostOfferings: lostOfferings.sort((a, b) => a.courseCode.localeCompare(b.courseCode)),
+      });
+    }
+  }
+
+  return { termCode, personasChecked: personas.length, impacts };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPrerequisiteGraph,
+  extractRequiredCourses,
+  getCriticalPathCourses,
+  getPersonaCourseStates,
+} from './prerequisiteGraph';
+import { catalogIndex, listing, program, requirement, taken } from '../test/mocks/advisingData';
+
+describe('prerequisiteGraph', () => {
+  const chain = program([
+    requirement('CSCD 210'),
+    requirement('CSCD 211', ['CSCD 210']),
+    requirement('CSCD 240', ['CSCD 210']),
+    requirement('CSCD 300', ['CSCD 211']),
+    requirement('CSCD 427', ['CSCD 300', 'CSCD 240']),
+  ]);
+
+  it('reads required courses from catalog prose, skipping alternatives', () => {
+    expect(extractRequiredCourses('CSCD 211 and MATH 142 (CSCD ≥ C+, supporting ≥ C).')).toEqual(['CSCD 211', 'MATH 142']);
+    expect(extractRequiredCourses('CSCD 240 ≥ C+; and CSCD 260 ≥ C+ or EENG 260 ≥ C+.')).toEqual(['CSCD 240']);
+    expect(extractRequiredCourses('Permission of instructor.')).toEqual([]);
+  });
+
+  it('computes depth, dependents and critical path length', () => {
+    const graph = buildPrerequisiteGraph(chain);
+    const node = (code: string) => graph.nodes.get(code)!;
+
+    expect(node('CSCD 210')).toMatchObject({ depth: 0, dependents: ['CSCD 211', 'CSCD 240'], criticalPathLength: 3 });
+    expect(node('CSCD 240')).toMatchObject({ depth: 1, criticalPathLength: 1 });
+    expect(node('CSCD 427')).toMatchObject({ depth: 3, criticalPathLength: 0 });
+    expect(graph.entryPoints).toEqual(['CSCD 210']);
+    expect(graph.terminalCourses).toEqual(['CSCD 427']);
+    expect(graph.maxDepth).toBe(3);
+    expect(Array.from(getCriticalPathCourses(graph))).toEqual(['CSCD 210', 'CSCD 211', 'CSCD 300', 'CSCD 427']);
+  });
+
+  it('fills missing prerequisites from the catalog listings', () => {
+    const graph = buildPrerequisiteGraph(
+      chain,
+      catalogIndex([
+        listing('CSCD 210', 'MATH 114 ≥ C and CSCD 110.'),
+        listing('CSCD 110'),
+        listing('CSCD 300', 'CSCD 211 and MATH 142.'),
+      ])
+    );
+
+    expect(graph.nodes.get('CSCD 210')!.prerequisites).toEqual(['MATH 114', 'CSCD 110']);
+    expect(graph.nodes.get('CSCD 110')).toMatchObject({ title: 'CSCD 110', depth: 0 });
+    // The program's own list wins
+    expect(graph.nodes.get('CSCD 300')!.prerequisites).toEqual(['CSCD 211']);
+    expect(graph.entryPoints).toEqual(['CSCD 110', 'MATH 114']);
+  });
+
+  it('finds catalog listings filed under another code', () => {
+    const graph = buildPrerequisiteGraph(
+      program([requirement('CYBR 210')]),
+      catalogIndex([listing('CSCD 210', 'CSCD 110.')], { 'CYBR 210': 'CSCD 210' })
+    );
+
+    expect(graph.nodes.get('CYBR 210')!.prerequisites).toEqual(['CSCD 110']);
+  });
+
+  it('reports cycles instead of looping forever', () => {
+    const graph = buildPrerequisiteGraph(
+      program([requirement('CSCD 300', ['CSCD 320']), requirement('CSCD 320', ['CSCD 300']), requirement('CSCD 420', ['CSCD 320'])])
+    );
+
+    expect(graph.cycles).toEqual([['CSCD 300', 'CSCD 320']]);
+    expect(graph.nodes.get('CSCD 420')!.depth).toBeGreaterThan(0);
+  });
+
+  it('marks completed, in-progress, available and blocked courses for a persona', () => {
+    const graph = buildPrerequisiteGraph(chain);
+    const states = getPersonaCourseStates(graph, {
+      completedCourses: [
+        taken('CSCD 210', 'B'),
+        taken('CSCD 240', 'F', { term: '202610' }),
+      ],
+      currentCourses: ['CSCD 211'],
+    });
+
+    expect(states.get('CSCD 210')!.status).toBe('completed');
+    expect(states.get('CSCD 211')!.status).toBe('in-progress');
+    expect(states.get('CSCD 240')!.status).toBe('available');
+    expect(states.get('CSCD 300')!.status).toBe('available');
+    expect(states.get('CSCD 427')).toEqual({ status: 'blocked', missing: ['CSCD 300', 'CSCD 240'] });
+  });
+
+  it("doesn't count a grade below the program's minimum as completed", () => {
+    const graph = buildPrerequisiteGraph(
+      program([{ ...requirement('CSCD 210'), minimumGrade: 'C+' }, requirement('CSCD 211', ['CSCD 210'])])
+    );
+    const states = getPersonaCourseStates(graph, {
+      completedCourses: [taken('CSCD 210', 'C-')],
+      currentCourses: [],
+    });
+
+    expect(states.get('CSCD 210')!.status).toBe('available');
+    expect(states.get('CSCD 211')).toEqual({ status: 'blocked', missing: ['CSCD 210'] });
+  });
+});
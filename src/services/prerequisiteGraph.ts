@@ -0,0 +1,263 @@
+/**
+ * =============================================================================
+ * SERVICE: prerequisiteGraph
+ * =============================================================================
+ *
+ * PURPOSE: Build the prerequisite graph for a degree program and measure it:
+ * how deep each course sits, which courses depend on it, and how long the
+ * longest chain after it is. A persona's history is then laid over the graph
+ * to show what is done, what can be taken next and what is still blocked.
+ *
+ * SOURCES:
+ * - The program's CourseRequirement.prerequisites are authoritative for the
+ *   courses in the program
+ * - The catalog index listings (findCatalogListing, so aliases resolve)
+ *   fill in what the program data leaves out:
+ *   prerequisites of program courses that list none (CSCD 210 needs
+ *   MATH 114 and CSCD 110) and, recursively, of the courses that brings in
+ * - Catalog prose is read through the expression tree the index was built
+ *   with (prerequisiteParser); only courses required whichever alternative is
+ *   taken add an edge, so "CSCD 240 or EENG 255" adds none
+ *
+ * METRICS:
+ * - depth: 0 with no prerequisites, otherwise 1 + the deepest prerequisite
+ * - criticalPathLength: 0 with no dependents, otherwise 1 + the longest
+ *   dependent chain
+ * - A course is on the critical path when depth + criticalPathLength equals
+ *   the longest chain in the graph
+ *
+ * PERSONA STATES:
+ * - A course is completed when the best attempt meets its minimumGrade (the
+ *   program's, or any passing grade for courses outside the program), so a
+ *   C- in a course the program requires at C+ is not completed
+ *
+ * Cycles should never occur in valid data. When they do, they are reported
+ * and the edge closing each loop is ignored for depth and path lengths.
+ * =============================================================================
+ */
+
+import type {
+  CourseStatus,
+  DegreeProgram,
+  LetterGrade,
+  PrerequisiteGraph,
+  PrerequisiteNode,
+  StudentPersona,
+} from '../types/advising';
+import type { CatalogIndexFile, CatalogListing } from '../types/catalog';
+import { getAllProgramCourses } from './catalogParser';
+import { findCatalogListing } from './catalogListings';
+import { getBestAttempts } from './degreeAudit';
+import { getInProgressCourses, meetsMinimumGrade } from './graduationPlanner';
+import { PASSING_GRADE, getPrerequisiteTree, getRequiredCourses, parsePrerequisites } from './prerequisiteParser';
+
+export type PrerequisiteMapStatus = Extract<CourseStatus, 'completed' | 'in-progress' | 'available' | 'blocked'>;
+
+export interface PrerequisiteCourseState {
+  status: PrerequisiteMapStatus;
+  /** Prerequisites not yet completed or in progress */
+  missing: string[];
+}
+
+/**
+ * Course codes a catalog prerequisite statement requires outright
+ *
+ * "CSCD 240 ≥ C+; and CSCD 260 ≥ C+ or EENG 260 ≥ C+" → ["CSCD 240"]
+ */
+export function extractRequiredCourses(prose: string | undefined): string[] {
+  return getRequiredCourses(parsePrerequisites(prose).expression);
+}
+
+function catalogRequiredCourses(listing: CatalogListing | null): string[] {
+  return listing ? getRequiredCourses(getPrerequisiteTree(listing).expression) : [];
+}
+
+/**
+ * Loops in the prerequisite relation, found by depth-first search
+ */
+function findCycles(prerequisites: Map<string, string[]>): { cycles: string[][]; backEdges: Set<string> } {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const backEdges = new Set<string>();
+
+  const visit = (code: string) => {
+    state.set(code, 'visiting');
+    stack.push(code);
+    for (const prereq of prerequisites.get(code) ?? []) {
+      const prereqState = state.get(prereq);
+      if (prereqState === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(prereq)));
+        backEdges.add(`${code}->${prereq}`);
+      } else if (!prereqState) {
+        visit(prereq);
+      }
+    }
+    stack.pop();
+    state.set(code, 'done');
+  };
+
+  for (const code of Array.from(prerequisites.keys()).sort()) {
+    if (!state.has(code)) visit(code);
+  }
+  return { cycles, backEdges };
+}
+
+/**
+ * Build the prerequisite graph for a program, filling gaps from the catalog
+ */
+export function buildPrerequisiteGraph(
+  program: DegreeProgram,
+  catalog: CatalogIndexFile | null = null
+): PrerequisiteGraph {
+  const listingFor = (code: string) => (catalog ? findCatalogListing(catalog, code) : null);
+  const titles = new Map<string, string>();
+  const minimumGrades = new Map<string, LetterGrade>();
+  const prerequisites = new Map<string, string[]>();
+
+  for (const requirement of getAllProgramCourses(program)) {
+    if (prerequisites.has(requirement.courseCode)) continue;
+    titles.set(requirement.courseCode, requirement.title);
+    minimumGrades.set(requirement.courseCode, requirement.minimumGrade);
+    prerequisites.set(
+      requirement.courseCode,
+      requirement.prerequisites.length > 0
+        ? [...requirement.prerequisites]
+        : catalogRequiredCourses(listingFor(requirement.courseCode))
+    );
+  }
+
+  // Pull in referenced courses that are outside the program
+  const pending = Array.from(prerequisites.values()).flat();
+  while (pending.length > 0) {
+    const code = pending.pop()!;
+    if (prerequisites.has(code)) continue;
+    const listing = listingFor(code);
+    titles.set(code, listing?.title ?? code);
+    const required = catalogRequiredCourses(listing);
+    prerequisites.set(code, required);
+    pending.push(...required);
+  }
+
+  const { cycles, backEdges } = findCycles(prerequisites);
+  const dependents = new Map<string, string[]>(Array.from(prerequisites.keys(), (code) => [code, []]));
+  for (const [code, prereqs] of prerequisites) {
+    for (const prereq of prereqs) dependents.get(prereq)!.push(code);
+  }
+
+  const depths = new Map<string, number>();
+  const depthOf = (code: string): number => {
+    const known = depths.get(code);
+    if (known !== undefined) return known;
+    const prereqs = (prerequisites.get(code) ?? []).filter((p) => !backEdges.has(`${code}->${p}`));
+    const depth = prereqs.length === 0 ? 0 : 1 + Math.max(...prereqs.map(depthOf));
+    depths.set(code, depth);
+    return depth;
+  };
+
+  const pathLengths = new Map<string, number>();
+  const pathLengthOf = (code: string): number => {
+    const known = pathLengths.get(code);
+    if (known !== undefined) return known;
+    const next = (dependents.get(code) ?? []).filter((d) => !backEdges.has(`${d}->${code}`));
+    const length = next.length === 0 ? 0 : 1 + Math.max(...next.map(pathLengthOf));
+    pathLengths.set(code, length);
+    return length;
+  };
+
+  const nodes = new Map<string, PrerequisiteNode>();
+  for (const code of Array.from(prerequisites.keys()).sort()) {
+    nodes.set(code, {
+      courseCode: code,
+      title: titles.get(code) ?? code,
+      prerequisites: prerequisites.get(code)!,
+      dependents: dependents.get(code)!.sort(),
+      minimumGrade: minimumGrades.get(code) ?? PASSING_GRADE,
+      depth: depthOf(code),
+      criticalPathLength: pathLengthOf(code),
+    });
+  }
+
+  const all = Array.from(nodes.values());
+  return {
+    nodes,
+    entryPoints: all.filter((n) => n.prerequisites.length === 0).map((n) => n.courseCode),
+    terminalCourses: all.filter((n) => n.dependents.length === 0).map((n) => n.courseCode),
+    maxDepth: all.reduce((max, n) => Math.max(max, n.depth), 0),
+    cycles,
+  };
+}
+
+/**
+ * Courses on the longest prerequisite chain(s)
+ */
+export function getCriticalPathCourses(graph: PrerequisiteGraph): Set<string> {
+  const nodes = Array.from(graph.nodes.values());
+  const longest = nodes.reduce((max, n) => Math.max(max, n.depth + n.criticalPathLength), 0);
+  if (longest === 0) return new Set();
+  return new Set(nodes.filter((n) => n.depth + n.criticalPathLength === longest).map((n) => n.courseCode));
+}
+
+/**
+ * Every course that must come before `courseCode`, directly or not
+ */
+export function getAllPrerequisitesOf(graph: PrerequisiteGraph, courseCode: string): Set<string> {
+  const seen = new Set<string>();
+  const pending = [...(graph.nodes.get(courseCode)?.prerequisites ?? [])];
+  while (pending.length > 0) {
+    const code = pending.pop()!;
+    if (seen.has(code)) continue;
+    seen.add(code);
+    pending.push(...(graph.nodes.get(code)?.prerequisites ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Every course that `courseCode` unlocks, directly or not
+ */
+export function getAllDependentsOf(graph: PrerequisiteGraph, courseCode: string): Set<string> {
+  const seen = new Set<string>();
+  const pending = [...(graph.nodes.get(courseCode)?.dependents ?? [])];
+  while (pending.length > 0) {
+    const code = pending.pop()!;
+    if (seen.has(code)) continue;
+    seen.add(code);
+    pending.push(...(graph.nodes.get(code)?.dependents ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Where a persona stands on every course in the graph
+ *
+ * In-progress courses count toward the next quarter, so a course whose
+ * prerequisites are all completed or in progress is available. A course is
+ * completed when the best attempt reaches the node's minimumGrade.
+ */
+export function getPersonaCourseStates(
+  graph: PrerequisiteGraph,
+  persona: Pick<StudentPersona, 'completedCourses' | 'currentCourses'>
+): Map<string, PrerequisiteCourseState> {
+  const best = getBestAttempts(persona.completedCourses);
+  const completed = new Set(
+    Array.from(graph.nodes.values())
+      .filter((node) => meetsMinimumGrade(best.get(node.courseCode)?.grade ?? null, node.minimumGrade))
+      .map((node) => node.courseCode)
+  );
+  const inProgress = getInProgressCourses(persona);
+
+  const states = new Map<string, PrerequisiteCourseState>();
+  for (const node of graph.nodes.values()) {
+    const missing = node.prerequisites.filter((p) => !completed.has(p) && !inProgress.has(p));
+    const status: PrerequisiteMapStatus = completed.has(node.courseCode)
+      ? 'completed'
+      : inProgress.has(node.courseCode)
+        ? 'in-progress'
+        : missing.length === 0
+          ? 'available'
+          : 'blocked';
+    states.set(node.courseCode, { status, missing });
+  }
+  return states;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { describePrerequisites, getRequiredCourses, parsePrerequisites } from './prerequisiteParser';
+
+describe('prerequisiteParser', () => {
+  it('parses alternatives with a trailing grade for the whole clause', () => {
+    const { expression, unparsed } = parsePrerequisites('CSCD 210 and (MATH 161 or MATH 142) with a grade of C or better.');
+
+    expect(unparsed).toEqual([]);
+    expect(expression).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'course', courseCode: 'CSCD 210', minimumGrade: 'C', concurrent: false },
+        {
+          type: 'or',
+          operands: [
+            { type: 'course', courseCode: 'MATH 161', minimumGrade: 'C', concurrent: false },
+            { type: 'course', courseCode: 'MATH 142', minimumGrade: 'C', concurrent: false },
+          ],
+        },
+      ],
+    });
+    expect(getRequiredCourses(expression)).toEqual(['CSCD 210']);
+  });
+
+  it('reads catalog shorthand for labs, per-course grades and subject grades', () => {
+    expect(describePrerequisites(parsePrerequisites('CSCD 377 & 377L ≥ C+ or equivalent').expression!)).toBe(
+      '(CSCD 377 ≥ C+ and CSCD 377L ≥ C+) or equivalent'
+    );
+    expect(describePrerequisites(parsePrerequisites('CSCD 240 and CSCD 300 ≥ C+, APE clearance').expression!)).toBe(
+      'CSCD 240 ≥ C+ and CSCD 300 ≥ C+ and APE clearance'
+    );
+    expect(
+      describePrerequisites(parsePrerequisites('CSCD 320 and MATH 225 (CSCD ≥ C+, supporting ≥ C)').expression!)
+    ).toBe('CSCD 320 ≥ C+ and MATH 225 ≥ C');
+  });
+
+  it('marks concurrent enrollment and permission', () => {
+    const { expression } = parsePrerequisites('MATH 161 (may be taken concurrently) or permission of the instructor');
+
+    expect(expression).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'course', courseCode: 'MATH 161', concurrent: true },
+        { type: 'permission', text: 'permission of the instructor' },
+      ],
+    });
+  });
+
+  it('reads alternatives after a grade phrase', () => {
+    const { expression, unparsed } = parsePrerequisites('CSCD 110 with a minimum grade of C+ or permission of the instructor.');
+
+    expect(unparsed).toEqual([]);
+    expect(expression).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'course', courseCode: 'CSCD 110', minimumGrade: 'C+', concurrent: false },
+        { type: 'permission', text: 'permission of the instructor' },
+      ],
+    });
+    expect(
+      describePrerequisites(parsePrerequisites('CSCD 210 and CSCD 211 with a grade of C or better or MATH 301').expression!)
+    ).toBe('(CSCD 210 ≥ C and CSCD 211 ≥ C) or MATH 301');
+  });
+
+  it('keeps the closing parenthesis of a group that ends in concurrent enrollment', () => {
+    const leading = parsePrerequisites('(MATH 142 or concurrent enrollment) and CSCD 210');
+    expect(leading.unparsed).toEqual([]);
+    expect(leading.expression).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'course', courseCode: 'MATH 142', concurrent: true },
+        { type: 'course', courseCode: 'CSCD 210', concurrent: false },
+      ],
+    });
+
+    const trailing = parsePrerequisites('CSCD 300 and (MATH 161 or concurrent enrollment)');
+    expect(trailing.unparsed).toEqual([]);
+    expect(describePrerequisites(trailing.expression!)).toBe('CSCD 300 and MATH 161 (may be concurrent)');
+  });
+
+  it('reports text it cannot read for manual review', () => {
+    const partial = parsePrerequisites('CSCD 210 and a strong interest in compilers');
+    expect(partial.unparsed).toEqual(['a strong interest in compilers']);
+    expect(partial.expression?.type).toBe('and');
+
+    expect(parsePrerequisites('CSCD 210 and (MATH 161')).toEqual({
+      expression: null,
+      unparsed: ['CSCD 210 and (MATH 161'],
+    });
+    expect(parsePrerequisites('')).toEqual({ expression: null, unparsed: [] });
+  });
+});
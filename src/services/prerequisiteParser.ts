@@ -0,0 +1,398 @@
+/**
+ * =============================================================================
+ * SERVICE: prerequisiteParser
+ * =============================================================================
+ *
+ * PURPOSE: Turn catalog prerequisite prose into a PrerequisiteExpression
+ * tree, so checks can tell "A and B" from "A or B", know the grade each
+ * course needs, and see what only a person can sign off on.
+ *
+ * GRAMMAR (loosest to tightest):
+ * - "," and ";" separate clauses that are all required ("; and" too)
+ * - "and" joins required courses
+ * - "or" joins alternatives
+ * - "&" joins a lecture and its lab; a bare number ("474L") keeps the
+ *   subject of the course before it
+ * - Parentheses group
+ *
+ * GRADES:
+ * - "≥ C+" applies to the course or "&" group right before it. After the
+ *   last of several courses joined by "and" it covers them all
+ *   ("CSCD 240 and CSCD 300 ≥ C+").
+ * - "(both ≥ C+)", "with a grade of C or better" and
+ *   "(CSCD ≥ C+, supporting ≥ C)" cover every course before them in the
+ *   clause that has no grade of its own. An "or" after one of these offers
+ *   an alternative to everything it covers.
+ *
+ * OTHER:
+ * - "may be taken concurrently", "or concurrent enrollment" and
+ *   "concurrent enrollment in" mark a course as allowed in the same quarter
+ * - "permission of ..." becomes a permission node; standing, APE clearance
+ *   and "equivalent" become condition nodes
+ * - Any other text becomes a condition node and is listed in `unparsed`
+ * =============================================================================
+ */
+
+import type { CourseRequirement, LetterGrade } from '../types/advising';
+import type { CatalogListing, ParsedPrerequisites, PrerequisiteExpression } from '../types/catalog';
+
+/** Grade a prerequisite on a program's list needs when the program names none */
+export const DEFAULT_MINIMUM_GRADE: LetterGrade = 'C';
+
+/** Lowest passing grade, for prerequisites that name no grade */
+export const PASSING_GRADE: LetterGrade = 'D-';
+
+/** A single course in a prerequisite tree */
+export type PrerequisiteCourse = Extract<PrerequisiteExpression, { type: 'course' }>;
+
+const GRADE = '([A-D][+-]?|F|P)';
+const CONCURRENT = 'may be taken concurrently|or concurrent(?:ly|\\s+enrollment)?|concurrent enrollment allowed';
+
+type Token =
+  | { kind: 'course'; subject: string; number: string }
+  | { kind: 'number'; number: string }
+  | { kind: 'grade'; grade: LetterGrade }
+  | { kind: 'groupGrade'; grade: LetterGrade }
+  | { kind: 'subjectGrades'; subject: string; grade: LetterGrade; otherGrade: LetterGrade }
+  | { kind: 'concurrent' }
+  | { kind: 'concurrentPrefix' }
+  | { kind: 'permission'; text: string }
+  | { kind: 'condition'; text: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'and' }
+  | { kind: 'or' }
+  | { kind: 'amp' }
+  | { kind: 'sep' }
+  | { kind: 'lparen' }
+  | { kind: 'rparen' };
+
+// Tried in order at each position; the first match wins
+const TOKEN_RULES: { pattern: RegExp; token: (m: RegExpExecArray) => Token }[] = [
+  { pattern: /(?:permission|consent) of [^.;)]*[^.;)\s]/iy, token: (m) => ({ kind: 'permission', text: m[0] }) },
+  { pattern: new RegExp(`\\(\\s*both\\s*(?:≥|>=)\\s*${GRADE}\\s*\\)`, 'iy'), token: (m) => ({ kind: 'groupGrade', grade: m[1].toUpperCase() as LetterGrade }) },
+  {
+    pattern: new RegExp(`\\(\\s*([A-Z]{2,4})\\s*(?:≥|>=)\\s*${GRADE}\\s*,\\s*supporting\\s*(?:≥|>=)\\s*${GRADE}\\s*\\)`, 'y'),
+    token: (m) => ({ kind: 'subjectGrades', subject: m[1], grade: m[2] as LetterGrade, otherGrade: m[3] as LetterGrade }),
+  },
+  {
+    pattern: new RegExp(`(?:with\\s+)?(?:an?\\s+)?(?:minimum\\s+)?grade\\s+of\\s+${GRADE}(?:\\s+or\\s+(?:better|higher|above))?`, 'iy'),
+    token: (m) => ({ kind: 'groupGrade', grade: m[1].toUpperCase() as LetterGrade }),
+  },
+  { pattern: new RegExp(`(?:≥|>=)\\s*${GRADE}`, 'y'), token: (m) => ({ kind: 'grade', grade: m[1] as LetterGrade }) },
+  // Only a parenthesis the phrase opens is its own; otherwise it closes an enclosing group
+  {
+    pattern: new RegExp(`\\(\\s*(?:${CONCURRENT})\\s*\\)|(?:${CONCURRENT})`, 'iy'),
+    token: () => ({ kind: 'concurrent' }),
+  },
+  { pattern: /concurrent (?:enrollment in|with)\b/iy, token: () => ({ kind: 'concurrentPrefix' }) },
+  { pattern: /([A-Z]{2,4})\s*(\d{3}[A-Z]?)\b/y, token: (m) => ({ kind: 'course', subject: m[1], number: m[2] }) },
+  { pattern: /(\d{3}[A-Z]?)\b/y, token: (m) => ({ kind: 'number', number: m[1] }) },
+  {
+    pattern: /(?:APE|advanced programming exam) clearance|(?:graduate|senior|junior|sophomore|upper-division) standing|equivalent\b/iy,
+    token: (m) => ({ kind: 'condition', text: m[0] }),
+  },
+  { pattern: /&/y, token: () => ({ kind: 'amp' }) },
+  { pattern: /and\b/iy, token: () => ({ kind: 'and' }) },
+  { pattern: /or\b/iy, token: () => ({ kind: 'or' }) },
+  { pattern: /[,;]/y, token: () => ({ kind: 'sep' }) },
+  { pattern: /\(/y, token: () => ({ kind: 'lparen' }) },
+  { pattern: /\)/y, token: () => ({ kind: 'rparen' }) },
+];
+
+function tokenize(prose: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < prose.length) {
+    const space = /\s+/y;
+    space.lastIndex = position;
+    if (space.exec(prose)) {
+      position = space.lastIndex;
+      continue;
+    }
+
+    let matched = false;
+    for (const rule of TOKEN_RULES) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(prose);
+      if (match) {
+        tokens.push(rule.token(match));
+        position = rule.pattern.lastIndex;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) continue;
+
+    // Unrecognized word; consecutive words make one text token
+    const word = /[^\s,;()&]+/y;
+    word.lastIndex = position;
+    const text = word.exec(prose)?.[0] ?? prose[position];
+    position += text.length;
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'text') last.text += ` ${text}`;
+    else tokens.push({ kind: 'text', text });
+  }
+
+  return tokens;
+}
+
+function coursesIn(expression: PrerequisiteExpression): PrerequisiteCourse[] {
+  if (expression.type === 'course') return [expression];
+  if (expression.type === 'and' || expression.type === 'or') return expression.operands.flatMap(coursesIn);
+  return [];
+}
+
+function applyGrade(expression: PrerequisiteExpression, grade: (courseCode: string) => LetterGrade): void {
+  for (const course of coursesIn(expression)) {
+    if (!course.minimumGrade) course.minimumGrade = grade(course.courseCode);
+  }
+}
+
+function combine(type: 'and' | 'or', operands: PrerequisiteExpression[]): PrerequisiteExpression {
+  if (operands.length === 1) return operands[0];
+  return { type, operands: operands.flatMap((o) => (o.type === type ? o.operands : [o])) };
+}
+
+/**
+ * Recursive descent over the tokens, one function per precedence level
+ *
+ * @throws SyntaxError when the tokens don't form an expression
+ */
+function parseTokens(tokens: Token[]): ParsedPrerequisites {
+  let index = 0;
+  let lastSubject: string | null = null;
+  const unparsed: string[] = [];
+
+  const peek = (): Token | undefined => tokens[index];
+
+  const accept = <K extends Token['kind']>(kind: K): Extract<Token, { kind: K }> | null => {
+    const token = peek();
+    if (token?.kind !== kind) return null;
+    index += 1;
+    return token as Extract<Token, { kind: K }>;
+  };
+
+  const clauses = (): PrerequisiteExpression => {
+    const operands = [andChain()];
+    while (accept('sep')) {
+      accept('and');
+      const next = peek();
+      if (!next || next.kind === 'rparen') break;
+      operands.push(andChain());
+    }
+    return combine('and', operands);
+  };
+
+  const andChain = (): PrerequisiteExpression => {
+    const operands = [orChain()];
+    while (accept('and')) operands.push(orChain());
+
+    // "CSCD 240 and CSCD 300 ≥ C+": the last grade covers the ungraded courses before it
+    const lastGrades = new Set(coursesIn(operands[operands.length - 1]).map((c) => c.minimumGrade));
+    const earlier = operands.slice(0, -1).flatMap(coursesIn);
+    if (earlier.length > 0 && lastGrades.size === 1 && earlier.every((c) => !c.minimumGrade)) {
+      const [grade] = lastGrades;
+      if (grade) for (const course of earlier) course.minimumGrade = grade;
+    }
+
+    const expression = combine('and', operands);
+    let graded = false;
+    for (;;) {
+      const group = accept('groupGrade');
+      if (group) {
+        applyGrade(expression, () => group.grade);
+        graded = true;
+        continue;
+      }
+      const bySubject = accept('subjectGrades');
+      if (bySubject) {
+        applyGrade(expression, (code) => (code.startsWith(`${bySubject.subject} `) ? bySubject.grade : bySubject.otherGrade));
+        graded = true;
+        continue;
+      }
+      break;
+    }
+
+    // "CSCD 110 with a minimum grade of C+ or permission": the grade closes the group it covers
+    if (graded && accept('or')) return combine('or', [expression, andChain()]);
+    return expression;
+  };
+
+  const orChain = (): PrerequisiteExpression => {
+    const operands = [ampChain()];
+    while (accept('or')) operands.push(ampChain());
+    return combine('or', operands);
+  };
+
+  const ampChain = (): PrerequisiteExpression => {
+    const operands = [unit()];
+    while (accept('amp')) operands.push(unit());
+    const expression = combine('and', operands);
+
+    for (;;) {
+      const grade = accept('grade');
+      if (grade) {
+        applyGrade(expression, () => grade.grade);
+        continue;
+      }
+      if (accept('concurrent')) {
+        for (const course of coursesIn(expression)) course.concurrent = true;
+        continue;
+      }
+      return expression;
+    }
+  };
+
+  const unit = (): PrerequisiteExpression => {
+    const token = peek();
+    index += 1;
+
+    switch (token?.kind) {
+      case 'course':
+        lastSubject = token.subject;
+        return { type: 'course', courseCode: `${token.subject} ${token.number}`, concurrent: false };
+      case 'number':
+        if (!lastSubject) throw new SyntaxError(`No subject for ${token.number}`);
+        return { type: 'course', courseCode: `${lastSubject} ${token.number}`, concurrent: false };
+      case 'lparen': {
+        const inner = clauses();
+        if (!accept('rparen')) throw new SyntaxError('Unclosed parenthesis');
+        return inner;
+      }
+      case 'concurrentPrefix': {
+        const inner = unit();
+        for (const course of coursesIn(inner)) course.concurrent = true;
+        return inner;
+      }
+      case 'permission':
+        return { type: 'permission', text: token.text };
+      case 'condition':
+        return { type: 'condition', text: token.text };
+      case 'text':
+        unparsed.push(token.text);
+        return { type: 'condition', text: token.text };
+      default:
+        throw new SyntaxError(`Unexpected ${token?.kind ?? 'end of text'}`);
+    }
+  };
+
+  if (tokens.length === 0) return { expression: null, unparsed };
+  const expression = clauses();
+  if (index < tokens.length) throw new SyntaxError(`Unexpected ${peek()?.kind}`);
+  return { expression, unparsed };
+}
+
+/**
+ * Parse catalog prerequisite prose
+ *
+ * Text the parser can't make sense of at all comes back whole in `unparsed`
+ * with a null expression.
+ */
+export function parsePrerequisites(prose: string | undefined): ParsedPrerequisites {
+  const text = (prose ?? '').trim().replace(/\.+$/, '');
+  if (!text) return { expression: null, unparsed: [] };
+
+  try {
+    return parseTokens(tokenize(text));
+  } catch (error) {
+    if (error instanceof SyntaxError) return { expression: null, unparsed: [text] };
+    throw error;
+  }
+}
+
+/**
+ * A listing's parsed prerequisites, parsing them if the index doesn't have them
+ */
+export function getPrerequisiteTree(listing: CatalogListing): ParsedPrerequisites {
+  return listing.prerequisiteTree ?? parsePrerequisites(listing.prerequisites);
+}
+
+/**
+ * A course's prerequisites: the catalog listing's tree when it has one,
+ * otherwise the program's list with every course required
+ *
+ * @param gradeOf - Grade a course on the program's list needs
+ */
+export function getCoursePrerequisites(
+  listing: CatalogListing | null,
+  requirement: CourseRequirement | undefined,
+  gradeOf: (courseCode: string) => LetterGrade
+): ParsedPrerequisites {
+  const tree = listing ? getPrerequisiteTree(listing) : null;
+  const listed = requirement?.prerequisites ?? [];
+  const fallback: PrerequisiteExpression | null =
+    listed.length > 0
+      ? {
+          type: 'and',
+          operands: listed.map((courseCode) => ({
+            type: 'course' as const,
+            courseCode,
+            minimumGrade: gradeOf(courseCode),
+            concurrent: false,
+          })),
+        }
+      : null;
+  return { expression: tree?.expression ?? fallback, unparsed: tree?.unparsed ?? [] };
+}
+
+export type PrerequisiteOutcome = 'met' | 'unmet' | 'review';
+
+/**
+ * Whether a tree is satisfied, given which of its courses are
+ *
+ * Permission and other conditions need a person, so they come back as
+ * 'review'. An "or" takes its best operand and an "and" its worst.
+ */
+export function evaluatePrerequisites(
+  expression: PrerequisiteExpression,
+  courseMet: (course: PrerequisiteCourse) => boolean
+): PrerequisiteOutcome {
+  switch (expression.type) {
+    case 'course':
+      return courseMet(expression) ? 'met' : 'unmet';
+    case 'and': {
+      const outcomes = expression.operands.map((o) => evaluatePrerequisites(o, courseMet));
+      return outcomes.includes('unmet') ? 'unmet' : outcomes.includes('review') ? 'review' : 'met';
+    }
+    case 'or': {
+      const outcomes = expression.operands.map((o) => evaluatePrerequisites(o, courseMet));
+      return outcomes.includes('met') ? 'met' : outcomes.includes('review') ? 'review' : 'unmet';
+    }
+    default:
+      return 'review';
+  }
+}
+
+/**
+ * Courses needed no matter which alternative is taken
+ *
+ * and(CSCD 240, or(CSCD 260, EENG 260)) → ["CSCD 240"]
+ */
+export function getRequiredCourses(expression: PrerequisiteExpression | null): string[] {
+  if (!expression) return [];
+  if (expression.type === 'course') return [expression.courseCode];
+  if (expression.type === 'and') return [...new Set(expression.operands.flatMap(getRequiredCourses))];
+  return [];
+}
+
+/**
+ * Readable form of an expression, e.g. "CSCD 240 ≥ C+ and (CSCD 260 ≥ C+ or EENG 260 ≥ C+)"
+ */
+export function describePrerequisites(expression: PrerequisiteExpression): string {
+  switch (expression.type) {
+    case 'course':
+      return `${expression.courseCode}${expression.minimumGrade ? ` ≥ ${expression.minimumGrade}` : ''}${
+        expression.concurrent ? ' (may be concurrent)' : ''
+      }`;
+    case 'and':
+    case 'or':
+      return expression.operands
+        .map((operand) =>
+          operand.type === 'and' || operand.type === 'or' ? `(${describePrerequisites(operand)})` : describePrerequisites(operand)
+        )
+        .join(` ${expression.type} `);
+    default:
+      return expression.text;
+  }
+}
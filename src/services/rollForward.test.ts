@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findStaleReferences,
+  getBannerTermDescription,
+  getRollForwardTerm,
+  rollForwardTerm,
+} from './rollForward';
+import { parseScheduleData } from './scheduleParser';
+import { mockBannerCourse, mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { Course } from '../types/schedule';
+
+describe('rollForward', () => {
+  it('targets the same quarter next year', () => {
+    expect(getRollForwardTerm('202540')).toBe('202640');
+    expect(getRollForwardTerm('202610')).toBe('202710');
+    expect(getBannerTermDescription('202640')).toBe('Fall Quarter 2026');
+  });
+
+  it('carries times, rooms and instructors into the new term with enrollment reset', () => {
+    const source = { success: true, totalCount: 1, data: [{ ...mockBannerCourse, enrollment: 30, waitCount: 4 }] };
+    const [original] = parseScheduleData(source);
+
+    const result = rollForwardTerm(source, '202540');
+    const [rolled] = result.courses;
+
+    expect(result.targetTerm).toBe('202640');
+    expect(rolled.term).toBe('202640');
+    expect(rolled.termDescription).toBe('Fall Quarter 2026');
+    expect(rolled.meetings).toEqual(
+      // 52 weeks later, so Monday 03/30/2026 stays a Monday
+      original.meetings.map((m) => ({ ...m, startDate: '03/29/2027', endDate: '06/11/2027' }))
+    );
+    expect(rolled.instructor).toEqual(original.instructor);
+    expect(rolled.enrollment).toMatchObject({ current: 0, waitlist: 0, available: original.enrollment.maximum });
+
+    const meetingTime = result.data.data[0].meetingsFaculty[0].meetingTime;
+    expect(meetingTime.startDate).toBe('03/29/2027');
+
+    const leapDay = {
+      ...mockBannerCourse,
+      meetingsFaculty: mockBannerCourse.meetingsFaculty.map((mf) => ({
+        ...mf,
+        meetingTime: { ...mf.meetingTime, startDate: '02/29/2028' },
+      })),
+    };
+    const rolledLeapDay = rollForwardTerm({ success: true, totalCount: 1, data: [leapDay] }, '202820');
+    expect(rolledLeapDay.data.data[0].meetingsFaculty[0].meetingTime.startDate).toBe('02/27/2029');
+    // The source data is left untouched
+    expect(source.data[0].term).toBe(mockBannerCourse.term);
+  });
+
+  it('reports instructors and rooms missing from the reference terms', () => {
+    const [course] = parseScheduleData(mockScheduleResponse);
+    const departed: Course = {
+      ...course,
+      crn: '99999',
+      instructor: { ...course.instructor!, displayName: 'Roe, Rick', email: 'rroe@ewu.edu' },
+      meetings: course.meetings.map((m) => ({ ...m, building: 'OLD', room: '101', location: 'OLD 101' })),
+    };
+
+    const stale = findStaleReferences([course, departed], new Map([['202610', [course]]]));
+
+    expect(stale).toEqual([
+      { kind: 'instructor', crn: '99999', displayCode: course.displayCode, section: course.section, value: 'Roe, Rick' },
+      { kind: 'room', crn: '99999', displayCode: course.displayCode, section: course.section, value: 'OLD 101' },
+    ]);
+    expect(findStaleReferences([departed], new Map())).toEqual([]);
+  });
+});
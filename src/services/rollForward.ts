@@ -0,0 +1,189 @@
+/**
+ * =============================================================================
+ * SERVICE: rollForward
+ * =============================================================================
+ *
+ * PURPOSE: Start next year's schedule from a prior term. Every section of
+ * the source term is copied to the same quarter one year later
+ * (addQuarters(term, 4)) with its times, rooms and instructors intact.
+ *
+ * OUTPUT: A Banner-shaped BannerDataResponse, so the result can be saved as
+ * a term file, re-imported from the header, or opened directly in the
+ * What-If editor.
+ *
+ * CARRY-OVER RULES:
+ * - Enrollment and waitlist counts are reset; capacities are kept
+ * - Meeting start/end dates move forward 52 weeks, so they stay on the
+ *   same weekday
+ * - CRNs are kept as placeholders until the registrar assigns new ones
+ *
+ * STALE REFERENCES: A section whose instructor or room does not appear in
+ * any reference term (the terms published after the source, or the newest
+ * ones before it when the source is the latest) is
+ * reported, since that person may have left or the room may be gone.
+ * =============================================================================
+ */
+
+import type { BannerCourse, BannerDataResponse, Course } from '../types/schedule';
+import { addQuarters, parseTerm, QUARTER_NAMES } from '../constants/academicTerms';
+import { parseScheduleData } from './scheduleParser';
+import { normalizeEmail } from './facultyAvailability';
+
+export type StaleReferenceKind = 'instructor' | 'room';
+
+export interface StaleReference {
+  kind: StaleReferenceKind;
+  crn: string;
+  displayCode: string;
+  section: string;
+  /** Instructor display name or room location */
+  value: string;
+}
+
+export interface RollForwardResult {
+  sourceTerm: string;
+  targetTerm: string;
+  data: BannerDataResponse;
+  courses: Course[];
+  stale: StaleReference[];
+  /** Terms the stale check compared against */
+  referenceTerms: string[];
+}
+
+/**
+ * The term a source term rolls forward into: the same quarter next year
+ */
+export function getRollForwardTerm(sourceTerm: string): string {
+  return addQuarters(sourceTerm, 4);
+}
+
+/**
+ * Banner-style term description, e.g. "Fall Quarter 2026"
+ */
+export function getBannerTermDescription(termCode: string): string {
+  const { year, quarter } = parseTerm(termCode);
+  return `${QUARTER_NAMES[quarter]} Quarter ${year}`;
+}
+
+const DAYS_PER_YEAR_OF_WEEKS = 52 * 7;
+
+/**
+ * Move a Banner "MM/DD/YYYY" date forward by whole days
+ */
+function shiftBannerDate(date: string, days: number): string {
+  const match = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return date;
+  const shifted = new Date(Date.UTC(Number(match[3]), Number(match[1]) - 1, Number(match[2]) + days));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(shifted.getUTCMonth() + 1)}/${pad(shifted.getUTCDate())}/${shifted.getUTCFullYear()}`;
+}
+
+function rollForwardCourse(course: BannerCourse, targetTerm: string, termDesc: string): BannerCourse {
+  return {
+    ...course,
+    term: targetTerm,
+    termDesc,
+    enrollment: 0,
+    seatsAvailable: course.maximumEnrollment,
+    waitCount: 0,
+    waitAvailable: course.waitCapacity,
+    crossListCount: course.crossListCapacity === null ? null : 0,
+    crossListAvailable: course.crossListCapacity,
+    openSection: true,
+    faculty: course.faculty.map((f) => ({ ...f, term: targetTerm })),
+    meetingsFaculty: course.meetingsFaculty.map((mf) => ({
+      ...mf,
+      term: targetTerm,
+      faculty: mf.faculty.map((f) => ({ ...f, term: targetTerm })),
+      meetingTime: mf.meetingTime && {
+        ...mf.meetingTime,
+        term: targetTerm,
+        startDate: shiftBannerDate(mf.meetingTime.startDate, DAYS_PER_YEAR_OF_WEEKS),
+        endDate: shiftBannerDate(mf.meetingTime.endDate, DAYS_PER_YEAR_OF_WEEKS),
+      },
+    })),
+    sectionAttributes: course.sectionAttributes.map((a) => ({ ...a, termCode: targetTerm })),
+  };
+}
+
+/**
+ * Copy a term's Banner data into the given target term
+ */
+export function rollForwardBannerData(
+  source: BannerDataResponse,
+  targetTerm: string
+): BannerDataResponse {
+  const termDesc = getBannerTermDescription(targetTerm);
+  const data = source.data.map((course) => rollForwardCourse(course, targetTerm, termDesc));
+  return { success: true, totalCount: data.length, data };
+}
+
+function instructorKey(course: Course): string | null {
+  const instructor = course.instructor;
+  if (!instructor?.displayName) return null;
+  return instructor.email ? normalizeEmail(instructor.email) : instructor.displayName;
+}
+
+function physicalRooms(course: Course): string[] {
+  return course.meetings
+    .filter((m) => m.building && m.room && m.location !== 'TBA' && m.location !== 'Online')
+    .map((m) => m.location);
+}
+
+/**
+ * Sections whose instructor or room appears in none of the reference terms
+ */
+export function findStaleReferences(
+  courses: Course[],
+  referenceTerms: Map<string, Course[]>
+): StaleReference[] {
+  if (referenceTerms.size === 0) return [];
+
+  const knownInstructors = new Set<string>();
+  const knownRooms = new Set<string>();
+  for (const termCourses of referenceTerms.values()) {
+    for (const course of termCourses) {
+      const key = instructorKey(course);
+      if (key) knownInstructors.add(key);
+      physicalRooms(course).forEach((room) => knownRooms.add(room));
+    }
+  }
+
+  const stale: StaleReference[] = [];
+  for (const course of courses) {
+    const ref = { crn: course.crn, displayCode: course.displayCode, section: course.section };
+
+    const key = instructorKey(course);
+    if (key && !knownInstructors.has(key)) {
+      stale.push({ ...ref, kind: 'instructor', value: course.instructor!.displayName });
+    }
+
+    for (const room of new Set(physicalRooms(course))) {
+      if (!knownRooms.has(room)) stale.push({ ...ref, kind: 'room', value: room });
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * Roll a source term forward one year and check it against reference terms
+ */
+export function rollForwardTerm(
+  source: BannerDataResponse,
+  sourceTerm: string,
+  referenceTerms: Map<string, Course[]> = new Map()
+): RollForwardResult {
+  const targetTerm = getRollForwardTerm(sourceTerm);
+  const data = rollForwardBannerData(source, targetTerm);
+  const courses = parseScheduleData(data);
+
+  return {
+    sourceTerm,
+    targetTerm,
+    data,
+    courses,
+    stale: findStaleReferences(courses, referenceTerms),
+    referenceTerms: Array.from(referenceTerms.keys()).sort(),
+  };
+}
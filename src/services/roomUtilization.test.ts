@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeRoomUtilization } from './roomUtilization';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { Course } from '../types/schedule';
+import type { RoomRecord } from '../types/rooms';
+
+describe('roomUtilization', () => {
+  const courses = parseScheduleData(mockScheduleResponse);
+  const cscd110 = courses.find((c) => c.displayCode === 'CSCD 110')!;
+  const noInventory = new Map<string, RoomRecord>();
+
+  const inRoom = (course: Course, location: string, startMinutes: number, endMinutes: number): Course => {
+    const [building, room] = location.split(' ');
+    return {
+      ...course,
+      id: `${course.id}-${location}-${startMinutes}`,
+      meetings: course.meetings.map((m) => ({ ...m, building, room, location, startMinutes, endMinutes })),
+    };
+  };
+
+  it('gives every physical room a row and leaves online sections out', () => {
+    const report = analyzeRoomUtilization(courses, noInventory);
+
+    expect(report.rooms.map((r) => r.roomKey)).toEqual(['CAT 221', 'CAT 222', 'CAT 223', 'CAT 224']);
+    expect(report.rooms[0]).toMatchObject({ buildingName: 'Catalyst Building', campus: 'Spokane U-District' });
+  });
+
+  it('counts stacked sections once and measures prime-time use', () => {
+    // Two sections stacked 9:00-11:00 MTWRF, one overlapping 10:00-12:00
+    const report = analyzeRoomUtilization([
+      inRoom(cscd110, 'CEB 101', 540, 660),
+      inRoom(cscd110, 'CEB 101', 540, 660),
+      inRoom(cscd110, 'CEB 101', 600, 720),
+    ], noInventory);
+    const [room] = report.rooms;
+
+    expect(room.weeklyMinutes).toBe(180 * 5);
+    expect(room.primeMinutes).toBe(180 * 5);
+    expect(room.primeUtilization).toBe(50);
+    // Schedule hours 8 AM through noon
+    expect(room.hourlyOccupancy.monday.slice(1, 6)).toEqual([0, 1, 1, 1, 0]);
+    expect(report.idleRooms).toEqual([]);
+  });
+
+  it('flags rooms used for little of prime time as idle', () => {
+    const report = analyzeRoomUtilization([inRoom(cscd110, 'CEB 101', 540, 660), inRoom(cscd110, 'CEB 102', 480, 530)], noInventory);
+
+    expect(report.idleRooms.map((r) => [r.roomKey, r.primeUtilization])).toEqual([['CEB 102', 0]]);
+    expect(report.averagePrimeUtilization).toBe(17);
+  });
+
+  it('lists recently used rooms in the same buildings with no bookings this term as idle', () => {
+    const record = (location: string, lastSeenTerm: string): RoomRecord => {
+      const [building, room] = location.split(' ');
+      return { location, building, room, capacity: 30, features: [], sectionCount: 4, lastSeenTerm };
+    };
+    const inventory = new Map([
+      ['CEB 101', record('CEB 101', '202540')],
+      ['CEB 207', record('CEB 207', '202540')],
+      ['CEB 301', record('CEB 301', '202340')],
+      ['SCI 101', record('SCI 101', '202540')],
+    ]);
+    const report = analyzeRoomUtilization([inRoom(cscd110, 'CEB 101', 540, 720)], inventory);
+
+    expect(report.rooms.map((r) => r.roomKey)).toEqual(['CEB 101', 'CEB 207']);
+    expect(report.roomsInUse).toBe(1);
+    expect(report.rooms[0].capacity).toBe(30);
+    expect(report.idleRooms.map((r) => r.roomKey)).toEqual(['CEB 207']);
+  });
+});
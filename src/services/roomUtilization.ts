@@ -0,0 +1,191 @@
+/**
+ * =============================================================================
+ * SERVICE: roomUtilization
+ * =============================================================================
+ *
+ * PURPOSE: Look at the schedule by room instead of by section. For every
+ * building/room the sections meet in, work out when it is occupied across
+ * the week and how much of prime time it is in use, so Facilities can see
+ * which rooms are idle and could be reclaimed.
+ *
+ * RULES:
+ * - Only physical rooms count: online, arranged (ARR) and TBA meetings are
+ *   left out
+ * - Sections sharing a room at the same time (stacked or cross-listed)
+ *   occupy it once, so overlapping meetings are merged before summing
+ * - Prime time is 9:00 AM–3:00 PM, Monday–Friday (30 hours a week)
+ * - A room is idle when it is used for less than IDLE_THRESHOLD_PERCENT of
+ *   prime time. Inventory rooms in the same buildings that were scheduled
+ *   within the past year but have nothing booked now are listed too, at 0%.
+ *
+ * Utilization only reflects the sections loaded (normally this department's
+ * schedule), not other departments booking the same rooms.
+ * =============================================================================
+ */
+
+import type { Campus } from '../types/advising';
+import type { Course, DayOfWeek, Meeting } from '../types/schedule';
+import { getBuilding } from '../constants/buildings';
+import { getAllRooms, getRoom, ROOM_INVENTORY, type RoomInventory } from '../constants/rooms';
+import { addQuarters, isTermBefore } from '../constants/academicTerms';
+import { DAYS_OF_WEEK, SCHEDULE_END_HOUR, SCHEDULE_START_HOUR } from '../constants/timeSlots';
+
+export const PRIME_TIME_START = 9 * 60; // 9:00 AM
+export const PRIME_TIME_END = 15 * 60; // 3:00 PM
+export const IDLE_THRESHOLD_PERCENT = 25;
+// Unbooked inventory rooms count as idle if scheduled within this many quarters
+const RECENT_ROOM_QUARTERS = 4;
+
+const PRIME_MINUTES_PER_WEEK = (PRIME_TIME_END - PRIME_TIME_START) * DAYS_OF_WEEK.length;
+const HOUR_COUNT = SCHEDULE_END_HOUR - SCHEDULE_START_HOUR;
+
+export interface RoomBooking {
+  course: Course;
+  day: DayOfWeek;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface RoomUsage {
+  /** "CEB 101" */
+  roomKey: string;
+  building: string;
+  room: string;
+  buildingName: string;
+  campus: Campus | null;
+  /** Seats, from the room inventory */
+  capacity: number | null;
+  bookings: RoomBooking[];
+  /** Minutes occupied per week, overlaps counted once */
+  weeklyMinutes: number;
+  primeMinutes: number;
+  /** Share of weekday prime time in use (0-100) */
+  primeUtilization: number;
+  /** Per day, the fraction (0-1) of each schedule hour that is occupied */
+  hourlyOccupancy: Record<DayOfWeek, number[]>;
+}
+
+export interface RoomUtilizationReport {
+  rooms: RoomUsage[];
+  /** Rooms with at least one booking */
+  roomsInUse: number;
+  /** Average prime-time utilization across rooms in use (0-100) */
+  averagePrimeUtilization: number;
+  idleRooms: RoomUsage[];
+}
+
+function physicalRoom(course: Course, meeting: Meeting): { building: string; room: string } | null {
+  if (course.delivery === 'Online' || course.delivery === 'Arranged') return null;
+  const { building, room } = meeting;
+  if (!building || !room || building === 'ARR' || room === 'ARR' || room === 'WEB') return null;
+  return { building, room };
+}
+
+/**
+ * Merge overlapping intervals, sorted by start
+ */
+function mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+function overlapMinutes(start: number, end: number, windowStart: number, windowEnd: number): number {
+  return Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+}
+
+function summarizeRoom(
+  building: string,
+  room: string,
+  bookings: RoomBooking[],
+  inventory: RoomInventory
+): RoomUsage {
+  const info = getBuilding(building);
+  let weeklyMinutes = 0;
+  let primeMinutes = 0;
+  const hourlyOccupancy = {} as Record<DayOfWeek, number[]>;
+
+  for (const { key: day } of DAYS_OF_WEEK) {
+    const merged = mergeIntervals(
+      bookings.filter((b) => b.day === day).map((b): [number, number] => [b.startMinutes, b.endMinutes])
+    );
+    hourlyOccupancy[day] = Array.from({ length: HOUR_COUNT }, (_, i) => {
+      const hourStart = (SCHEDULE_START_HOUR + i) * 60;
+      return merged.reduce((sum, [s, e]) => sum + overlapMinutes(s, e, hourStart, hourStart + 60), 0) / 60;
+    });
+    for (const [start, end] of merged) {
+      weeklyMinutes += end - start;
+      primeMinutes += overlapMinutes(start, end, PRIME_TIME_START, PRIME_TIME_END);
+    }
+  }
+
+  return {
+    roomKey: `${building} ${room}`,
+    building,
+    room,
+    buildingName: info?.name ?? building,
+    campus: info?.campus ?? null,
+    capacity: getRoom(`${building} ${room}`, inventory)?.capacity ?? null,
+    bookings: bookings.sort((a, b) => a.startMinutes - b.startMinutes),
+    weeklyMinutes,
+    primeMinutes,
+    primeUtilization: Math.round((primeMinutes / PRIME_MINUTES_PER_WEEK) * 100),
+    hourlyOccupancy,
+  };
+}
+
+/**
+ * Room-by-room occupancy and prime-time utilization
+ */
+export function analyzeRoomUtilization(
+  courses: Course[],
+  inventory: RoomInventory = ROOM_INVENTORY
+): RoomUtilizationReport {
+  const byRoom = new Map<string, { building: string; room: string; bookings: RoomBooking[] }>();
+
+  for (const course of courses) {
+    for (const meeting of course.meetings) {
+      const location = physicalRoom(course, meeting);
+      if (!location) continue;
+      const key = `${location.building} ${location.room}`;
+      const entry = byRoom.get(key) ?? { ...location, bookings: [] };
+      for (const day of meeting.days) {
+        entry.bookings.push({ course, day, startMinutes: meeting.startMinutes, endMinutes: meeting.endMinutes });
+      }
+      byRoom.set(key, entry);
+    }
+  }
+
+  const term = courses[0]?.term;
+  if (term) {
+    const since = addQuarters(term, -RECENT_ROOM_QUARTERS);
+    const buildings = new Set(Array.from(byRoom.values(), (r) => r.building));
+    for (const record of getAllRooms(inventory)) {
+      if (byRoom.has(record.location) || !buildings.has(record.building)) continue;
+      if (isTermBefore(record.lastSeenTerm, since)) continue;
+      byRoom.set(record.location, { building: record.building, room: record.room, bookings: [] });
+    }
+  }
+
+  const rooms = Array.from(byRoom.values())
+    .map(({ building, room, bookings }) => summarizeRoom(building, room, bookings, inventory))
+    .sort((a, b) => a.building.localeCompare(b.building) || a.room.localeCompare(b.room, undefined, { numeric: true }));
+
+  const inUse = rooms.filter((r) => r.bookings.length > 0);
+  const averagePrimeUtilization =
+    inUse.length > 0 ? Math.round(inUse.reduce((sum, r) => sum + r.primeUtilization, 0) / inUse.length) : 0;
+
+  return {
+    rooms,
+    roomsInUse: inUse.length,
+    averagePrimeUtilization,
+    idleRooms: rooms
+      .filter((r) => r.primeUtilization < IDLE_THRESHOLD_PERCENT)
+      .sort((a, b) => a.primeUtilization - b.primeUtilization),
+  };
+}
@@ -18,6 +18,7 @@ describe('scheduleAnalytics', () => {
     expect(analytics.summary.totalCapacity).toBe(200);
     expect(analytics.summary.utilizationRate).toBe(88);
     expect(analytics.enrollmentStatus).toBe('available');
+    expect(analytics.summary.totalWaitlist).toBe(10);
 
     const cscd = analytics.subjects.find((s) => s.subject === 'CSCD');
     const cybr = analytics.subjects.find((s) => s.subject === 'CYBR');
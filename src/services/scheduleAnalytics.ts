@@ -1,4 +1,5 @@
 import type { Course, DeliveryMethod, Instructor, SubjectCode } from '../types/schedule';
+import { analyzeWaitlistDemand, type WaitlistDemandReport } from './waitlistDemand';
 
 export type EnrollmentDataStatus = 'none' | 'allZero' | 'available';
 
@@ -50,11 +51,13 @@ export interface ScheduleAnalytics {
     avgClassSize: number | null;
     instructorCount: number;
     coursesWithReportedEnrollment: number;
+    totalWaitlist: number;
   };
   subjects: SubjectSummary[];
   delivery: DeliverySummary[];
   facultyWorkload: FacultyWorkloadSummary[];
   timeDistribution: TimeDistributionBucket[];
+  waitlist: WaitlistDemandReport;
 }
 
 const DELIVERY_METHODS: DeliveryMethod[] = ['F2F', 'Online', 'Hybrid', 'Arranged'];
@@ -240,6 +243,8 @@ export function computeScheduleAnalytics({
     .sort((a, b) => (b.courses !== a.courses ? b.courses - a.courses : b.credits - a.credits))
     .slice(0, 10);
 
+  const waitlist = analyzeWaitlistDemand(courses);
+
   return {
     term: {
       primary: primaryTerm,
@@ -256,10 +261,12 @@ export function computeScheduleAnalytics({
       avgClassSize,
       instructorCount: instructors.length,
       coursesWithReportedEnrollment,
+      totalWaitlist: waitlist.totalWaitlist,
     },
     subjects: subjectSummaries,
     delivery: deliverySummaries,
     facultyWorkload,
     timeDistribution,
+    waitlist,
   };
 }
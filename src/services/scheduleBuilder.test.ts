@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { buildStudentSchedules, DEFAULT_SCHEDULE_PREFERENCES } from './scheduleBuilder';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { StudentPersona } from '../types/advising';
+import type { CampusType, Course, DayOfWeek } from '../types/schedule';
+
+const live = parseScheduleData(mockScheduleResponse);
+const base = live.find((c) => c.displayCode === 'CSCD 110')!;
+const MWF: DayOfWeek[] = ['monday', 'wednesday', 'friday'];
+
+function section(
+  crn: string,
+  displayCode: string,
+  days: DayOfWeek[],
+  start: number,
+  end: number,
+  building = 'CEB',
+  campus: CampusType = 'Cheney',
+  instructor = 'Doe, Jane'
+): Course {
+  const [subject, courseNumber] = displayCode.split(' ');
+  return {
+    ...base,
+    id: crn,
+    crn,
+    displayCode,
+    subjectRaw: subject,
+    subject: subject as Course['subject'],
+    courseNumber,
+    campus,
+    instructor: { ...base.instructor!, displayName: instructor, email: `${instructor}@ewu.edu` },
+    meetings: [
+      {
+        ...base.meetings[0],
+        days,
+        startMinutes: start,
+        endMinutes: end,
+        durationMinutes: end - start,
+        building,
+        room: '101',
+        location: `${building} 101`,
+      },
+    ],
+  };
+}
+
+const persona: StudentPersona = {
+  id: 'p1',
+  nickname: 'Student 1',
+  icon: '💻',
+  primaryMajor: 'computer-science-cyber-operations-bs',
+  minors: [],
+  startTerm: '202540',
+  expectedGraduation: '202820',
+  completedCourses: [],
+  currentCourses: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('scheduleBuilder', () => {
+  const courses = [
+    section('1', 'CSCD 300', MWF, 480, 530),
+    section('2', 'CSCD 300', MWF, 600, 650),
+    section('3', 'MATH 161', MWF, 480, 530),
+    section('4', 'MATH 161', MWF, 660, 710, 'KGS'),
+  ];
+
+  it('lists every combination without an overlap, best first', () => {
+    const result = buildStudentSchedules(persona, courses, ['cscd 300', 'MATH 161', 'CSCD 999']);
+
+    // 1 + 3 overlap; 2 + 4 has no early class and the shortest gap
+    expect(result.schedules.map((s) => s.id)).toEqual(['2-4', '2-3', '1-4']);
+    expect(result.schedules[0]).toMatchObject({ credits: 10, earlyDays: 0, gapMinutes: 30, campusDays: MWF });
+    expect(result.notOffered).toEqual(['CSCD 999']);
+    expect(result.conflicts).toEqual([]);
+
+    const noPreference = buildStudentSchedules(persona, courses, ['CSCD 300', 'MATH 161'], {
+      ...DEFAULT_SCHEDULE_PREFERENCES,
+      avoidEarlyMornings: false,
+      compactDays: false,
+    });
+    expect(noPreference.schedules.map((s) => s.id)).toEqual(['1-4', '2-3', '2-4']);
+  });
+
+  it('keeps a lab with the lecture it is taught with', () => {
+    const result = buildStudentSchedules(
+      persona,
+      [
+        section('10', 'CSCD 477', MWF, 540, 590),
+        section('11', 'CSCD 477L', ['monday'], 540, 650),
+        section('12', 'CSCD 477L', ['tuesday'], 780, 890, 'CEB', 'Cheney', 'Roe, Sam'),
+      ],
+      ['CSCD 477']
+    );
+
+    expect(result.addedCorequisites).toEqual(['CSCD 477L']);
+    expect(result.courseCodes).toEqual(['CSCD 477', 'CSCD 477L']);
+    expect(result.schedules.map((s) => s.id)).toEqual(['10-11']);
+  });
+
+  it('needs time to walk or drive between back-to-back classes', () => {
+    const tight = buildStudentSchedules(
+      persona,
+      [section('1', 'CSCD 300', MWF, 540, 590), section('2', 'MATH 161', MWF, 590, 640, 'CWH')],
+      ['CSCD 300', 'MATH 161']
+    );
+    expect(tight.schedules).toEqual([]);
+    expect(tight.conflicts[0]).toMatchObject({
+      type: 'insufficient-gap',
+      courses: ['CSCD 300', 'MATH 161'],
+      walkingInfo: { walkingMinutes: 10, gapMinutes: 0 },
+    });
+
+    const crossCampus = buildStudentSchedules(
+      persona,
+      [section('1', 'CSCD 300', MWF, 540, 590), section('2', 'CSCD 320', MWF, 600, 650, 'CAT', 'Spokane U-District')],
+      ['CSCD 300', 'CSCD 320']
+    );
+    expect(crossCampus.conflicts.map((c) => c.type)).toEqual(['cross-campus']);
+  });
+
+  it('explains overlaps that no section combination avoids', () => {
+    const result = buildStudentSchedules(
+      persona,
+      [section('1', 'CSCD 300', MWF, 540, 590), section('2', 'MATH 161', ['monday'], 560, 610)],
+      ['CSCD 300', 'MATH 161']
+    );
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      type: 'time-overlap',
+      severity: 'error',
+      conflictTime: { day: 'monday', startTime: 560, endTime: 590 },
+    });
+  });
+
+  it('stays on the preferred campus and under the credit limit', () => {
+    const spokane = { ...persona, preferredCampus: 'Spokane U-District' as const, maxCreditsPerQuarter: 10 };
+    const result = buildStudentSchedules(
+      spokane,
+      [
+        section('1', 'CSCD 300', MWF, 540, 590),
+        section('2', 'CSCD 300', MWF, 540, 590, 'CAT', 'Spokane U-District'),
+        section('3', 'MATH 161', MWF, 660, 710),
+      ],
+      ['CSCD 300', 'MATH 161']
+    );
+    expect(result.schedules.map((s) => s.id)).toEqual(['2-3']);
+    expect(result.conflicts.map((c) => c.description)).toEqual([
+      'MATH 161 has no sections at Spokane U-District; sections on other campuses are included',
+    ]);
+
+    const over = buildStudentSchedules(
+      spokane,
+      [...courses, section('5', 'CSCD 110', ['tuesday'], 600, 650)],
+      ['CSCD 300', 'MATH 161', 'CSCD 110']
+    );
+    expect(over.schedules).toEqual([]);
+    expect(over.conflicts.map((c) => c.type)).toContain('credit-limit');
+  });
+
+  it('keeps the best schedules when there are more than it lists', () => {
+    const starts = [480, 540, 600, 660, 720, 780];
+    const many = [
+      ...starts.map((start, i) => section(`a${i}`, 'CSCD 300', MWF, start, start + 50)),
+      ...starts.map((start, i) => section(`b${i}`, 'MATH 161', ['tuesday', 'thursday'], start, start + 50)),
+      ...starts.map((start, i) => section(`c${i}`, 'CSCD 110', ['friday'], start, start + 50)),
+    ];
+    const codes = ['CSCD 300', 'MATH 161', 'CSCD 110'];
+    const fewestDays = { ...DEFAULT_SCHEDULE_PREFERENCES, fewestCampusDays: true };
+
+    for (const preferences of [DEFAULT_SCHEDULE_PREFERENCES, fewestDays]) {
+      const all = buildStudentSchedules(persona, many, codes, preferences);
+      const best = buildStudentSchedules(persona, many, codes, preferences, { maxSchedules: 5 });
+
+      expect(all.truncated).toBe(false);
+      expect(all.schedules.length).toBeGreaterThan(5);
+      expect(best.truncated).toBe(true);
+      expect(best.partial).toBe(false);
+      expect(best.schedules.map((s) => s.id)).toEqual(all.schedules.slice(0, 5).map((s) => s.id));
+    }
+
+    const stopped = buildStudentSchedules(persona, many, codes, DEFAULT_SCHEDULE_PREFERENCES, { maxSearchSteps: 10 });
+    expect(stopped.partial).toBe(true);
+    expect(stopped.schedules.length).toBeGreaterThan(0);
+
+    const gaveUp = buildStudentSchedules(persona, many, codes, DEFAULT_SCHEDULE_PREFERENCES, { maxSearchSteps: 2 });
+    expect(gaveUp.partial).toBe(true);
+    expect(gaveUp.schedules).toEqual([]);
+    expect(gaveUp.conflicts.map((c) => c.id)).not.toContain('no-combination');
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * =============================================================================
+ * SERVICE: scheduleBuilder
+ * =============================================================================
+ *
+ * PURPOSE: Build registration schedules for a persona. Given the courses
+ * they want next term, list the choices of sections (CRNs) in the loaded
+ * term that actually work, best first.
+ *
+ * RULES:
+ * - One section of every requested course. A lecture with lab sections in
+ *   the term needs a lab too (and a requested lab needs its lecture). When
+ *   a lab is taught with a lecture section (isCorequisitePair), that lab
+ *   is the one that goes with it.
+ * - No two meetings may overlap on a shared day
+ * - Back-to-back in-person meetings must be walkable in the gap; a
+ *   different campus needs the driving time (findSectionClash)
+ * - Only sections at the persona's preferredCampus (or online) are used,
+ *   unless a course has none there
+ * - Total credits may not exceed maxCreditsPerQuarter (default
+ *   CREDIT_LIMITS.maximum, the limit without an override)
+ *
+ * RANKING: each enabled preference adds a penalty and the lowest total
+ * wins: early starts per day, idle minutes between classes, and days on
+ * campus. Only the best maxSchedules are kept. Early and campus-day
+ * penalties never shrink as sections are added, so a partial pick already
+ * scoring worse than every kept schedule is abandoned. The search stops
+ * after maxSearchSteps picks, and the result is then marked partial.
+ *
+ * When nothing works, StudentScheduleConflict entries say why: the pairs of
+ * courses that clash in every section combination, or the credit limit.
+ * =============================================================================
+ */
+
+import type { Course, DayOfWeek, Meeting } from '../types/schedule';
+import type { StudentPersona, StudentScheduleConflict } from '../types/advising';
+import { CREDIT_LIMITS } from '../constants/academicTerms';
+import { normalizeCourseCode } from '../constants/courseAliases';
+import { CROSS_CAMPUS_DRIVING_MINUTES, getMeetingBuilding } from '../constants/buildings';
+import { DAYS_OF_WEEK, formatDay, minutesToDisplayTime } from '../constants/timeSlots';
+import { findSectionClash, type SectionClash } from './conflictDetector';
+import { isCorequisitePair } from './courseGroupDetector';
+
+// Schedules kept, best first
+const MAX_SCHEDULES = 5000;
+
+// Section picks tried before the search gives up
+const MAX_SEARCH_STEPS = 200000;
+
+// Penalty weights for ranking
+const EARLY_DAY_PENALTY = 60;
+const CAMPUS_DAY_PENALTY = 120;
+
+export interface SchedulePreferences {
+  avoidEarlyMornings: boolean;
+  /** Classes starting before this count as early (minutes from midnight) */
+  earlyMorningCutoff: number;
+  /** Fewer idle minutes between classes */
+  compactDays: boolean;
+  /** Fewer days with in-person classes */
+  fewestCampusDays: boolean;
+}
+
+export const DEFAULT_SCHEDULE_PREFERENCES: SchedulePreferences = {
+  avoidEarlyMornings: true,
+  earlyMorningCutoff: 9 * 60,
+  compactDays: true,
+  fewestCampusDays: false,
+};
+
+export interface ScheduleSearchOptions {
+  /** Schedules to keep (default MAX_SCHEDULES) */
+  maxSchedules?: number;
+  /** Section picks to try before stopping (default MAX_SEARCH_STEPS) */
+  maxSearchSteps?: number;
+}
+
+export interface ScheduleOption {
+  /** CRNs joined, stable across runs */
+  id: string;
+  sections: Course[];
+  credits: number;
+  /** Days with in-person meetings */
+  campusDays: DayOfWeek[];
+  /** Days whose first class starts before the early cutoff */
+  earlyDays: number;
+  /** Idle minutes between classes, summed over the week */
+  gapMinutes: number;
+  /** Lower is better */
+  score: number;
+}
+
+export interface ScheduleBuildResult {
+  /** Requested codes, normalized, plus required lectures/labs */
+  courseCodes: string[];
+  /** Labs or lectures added because the requested course needs them */
+  addedCorequisites: string[];
+  /** Requested codes with no sections this term */
+  notOffered: string[];
+  credits: number;
+  creditLimit: number;
+  /** Best first */
+  schedules: ScheduleOption[];
+  /** True when more schedules work than were kept; the kept ones are the best */
+  truncated: boolean;
+  /** True when the search stopped early, so a better schedule may be missing */
+  partial: boolean;
+  conflicts: StudentScheduleConflict[];
+}
+
+/**
+ * One way to take a course: a section, or a lecture section with its lab
+ */
+interface SectionChoice {
+  sections: Course[];
+}
+
+interface CourseUnit {
+  code: string;
+  choices: SectionChoice[];
+}
+
+function labCodeOf(code: string): string {
+  return `${code}L`;
+}
+
+function lectureCodeOf(code: string): string | null {
+  return code.endsWith('L') ? code.slice(0, -1) : null;
+}
+
+function choicesClash(a: SectionChoice, b: SectionChoice): SectionClash | null {
+  for (const sa of a.sections) {
+    for (const sb of b.sections) {
+      const clash = findSectionClash(sa, sb);
+      if (clash) return clash;
+    }
+  }
+  return null;
+}
+
+function toConflict(codeA: string, codeB: string, clash: SectionClash): StudentScheduleConflict {
+  const courses = [codeA, codeB];
+  if (clash.kind === 'overlap') {
+    return {
+      id: `time-overlap-${codeA}-${codeB}`,
+      type: 'time-overlap',
+      severity: 'error',
+      courses,
+      description: `${codeA} and ${codeB} overlap on ${formatDay(clash.day)} ${minutesToDisplayTime(clash.start)}–${minutesToDisplayTime(clash.end)} in every section combination`,
+      suggestion: 'Take one of them in a later quarter',
+      conflictTime: { day: clash.day, startTime: clash.start, endTime: clash.end },
+    };
+  }
+  const crossCampus = clash.kind === 'cross-campus';
+  return {
+    id: `${crossCampus ? 'cross-campus' : 'insufficient-gap'}-${codeA}-${codeB}`,
+    type: crossCampus ? 'cross-campus' : 'insufficient-gap',
+    severity: 'error',
+    courses,
+    description: `${codeA} and ${codeB} leave ${clash.gap} min on ${formatDay(clash.day)} to get from ${clash.from} to ${clash.to} in every section combination`,
+    suggestion: crossCampus
+      ? `Driving between campuses takes ~${CROSS_CAMPUS_DRIVING_MINUTES} min`
+      : `The walk takes ~${clash.needed} min`,
+    walkingInfo: { fromBuilding: clash.from, toBuilding: clash.to, walkingMinutes: clash.needed, gapMinutes: clash.gap },
+  };
+}
+
+/**
+ * Ways to take a course, with its lab when it has one
+ */
+function buildChoices(lectures: Course[], labs: Course[]): SectionChoice[] {
+  if (labs.length === 0) return lectures.map((section) => ({ sections: [section] }));
+
+  const choices: SectionChoice[] = [];
+  for (const lecture of lectures) {
+    const paired = labs.filter((lab) => isCorequisitePair(lecture, lab));
+    for (const lab of paired.length > 0 ? paired : labs) {
+      // An unpaired lab still has to fit around its lecture
+      if (paired.length === 0 && findSectionClash(lecture, lab)) continue;
+      choices.push({ sections: [lecture, lab] });
+    }
+  }
+  return choices;
+}
+
+function scoreSchedule(sections: Course[], preferences: SchedulePreferences): Omit<ScheduleOption, 'id' | 'sections' | 'credits'> {
+  const byDay = new Map<DayOfWeek, Meeting[]>();
+  const campusDays = new Set<DayOfWeek>();
+  for (const section of sections) {
+    for (const meeting of section.meetings) {
+      for (const day of meeting.days) {
+        byDay.set(day, [...(byDay.get(day) ?? []), meeting]);
+        if (getMeetingBuilding(section, meeting)) campusDays.add(day);
+      }
+    }
+  }
+
+  let earlyDays = 0;
+  let gapMinutes = 0;
+  for (const meetings of byDay.values()) {
+    const sorted = [...meetings].sort((a, b) => a.startMinutes - b.startMinutes);
+    if (sorted[0].startMinutes < preferences.earlyMorningCutoff) earlyDays += 1;
+    for (let i = 1; i < sorted.length; i++) {
+      gapMinutes += Math.max(0, sorted[i].startMinutes - sorted[i - 1].endMinutes);
+    }
+  }
+
+  let score = 0;
+  if (preferences.avoidEarlyMornings) score += earlyDays * EARLY_DAY_PENALTY;
+  if (preferences.compactDays) score += gapMinutes;
+  if (preferences.fewestCampusDays) score += campusDays.size * CAMPUS_DAY_PENALTY;
+
+  return {
+    campusDays: DAYS_OF_WEEK.map((d) => d.key).filter((day) => campusDays.has(day)),
+    earlyDays,
+    gapMinutes,
+    score,
+  };
+}
+
+function compareOptions(a: ScheduleOption, b: ScheduleOption): number {
+  return a.score - b.score || a.id.localeCompare(b.id);
+}
+
+/**
+ * The best working combinations of sections for the requested courses
+ */
+export function buildStudentSchedules(
+  persona: StudentPersona,
+  courses: Course[],
+  requestedCodes: string[],
+  preferences: SchedulePreferences = DEFAULT_SCHEDULE_PREFERENCES,
+  options: ScheduleSearchOptions = {}
+): ScheduleBuildResult {
+  const { maxSchedules = MAX_SCHEDULES, maxSearchSteps = MAX_SEARCH_STEPS } = options;
+  const sectionsByCode = new Map<string, Course[]>();
+  for (const course of courses) {
+    const code = normalizeCourseCode(course.displayCode);
+    sectionsByCode.set(code, [...(sectionsByCode.get(code) ?? []), course]);
+  }
+
+  const requested = Array.from(new Set(requestedCodes.map(normalizeCourseCode).filter(Boolean)));
+  const conflicts: StudentScheduleConflict[] = [];
+  const notOffered: string[] = [];
+  const addedCorequisites: string[] = [];
+
+  // Each requested lecture or lab becomes one unit covering both
+  const unitCodes: string[] = [];
+  for (const code of requested) {
+    const lecture = lectureCodeOf(code) ?? code;
+    if (unitCodes.includes(lecture)) continue;
+    if (!sectionsByCode.has(code)) {
+      notOffered.push(code);
+      continue;
+    }
+    if (code !== lecture && !sectionsByCode.has(lecture)) {
+      conflicts.push({
+        id: `corequisite-${code}`,
+        type: 'corequisite',
+        severity: 'error',
+        courses: [code, lecture],
+        description: `${code} is a lab for ${lecture}, which has no sections this term`,
+      });
+      continue;
+    }
+    const added = code === lecture ? labCodeOf(lecture) : lecture;
+    if (sectionsByCode.has(added) && !requested.includes(added)) addedCorequisites.push(added);
+    unitCodes.push(lecture);
+  }
+
+  // Stay on the preferred campus when the course is offered there
+  const atCampus = (sections: Course[], code: string): Course[] => {
+    const campus = persona.preferredCampus;
+    if (!campus) return sections;
+    const preferred = sections.filter((s) => s.campus === campus || s.campus === 'Online');
+    if (preferred.length > 0) return preferred;
+    conflicts.push({
+      id: `campus-${code}`,
+      type: 'cross-campus',
+      severity: 'info',
+      courses: [code],
+      description: `${code} has no sections at ${campus}; sections on other campuses are included`,
+    });
+    return sections;
+  };
+
+  const units: CourseUnit[] = unitCodes.map((code) => {
+    const labCode = labCodeOf(code);
+    const lectures = atCampus(sectionsByCode.get(code) ?? [], code);
+    const labs = sectionsByCode.has(labCode) ? atCampus(sectionsByCode.get(labCode) ?? [], labCode) : [];
+    const choices = buildChoices(lectures, labs);
+    if (choices.length === 0) {
+      conflicts.push({
+        id: `corequisite-${code}`,
+        type: 'corequisite',
+        severity: 'error',
+        courses: [code, labCode],
+        description: `No ${labCode} section fits around a ${code} section`,
+      });
+    }
+    return { code, choices };
+  });
+
+  const creditLimit = persona.maxCreditsPerQuarter ?? CREDIT_LIMITS.maximum;
+  const credits = units.reduce((sum, unit) => {
+    const first = unit.choices[0];
+    return sum + (first ? first.sections.reduce((s, c) => s + c.credits, 0) : 0);
+  }, 0);
+  const courseCodes = [...unitCodes, ...addedCorequisites].sort();
+
+  const result = (schedules: ScheduleOption[], truncated = false, partial = false): ScheduleBuildResult => ({
+    courseCodes,
+    addedCorequisites,
+    notOffered,
+    credits,
+    creditLimit,
+    schedules,
+    truncated,
+    partial,
+    conflicts,
+  });
+
+  if (credits > creditLimit) {
+    conflicts.push({
+      id: 'credit-limit',
+      type: 'credit-limit',
+      severity: 'error',
+      courses: courseCodes,
+      description: `These courses total ${credits} credits, over the ${creditLimit}-credit limit`,
+      suggestion: 'Drop a course or raise the persona\'s max credits per quarter',
+    });
+    return result([]);
+  }
+  if (units.length === 0 || units.some((unit) => unit.choices.length === 0)) return result([]);
+
+  // Fewest choices first prunes the search earliest
+  const ordered = [...units].sort((a, b) => a.choices.length - b.choices.length);
+  const kept: ScheduleOption[] = [];
+  let anyFound = false;
+  let truncated = false;
+  let partial = false;
+  let steps = 0;
+
+  const toOption = (picked: SectionChoice[]): ScheduleOption => {
+    const sections = picked.flatMap((c) => c.sections).sort((a, b) => a.displayCode.localeCompare(b.displayCode));
+    return {
+      id: sections.map((s) => s.crn).join('-'),
+      sections,
+      credits,
+      ...scoreSchedule(sections, preferences),
+    };
+  };
+
+  // Early and campus-day penalties only grow as sections are added; gaps can shrink
+  const lowerBound = (picked: SectionChoice[]): number => {
+    const { score, gapMinutes } = scoreSchedule(picked.flatMap((c) => c.sections), preferences);
+    return preferences.compactDays ? score - gapMinutes : score;
+  };
+
+  const keep = (option: ScheduleOption) => {
+    let at = kept.length;
+    while (at > 0 && compareOptions(option, kept[at - 1]) < 0) at--;
+    kept.splice(at, 0, option);
+    if (kept.length > maxSchedules) {
+      kept.pop();
+      truncated = true;
+    }
+  };
+
+  const search = (index: number, picked: SectionChoice[]) => {
+    if (partial) return;
+    if (++steps > maxSearchSteps) {
+      partial = true;
+      return;
+    }
+    if (index === ordered.length) {
+      anyFound = true;
+      keep(toOption(picked));
+      return;
+    }
+    if (kept.length >= maxSchedules && lowerBound(picked) > kept[kept.length - 1].score) {
+      truncated = true;
+      return;
+    }
+    for (const choice of ordered[index].choices) {
+      if (picked.some((p) => choicesClash(p, choice))) continue;
+      picked.push(choice);
+      search(index + 1, picked);
+      picked.pop();
+    }
+  };
+  search(0, []);
+
+  if (!anyFound) {
+    // Explain with the pairs that never fit, or the whole set if every pair
+    // can; a search that stopped early hasn't shown the whole set can't fit
+    for (let i = 0; i < ordered.length; i++) {
+      for (let j = i + 1; j < ordered.length; j++) {
+        const clashes = ordered[i].choices.flatMap((a) => ordered[j].choices.map((b) => choicesClash(a, b)));
+        if (clashes.every((clash) => clash !== null)) {
+          conflicts.push(toConflict(ordered[i].code, ordered[j].code, clashes[0]!));
+        }
+      }
+    }
+    if (!partial && !conflicts.some((c) => c.severity === 'error')) {
+      conflicts.push({
+        id: 'no-combination',
+        type: 'time-overlap',
+        severity: 'error',
+        courses: unitCodes,
+        description: `Every pair fits, but no combination of sections fits ${unitCodes.join(', ')} together`,
+        suggestion: 'Move one course to a later quarter',
+      });
+    }
+    return result([], false, partial);
+  }
+
+  return result(kept, truncated, partial);
+}
@@ -0,0 +1,329 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeSchedule, countConflicts } from './scheduleOptimizer';
+import { buildQualificationIndex } from './instructorQualifications';
+import type { Course, Meeting } from '../types/schedule';
+
+// Helper to create a minimal course for testing
+function makeCourse(
+  crn: string,
+  instructor: string,
+  startMinutes: number,
+  room: string,
+  overrides: Partial<Meeting> = {}
+): Course {
+  const [building, roomNumber] = room.split(' ');
+  return {
+    id: crn,
+    crn,
+    term: '202610',
+    termDescription: 'Winter 2026',
+    subject: 'CSCD',
+    subjectRaw: 'CSCD',
+    courseNumber: crn.slice(-3),
+    displayCode: `CSCD ${crn.slice(-3)}`,
+    section: '01',
+    title: 'Test Course',
+    credits: 4,
+    campusRaw: 'Cheney',
+    campus: 'Cheney',
+    scheduleType: 'Lecture',
+    delivery: 'F2F',
+    deliveryDescription: 'Face-to-Face',
+    instructor: {
+      id: instructor,
+      displayName: instructor,
+      lastName: instructor,
+      firstName: '',
+      email: `${instructor.toLowerCase()}@ewu.edu`,
+      isPrimary: true,
+    },
+    meetings: [
+      {
+        days: ['monday', 'wednesday'],
+        startMinutes,
+        endMinutes: startMinutes + 50,
+        startTime: '',
+        endTime: '',
+        building,
+        room: roomNumber,
+        location: room,
+        durationMinutes: 50,
+        type: 'LEC',
+        typeDescription: 'Lecture',
+        ...overrides,
+      },
+    ],
+    enrollment: {
+      current: 20,
+      maximum: 30,
+      available: 10,
+      waitlist: 0,
+      waitlistMax: 0,
+      utilizationPercent: 67,
+    },
+    attributes: [],
+    isOpen: true,
+  };
+}
+
+describe('scheduleOptimizer', () => {
+  describe('optimizeSchedule', () => {
+    it('returns the original schedule when there are no conflicts', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Baker', 540, 'CEB 102'),
+      ];
+
+      const results = optimizeSchedule(courses);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].changeCount).toBe(0);
+      expect(results[0].similarityScore).toBe(1);
+    });
+
+    it('finds conflict-free permutations that move several courses together', () => {
+      // Adams and Baker are each double-booked at 8:00; both conflicts must be
+      // resolved at once, which a single-course move cannot do
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        makeCourse('10103', 'Baker', 480, 'CEB 103'),
+        makeCourse('10104', 'Baker', 480, 'CEB 104'),
+        makeCourse('10105', 'Clark', 540, 'CEB 105'),
+      ];
+
+      const results = optimizeSchedule(courses, { allowRoomChange: false });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].conflictCount).toBe(0);
+      expect(results[0].changeCount).toBe(2);
+      expect(countConflicts(results[0].assignments)).toBe(0);
+      expect(new Set(results[0].changes.map((c) => c.changeType))).toEqual(new Set(['time']));
+    });
+
+    it('ranks the most similar solutions first', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 101'),
+        makeCourse('10103', 'Baker', 540, 'CEB 102'),
+        makeCourse('10104', 'Baker', 600, 'CEB 103'),
+      ];
+
+      const results = optimizeSchedule(courses, { maxPermutations: 10 });
+
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i].similarityScore).toBeLessThanOrEqual(results[i - 1].similarityScore);
+      }
+      expect(results.every((r) => r.conflictCount === 0)).toBe(true);
+    });
+
+    it('never moves locked courses', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        makeCourse('10103', 'Baker', 540, 'CEB 103'),
+      ];
+
+      const results = optimizeSchedule(courses, { lockedCRNs: new Set(['10101']) });
+
+      expect(results.length).toBeGreaterThan(0);
+      for (const result of results) {
+        expect(result.changes.some((c) => c.crn === '10101')).toBe(false);
+      }
+    });
+
+    it('returns nothing when every conflict is between locked courses', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        makeCourse('10103', 'Baker', 540, 'CEB 103'),
+      ];
+
+      const results = optimizeSchedule(courses, { lockedCRNs: new Set(['10101', '10102']) });
+
+      expect(results).toEqual([]);
+    });
+
+    it('only offers time slots with the same weekly contact minutes', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        // 110-minute block: not a legal destination for a 50-minute section
+        makeCourse('10103', 'Baker', 600, 'CEB 103', { endMinutes: 710, durationMinutes: 110 }),
+      ];
+
+      const results = optimizeSchedule(courses, { allowRoomChange: false });
+
+      expect(results).toEqual([]);
+    });
+
+    it('moves stacked 400/500 pairs together and does not treat them as conflicts', () => {
+      const courses = [
+        makeCourse('10445', 'Adams', 480, 'CEB 101'),
+        makeCourse('10545', 'Adams', 480, 'CEB 101'),
+        makeCourse('10210', 'Adams', 480, 'CEB 102'),
+        makeCourse('10300', 'Baker', 540, 'CEB 103'),
+      ];
+
+      const results = optimizeSchedule(courses, {
+        allowRoomChange: false,
+        lockedCRNs: new Set(['10210']),
+      });
+
+      expect(results.length).toBeGreaterThan(0);
+      const best = results[0];
+      expect(best.conflictCount).toBe(0);
+      const moved = best.changes.filter((c) => c.changeType === 'time');
+      expect(moved.map((c) => c.crn).sort()).toEqual(['10445', '10545']);
+      expect(moved[0].to).toBe(moved[1].to);
+    });
+
+    it('only moves sections into rooms that can seat them', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Baker', 480, 'CEB 101'),
+        makeCourse('10103', 'Clark', 540, 'CEB 102'),
+        makeCourse('10104', 'Davis', 540, 'CEB 103'),
+      ];
+      const room = (location: string, capacity: number) => ({
+        location, building: 'CEB', room: location.slice(4), capacity,
+        features: [], sectionCount: 1, lastSeenTerm: '202610',
+      });
+      // CEB 102 seats 20, too few for a 30-seat section
+      const roomInventory = new Map([
+        ['CEB 101', room('CEB 101', 40)],
+        ['CEB 102', room('CEB 102', 20)],
+        ['CEB 103', room('CEB 103', 40)],
+      ]);
+
+      const results = optimizeSchedule(courses, { allowTimeChange: false, roomInventory });
+
+      expect(results.length).toBeGreaterThan(0);
+      const destinations = results.flatMap((r) => r.changes.filter((c) => c.changeType === 'room').map((c) => c.to));
+      expect(destinations).toContain('CEB 103');
+      expect(destinations).not.toContain('CEB 102');
+    });
+
+    it('proposes qualified instructors when times and rooms are fixed', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        makeCourse('10103', 'Baker', 540, 'CEB 103'),
+      ];
+      // Clark taught CSCD 102 in an earlier term; nobody else is on record
+      const history = [
+        { ...makeCourse('20102', 'Clark', 600, 'CEB 104'), displayCode: 'CSCD 102', term: '202440' },
+      ];
+
+      const results = optimizeSchedule(courses, {
+        allowTimeChange: false,
+        allowRoomChange: false,
+        qualifiedInstructors: buildQualificationIndex(history),
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].conflictCount).toBe(0);
+      expect(results[0].changes).toEqual([
+        expect.objectContaining({
+          crn: '10102',
+          changeType: 'instructor',
+          from: 'Adams',
+          to: 'Clark',
+          reason: 'Taught CSCD 102 in 1 term (1 section), most recently Fall 2024',
+        }),
+      ]);
+    });
+
+    it('does not propose an instructor who teaches an unselected section at that time', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+      ];
+      const history = [
+        { ...makeCourse('20102', 'Clark', 600, 'CEB 104'), displayCode: 'CSCD 102', term: '202440' },
+      ];
+      // Clark already teaches at 8:00 in a section the user didn't select
+      const unselected = makeCourse('10199', 'Clark', 480, 'CEB 199');
+
+      const results = optimizeSchedule(courses, {
+        allowTimeChange: false,
+        allowRoomChange: false,
+        qualifiedInstructors: buildQualificationIndex(history),
+        otherCourses: [...courses, unselected],
+      });
+
+      expect(results).toEqual([]);
+    });
+
+    it('does not change instructors without a qualification index', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+      ];
+
+      const results = optimizeSchedule(courses, { allowTimeChange: false, allowRoomChange: false });
+
+      expect(results).toEqual([]);
+    });
+
+    it('never places an instructor in a blackout and prefers their preferred days', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Baker', 540, 'CEB 102'),
+        makeCourse('10103', 'Clark', 600, 'CEB 103', { days: ['tuesday', 'thursday'] }),
+        // Mon/Wed 11:00 is outside the blackout but not on a preferred day
+        makeCourse('10104', 'Davis', 660, 'CEB 104'),
+      ];
+      const facultyProfiles = new Map([
+        ['adams@ewu.edu', {
+          email: 'adams@ewu.edu',
+          displayName: 'Adams',
+          unavailable: [
+            { id: 'w1', days: ['monday' as const], startMinutes: 420, endMinutes: 600, reason: 'Committee', hard: true },
+          ],
+          preferredDays: ['tuesday' as const, 'thursday' as const],
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        }],
+      ]);
+
+      const results = optimizeSchedule(courses, { allowRoomChange: false, facultyProfiles });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((r) => r.conflictCount === 0)).toBe(true);
+      const moves = results[0].changes;
+      expect(moves).toEqual([expect.objectContaining({ crn: '10101', changeType: 'time' })]);
+      expect(moves[0].to).toMatch(/^tue\/thu/);
+      expect(results[0].preferenceIssues).toBeUndefined();
+    });
+
+    it('respects maxPermutations', () => {
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Adams', 480, 'CEB 102'),
+        makeCourse('10103', 'Baker', 540, 'CEB 103'),
+        makeCourse('10104', 'Baker', 600, 'CEB 104'),
+        makeCourse('10105', 'Clark', 660, 'CEB 105'),
+      ];
+
+      const results = optimizeSchedule(courses, { maxPermutations: 3 });
+
+      expect(results.length).toBeLessThanOrEqual(3);
+    });
+
+    it('keeps the cheapest solutions when there are more than maxPermutations of them', () => {
+      // Moving either 10101 or 10102 resolves the clash in one change, giving
+      // more single-change solutions than the five kept
+      const courses = [
+        makeCourse('10101', 'Adams', 480, 'CEB 101'),
+        makeCourse('10102', 'Baker', 480, 'CEB 101'),
+        makeCourse('10103', 'Clark', 600, 'CEB 102'),
+        makeCourse('10104', 'Davis', 660, 'CEB 103'),
+      ];
+
+      const results = optimizeSchedule(courses, { maxPermutations: 5, roomInventory: new Map() });
+
+      expect(results).toHaveLength(5);
+      expect(results.every((r) => r.conflictCount === 0 && r.changeCount === 1)).toBe(true);
+    });
+  });
+});
@@ -8,21 +8,38 @@
  *
  * ALGORITHM:
  * 1. Extract available time slots, rooms, and instructors from schedule data
- * 2. For each course with conflicts, try alternative time/room assignments
- * 3. Check constraints (no double-booking)
- * 4. Score each permutation by similarity to original
+ * 2. Every unlocked course with conflicts becomes a search variable whose
+ *    domain is its alternative time/room assignments
+ * 3. Backtracking search with forward checking and most-constrained-first
+ *    ordering assigns all variables together (no double-booking)
+ * 4. Branch and bound on change count keeps only the most similar
+ *    permutations
  * 5. Return top N solutions sorted by similarity
  *
  * PERFORMANCE:
  * - Uses early termination when enough good solutions found
+ * - Forward checking and a change-count lower bound prune dead branches
  * - Runs in Web Worker for background processing
  * - Target: < 30 seconds for 20 courses
  *
  * =============================================================================
  */
 
-import type { Course, DayOfWeek } from '../types/schedule';
+import type { CampusType, Course, DayOfWeek } from '../types/schedule';
+import type { FacultyProfile } from '../types/faculty';
 import { hasTimeOverlap, haveSameInstructor, haveSameRoom } from './courseComparison';
+import { isLabCorequisite } from './conflictDetector';
+import { isStackedPair } from './stackedCourseDetector';
+import type { QualificationIndex } from './instructorQualifications';
+import { describeQualification, findQualification, getQualifiedInstructors } from './instructorQualifications';
+import { checkRoomFit, getRequiredRoomFeatures, ROOM_INVENTORY, type RoomInventory } from '../constants/rooms';
+import {
+  describeWindow,
+  findPreferenceIssues,
+  findWindowViolations,
+  normalizeEmail,
+  type FacultyProfileIndex,
+} from './facultyAvailability';
 
 /**
  * A possible time slot for a course
@@ -53,6 +70,7 @@ export interface ScheduleChange {
   changeType: 'time' | 'room' | 'instructor' | 'campus';
   from: string;
   to: string;
+  reason?: string; // Why the new value is acceptable (e.g. instructor qualification)
 }
 
 /**
@@ -64,6 +82,7 @@ export interface SchedulePermutation {
   changeCount: number;
   changes: ScheduleChange[];
   similarityScore: number; // 0-1, higher = more similar to original
+  preferenceIssues?: string[]; // Soft faculty-preference issues introduced by the changes
 }
 
 /**
@@ -76,10 +95,21 @@ export interface OptimizerOptions {
   allowRoomChange: boolean;     // Can change rooms
   allowInstructorChange: boolean; // Can change instructors
   allowCampusChange: boolean;   // Can change campus
+  qualifiedInstructors?: QualificationIndex; // Who may teach each course code (required for instructor changes)
+  roomInventory?: RoomInventory; // Room capacity/features used to filter room changes (defaults to ROOM_INVENTORY)
+  facultyProfiles?: FacultyProfileIndex; // Blackouts are hard constraints; preferences are soft
   lockedCRNs?: Set<string>;     // CRNs that cannot be changed (locked in place)
+  otherCourses?: Course[];      // The rest of the schedule; proposed instructors must be free of these sections
   onProgress?: (progress: number) => void; // Progress callback (0-100)
 }
 
+/**
+ * Cost added per soft faculty-preference issue. Well under one change, so
+ * preferences only decide between solutions with the same number of changes
+ * (up to three issues) and never outweigh a smaller edit.
+ */
+const PREFERENCE_PENALTY = 0.25;
+
 const DEFAULT_OPTIONS: OptimizerOptions = {
   maxPermutations: 50,
   maxTimeMs: 30000,
@@ -155,22 +185,62 @@ export function assignmentsConflict(a: CourseAssignment, b: CourseAssignment): b
   if (!timeOverlap) return false;
 
   // Same instructor at same time
-  if (a.instructor === b.instructor) return true;
+  if (a.instructor === b.instructor && a.instructor !== 'TBA') return true;
 
   // Same room at same time
-  if (a.room === b.room && a.room !== 'TBA') return true;
+  if (a.room === b.room && isPhysicalRoom(a.room)) return true;
 
   return false;
 }
 
+/**
+ * Whether a location string names a bookable room (not TBA or online)
+ */
+export function isPhysicalRoom(room: string): boolean {
+  return room !== 'TBA' && room !== 'Online';
+}
+
+/**
+ * Key for an unordered pair of CRNs
+ */
+function pairKey(crn1: string, crn2: string): string {
+  return crn1 < crn2 ? `${crn1}|${crn2}` : `${crn2}|${crn1}`;
+}
+
+/**
+ * Find CRN pairs that are allowed to share an instructor or room at the same
+ * time: sections of the same course, stacked 400/500 pairs and lecture + lab
+ * corequisites. Mirrors the default filtering in detectAllConflicts.
+ */
+export function findExemptPairs(courses: Course[]): Set<string> {
+  const exempt = new Set<string>();
+
+  for (let i = 0; i < courses.length; i++) {
+    for (let j = i + 1; j < courses.length; j++) {
+      const a = courses[i];
+      const b = courses[j];
+      const sameCourse = a.subject === b.subject && a.courseNumber === b.courseNumber;
+      if (sameCourse || isStackedPair(a, b) || isLabCorequisite(a, b)) {
+        exempt.add(pairKey(a.crn, b.crn));
+      }
+    }
+  }
+
+  return exempt;
+}
+
 /**
  * Count conflicts in a set of assignments
  */
-export function countConflicts(assignments: CourseAssignment[]): number {
+export function countConflicts(
+  assignments: CourseAssignment[],
+  exemptPairs: Set<string> = new Set()
+): number {
   let conflicts = 0;
 
   for (let i = 0; i < assignments.length; i++) {
     for (let j = i + 1; j < assignments.length; j++) {
+      if (exemptPairs.has(pairKey(assignments[i].crn, assignments[j].crn))) continue;
       if (assignmentsConflict(assignments[i], assignments[j])) {
         conflicts++;
       }
@@ -306,8 +376,143 @@ export function calculateSimilarity(
   return 1 - (totalChanges / maxChanges);
 }
 
+/**
+ * A variable in the constraint search: one or more linked courses (a stacked
+ * 400/500 pair sharing a slot moves as a unit) and the values still open to it
+ */
+interface SearchVariable {
+  originals: CourseAssignment[];
+  domain: CandidateValue[];
+}
+
+/**
+ * A candidate placement for every course in a variable, with its distance
+ * (number of changed fields) from the original placement
+ */
+interface CandidateValue {
+  assignments: CourseAssignment[];
+  cost: number;
+}
+
+/**
+ * Weekly contact minutes for a time slot - alternatives must preserve this
+ * so a section never gains or loses instructional time by being moved
+ */
+function weeklyMinutes(slot: TimeSlot): number {
+  return slot.days.length * (slot.endMinutes - slot.startMinutes);
+}
+
+function sameTimeSlot(a: TimeSlot, b: TimeSlot): boolean {
+  return a.startMinutes === b.startMinutes &&
+    a.endMinutes === b.endMinutes &&
+    a.days.join(',') === b.days.join(',');
+}
+
+/**
+ * Group courses that must move together: stacked pairs meeting in the same slot
+ */
+function buildLinkedGroups(
+  assignments: CourseAssignment[],
+  courseMap: Map<string, Course>
+): CourseAssignment[][] {
+  const groupOf = new Map<string, CourseAssignment[]>();
+
+  for (const assignment of assignments) {
+    const course = courseMap.get(assignment.crn)!;
+    const partner = assignments.find(other =>
+      other.crn !== assignment.crn &&
+      groupOf.has(other.crn) &&
+      sameTimeSlot(other.timeSlot, assignment.timeSlot) &&
+      isStackedPair(course, courseMap.get(other.crn)!)
+    );
+
+    const group = partner ? groupOf.get(partner.crn)! : [];
+    group.push(assignment);
+    groupOf.set(assignment.crn, group);
+  }
+
+  return Array.from(new Set(groupOf.values()));
+}
+
+/**
+ * Build the candidate values for one variable, cheapest (most similar) first
+ */
+function buildDomain(
+  originals: CourseAssignment[],
+  timeSlots: TimeSlot[],
+  rooms: string[],
+  instructors: string[],
+  fitsRoom: (room: string) => boolean = () => true
+): CandidateValue[] {
+  const lead = originals[0];
+
+  const timeOptions: TimeSlot[] = [lead.timeSlot];
+  for (const slot of timeSlots) {
+    if (weeklyMinutes(slot) !== weeklyMinutes(lead.timeSlot)) continue;
+    if (sameTimeSlot(slot, lead.timeSlot)) continue;
+    timeOptions.push(slot);
+  }
+
+  // Only sections that already meet in a physical room are moved between
+  // rooms, and only into rooms that can seat them with the features they need
+  const roomOptions: string[] = [lead.room];
+  if (isPhysicalRoom(lead.room)) {
+    for (const room of rooms) {
+      if (room !== lead.room && isPhysicalRoom(room) && fitsRoom(room)) roomOptions.push(room);
+    }
+  }
+
+  const instructorOptions: string[] = [
+    lead.instructor,
+    ...instructors.filter(name => name !== lead.instructor && name !== 'TBA'),
+  ];
+
+  const values: CandidateValue[] = [];
+  for (const timeSlot of timeOptions) {
+    for (const room of roomOptions) {
+      for (const instructor of instructorOptions) {
+        const assignments = originals.map(original => ({
+          ...original,
+          timeSlot,
+          room: original.room === lead.room ? room : original.room,
+          instructor: original.instructor === lead.instructor ? instructor : original.instructor,
+        }));
+        const cost = assignments.reduce(
+          (sum, a, i) => sum + calculateChanges(originals[i], a, a.crn).length,
+          0
+        );
+        values.push({ assignments, cost });
+      }
+    }
+  }
+
+  // Stable sort keeps extraction order among equally-distant values
+  return values.sort((a, b) => a.cost - b.cost);
+}
+
 /**
  * Main optimizer function - generates conflict-free permutations
+ *
+ * Every unlocked course involved in a conflict becomes a search variable whose
+ * domain is the cross product of alternative time slots, rooms and (when a
+ * qualification index is supplied) qualified instructors. The search
+ * is a depth-first backtracking search with:
+ * - forward checking: each assignment prunes clashing values from the
+ *   domains of unassigned variables, backtracking as soon as one empties
+ * - most-constrained-first ordering: the unassigned variable with the fewest
+ *   remaining values is always assigned next
+ * - branch and bound on change count: values are tried cheapest first and,
+ *   once maxPermutations solutions are held, any branch whose changes plus a
+ *   lower bound cannot beat the worst of them is cut, so the search converges
+ *   on the most similar multi-move permutations before the time limit hits
+ *
+ * Variables that cannot be placed anywhere (e.g. clashing only with locked
+ * courses) are pinned in place and their conflicts reported as unavoidable.
+ *
+ * With faculty profiles, a section inside its instructor's blackout counts as
+ * a conflict and no value may place an instructor in one (hard); soft windows,
+ * preferred days, campus preference and max preps add PREFERENCE_PENALTY per
+ * issue to a value's cost (soft).
  */
 export function optimizeSchedule(
   courses: Course[],
@@ -329,8 +534,82 @@ export function optimizeSchedule(
     }
   }
 
+  // Same-course sections, stacked pairs and lab corequisites may overlap
+  const exemptPairs = findExemptPairs(Array.from(courseMap.values()));
+  const clash = (a: CourseAssignment, b: CourseAssignment) =>
+    !exemptPairs.has(pairKey(a.crn, b.crn)) && assignmentsConflict(a, b);
+  const valuesClash = (a: CourseAssignment[], b: CourseAssignment[]) =>
+    a.some(x => b.some(y => clash(x, y)));
+
+  // Sections left out of the optimization still keep their instructors busy
+  const outsideAssignments = (opts.otherCourses ?? [])
+    .filter(course => !courseMap.has(course.crn))
+    .map(courseToAssignment)
+    .filter((a): a is CourseAssignment => a !== null);
+  const busyElsewhere = (a: CourseAssignment) =>
+    outsideAssignments.some(o => o.instructor === a.instructor && assignmentsConflict(a, o));
+
+  // Faculty profiles are keyed by email; assignments carry display names
+  const profileByName = new Map<string, FacultyProfile>();
+  if (opts.facultyProfiles) {
+    const emailByName = new Map<string, string>();
+    for (const list of opts.qualifiedInstructors?.values() ?? []) {
+      for (const q of list) if (q.email) emailByName.set(q.instructor, q.email);
+    }
+    for (const course of courses) {
+      if (course.instructor?.email) emailByName.set(course.instructor.displayName, course.instructor.email);
+    }
+    for (const [name, email] of emailByName) {
+      const profile = opts.facultyProfiles.get(normalizeEmail(email));
+      if (profile) profileByName.set(name, profile);
+    }
+  }
+  const prepsByInstructor = new Map<string, Set<string>>();
+  for (const assignment of originalAssignments) {
+    const preps = prepsByInstructor.get(assignment.instructor) ?? new Set<string>();
+    preps.add(courseMap.get(assignment.crn)!.displayCode);
+    prepsByInstructor.set(assignment.instructor, preps);
+  }
+
+  const isBlackedOut = (a: CourseAssignment): boolean => {
+    const profile = profileByName.get(a.instructor);
+    if (!profile) return false;
+    const { days, startMinutes, endMinutes } = a.timeSlot;
+    return findWindowViolations(profile, days, startMinutes, endMinutes, a.campus as CampusType)
+      .some(v => v.window.hard);
+  };
+  const preferenceIssuesFor = (a: CourseAssignment): string[] => {
+    const profile = profileByName.get(a.instructor);
+    if (!profile) return [];
+    const { days, startMinutes, endMinutes } = a.timeSlot;
+    const issues = findWindowViolations(profile, days, startMinutes, endMinutes, a.campus as CampusType)
+      .filter(v => !v.window.hard)
+      .map(v => `${profile.displayName} prefers not to teach ${describeWindow(v.window)}`);
+    issues.push(...findPreferenceIssues(profile, days, a.campus as CampusType));
+    const preps = prepsByInstructor.get(a.instructor);
+    const courseCode = courseMap.get(a.crn)!.displayCode;
+    if (profile.maxPreps && !preps?.has(courseCode) && (preps?.size ?? 0) >= profile.maxPreps) {
+      issues.push(`${profile.displayName} would exceed ${profile.maxPreps} preps with ${courseCode}`);
+    }
+    return Array.from(new Set(issues));
+  };
+  const applyProfiles = (domain: CandidateValue[]): CandidateValue[] => {
+    if (profileByName.size === 0) return domain;
+    return domain
+      .filter(value => !value.assignments.some(isBlackedOut))
+      .map(value => ({
+        ...value,
+        cost: value.cost + PREFERENCE_PENALTY * value.assignments.flatMap(preferenceIssuesFor).length,
+      }))
+      .sort((a, b) => a.cost - b.cost);
+  };
+
+  // Sections inside an instructor blackout count as conflicts to resolve
+  const totalConflicts = (assignments: CourseAssignment[]) =>
+    countConflicts(assignments, exemptPairs) + assignments.filter(isBlackedOut).length;
+
   // If no conflicts in original, return it as the only solution
-  const originalConflicts = countConflicts(originalAssignments);
+  const originalConflicts = totalConflicts(originalAssignments);
   if (originalConflicts === 0) {
     return [{
       assignments: originalAssignments,
@@ -344,100 +623,229 @@ export function optimizeSchedule(
   // Extract available options
   const availableTimeSlots = opts.allowTimeChange ? extractTimeSlots(courses) : [];
   const availableRooms = opts.allowRoomChange ? extractRooms(courses) : [];
-  // Note: Instructor changes are tracked but not currently generated as alternatives
-  // const availableInstructors = opts.allowInstructorChange ? extractInstructors(courses) : [];
+  // Instructor alternatives come only from the qualification index: anyone
+  // who has taught the same course, under any of its codes, in a published term
+  const qualifiedFor = (crn: string): string[] => {
+    if (!opts.allowInstructorChange || !opts.qualifiedInstructors) return [];
+    const courseCode = courseMap.get(crn)!.displayCode;
+    return getQualifiedInstructors(opts.qualifiedInstructors, courseCode).map(q => q.instructor);
+  };
+  // A group moves rooms together, so the new room must seat all of the
+  // sections sharing the lead's room and offer every feature they require
+  const inventory = opts.roomInventory ?? ROOM_INVENTORY;
+  const roomFitFor = (group: CourseAssignment[]) => {
+    const sharing = group
+      .filter(a => a.room === group[0].room)
+      .map(a => courseMap.get(a.crn)!);
+    const seats = sharing.reduce((sum, c) => sum + c.enrollment.maximum, 0);
+    const features = Array.from(new Set(sharing.flatMap(getRequiredRoomFeatures)));
+    return (room: string) => checkRoomFit(room, seats, features, inventory).length === 0;
+  };
 
   // Find conflicting courses
   const conflictingCRNs = new Set<string>();
   for (let i = 0; i < originalAssignments.length; i++) {
     for (let j = i + 1; j < originalAssignments.length; j++) {
-      if (assignmentsConflict(originalAssignments[i], originalAssignments[j])) {
+      if (clash(originalAssignments[i], originalAssignments[j])) {
         conflictingCRNs.add(originalAssignments[i].crn);
         conflictingCRNs.add(originalAssignments[j].crn);
       }
     }
+    if (isBlackedOut(originalAssignments[i])) conflictingCRNs.add(originalAssignments[i].crn);
   }
 
-  // Locked courses are always stable - they cannot be changed even if conflicting
+  // Locked courses are always stable - they cannot be changed even if conflicting.
+  // A linked group is movable only if it has a conflict and no locked member.
   const lockedCRNs = opts.lockedCRNs || new Set<string>();
+  const fixedAssignments: CourseAssignment[] = [];
+  let variables: SearchVariable[] = [];
+
+  for (const group of buildLinkedGroups(originalAssignments, courseMap)) {
+    const movable = group.some(a => conflictingCRNs.has(a.crn)) &&
+      !group.some(a => lockedCRNs.has(a.crn));
+    if (movable) {
+      variables.push({
+        originals: group,
+        domain: applyProfiles(buildDomain(
+          group,
+          availableTimeSlots,
+          availableRooms,
+          qualifiedFor(group[0].crn),
+          roomFitFor(group)
+        )).filter(value =>
+          !value.assignments.some((a, i) => a.instructor !== group[i].instructor && busyElsewhere(a))
+        ),
+      });
+    } else {
+      fixedAssignments.push(...group);
+    }
+  }
 
-  // Generate permutations by trying different assignments for conflicting courses
-  // But ONLY if they're not locked
-  const conflictingAssignments = originalAssignments.filter(
-    a => conflictingCRNs.has(a.crn) && !lockedCRNs.has(a.crn)
-  );
-  // Stable = not conflicting OR locked (locked courses stay in place)
-  const stableAssignments = originalAssignments.filter(
-    a => !conflictingCRNs.has(a.crn) || lockedCRNs.has(a.crn)
-  );
-
-  // Try each time slot for each conflicting course
-  function* generateCandidates(): Generator<CourseAssignment[]> {
-    if (conflictingAssignments.length === 0) {
-      yield [...stableAssignments];
-      return;
+  // Node consistency against fixed courses. A variable left with no legal
+  // value is pinned to its original slot, which may in turn prune others.
+  let pinnedAny = true;
+  while (pinnedAny) {
+    pinnedAny = false;
+    for (const variable of variables) {
+      variable.domain = variable.domain.filter(v => !valuesClash(v.assignments, fixedAssignments));
+    }
+    const unplaceable = variables.filter(v => v.domain.length === 0);
+    if (unplaceable.length > 0) {
+      pinnedAny = true;
+      fixedAssignments.push(...unplaceable.flatMap(v => v.originals));
+      variables = variables.filter(v => v.domain.length > 0);
     }
+  }
 
-    // Simple greedy: try moving each conflicting course to a different time
-    for (const assignment of conflictingAssignments) {
-      for (const timeSlot of availableTimeSlots) {
-        const newAssignment: CourseAssignment = {
-          ...assignment,
-          timeSlot,
-        };
+  if (variables.length === 0) {
+    // Every conflict involves locked or unplaceable courses - nothing to move
+    return [];
+  }
 
-        // Check if this resolves the conflict
-        const candidate = [
-          ...stableAssignments,
-          newAssignment,
-          ...conflictingAssignments.filter(a => a.crn !== assignment.crn),
-        ];
+  const originalByCRN = new Map(originalAssignments.map(a => [a.crn, a]));
 
-        yield candidate;
-      }
+  // Best solutions found so far, kept sorted by cost (fewest changes first)
+  const best: { cost: number; assignments: CourseAssignment[] }[] = [];
+  const costBound = () =>
+    best.length >= opts.maxPermutations ? best[best.length - 1].cost : Infinity;
 
-      // Also try different rooms
-      for (const room of availableRooms) {
-        if (room === assignment.room) continue;
+  let timedOut = false;
+  let nodes = 0;
 
-        const newAssignment: CourseAssignment = {
-          ...assignment,
-          room,
-        };
+  const recordSolution = (solution: CourseAssignment[], cost: number) => {
+    let index = best.findIndex(b => b.cost > cost);
+    if (index === -1) index = best.length;
+    best.splice(index, 0, { cost, assignments: [...solution] });
+    if (best.length > opts.maxPermutations) best.pop();
+  };
 
-        const candidate = [
-          ...stableAssignments,
-          newAssignment,
-          ...conflictingAssignments.filter(a => a.crn !== assignment.crn),
-        ];
+  /**
+   * Lower bound on the extra cost the unassigned variables must still pay:
+   * each one pays at least its cheapest value, and of any two whose cheapest
+   * values clash with each other one must pay more (greedy disjoint pairs).
+   */
+  const lowerBound = (domains: (CandidateValue[] | null)[]): number => {
+    let bound = 0;
+    const open: number[] = [];
+    for (let i = 0; i < domains.length; i++) {
+      const domain = domains[i];
+      if (!domain) continue;
+      bound += domain[0].cost;
+      if (domain.length > 1 && domain[1].cost > domain[0].cost) open.push(i);
+    }
 
-        yield candidate;
+    const paired = new Set<number>();
+    for (let x = 0; x < open.length; x++) {
+      if (paired.has(open[x])) continue;
+      const di = domains[open[x]]!;
+      for (let y = x + 1; y < open.length; y++) {
+        if (paired.has(open[y])) continue;
+        const dj = domains[open[y]]!;
+        if (valuesClash(di[0].assignments, dj[0].assignments)) {
+          bound += Math.min(di[1].cost - di[0].cost, dj[1].cost - dj[0].cost);
+          paired.add(open[x]);
+          paired.add(open[y]);
+          break;
+        }
       }
     }
-  }
+    return bound;
+  };
+
+  /**
+   * Depth-first branch-and-bound search. `domains` is indexed like
+   * `variables`; null marks an assigned variable. Once maxPermutations
+   * solutions are held, only branches that can beat the worst one are explored.
+   */
+  const search = (
+    domains: (CandidateValue[] | null)[],
+    partial: CourseAssignment[],
+    spent: number,
+    onRootValue?: (index: number, total: number) => void
+  ): void => {
+    if (timedOut) return;
+
+    nodes++;
+    if (nodes % 100 === 0 && Date.now() - startTime > opts.maxTimeMs) {
+      timedOut = true;
+      return;
+    }
 
-  // Evaluate candidates
-  let evaluated = 0;
-  for (const candidate of generateCandidates()) {
-    // Check time limit
-    if (Date.now() - startTime > opts.maxTimeMs) break;
-    if (permutations.length >= opts.maxPermutations) break;
+    // Most constrained variable first
+    let next = -1;
+    for (let i = 0; i < domains.length; i++) {
+      const domain = domains[i];
+      if (!domain) continue;
+      if (next === -1 || domain.length < domains[next]!.length) next = i;
+    }
 
-    const conflicts = countConflicts(candidate);
-    const similarity = calculateSimilarity(originalAssignments, candidate);
+    if (next === -1) {
+      recordSolution(partial, spent);
+      return;
+    }
 
-    // Calculate all changes
+    // Bound the rest without `next`, whose pair penalty would otherwise be
+    // counted again on top of a value dearer than its cheapest. Ties with the
+    // worst kept solution are still explored.
+    const nextDomain = domains[next]!;
+    const restBound = lowerBound(domains.map((domain, i) => (i === next ? null : domain)));
+    if (spent + nextDomain[0].cost + restBound > costBound()) return;
+
+    for (let v = 0; v < nextDomain.length; v++) {
+      const value = nextDomain[v];
+      onRootValue?.(v, nextDomain.length);
+      // Values are sorted by cost, so nothing later can do better
+      if (spent + value.cost + restBound > costBound()) break;
+
+      // Forward check: prune values that clash with this choice
+      const pruned: (CandidateValue[] | null)[] = [];
+      let wipedOut = false;
+      for (let i = 0; i < domains.length; i++) {
+        const domain = domains[i];
+        if (i === next || !domain) {
+          pruned.push(null);
+          continue;
+        }
+        const remaining = domain.filter(d => !valuesClash(d.assignments, value.assignments));
+        if (remaining.length === 0) {
+          wipedOut = true;
+          break;
+        }
+        pruned.push(remaining);
+      }
+      if (wipedOut) continue;
+
+      partial.push(...value.assignments);
+      search(pruned, partial, spent + value.cost);
+      partial.splice(partial.length - value.assignments.length);
+
+      if (timedOut) return;
+    }
+  };
+
+  search(variables.map(v => v.domain), [], 0, (index, total) => {
+    opts.onProgress?.(Math.round((index / total) * 100));
+  });
+
+  for (const solution of best) {
+    const candidate = [...fixedAssignments, ...solution.assignments];
     const allChanges: ScheduleChange[] = [];
-    for (const newAssignment of candidate) {
-      const original = originalAssignments.find(a => a.crn === newAssignment.crn);
-      if (original) {
-        const course = courseMap.get(newAssignment.crn);
-        const courseCode = course?.displayCode || newAssignment.crn;
-        const changes = calculateChanges(original, newAssignment, courseCode);
-        allChanges.push(...changes);
+    const preferenceIssues = new Set<string>();
+    for (const newAssignment of solution.assignments) {
+      const original = originalByCRN.get(newAssignment.crn)!;
+      const courseCode = courseMap.get(newAssignment.crn)?.displayCode || newAssignment.crn;
+      const changes = calculateChanges(original, newAssignment, courseCode);
+      if (changes.length > 0) preferenceIssuesFor(newAssignment).forEach(issue => preferenceIssues.add(issue));
+      for (const change of changes) {
+        if (change.changeType === 'instructor' && opts.qualifiedInstructors) {
+          const qualification = findQualification(opts.qualifiedInstructors, courseCode, change.to);
+          if (qualification) change.reason = describeQualification(qualification);
+        }
+        allChanges.push(change);
       }
     }
 
+    const conflicts = totalConflicts(candidate);
     // Only keep conflict-free or improved solutions
     if (conflicts < originalConflicts) {
       permutations.push({
@@ -445,25 +853,22 @@ export function optimizeSchedule(
         conflictCount: conflicts,
         changeCount: allChanges.length,
         changes: allChanges,
-        similarityScore: similarity,
+        similarityScore: calculateSimilarity(originalAssignments, candidate),
+        ...(preferenceIssues.size > 0 ? { preferenceIssues: Array.from(preferenceIssues) } : {}),
       });
     }
-
-    evaluated++;
-
-    // Report progress
-    if (opts.onProgress && evaluated % 100 === 0) {
-      const progress = Math.min(100, Math.round((evaluated / 1000) * 100));
-      opts.onProgress(progress);
-    }
   }
 
-  // Sort by: conflict-free first, then by similarity (most similar first)
+  // Sort by: conflict-free first, then by similarity (most similar first),
+  // then by fewest faculty-preference issues
   permutations.sort((a, b) => {
     if (a.conflictCount !== b.conflictCount) {
       return a.conflictCount - b.conflictCount;
     }
-    return b.similarityScore - a.similarityScore;
+    if (a.similarityScore !== b.similarityScore) {
+      return b.similarityScore - a.similarityScore;
+    }
+    return (a.preferenceIssues?.length ?? 0) - (b.preferenceIssues?.length ?? 0);
   });
 
   return permutations.slice(0, opts.maxPermutations);
@@ -473,8 +878,10 @@ export function optimizeSchedule(
  * Quick check if any conflicts exist
  */
 export function hasConflicts(courses: Course[]): boolean {
+  const exemptPairs = findExemptPairs(courses);
   for (let i = 0; i < courses.length; i++) {
     for (let j = i + 1; j < courses.length; j++) {
+      if (exemptPairs.has(pairKey(courses[i].crn, courses[j].crn))) continue;
       if (hasTimeOverlap(courses[i], courses[j])) {
         if (haveSameInstructor(courses[i], courses[j]) || haveSameRoom(courses[i], courses[j])) {
           return true;
@@ -136,7 +136,7 @@ function parseMeetings(meetingsFaculty: BannerCourse['meetingsFaculty']): Meetin
   if (!meetingsFaculty || meetingsFaculty.length === 0) return [];
 
   return meetingsFaculty
-    .map((mf) => {
+    .map((mf): Meeting | null => {
       const mt = mf.meetingTime;
       if (!mt) return null;
 
@@ -175,6 +175,8 @@ function parseMeetings(meetingsFaculty: BannerCourse['meetingsFaculty']): Meetin
         location,
         type: mt.meetingScheduleType,
         typeDescription: mt.meetingTypeDescription,
+        startDate: mt.startDate || undefined,
+        endDate: mt.endDate || undefined,
       };
     })
     .filter((m): m is Meeting => m !== null && m.days.length > 0);
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { compareTermSchedules } from './termComparison';
+import { getCanonicalCourseCode } from '../constants/courseAliases';
+import { parseScheduleData } from './scheduleParser';
+import { mockBannerCourse } from '../test/mocks/scheduleData';
+import type { Course } from '../types/schedule';
+
+describe('termComparison', () => {
+  // Doe, Jane teaches CSCD 110-001 MTWRF 8:00-8:50
+  const [course] = parseScheduleData({ success: true, totalCount: 1, data: [mockBannerCourse] });
+
+  const section = (overrides: Partial<Course>): Course => ({ ...course, ...overrides });
+  const retime = (c: Course, startMinutes: number): Course => ({
+    ...c,
+    meetings: c.meetings.map((m) => ({ ...m, startMinutes, endMinutes: startMinutes + 50 })),
+  });
+
+  it('maps subject renames to their canonical course code', () => {
+    expect(getCanonicalCourseCode('CSCD 330')).toBe('CYBR 330');
+    expect(getCanonicalCourseCode(' cybr  330 ')).toBe('CYBR 330');
+    expect(getCanonicalCourseCode('CSCD 110')).toBe('CSCD 110');
+  });
+
+  it('reports added, dropped and unchanged sections', () => {
+    const base = [section({ crn: '1' }), section({ crn: '2', section: '002', courseNumber: '210', displayCode: 'CSCD 210' })];
+    const target = [section({ crn: '3' }), section({ crn: '4', courseNumber: '211', displayCode: 'CSCD 211' })];
+
+    const result = compareTermSchedules('202440', base, '202540', target);
+    expect(result.rows.map((r) => [r.canonicalCode, r.kind])).toEqual([
+      ['CSCD 110', 'unchanged'],
+      ['CSCD 210', 'dropped'],
+      ['CSCD 211', 'added'],
+    ]);
+    expect(result.summary).toMatchObject({ added: 1, dropped: 1, unchanged: 1 });
+  });
+
+  it('lines up renamed courses and reports re-timed, re-roomed and reassigned sections', () => {
+    const base = [section({ crn: '1', courseNumber: '330', displayCode: 'CSCD 330' })];
+    const moved = retime(section({ crn: '2', subject: 'CYBR', courseNumber: '330', displayCode: 'CYBR 330' }), 600);
+    const target = [
+      {
+        ...moved,
+        meetings: moved.meetings.map((m) => ({ ...m, location: 'CEB 105' })),
+        instructor: { ...course.instructor!, displayName: 'Roe, Rick', email: 'rroe@ewu.edu' },
+      },
+    ];
+
+    const [row] = compareTermSchedules('202440', base, '202540', target).rows;
+    expect(row.canonicalCode).toBe('CYBR 330');
+    expect(row.kind).toBe('changed');
+    expect(row.changes.map((c) => c.field)).toEqual(['time', 'room', 'instructor']);
+    expect(row.changes[2]).toEqual({ field: 'instructor', from: 'Doe, Jane', to: 'Roe, Rick' });
+  });
+
+  it('pairs the most similar sections and leaves unrelated ones unmatched', () => {
+    const other = { ...course.instructor!, displayName: 'Roe, Rick', email: 'rroe@ewu.edu' };
+    const base = [
+      section({ crn: '1', section: '001' }),
+      retime(section({ crn: '2', section: '002', instructor: other }), 780),
+    ];
+    // 002 renumbered to 003 but kept its instructor and time; 001 is gone and
+    // an unrelated online section appeared
+    const target = [
+      retime(section({ crn: '3', section: '003', instructor: other }), 780),
+      retime(section({ crn: '4', section: '040', instructor: null }), 1080),
+    ];
+
+    const rows = compareTermSchedules('202440', base, '202540', target).rows;
+    expect(rows.map((r) => [r.kind, r.base?.crn, r.target?.crn])).toEqual([
+      ['dropped', '1', undefined],
+      ['unchanged', '2', '3'],
+      ['added', undefined, '4'],
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * =============================================================================
+ * SERVICE: termComparison
+ * =============================================================================
+ *
+ * PURPOSE: Line up the sections of two terms by canonical course code and
+ * report what was added, dropped, re-timed, re-roomed or reassigned - the
+ * "roll forward" sanity check between e.g. Fall 2024 and Fall 2025.
+ *
+ * MATCHING:
+ * - Sections are grouped by canonical course code (course-aliases.json), so
+ *   CSCD 330 in one term lines up with CYBR 330 in the next
+ * - Within a group, section pairs are chosen greedily by similarity (same
+ *   code and section number first, then instructor, meeting pattern, room).
+ *   Two sections only pair up if they share a section number, instructor or
+ *   meeting pattern
+ * - Sections left over on the base side were dropped; on the target side,
+ *   added
+ *
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import { formatDays, formatTimeRange } from '../constants/timeSlots';
+import { getCanonicalCourseCode } from '../constants/courseAliases';
+
+export type SectionChangeField = 'time' | 'room' | 'instructor';
+
+export interface SectionChange {
+  field: SectionChangeField;
+  from: string;
+  to: string;
+}
+
+export type SectionComparisonKind = 'added' | 'dropped' | 'changed' | 'unchanged';
+
+export interface SectionComparison {
+  canonicalCode: string;
+  title: string;
+  kind: SectionComparisonKind;
+  base?: Course;
+  target?: Course;
+  changes: SectionChange[];
+}
+
+export interface TermComparisonSummary {
+  added: number;
+  dropped: number;
+  retimed: number;
+  reroomed: number;
+  reassigned: number;
+  unchanged: number;
+}
+
+export interface TermComparison {
+  baseTerm: string;
+  targetTerm: string;
+  rows: SectionComparison[];
+  summary: TermComparisonSummary;
+}
+
+/**
+ * Meeting days and times, e.g. "Mon, Wed 10:00 AM - 11:30 AM"; "Arranged"
+ * when the section has no timed meetings
+ */
+export function describeMeetingPattern(course: Course): string {
+  const timed = course.meetings.filter((m) => m.days.length > 0 && m.endMinutes > m.startMinutes);
+  if (timed.length === 0) return 'Arranged';
+  return timed
+    .map((m) => `${formatDays(m.days)} ${formatTimeRange(m.startMinutes, m.endMinutes)}`)
+    .sort()
+    .join('; ');
+}
+
+export function describeRooms(course: Course): string {
+  const rooms = Array.from(new Set(course.meetings.map((m) => m.location).filter(Boolean))).sort();
+  return rooms.length > 0 ? rooms.join('; ') : 'TBA';
+}
+
+export function describeInstructor(course: Course): string {
+  return course.instructor?.displayName || 'TBA';
+}
+
+function sameInstructor(a: Course, b: Course): boolean {
+  if (a.instructor?.email && b.instructor?.email) {
+    return a.instructor.email.toLowerCase() === b.instructor.email.toLowerCase();
+  }
+  return describeInstructor(a) === describeInstructor(b);
+}
+
+function isPlausibleMatch(a: Course, b: Course): boolean {
+  return (
+    a.section === b.section ||
+    sameInstructor(a, b) ||
+    describeMeetingPattern(a) === describeMeetingPattern(b)
+  );
+}
+
+function similarity(a: Course, b: Course): number {
+  let score = 0;
+  if (a.displayCode === b.displayCode) score += 4;
+  if (a.section === b.section) score += 4;
+  if (sameInstructor(a, b)) score += 2;
+  if (describeMeetingPattern(a) === describeMeetingPattern(b)) score += 2;
+  if (describeRooms(a) === describeRooms(b)) score += 1;
+  if (a.campus === b.campus) score += 1;
+  if (a.delivery === b.delivery) score += 1;
+  return score;
+}
+
+/**
+ * Field-level differences between the same section in two terms
+ */
+export function diffSections(base: Course, target: Course): SectionChange[] {
+  const changes: SectionChange[] = [];
+
+  const fromTime = describeMeetingPattern(base);
+  const toTime = describeMeetingPattern(target);
+  if (fromTime !== toTime) changes.push({ field: 'time', from: fromTime, to: toTime });
+
+  const fromRoom = describeRooms(base);
+  const toRoom = describeRooms(target);
+  if (fromRoom !== toRoom) changes.push({ field: 'room', from: fromRoom, to: toRoom });
+
+  if (!sameInstructor(base, target)) {
+    changes.push({ field: 'instructor', from: describeInstructor(base), to: describeInstructor(target) });
+  }
+
+  return changes;
+}
+
+function groupByCanonicalCode(courses: Course[]): Map<string, Course[]> {
+  const groups = new Map<string, Course[]>();
+  for (const course of courses) {
+    const code = getCanonicalCourseCode(course.displayCode);
+    groups.set(code, [...(groups.get(code) ?? []), course]);
+  }
+  return groups;
+}
+
+/**
+ * Pair up sections of the same course, most similar first
+ */
+function matchSections(base: Course[], target: Course[]): Array<[Course | undefined, Course | undefined]> {
+  const candidates: Array<{ i: number; j: number; score: number }> = [];
+  base.forEach((a, i) =>
+    target.forEach((b, j) => {
+      if (isPlausibleMatch(a, b)) candidates.push({ i, j, score: similarity(a, b) });
+    })
+  );
+  candidates.sort((x, y) => y.score - x.score || x.i - y.i || x.j - y.j);
+
+  const usedBase = new Set<number>();
+  const usedTarget = new Set<number>();
+  const pairs: Array<[Course | undefined, Course | undefined]> = [];
+
+  for (const { i, j } of candidates) {
+    if (usedBase.has(i) || usedTarget.has(j)) continue;
+    usedBase.add(i);
+    usedTarget.add(j);
+    pairs.push([base[i], target[j]]);
+  }
+
+  base.forEach((course, i) => {
+    if (!usedBase.has(i)) pairs.push([course, undefined]);
+  });
+  target.forEach((course, j) => {
+    if (!usedTarget.has(j)) pairs.push([undefined, course]);
+  });
+
+  return pairs;
+}
+
+function sortKey(row: SectionComparison): string {
+  const course = row.target ?? row.base;
+  return `${row.canonicalCode}|${course?.section ?? ''}|${course?.displayCode ?? ''}`;
+}
+
+/**
+ * Compare two terms' sections
+ */
+export function compareTermSchedules(
+  baseTerm: string,
+  baseCourses: Course[],
+  targetTerm: string,
+  targetCourses: Course[]
+): TermComparison {
+  const baseGroups = groupByCanonicalCode(baseCourses);
+  const targetGroups = groupByCanonicalCode(targetCourses);
+  const codes = new Set([...baseGroups.keys(), ...targetGroups.keys()]);
+
+  const rows: SectionComparison[] = [];
+  for (const canonicalCode of codes) {
+    const pairs = matchSections(baseGroups.get(canonicalCode) ?? [], targetGroups.get(canonicalCode) ?? []);
+    for (const [base, target] of pairs) {
+      const title = (target ?? base)?.title ?? '';
+      if (base && target) {
+        const changes = diffSections(base, target);
+        rows.push({
+          canonicalCode,
+          title,
+          kind: changes.length > 0 ? 'changed' : 'unchanged',
+          base,
+          target,
+          changes,
+        });
+      } else {
+        rows.push({ canonicalCode, title, kind: base ? 'dropped' : 'added', base, target, changes: [] });
+      }
+    }
+  }
+
+  rows.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+
+  const changed = (field: SectionChangeField) =>
+    rows.filter((row) => row.changes.some((change) => change.field === field)).length;
+
+  return {
+    baseTerm,
+    targetTerm,
+    rows,
+    summary: {
+      added: rows.filter((row) => row.kind === 'added').length,
+      dropped: rows.filter((row) => row.kind === 'dropped').length,
+      retimed: changed('time'),
+      reroomed: changed('room'),
+      reassigned: changed('instructor'),
+      unchanged: rows.filter((row) => row.kind === 'unchanged').length,
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import type { BannerDataResponse, Course } from '../types/schedule';
+import { parseScheduleData } from './scheduleParser';
+
+const TERMS_MANIFEST_PATH = 'data/terms/index.json';
+const TERMS_DIRECTORY = 'data/terms';
+
+export interface TermManifestEntry {
+  termCode: string;
+  termDescription: string | null;
+}
+
+// Term files are large (up to a few MB) and immutable per deployment, so each
+// one is fetched and parsed at most once per session.
+const termCache = new Map<string, Promise<Course[]>>();
+
+/**
+ * Load the list of terms published under public/data/terms
+ */
+export async function loadTermManifestFromPublic(): Promise<TermManifestEntry[]> {
+  const basePath = import.meta.env.BASE_URL || '/';
+  const response = await fetch(`${basePath}${TERMS_MANIFEST_PATH}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load term manifest (${response.status})`);
+  }
+
+  const json = (await response.json()) as { terms?: unknown };
+  if (!Array.isArray(json.terms)) return [];
+
+  return json.terms
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter((entry) => typeof entry.termCode === 'string')
+    .map((entry) => ({
+      termCode: entry.termCode as string,
+      termDescription: typeof entry.termDescription === 'string' ? entry.termDescription : null,
+    }));
+}
+
+/**
+ * Load one term's schedule file as raw Banner data (not cached)
+ */
+export async function loadTermDataFromPublic(termCode: string): Promise<BannerDataResponse> {
+  const basePath = import.meta.env.BASE_URL || '/';
+  const response = await fetch(`${basePath}${TERMS_DIRECTORY}/${termCode}.json`);
+  if (!response.ok) {
+    throw new Error(`Failed to load term ${termCode} (${response.status})`);
+  }
+  return (await response.json()) as BannerDataResponse;
+}
+
+/**
+ * Load and parse one term's schedule file
+ */
+export function loadTermCoursesFromPublic(termCode: string): Promise<Course[]> {
+  const cached = termCache.get(termCode);
+  if (cached) return cached;
+
+  const pending = loadTermDataFromPublic(termCode)
+    .then(parseScheduleData)
+    .catch((error) => {
+      termCache.delete(termCode);
+      throw error;
+    });
+
+  termCache.set(termCode, pending);
+  return pending;
+}
+
+/**
+ * Load several terms, keyed by term code. Terms that fail to load are skipped.
+ */
+export async function loadTermsFromPublic(termCodes: string[]): Promise<Map<string, Course[]>> {
+  const results = await Promise.allSettled(termCodes.map((code) => loadTermCoursesFromPublic(code)));
+
+  const terms = new Map<string, Course[]>();
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      terms.set(termCodes[index], result.value);
+    }
+  });
+  return terms;
+}
+
+/**
+ * Load every term listed in the manifest
+ */
+export async function loadAllTermsFromPublic(): Promise<Map<string, Course[]>> {
+  const manifest = await loadTermManifestFromPublic();
+  return loadTermsFromPublic(manifest.map((entry) => entry.termCode));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeWaitlistDemand } from './waitlistDemand';
+import { parseScheduleData } from './scheduleParser';
+import { mockScheduleResponse } from '../test/mocks/scheduleData';
+import type { Course } from '../types/schedule';
+
+describe('waitlistDemand', () => {
+  const courses = parseScheduleData(mockScheduleResponse);
+  const cscd110 = courses.find((c) => c.displayCode === 'CSCD 110')!;
+  const cscd300 = courses.find((c) => c.displayCode === 'CSCD 300')!;
+
+  const section = (course: Course, sectionCode: string, current: number, maximum: number, waitlist: number): Course => ({
+    ...course,
+    id: `${course.id}-${sectionCode}`,
+    section: sectionCode,
+    enrollment: {
+      ...course.enrollment,
+      current,
+      maximum,
+      available: Math.max(0, maximum - current),
+      waitlist,
+      waitlistMax: 10,
+    },
+  });
+
+  it('ranks courses by waitlist-to-capacity ratio and skips courses nobody is waiting for', () => {
+    const report = analyzeWaitlistDemand([
+      section(cscd110, '001', 40, 40, 4),
+      section(cscd300, '001', 30, 30, 9),
+      section(cscd300, '002', 30, 30, 0),
+      { ...cscd110, id: 'cscd202', displayCode: 'CSCD 202', enrollment: { ...cscd110.enrollment, waitlist: 0 } },
+    ]);
+
+    expect(report.courses.map((c) => [c.courseCode, c.waitlistRatio])).toEqual([
+      ['CSCD 300', 0.15],
+      ['CSCD 110', 0.1],
+    ]);
+    expect(report.totalWaitlist).toBe(13);
+    expect(report.sectionsWithWaitlist).toBe(2);
+  });
+
+  it('flags full sections with a waitlist while a sibling has open seats', () => {
+    const full = section(cscd110, '001', 40, 40, 6);
+    const open = section(cscd110, '002', 32, 40, 0);
+    const report = analyzeWaitlistDemand([full, open]);
+    const [demand] = report.courses;
+
+    expect(report.imbalances).toEqual([{ section: full, openSiblings: [open], openSeats: 8 }]);
+    // Open seats absorb the whole waitlist
+    expect(demand.unmetDemand).toBe(0);
+    expect(demand.additionalSections).toBe(0);
+  });
+
+  it('estimates the sections needed to clear what open seats cannot absorb', () => {
+    const report = analyzeWaitlistDemand([
+      section(cscd110, '001', 30, 30, 20),
+      section(cscd110, '002', 25, 30, 15),
+      section(cscd110, '003', 40, 40, 10),
+    ]);
+    const [demand] = report.courses;
+
+    expect(demand.openSeats).toBe(5);
+    expect(demand.unmetDemand).toBe(40);
+    expect(demand.typicalCap).toBe(30);
+    expect(demand.additionalSections).toBe(2);
+    expect(report.additionalSections).toBe(2);
+  });
+
+  it('only counts open seats at the same campus with the same delivery', () => {
+    const full = section(cscd110, '001', 40, 40, 6);
+    const online = { ...section(cscd110, '040', 20, 40, 0), delivery: 'Online' as const };
+    const spokane = { ...section(cscd110, '002', 30, 40, 0), campus: 'Spokane U-District' as const };
+    const report = analyzeWaitlistDemand([full, online, spokane]);
+    const [demand] = report.courses;
+
+    expect(report.imbalances).toEqual([]);
+    expect(demand.openSeats).toBe(30);
+    expect(demand.unmetDemand).toBe(6);
+    expect(demand.additionalSections).toBe(1);
+  });
+});
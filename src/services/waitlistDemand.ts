@@ -0,0 +1,153 @@
+/**
+ * =============================================================================
+ * SERVICE: waitlistDemand
+ * =============================================================================
+ *
+ * PURPOSE: Use Banner's waitlist counts to find unmet demand: which courses
+ * have the most students waiting relative to the seats offered, where the
+ * waitlist is really a balancing problem between sections, and how many more
+ * sections would clear it.
+ *
+ * RULES:
+ * - Sections are grouped by course code (all sections of CSCD 210 together)
+ * - A section is full-with-waitlist when it has no seats left and at least
+ *   one student waiting
+ * - Siblings are sections of the same course at the same campus with the
+ *   same delivery; open seats online or in Spokane don't help a student
+ *   waiting for an in-person Cheney section
+ * - An imbalance is a full-with-waitlist section with an open sibling;
+ *   moving students there is cheaper than a new section
+ * - Unmet demand is each sibling group's waitlist minus its open seats,
+ *   summed. Additional sections = unmet demand / typical cap (median
+ *   section maximum), rounded up
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+
+export interface WaitlistImbalance {
+  /** Full section with students waiting */
+  section: Course;
+  /** Sections of the same course, campus and delivery with open seats */
+  openSiblings: Course[];
+  openSeats: number;
+}
+
+export interface CourseWaitlistDemand {
+  courseCode: string;
+  title: string;
+  sections: Course[];
+  capacity: number;
+  enrollment: number;
+  waitlist: number;
+  /** Students waiting per seat offered */
+  waitlistRatio: number;
+  /** Open seats across all sections of the course */
+  openSeats: number;
+  /** Waitlisted students that open sibling seats cannot absorb */
+  unmetDemand: number;
+  /** Median section maximum */
+  typicalCap: number;
+  additionalSections: number;
+  imbalances: WaitlistImbalance[];
+}
+
+export interface WaitlistDemandReport {
+  /** Courses with anyone waiting, highest waitlist-to-capacity ratio first */
+  courses: CourseWaitlistDemand[];
+  totalWaitlist: number;
+  sectionsWithWaitlist: number;
+  imbalances: WaitlistImbalance[];
+  additionalSections: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function openSeatsOf(course: Course): number {
+  return Math.max(0, course.enrollment.maximum - course.enrollment.current);
+}
+
+export function isFullWithWaitlist(course: Course): boolean {
+  return course.enrollment.waitlist > 0 && openSeatsOf(course) === 0;
+}
+
+function siblingKey(course: Course): string {
+  return `${course.campus}|${course.delivery}`;
+}
+
+function analyzeCourse(courseCode: string, sections: Course[]): CourseWaitlistDemand {
+  const capacity = sections.reduce((sum, s) => sum + s.enrollment.maximum, 0);
+  const enrollment = sections.reduce((sum, s) => sum + s.enrollment.current, 0);
+  const waitlist = sections.reduce((sum, s) => sum + s.enrollment.waitlist, 0);
+  const openSeats = sections.reduce((sum, s) => sum + openSeatsOf(s), 0);
+
+  const siblingGroups = new Map<string, Course[]>();
+  for (const section of sections) {
+    const key = siblingKey(section);
+    siblingGroups.set(key, [...(siblingGroups.get(key) ?? []), section]);
+  }
+
+  const imbalances: WaitlistImbalance[] = [];
+  let unmetDemand = 0;
+  for (const group of siblingGroups.values()) {
+    const openSiblings = group.filter((s) => openSeatsOf(s) > 0);
+    const groupOpenSeats = openSiblings.reduce((sum, s) => sum + openSeatsOf(s), 0);
+    const groupWaitlist = group.reduce((sum, s) => sum + s.enrollment.waitlist, 0);
+    if (openSiblings.length > 0) {
+      for (const section of group.filter(isFullWithWaitlist)) {
+        imbalances.push({ section, openSiblings, openSeats: groupOpenSeats });
+      }
+    }
+    unmetDemand += Math.max(0, groupWaitlist - groupOpenSeats);
+  }
+
+  const caps = sections.map((s) => s.enrollment.maximum).filter((max) => max > 0);
+  const typicalCap = caps.length > 0 ? Math.round(median(caps)) : 0;
+
+  return {
+    courseCode,
+    title: sections[0].title,
+    sections,
+    capacity,
+    enrollment,
+    waitlist,
+    waitlistRatio: capacity > 0 ? waitlist / capacity : 0,
+    openSeats,
+    unmetDemand,
+    typicalCap,
+    additionalSections: unmetDemand > 0 && typicalCap > 0 ? Math.ceil(unmetDemand / typicalCap) : 0,
+    imbalances,
+  };
+}
+
+/**
+ * Rank courses by waitlist pressure and estimate the sections needed
+ */
+export function analyzeWaitlistDemand(courses: Course[]): WaitlistDemandReport {
+  const byCourse = new Map<string, Course[]>();
+  for (const course of courses) {
+    const list = byCourse.get(course.displayCode) ?? [];
+    list.push(course);
+    byCourse.set(course.displayCode, list);
+  }
+
+  const demand = Array.from(byCourse.entries())
+    .map(([courseCode, sections]) => analyzeCourse(courseCode, sections))
+    .filter((c) => c.waitlist > 0)
+    .sort(
+      (a, b) =>
+        b.waitlistRatio - a.waitlistRatio || b.waitlist - a.waitlist || a.courseCode.localeCompare(b.courseCode)
+    );
+
+  return {
+    courses: demand,
+    totalWaitlist: demand.reduce((sum, c) => sum + c.waitlist, 0),
+    sectionsWithWaitlist: courses.filter((c) => c.enrollment.waitlist > 0).length,
+    imbalances: demand.flatMap((c) => c.imbalances),
+    additionalSections: demand.reduce((sum, c) => sum + c.additionalSections, 0),
+  };
+}
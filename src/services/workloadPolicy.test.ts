@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeAnnualWorkload,
+  computeSectionLoad,
+  DEFAULT_WORKLOAD_POLICY,
+  isValidPolicyValue,
+  parseWorkloadPolicy,
+} from './workloadPolicy';
+import { buildFacultyProfileIndex } from './facultyAvailability';
+import { parseScheduleData } from './scheduleParser';
+import { mockBannerCourse } from '../test/mocks/scheduleData';
+import type { Course, Meeting } from '../types/schedule';
+
+describe('workloadPolicy', () => {
+  // Doe, Jane (jdoe@ewu.edu) teaches CSCD 110 MTWRF 8:00-8:50, 5 credits
+  const [lecture] = parseScheduleData({ success: true, totalCount: 1, data: [mockBannerCourse] });
+
+  const withLab = (course: Course): Course => {
+    const lab: Meeting = {
+      ...course.meetings[0],
+      days: ['tuesday'],
+      startMinutes: 780,
+      endMinutes: 930,
+      durationMinutes: 150,
+      type: 'LAB',
+    };
+    return { ...course, meetings: [...course.meetings, lab] };
+  };
+
+  it('turns meeting minutes into contact hours and weights labs', () => {
+    expect(computeSectionLoad(lecture).units).toBe(5);
+
+    const load = computeSectionLoad(withLab(lecture));
+    expect(load.lectureHours).toBe(5);
+    expect(load.labHours).toBe(3);
+    expect(load.units).toBe(7.01);
+  });
+
+  it('falls back to credits for sections without timed meetings', () => {
+    const arranged = { ...lecture, meetings: [] };
+    expect(computeSectionLoad(arranged).units).toBe(5);
+    expect(
+      computeSectionLoad(arranged, { ...DEFAULT_WORKLOAD_POLICY, unscheduledUsesCredits: false }).units
+    ).toBe(0);
+  });
+
+  it('counts a stacked 400/500 pair once', () => {
+    const base = { ...lecture, id: 'a', crn: 'a', courseNumber: '410', displayCode: 'CSCD 410' };
+    const stacked = { ...lecture, id: 'b', crn: 'b', courseNumber: '510', displayCode: 'CSCD 510' };
+
+    const [doe] = computeAnnualWorkload(new Map([['202540', [base, stacked]]]));
+    expect(doe.teachingUnits).toBe(5);
+    expect(doe.sections.find((s) => s.crn === 'b')?.stackedWith).toBe('CSCD 410');
+
+    const [counted] = computeAnnualWorkload(
+      new Map([['202540', [base, stacked]]]),
+      { ...DEFAULT_WORKLOAD_POLICY, countStackedOnce: false }
+    );
+    expect(counted.teachingUnits).toBe(10);
+  });
+
+  it('flags loads against the FTE target including release time', () => {
+    const terms = new Map([
+      ['202540', [lecture]],
+      ['202610', [{ ...lecture, id: 'w', crn: 'w', term: '202610' }]],
+    ]);
+
+    const [fullTime] = computeAnnualWorkload(terms);
+    expect(fullTime.termUnits).toEqual({ '202540': 5, '202610': 5 });
+    expect(fullTime.targetUnits).toBe(36);
+    expect(fullTime.variance).toBe(-26);
+    expect(fullTime.status).toBe('underload');
+
+    const profiles = buildFacultyProfileIndex([
+      {
+        email: 'jdoe@ewu.edu',
+        displayName: 'Doe, Jane',
+        unavailable: [],
+        preferredDays: [],
+        fte: 0.25,
+        releaseUnits: 4,
+        releaseReason: 'Grant',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      },
+    ]);
+    const [partTime] = computeAnnualWorkload(terms, DEFAULT_WORKLOAD_POLICY, profiles);
+    expect(partTime.targetUnits).toBe(9);
+    expect(partTime.totalUnits).toBe(14);
+    expect(partTime.status).toBe('overload');
+  });
+
+  it('rejects a zero contact hour and resets invalid stored fields', () => {
+    expect(isValidPolicyValue('minutesPerContactHour', 0)).toBe(false);
+    expect(isValidPolicyValue('minutesPerContactHour', 55)).toBe(true);
+    expect(isValidPolicyValue('tolerance', 0)).toBe(true);
+    expect(isValidPolicyValue('labWeight', -1)).toBe(false);
+
+    const policy = parseWorkloadPolicy({ minutesPerContactHour: 0, labWeight: 1, tolerance: 'x', countStackedOnce: false });
+    expect(policy).toEqual({ ...DEFAULT_WORKLOAD_POLICY, labWeight: 1, countStackedOnce: false });
+    expect(Number.isFinite(computeSectionLoad(lecture, policy).units)).toBe(true);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * =============================================================================
+ * SERVICE: workloadPolicy
+ * =============================================================================
+ *
+ * PURPOSE: Compute annual instructional load units per instructor across the
+ * fall, winter and spring term files, and flag overloads and underloads
+ * against each person's FTE target.
+ *
+ * RULES:
+ * - A section's load is its weekly contact hours: meeting days x
+ *   Meeting.durationMinutes / minutesPerContactHour, summed over meetings
+ * - LAB meetings are weighted by labWeight (a 3-hour lab is not three
+ *   lecture hours of load)
+ * - Sections without timed meetings (online async, independent study) fall
+ *   back to their credits when unscheduledUsesCredits is set
+ * - The 500-level copy of a stacked 400/500 pair carries no load of its own
+ * - Release units from the faculty profile count toward the target
+ *
+ * =============================================================================
+ */
+
+import type { Course } from '../types/schedule';
+import { isLabMeetingType } from '../constants/roomFeatures';
+import { findStackedPairs } from './stackedCourseDetector';
+import {
+  getProfileForInstructor,
+  normalizeEmail,
+  type FacultyProfileIndex,
+} from './facultyAvailability';
+
+export interface WorkloadPolicy {
+  /** Scheduled minutes that make up one contact hour */
+  minutesPerContactHour: number;
+  /** Load units per lab contact hour (1 = same as lecture) */
+  labWeight: number;
+  /** Count stacked 400/500 pairs as a single section */
+  countStackedOnce: boolean;
+  /** Annual units expected of a 1.0 FTE instructor */
+  fullTimeAnnualUnits: number;
+  /** Units either side of the target that still count as balanced */
+  tolerance: number;
+  /** Use credits as the load of sections with no timed meetings */
+  unscheduledUsesCredits: boolean;
+}
+
+export const DEFAULT_WORKLOAD_POLICY: WorkloadPolicy = {
+  minutesPerContactHour: 50,
+  labWeight: 0.67,
+  countStackedOnce: true,
+  fullTimeAnnualUnits: 36,
+  tolerance: 2,
+  unscheduledUsesCredits: true,
+};
+
+/**
+ * Whether a value is allowed for a numeric policy field. Minutes per
+ * contact hour divides every meeting, so it must be above zero.
+ */
+export function isValidPolicyValue(field: keyof WorkloadPolicy, value: unknown): boolean {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return false;
+  return field === 'minutesPerContactHour' ? value > 0 : value >= 0;
+}
+
+/**
+ * A policy from storage, with any missing or invalid field reset to its default
+ */
+export function parseWorkloadPolicy(saved: unknown): WorkloadPolicy {
+  const policy = { ...DEFAULT_WORKLOAD_POLICY };
+  if (!saved || typeof saved !== 'object') return policy;
+
+  const values = saved as Record<string, unknown>;
+  for (const field of Object.keys(DEFAULT_WORKLOAD_POLICY) as (keyof WorkloadPolicy)[]) {
+    const value = values[field];
+    if (typeof DEFAULT_WORKLOAD_POLICY[field] === 'boolean') {
+      if (typeof value === 'boolean') Object.assign(policy, { [field]: value });
+    } else if (isValidPolicyValue(field, value)) {
+      Object.assign(policy, { [field]: value });
+    }
+  }
+  return policy;
+}
+
+export type WorkloadStatus = 'overload' | 'underload' | 'balanced';
+
+export interface SectionLoad {
+  term: string;
+  crn: string;
+  displayCode: string;
+  section: string;
+  lectureHours: number;
+  labHours: number;
+  units: number;
+  /** Base section's display code when this is the stacked copy of a pair */
+  stackedWith?: string;
+}
+
+export interface InstructorWorkload {
+  /** Lower-cased email, or the display name when Banner has no email */
+  key: string;
+  name: string;
+  email: string;
+  fte: number;
+  targetUnits: number;
+  teachingUnits: number;
+  releaseUnits: number;
+  releaseReason?: string;
+  totalUnits: number;
+  /** totalUnits - targetUnits */
+  variance: number;
+  status: WorkloadStatus;
+  termUnits: Record<string, number>;
+  sections: SectionLoad[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Load units for a single section under the policy
+ */
+export function computeSectionLoad(
+  course: Course,
+  policy: WorkloadPolicy = DEFAULT_WORKLOAD_POLICY
+): SectionLoad {
+  let lectureHours = 0;
+  let labHours = 0;
+
+  for (const meeting of course.meetings) {
+    if (meeting.days.length === 0 || meeting.durationMinutes <= 0) continue;
+    const hours = (meeting.days.length * meeting.durationMinutes) / policy.minutesPerContactHour;
+    if (isLabMeetingType(meeting.type)) labHours += hours;
+    else lectureHours += hours;
+  }
+
+  const scheduled = lectureHours + labHours > 0;
+  const units = scheduled
+    ? lectureHours + labHours * policy.labWeight
+    : policy.unscheduledUsesCredits ? course.credits : 0;
+
+  return {
+    term: course.term,
+    crn: course.crn,
+    displayCode: course.displayCode,
+    section: course.section,
+    lectureHours: round2(lectureHours),
+    labHours: round2(labHours),
+    units: round2(units),
+  };
+}
+
+export function getWorkloadStatus(variance: number, tolerance: number): WorkloadStatus {
+  if (variance > tolerance) return 'overload';
+  if (variance < -tolerance) return 'underload';
+  return 'balanced';
+}
+
+/**
+ * Annual workload per instructor for the given terms (normally the fall,
+ * winter and spring of one academic year), sorted by variance from target,
+ * most overloaded first
+ */
+export function computeAnnualWorkload(
+  termCourses: Map<string, Course[]>,
+  policy: WorkloadPolicy = DEFAULT_WORKLOAD_POLICY,
+  profiles: FacultyProfileIndex = new Map()
+): InstructorWorkload[] {
+  const byInstructor = new Map<string, InstructorWorkload>();
+
+  for (const [term, courses] of termCourses) {
+    const stackedBase = new Map<string, Course>();
+    if (policy.countStackedOnce) {
+      for (const info of findStackedPairs(courses).values()) {
+        stackedBase.set(info.stackedCourse.crn, info.baseCourse);
+      }
+    }
+
+    for (const course of courses) {
+      const instructor = course.instructor;
+      if (!instructor?.displayName) continue;
+
+      const key = instructor.email ? normalizeEmail(instructor.email) : instructor.displayName;
+      let entry = byInstructor.get(key);
+      if (!entry) {
+        const profile = getProfileForInstructor(profiles, instructor);
+        const fte = profile?.fte ?? 1;
+        entry = {
+          key,
+          name: instructor.displayName,
+          email: instructor.email,
+          fte,
+          targetUnits: round2(fte * policy.fullTimeAnnualUnits),
+          teachingUnits: 0,
+          releaseUnits: profile?.releaseUnits ?? 0,
+          releaseReason: profile?.releaseReason,
+          totalUnits: 0,
+          variance: 0,
+          status: 'balanced',
+          termUnits: {},
+          sections: [],
+        };
+        byInstructor.set(key, entry);
+      }
+
+      const load = computeSectionLoad(course, policy);
+      const base = stackedBase.get(course.crn);
+      if (base) {
+        load.units = 0;
+        load.stackedWith = base.displayCode;
+      }
+
+      entry.sections.push(load);
+      entry.teachingUnits += load.units;
+      entry.termUnits[term] = round2((entry.termUnits[term] ?? 0) + load.units);
+    }
+  }
+
+  const workloads = Array.from(byInstructor.values()).map((entry) => {
+    const teachingUnits = round2(entry.teachingUnits);
+    const totalUnits = round2(teachingUnits + entry.releaseUnits);
+    const variance = round2(totalUnits - entry.targetUnits);
+    return {
+      ...entry,
+      teachingUnits,
+      totalUnits,
+      variance,
+      status: getWorkloadStatus(variance, policy.tolerance),
+    };
+  });
+
+  return workloads.sort((a, b) => b.variance - a.variance || a.name.localeCompare(b.name));
+}
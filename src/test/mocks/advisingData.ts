@@ -0,0 +1,75 @@
+import type { CompletedCourse, CourseRequirement, DegreeProgram, LetterGrade } from '../../types/advising';
+import type { CatalogIndexFile, CatalogListing } from '../../types/catalog';
+import { parsePrerequisites } from '../../services/prerequisiteParser';
+
+// A 5-credit core course offered every regular quarter
+export function requirement(
+  courseCode: string,
+  prerequisites: string[] = [],
+  overrides: Partial<CourseRequirement> = {}
+): CourseRequirement {
+  return {
+    courseCode,
+    title: `Title ${courseCode}`,
+    credits: 5,
+    type: 'core',
+    prerequisites,
+    corequisites: [],
+    minimumGrade: 'C',
+    typicalQuarters: ['fall', 'winter', 'spring'],
+    typicalCampuses: ['Cheney'],
+    ...overrides,
+  };
+}
+
+export function program(coreCourses: CourseRequirement[], overrides: Partial<DegreeProgram> = {}): DegreeProgram {
+  return {
+    slug: 'test-bs',
+    name: 'Test, BS',
+    degreeType: 'BS',
+    department: 'Test',
+    totalCredits: 180,
+    minimumGPA: 2,
+    coreCourses,
+    electiveGroups: [],
+    supportCourses: [],
+    specialRequirements: [],
+    catalogUrl: '',
+    catalogYear: '2024-2025',
+    lastUpdated: '2025-01-01',
+    ...overrides,
+  };
+}
+
+// A 5-credit course on a persona's record, taken in Fall 2025
+export function taken(
+  courseCode: string,
+  grade: LetterGrade | null,
+  overrides: Partial<CompletedCourse> = {}
+): CompletedCourse {
+  return { courseCode, term: '202540', grade, credits: 5, isTransfer: false, ...overrides };
+}
+
+// A catalog listing with its prerequisite prose already parsed
+export function listing(code: string, prerequisites?: string, overrides: Partial<CatalogListing> = {}): CatalogListing {
+  return {
+    code,
+    title: code,
+    credits: '5',
+    prerequisites,
+    prerequisiteTree: parsePrerequisites(prerequisites),
+    url: '',
+    edition: '2025-2026',
+    ...overrides,
+  };
+}
+
+export function catalogIndex(listings: CatalogListing[], aliases: Record<string, string> = {}): CatalogIndexFile {
+  return {
+    schemaVersion: 2,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    editions: ['2025-2026'],
+    listings: Object.fromEntries(listings.map((l) => [l.code, l])),
+    aliases,
+  };
+}
@@ -453,6 +453,9 @@ export interface PrerequisiteNode {
   /** Courses that require this one as a prerequisite */
   dependents: string[];
 
+  /** Grade that completes the course: the program's minimum, else any passing grade */
+  minimumGrade: LetterGrade;
+
   /** Depth in the prerequisite tree (0 = no prerequisites) */
   depth: number;
 
@@ -481,6 +484,9 @@ export interface PrerequisiteGraph {
 
   /** Maximum depth of any chain */
   maxDepth: number;
+
+  /** Prerequisite loops found in the data (each listed once, in chain order) */
+  cycles: string[][];
 }
 
 // =============================================================================
@@ -499,7 +505,8 @@ export type StudentConflictType =
   | 'cross-campus'       // Back-to-back classes on different campuses
   | 'insufficient-gap'   // Not enough time to walk between classes
   | 'prerequisite'       // Trying to take course without prerequisites
-  | 'corequisite';       // Missing required corequisite
+  | 'corequisite'        // Missing required corequisite
+  | 'credit-limit';      // More credits than the persona may take
 
 /**
  * A schedule conflict specific to a student's plan
@@ -601,6 +608,9 @@ export interface CommuteAnalysis {
   /** Day of week */
   day: string;
 
+  /** Buildings visited in class order */
+  buildings: string[];
+
   /** Total walking time in minutes */
   totalWalkingMinutes: number;
 
@@ -611,7 +621,9 @@ export interface CommuteAnalysis {
   transitions: {
     from: string;         // Building/location
     to: string;           // Building/location
-    walkingMinutes: number;
+    fromCourse: string;   // Course code of the earlier class
+    toCourse: string;     // Course code of the later class
+    walkingMinutes: number; // -1 for cross-campus (see getWalkingTime)
     gapMinutes: number;   // Time between classes
     isTight: boolean;     // Less than walking time + 5 min buffer
   }[];
@@ -0,0 +1,110 @@
+/**
+ * Catalog course listing types - snapshots of catalog.ewu.edu course listing
+ * pages (data/catalog/course-listings/<edition>/<SUBJ>/<level>.json)
+ */
+
+import type { LetterGrade } from './advising';
+
+/**
+ * Prerequisite prose as a boolean expression tree
+ *
+ * "CSCD 210 and (MATH 161 or MATH 142) with a grade of C or better" →
+ * and(CSCD 210 ≥ C, or(MATH 161 ≥ C, MATH 142 ≥ C))
+ */
+export type PrerequisiteExpression =
+  | {
+      type: 'course';
+      courseCode: string;
+      /** Lowest grade that counts (any passing grade when absent) */
+      minimumGrade?: LetterGrade;
+      /** May be taken in the same quarter */
+      concurrent: boolean;
+    }
+  | { type: 'and'; operands: PrerequisiteExpression[] }
+  | { type: 'or'; operands: PrerequisiteExpression[] }
+  /** Someone has to sign off, e.g. "permission of instructor" */
+  | { type: 'permission'; text: string }
+  /** Anything else that can't be checked from a transcript, e.g. "APE clearance" */
+  | { type: 'condition'; text: string };
+
+export interface ParsedPrerequisites {
+  /** null when there is no prose or it couldn't be parsed at all */
+  expression: PrerequisiteExpression | null;
+  /** Prose the parser didn't recognize, for manual review */
+  unparsed: string[];
+}
+
+export interface CatalogCourse {
+  /** e.g., "CSCD 210" */
+  code: string;
+  number: number;
+  /** Course title (catalog capitalization may vary) */
+  title: string;
+  /** Credits text (e.g., "5" or "1-5") */
+  credits: string;
+  description_summary?: string;
+  description?: string;
+  /** Prerequisite prose, verbatim or near-verbatim */
+  prerequisites?: string;
+  corequisites?: string;
+  notes?: string;
+  satisfies?: string;
+  links: {
+    search: string;
+    listing_fallback?: string;
+    listing_highlight?: string;
+  };
+}
+
+export interface CatalogCourseListingsFile {
+  schemaVersion: string;
+  catalog: {
+    institution: string;
+    edition: string;
+    college: string;
+    department: string;
+    subjectCode: string;
+    source: {
+      listing_url: string;
+      retrieved_at: string;
+      deep_link_pattern: string;
+      notes?: string;
+    };
+    fields: string[];
+    courses: CatalogCourse[];
+    level_filter?: string;
+    course_count?: number;
+  };
+}
+
+/**
+ * One course in the built catalog index, with the fields the UI shows
+ */
+export interface CatalogListing {
+  code: string;
+  title: string;
+  /** Credits text as the catalog prints it (e.g., "5" or "1-5") */
+  credits: string;
+  description?: string;
+  prerequisites?: string;
+  /** `prerequisites` parsed by prerequisiteParser when the index is built */
+  prerequisiteTree?: ParsedPrerequisites;
+  corequisites?: string;
+  notes?: string;
+  /** Catalog search deep link for the course */
+  url: string;
+  edition: string;
+}
+
+/**
+ * src/data/catalog/course-index.json, generated by `npm run build:catalog`
+ */
+export interface CatalogIndexFile {
+  schemaVersion: 2;
+  generatedAt: string;
+  editions: string[];
+  /** Listings keyed by course code */
+  listings: Record<string, CatalogListing>;
+  /** Alias or cross-listed code → the code its listing is filed under */
+  aliases: Record<string, string>;
+}
@@ -0,0 +1,70 @@
+/**
+ * What-If draft types - edits layered on top of the live schedule
+ */
+
+import type { CampusType, Course, Instructor, Meeting } from './schedule';
+
+// Types for course modifications
+export interface CourseModification {
+  courseId: string;
+  changes: {
+    instructor?: Instructor | null;
+    meetings?: Meeting[];
+    campus?: CampusType;
+  };
+  modifiedAt: Date;
+}
+
+// Runtime state
+export interface DraftState {
+  isEditMode: boolean;
+  modifications: Map<string, CourseModification>;
+  cancelledIds: Set<string>;
+  addedCourses: Course[];
+  lastModified: Date | null;
+}
+
+// The edits themselves, without the editor's mode flags
+export type DraftChanges = Pick<DraftState, 'modifications' | 'cancelledIds' | 'addedCourses'>;
+
+export type DraftCourseState = 'live' | 'modified' | 'cancelled' | 'added';
+
+// Draft course with state indicator
+export type DraftCourse = Course & { _draftState: DraftCourseState };
+
+export type DraftAuditAction =
+  | 'modify'
+  | 'cancel'
+  | 'restore'
+  | 'revert'
+  | 'add'
+  | 'remove-added'
+  | 'reset'
+  | 'import'
+  | 'undo'
+  | 'redo';
+
+// One line of a scenario's change log: who did what, and when
+export interface DraftAuditEntry {
+  id: string;
+  at: Date;
+  author: string;
+  action: DraftAuditAction;
+  courseId: string | null;
+  /** e.g. "CSCD 211-001"; null for actions on the whole draft */
+  courseCode: string | null;
+  summary: string;
+}
+
+// A named set of draft changes for one term
+export interface DraftScenario extends DraftChanges {
+  id: string;
+  name: string;
+  termCode: string;
+  /** Incremented on every edit, so two copies of a plan can be told apart */
+  version: number;
+  createdAt: Date;
+  lastModified: Date | null;
+  /** Every edit made to the scenario, oldest first */
+  auditLog: DraftAuditEntry[];
+}
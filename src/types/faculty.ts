@@ -0,0 +1,54 @@
+/**
+ * Faculty profile types - availability and teaching preferences per instructor
+ */
+
+import type { CampusType, DayOfWeek } from './schedule';
+
+/**
+ * A recurring weekly window when an instructor cannot (hard) or would rather
+ * not (soft) teach, e.g. a committee meeting or a research day
+ */
+export interface UnavailableWindow {
+  id: string;
+  days: DayOfWeek[];
+  startMinutes: number;
+  endMinutes: number;
+  reason: string;
+  /** Hard windows are blackouts; soft windows are preferences */
+  hard: boolean;
+  /**
+   * When set, the instructor is only unavailable at other campuses during this
+   * window (e.g. "Spokane-only Tuesdays")
+   */
+  allowedCampus?: CampusType;
+}
+
+export interface FacultyProfile {
+  /** Instructor.email, lower-cased - the profile key */
+  email: string;
+  displayName: string;
+  unavailable: UnavailableWindow[];
+  /** Days the instructor prefers to teach; empty means no preference */
+  preferredDays: DayOfWeek[];
+  /** Maximum distinct courses (preps) per quarter */
+  maxPreps?: number;
+  campusPreference?: CampusType;
+  /** Appointment as a fraction of full time (1 = full time); defaults to 1 */
+  fte?: number;
+  /** Annual load units released for chair duties, grants, etc. */
+  releaseUnits?: number;
+  releaseReason?: string;
+  notes?: string;
+  updatedAt: string;
+}
+
+export type FacultyProfileAction =
+  | { type: 'UPSERT_PROFILE'; payload: FacultyProfile }
+  | { type: 'DELETE_PROFILE'; payload: string } // payload is email
+  | { type: 'LOAD_STATE'; payload: FacultyProfile[] }
+  | { type: 'CLEAR_ALL' };
+
+export interface FacultyProfileState {
+  profiles: FacultyProfile[];
+  loading: boolean;
+}
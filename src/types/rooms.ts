@@ -0,0 +1,26 @@
+/**
+ * Room inventory types - capacity and teaching features per physical room
+ */
+
+export type RoomFeature = 'computer-lab' | 'lab-benches' | 'lecture-hall';
+
+export interface RoomRecord {
+  /** Location string as it appears on Meeting.location (e.g., "CAT 219") */
+  location: string;
+  building: string;
+  room: string;
+  /** Seats: largest combined maximumEnrollment ever scheduled in one meeting slot */
+  capacity: number;
+  features: RoomFeature[];
+  /** Number of section meetings observed in this room across all terms */
+  sectionCount: number;
+  /** Most recent term the room was scheduled */
+  lastSeenTerm: string;
+}
+
+export interface RoomInventoryFile {
+  schemaVersion: 1;
+  generatedAt: string;
+  sourceTerms: string[];
+  rooms: RoomRecord[];
+}
@@ -168,6 +168,9 @@ export interface Meeting {
   location: string;
   type: string;
   typeDescription: string;
+  /** First and last class dates from Banner (MM/DD/YYYY) */
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface CourseAttribute {
@@ -203,6 +206,7 @@ export interface ScheduleFilters {
 }
 
 export type ColorByOption = 'subject' | 'instructor' | 'delivery';
+export type ViewMode = 'week' | 'day' | 'list' | 'rooms';
 
 // Course grouping types - for corequisites and stacked courses
 export interface CourseGroup {
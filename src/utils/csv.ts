@@ -0,0 +1,11 @@
+/**
+ * Quote a value for CSV when it contains a delimiter, quote or newline
+ */
+export function toCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number>>): string {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\n');
+}